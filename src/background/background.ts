@@ -1,9 +1,22 @@
 // Background service worker for Chrome element screenshot extension
 
 import { MessageRouter, sendMessageToTab } from '../utils/messageHandler';
-import { MessageType, UserSettings, CaptureScreenshotPayload, ElementSelectedPayload, ScreenshotSession, ScreenshotError } from '../types';
+import { MessageType, UserSettings, CaptureScreenshotPayload, ElementSelectedPayload, StartScreenshotPayload, CancelSessionPayload, SessionCancelledPayload, GetActiveSessionPayload, ScreenshotProgressPayload, ScreenshotSession, ScreenshotError, CaptureMode, SegmentAlignment, OutputDestination, ScreenshotOptions, PdfExportOptions, ElementInfo, CaptureProvenance, GetSavedTargetsPayload, CaptureSavedTargetPayload, DeleteSavedTargetPayload, LocateElementPayload, ElementsSelectedPayload, ScrollElementsIntoViewPayload, ElementsInView, RectBounds, CaptureProfile, FilenameContext } from '../types';
 import { ScreenshotProcessor } from '../utils/screenshotProcessor';
+import { ImagePipeline } from '../utils/imagePipeline';
+import { PerformanceOptimizer } from '../utils/performanceOptimizer';
 import { ErrorHandler, ErrorInfo } from '../utils/errorHandler';
+import { FormatRegistry } from '../utils/formatRegistry';
+import { ImageMetadata } from '../utils/imageMetadata';
+import { CaptureHistory, NewHistoryEntry, DEFAULT_HISTORY_QUOTA_MB, HISTORY_THUMBNAIL_SIZE } from '../utils/captureHistory';
+import { SavedTargets } from '../utils/savedTargets';
+import { FrameOffsets } from '../utils/frameOffsets';
+import { ZipWriter } from '../utils/zipWriter';
+import { dataUrlToBytes } from '../utils/dataUrl';
+import { DEFAULT_SETTINGS, matchesSiteList } from '../utils/settingsManager';
+import { SettingsService } from '../utils/settingsService';
+import { CaptureProfiles } from '../utils/captureProfiles';
+import { FilenameTemplate } from '../utils/filenameTemplate';
 
 // Initialize message router
 const messageRouter = new MessageRouter();
@@ -11,12 +24,17 @@ const messageRouter = new MessageRouter();
 // Active screenshot sessions
 const activeSessions = new Map<string, ScreenshotSession>();
 
+// Abort controllers for sessions that are still running
+const sessionControllers = new Map<string, AbortController>();
+
 // Extension lifecycle management
 chrome.runtime.onInstalled.addListener(() => {
   console.log('Chrome元素截圖工具已安裝');
 
-  // Initialize default settings
-  initializeDefaultSettings();
+  // Bring settings saved by older versions up to the current schema
+  SettingsService.migrateStorage().catch(error => {
+    console.error('Failed to migrate settings:', error);
+  });
 });
 
 // Setup message handlers
@@ -25,29 +43,6 @@ setupMessageHandlers();
 // Setup message listener
 messageRouter.setupListener();
 
-/**
- * Initialize default user settings
- */
-async function initializeDefaultSettings(): Promise<void> {
-  const defaultSettings: UserSettings = {
-    defaultFormat: 'png',
-    defaultQuality: 0.9,
-    filenameTemplate: 'screenshot_{timestamp}',
-    autoDownload: true,
-    showProgress: true,
-    highlightColor: '#ff0000'
-  };
-
-  try {
-    const result = await chrome.storage.sync.get('userSettings');
-    if (!result.userSettings) {
-      await chrome.storage.sync.set({ userSettings: defaultSettings });
-    }
-  } catch (error) {
-    console.error('Failed to initialize settings:', error);
-  }
-}
-
 /**
  * Setup message handlers for different message types
  */
@@ -60,8 +55,7 @@ function setupMessageHandlers(): void {
   // Get user settings
   messageRouter.register(MessageType.GET_SETTINGS, async () => {
     try {
-      const result = await chrome.storage.sync.get('userSettings');
-      return result.userSettings;
+      return await SettingsService.load();
     } catch (error) {
       throw new Error(`Failed to get settings: ${error}`);
     }
@@ -70,28 +64,26 @@ function setupMessageHandlers(): void {
   // Update user settings
   messageRouter.register(MessageType.UPDATE_SETTINGS, async (settings: Partial<UserSettings>) => {
     try {
-      const result = await chrome.storage.sync.get('userSettings');
-      const currentSettings = result.userSettings || {};
-      const updatedSettings = { ...currentSettings, ...settings };
-
-      await chrome.storage.sync.set({ userSettings: updatedSettings });
-      return updatedSettings;
+      return await SettingsService.update(settings);
     } catch (error) {
       throw new Error(`Failed to update settings: ${error}`);
     }
   });
 
   // Start screenshot mode
-  messageRouter.register(MessageType.START_SCREENSHOT, async (_payload, sender) => {
-    console.log('Starting screenshot mode for tab:', sender.tab?.id);
+  messageRouter.register(MessageType.START_SCREENSHOT, async (payload: StartScreenshotPayload = {}, sender) => {
+    const tabId = sender.tab?.id ?? payload.tabId;
+    console.log('Starting screenshot mode for tab:', tabId);
 
-    if (!sender.tab?.id) {
+    if (!tabId) {
       throw new Error('No tab ID available');
     }
 
     try {
       // Send message to content script to start screenshot mode
-      await sendMessageToTab(sender.tab.id, MessageType.START_SCREENSHOT_MODE, {});
+      await sendMessageToTab(tabId, MessageType.START_SCREENSHOT_MODE, {
+        captureMode: payload.captureMode ?? 'element'
+      });
       return { success: true, status: 'screenshot_mode_started' };
     } catch (error) {
       console.error('Failed to start screenshot mode:', error);
@@ -117,6 +109,14 @@ function setupMessageHandlers(): void {
     }
   });
 
+  // A frame left selection mode (ESC); the other frames of the tab follow
+  messageRouter.register(MessageType.EXIT_SCREENSHOT_MODE, async (_payload, sender) => {
+    if (sender.tab?.id) {
+      await sendMessageToTab(sender.tab.id, MessageType.EXIT_SCREENSHOT_MODE, {});
+    }
+    return { status: 'screenshot_mode_exited' };
+  });
+
   // Handle element selection and trigger screenshot
   messageRouter.register(MessageType.ELEMENT_SELECTED, async (payload: ElementSelectedPayload, sender) => {
     if (!sender.tab?.id) {
@@ -124,36 +124,58 @@ function setupMessageHandlers(): void {
     }
 
     try {
-      // Get user settings for screenshot options
-      const settings = await getUserSettings();
-
-      // Create screenshot options
-      const options = {
-        format: settings.defaultFormat,
-        quality: settings.defaultQuality,
-        filename: ScreenshotProcessor.generateFilename(settings.filenameTemplate, settings.defaultFormat)
-      };
-
-      // Determine if this should be a long screenshot
-      const isLongScreenshot = payload.elementInfo.isScrollable &&
-        payload.elementInfo.totalHeight > payload.elementInfo.visibleHeight * 1.5;
-
-      // Create capture payload
+      const profile = await findCaptureProfile(sender.tab.url);
+      const options = await createScreenshotOptions(profile);
+      const frameId = sender.frameId ?? 0;
+
+      // Elements picked in a child frame are moved onto the tab's viewport
+      const elementInfo = frameId === 0
+        ? payload.elementInfo
+        : await placeFrameElement(sender.tab.id, frameId, payload.elementInfo);
+
+      // Full page captures always scroll; element captures only when the content is long (on either axis)
+      // and the site's profile allows it. Scrolling works on the top document, so framed elements are
+      // captured as they are shown.
+      const captureMode = frameId === 0 ? resolveCaptureMode(payload) : 'element';
+      const isLongScreenshot = captureMode === 'fullPage' || (frameId === 0 && captureMode === 'element' &&
+        profile?.longScreenshot !== 'off' && elementInfo.isScrollable && (
+          elementInfo.totalHeight > elementInfo.visibleHeight * 1.5 ||
+          (elementInfo.totalWidth ?? 0) > (elementInfo.visibleWidth ?? elementInfo.boundingRect.width) * 1.5
+        ));
+
+      // Create capture payload; profile padding applies to elements that fit on screen
       const capturePayload: CaptureScreenshotPayload = {
-        elementInfo: payload.elementInfo,
-        options
+        elementInfo: profile?.padding && captureMode === 'element' && !isLongScreenshot
+          ? CaptureProfiles.padElement(elementInfo, profile.padding)
+          : elementInfo,
+        options,
+        captureMode
       };
+      if (profile?.keepHeader !== undefined) {
+        capturePayload.keepHeaderOnFirstSegment = profile.keepHeader;
+      }
 
       // Trigger appropriate screenshot capture
-      const result = isLongScreenshot
-        ? await captureLongScreenshot(sender.tab.id, capturePayload)
-        : await captureElementScreenshot(sender.tab.id, capturePayload);
+      const tabId = sender.tab.id;
+      const result = await withHiddenElements(tabId, profile?.hiddenSelectors ?? [], () => isLongScreenshot
+        ? captureLongScreenshot(tabId, capturePayload)
+        : captureElementScreenshot(tabId, capturePayload));
+
+      // Element captures can be repeated later from the popup; saved targets are found in the top frame
+      if (!result.cancelled && captureMode === 'element' && frameId === 0) {
+        await saveTarget(sender.tab, elementInfo);
+      }
 
       return {
-        status: 'screenshot_captured',
+        status: result.cancelled ? 'screenshot_cancelled' : 'screenshot_captured',
         filename: result.filename,
         sessionId: result.sessionId,
-        isLongScreenshot
+        isLongScreenshot,
+        captureMode,
+        ...(result.copiedToClipboard ? { copiedToClipboard: true } : {}),
+        ...(result.performanceReport ? { performanceReport: result.performanceReport } : {}),
+        ...('filenames' in result ? { filenames: result.filenames } : {}),
+        ...('alignments' in result ? { alignments: result.alignments } : {})
       };
     } catch (error) {
       console.error('Failed to handle element selection:', error);
@@ -161,23 +183,124 @@ function setupMessageHandlers(): void {
     }
   });
 
-  // Handle direct screenshot capture requests
-  messageRouter.register(MessageType.CAPTURE_SCREENSHOT, async (payload: CaptureScreenshotPayload, sender) => {
+  // Capture several elements picked with Shift+click
+  messageRouter.register(MessageType.ELEMENTS_SELECTED, async (payload: ElementsSelectedPayload, sender) => {
     if (!sender.tab?.id) {
       throw new Error('No tab ID available');
     }
+    if (!payload?.elements?.length) {
+      throw new Error('No elements selected');
+    }
 
     try {
-      const result = await captureElementScreenshot(sender.tab.id, payload);
+      // The site's profile applies as it does to single elements
+      const profile = await findCaptureProfile(sender.tab.url);
+      const options = await createScreenshotOptions(profile);
+      const padding = profile?.padding ?? 0;
+      const elements = payload.elements.map(element => CaptureProfiles.padElement(element, padding));
+
+      const tabId = sender.tab.id;
+      const result = await withHiddenElements(tabId, profile?.hiddenSelectors ?? [], () =>
+        captureMultipleElements(tabId, elements, options));
+
       return {
-        status: 'screenshot_captured',
+        status: result.cancelled ? 'screenshot_cancelled' : 'screenshot_captured',
         filename: result.filename,
-        sessionId: result.sessionId
+        sessionId: result.sessionId,
+        elementCount: payload.elements.length,
+        ...(result.copiedToClipboard ? { copiedToClipboard: true } : {}),
+        ...(result.performanceReport ? { performanceReport: result.performanceReport } : {}),
+        ...('filenames' in result ? { filenames: result.filenames } : {})
       };
     } catch (error) {
-      console.error('Failed to capture screenshot:', error);
-      throw new Error(`Screenshot capture failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Failed to handle multi-element selection:', error);
+      throw new Error(`Screenshot failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  // Handle direct screenshot capture requests
+  messageRouter.register(MessageType.CAPTURE_SCREENSHOT, async (payload: CaptureScreenshotPayload, sender) => {
+    if (!sender.tab?.id) {
+      throw new Error('No tab ID available');
+    }
+
+    return handleCaptureScreenshot(sender.tab.id, payload);
+  });
+
+  // List saved targets for the page open in a tab
+  messageRouter.register(MessageType.GET_SAVED_TARGETS, async (payload: GetSavedTargetsPayload) => {
+    const tab = await getTabDetails(payload.tabId);
+    return tab?.url ? SavedTargets.listForUrl(tab.url) : [];
+  });
+
+  // Capture a saved target again, without selection mode
+  messageRouter.register(MessageType.CAPTURE_SAVED_TARGET, async (payload: CaptureSavedTargetPayload) => {
+    const target = await SavedTargets.get(payload.targetId);
+    if (!target) {
+      throw new Error('Saved target no longer exists');
+    }
+
+    // The content script scrolls the element into view and measures it
+    const located = await sendMessageToTab<LocateElementPayload, ElementInfo>(
+      payload.tabId,
+      MessageType.LOCATE_ELEMENT,
+      { selector: target.selector, ...(target.fallbacks ? { fallbacks: target.fallbacks } : {}) }
+    );
+    if (!located.success || !located.data) {
+      console.warn('Saved target not located:', located.error);
+      throw new Error(`Element not found: ${target.selector}`);
+    }
+
+    // The site's profile applies as it does to picked elements
+    const tab = await getTabDetails(payload.tabId);
+    const profile = await findCaptureProfile(tab?.url);
+    const capturePayload: CaptureScreenshotPayload = {
+      elementInfo: profile?.padding ? CaptureProfiles.padElement(located.data, profile.padding) : located.data,
+      options: await createScreenshotOptions(profile),
+      captureMode: 'element'
+    };
+    const result = await withHiddenElements(payload.tabId, profile?.hiddenSelectors ?? [], () =>
+      handleCaptureScreenshot(payload.tabId, capturePayload));
+
+    if (result.status === 'screenshot_captured') {
+      await SavedTargets.touch(target.id);
     }
+    return result;
+  });
+
+  // Forget a saved target
+  messageRouter.register(MessageType.DELETE_SAVED_TARGET, async (payload: DeleteSavedTargetPayload) => {
+    await SavedTargets.delete(payload.targetId);
+    return { status: 'saved_target_deleted' };
+  });
+
+  // Cancel in-flight screenshot sessions
+  messageRouter.register(MessageType.CANCEL_SESSION, async (payload: CancelSessionPayload = {}, sender) => {
+    const tabId = payload.tabId ?? sender.tab?.id;
+
+    const sessionIds = payload.sessionId
+      ? [payload.sessionId]
+      : Array.from(activeSessions.values())
+          .filter(session => session.tabId === tabId)
+          .map(session => session.id);
+
+    const cancelledSessionIds = sessionIds.filter(sessionId => cancelSession(sessionId));
+
+    if (cancelledSessionIds.length === 0) {
+      throw new Error('No active screenshot session to cancel');
+    }
+
+    return { status: 'session_cancelled', sessionIds: cancelledSessionIds };
+  });
+
+  // Report the capture running in a tab, so a popup opened during it can cancel it
+  messageRouter.register(MessageType.GET_ACTIVE_SESSION, async (payload: GetActiveSessionPayload): Promise<ScreenshotProgressPayload | null> => {
+    const session = Array.from(activeSessions.values())
+      .find(candidate => candidate.tabId === payload.tabId && candidate.status === 'processing');
+
+    return session
+      ? { sessionId: session.id, progress: session.progress, status: session.progressStatus ?? '' }
+      : null;
   });
 
   // Handle manual save requests
@@ -191,33 +314,389 @@ function setupMessageHandlers(): void {
     }
   });
 }
-/*
-*
+/**
+ * Capture an element in a tab from a CAPTURE_SCREENSHOT request
+ */
+async function handleCaptureScreenshot(tabId: number, payload: CaptureScreenshotPayload) {
+  try {
+    const result = await captureElementScreenshot(tabId, payload);
+    return {
+      status: result.cancelled ? 'screenshot_cancelled' : 'screenshot_captured',
+      filename: result.filename,
+      sessionId: result.sessionId
+    };
+  } catch (error) {
+    console.error('Failed to capture screenshot:', error);
+    throw new Error(`Screenshot capture failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Screenshot options from the user's format, quality and filename settings,
+ * overridden by a capture profile's own. The filename stays a template until
+ * the capture is saved and the page details its tokens need are known.
+ */
+async function createScreenshotOptions(profile: CaptureProfile | null = null): Promise<ScreenshotOptions> {
+  const settings = await getUserSettings();
+  return {
+    format: profile?.format ?? settings.defaultFormat,
+    quality: (profile?.quality ?? settings.defaultQuality) / 100,
+    filename: profile?.filenameTemplate ?? settings.filenameTemplate
+  };
+}
+
+/**
+ * The first capture profile matching a page, if any
+ */
+async function findCaptureProfile(url: string | undefined): Promise<CaptureProfile | null> {
+  const profile = CaptureProfiles.find(await SettingsService.get('captureProfiles', []), url);
+  if (profile) {
+    console.log(`Using capture profile "${profile.name}" for`, url);
+  }
+  return profile;
+}
+
+/**
+ * Run a capture with a profile's hidden elements hidden in the top frame.
+ * Elements that fail to hide stay in the screenshot rather than failing it.
+ */
+async function withHiddenElements<T>(tabId: number, selectors: string[], capture: () => Promise<T>): Promise<T> {
+  if (selectors.length === 0) {
+    return capture();
+  }
+
+  const hidden = await sendMessageToTab(tabId, MessageType.HIDE_ELEMENTS, { selectors }, 0);
+  if (hidden.success) {
+    // Let the page repaint without them
+    await new Promise(resolve => setTimeout(resolve, 50));
+  } else {
+    console.warn('Failed to hide profile elements:', hidden.error);
+  }
+
+  try {
+    return await capture();
+  } finally {
+    const shown = await sendMessageToTab(tabId, MessageType.SHOW_HIDDEN_ELEMENTS, {}, 0);
+    if (!shown.success) {
+      console.warn('Failed to show hidden profile elements:', shown.error);
+    }
+  }
+}
+
+/**
+ * Remember a captured element as a saved target; failures never fail the capture
+ */
+async function saveTarget(tab: chrome.tabs.Tab, elementInfo: ElementInfo): Promise<void> {
+  if (!tab.url) {
+    return;
+  }
+
+  try {
+    await SavedTargets.record(tab.url, elementInfo.selector, tab.title, elementInfo.selectorFallbacks);
+  } catch (error) {
+    console.warn('Failed to save capture target:', error);
+  }
+}
+
+/**
  * Get user settings with fallback to defaults
  */
 async function getUserSettings(): Promise<UserSettings> {
   try {
-    const result = await chrome.storage.sync.get('userSettings');
-    return result.userSettings || {
-      defaultFormat: 'png',
-      defaultQuality: 0.9,
-      filenameTemplate: 'screenshot_{timestamp}',
-      autoDownload: true,
-      showProgress: true,
-      highlightColor: '#ff0000'
-    };
+    return await SettingsService.load();
   } catch (error) {
     console.error('Failed to get user settings:', error);
-    // Return default settings
-    return {
-      defaultFormat: 'png',
-      defaultQuality: 0.9,
-      filenameTemplate: 'screenshot_{timestamp}',
-      autoDownload: true,
-      showProgress: true,
-      highlightColor: '#ff0000'
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Mark a running session as cancelled and abort its capture
+ */
+function cancelSession(sessionId: string): boolean {
+  const session = activeSessions.get(sessionId);
+  const controller = sessionControllers.get(sessionId);
+
+  if (!session || !controller || session.status !== 'processing') {
+    return false;
+  }
+
+  session.status = 'cancelled';
+  session.progress = 0;
+
+  // Free captured segment data as soon as possible
+  session.segments = [];
+  delete session.result;
+
+  controller.abort();
+  return true;
+}
+
+/**
+ * Stop the current session between pipeline stages if it has been cancelled
+ */
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw ErrorHandler.createCancellationError();
+  }
+}
+
+/**
+ * Finish a cancelled session: notify the page and schedule cleanup
+ */
+async function finishCancelledSession(sessionId: string): Promise<{ sessionId: string; filename: string; cancelled: true }> {
+  const session = activeSessions.get(sessionId);
+  finishMonitoring(sessionId);
+
+  if (session) {
+    try {
+      await sendMessageToTab(session.tabId, MessageType.SESSION_CANCELLED, { sessionId });
+    } catch (error) {
+      console.warn('Failed to notify cancellation:', error);
+    }
+  }
+  await notifyPopup<SessionCancelledPayload>(MessageType.SESSION_CANCELLED, { sessionId });
+
+  sessionControllers.delete(sessionId);
+  setTimeout(() => {
+    activeSessions.delete(sessionId);
+  }, 1000);
+
+  return { sessionId, filename: '', cancelled: true };
+}
+
+/**
+ * Stop monitoring a session and keep its performance report with it
+ */
+function finishMonitoring(sessionId: string): void {
+  const metrics = PerformanceOptimizer.endMonitoring(sessionId);
+  const session = activeSessions.get(sessionId);
+
+  if (metrics && session) {
+    if (metrics.duration !== undefined) {
+      session.processingTime = Math.round(metrics.duration);
+    }
+    session.performanceReport = PerformanceOptimizer.generatePerformanceReport(sessionId);
+  }
+
+  PerformanceOptimizer.clearMetrics(sessionId);
+}
+
+/**
+ * Record the size of the encoded output, estimated from its base64 data URLs
+ */
+function recordOutputSize(sessionId: string, dataUrls: string[]): void {
+  const imageSize = dataUrls.reduce((total, dataUrl) => {
+    const base64 = dataUrl.split(',')[1] ?? '';
+    return total + Math.round(base64.length * 3 / 4);
+  }, 0);
+
+  PerformanceOptimizer.updateMetrics(sessionId, { imageSize });
+}
+
+/**
+ * Check whether the tab's site keeps fixed and sticky headers on the first long screenshot segment
+ */
+async function shouldKeepHeaderOnFirstSegment(tabId: number): Promise<boolean> {
+  try {
+    const [tab, sites] = await Promise.all([
+      chrome.tabs.get(tabId),
+      SettingsService.get('keepHeaderSites', [])
+    ]);
+    return Boolean(tab.url) && matchesSiteList(tab.url!, sites ?? []);
+  } catch (error) {
+    console.warn('Failed to read per-site header setting:', error);
+    return false;
+  }
+}
+
+/**
+ * Read the captured tab's URL, title and size, or null when it cannot be read
+ */
+async function getTabDetails(tabId: number): Promise<chrome.tabs.Tab | null> {
+  try {
+    return await chrome.tabs.get(tabId);
+  } catch (error) {
+    console.warn('Failed to read tab details for capture metadata:', error);
+    return null;
+  }
+}
+
+/**
+ * Add what paged formats need to the encode options: the page size setting
+ * and the document metadata, which records the tab's URL and the capture time
+ */
+async function resolveEncodeOptions(
+  tab: chrome.tabs.Tab | null,
+  options: ScreenshotOptions,
+  capturedAt: string
+): Promise<ScreenshotOptions> {
+  if (!FormatRegistry.get(options.format).paged) {
+    return options;
+  }
+
+  const pdf: PdfExportOptions = {
+    pageSize: await SettingsService.get('pdfPageSize', 'a4') ?? 'a4',
+    capturedAt
+  };
+  if (tab?.url) pdf.sourceUrl = tab.url;
+  if (tab?.title) pdf.title = tab.title;
+
+  return { ...options, pdf };
+}
+
+/**
+ * Gather capture provenance when the settings embed it in the output or save
+ * it as a sidecar; null when both are off
+ */
+async function resolveProvenance(
+  tab: chrome.tabs.Tab | null,
+  elementInfo: ElementInfo,
+  devicePixelRatio: number,
+  capturedAt: string
+): Promise<{ provenance: CaptureProvenance; embed: boolean; sidecar: boolean } | null> {
+  const [embed, sidecar] = await Promise.all([
+    SettingsService.get('embedMetadata', false),
+    SettingsService.get('metadataSidecar', false)
+  ]);
+  if (!embed && !sidecar) {
+    return null;
+  }
+
+  const provenance: CaptureProvenance = {
+    selector: elementInfo.selector,
+    capturedAt,
+    devicePixelRatio,
+    extensionVersion: chrome.runtime.getManifest().version
+  };
+  if (tab?.url) provenance.url = tab.url;
+  if (tab?.title) provenance.title = tab.title;
+  if (tab?.width && tab?.height) provenance.viewport = { width: tab.width, height: tab.height };
+
+  return { provenance, embed: Boolean(embed), sidecar: Boolean(sidecar) };
+}
+
+/**
+ * Expand the filename template with the captured page and element. The
+ * size is the captured area in CSS pixels; today's counter only advances
+ * for templates that use it.
+ */
+async function resolveFilename(
+  tab: chrome.tabs.Tab | null,
+  options: ScreenshotOptions,
+  elementInfo: ElementInfo,
+  size: { width: number; height: number },
+  devicePixelRatio: number,
+  capturedAt: string,
+  mode: FilenameContext['mode'] = 'element'
+): Promise<string> {
+  const date = new Date(capturedAt);
+  const context: FilenameContext = {
+    date,
+    selector: elementInfo.selector,
+    width: size.width * devicePixelRatio,
+    height: size.height * devicePixelRatio,
+    mode
+  };
+  if (tab?.url) context.url = tab.url;
+  if (tab?.title) context.title = tab.title;
+  if (elementInfo.tagName) context.tagName = elementInfo.tagName;
+  if (elementInfo.elementId) context.elementId = elementInfo.elementId;
+
+  if (FilenameTemplate.usesCounter(options.filename)) {
+    try {
+      context.counter = await FilenameTemplate.nextCounter(date);
+    } catch (error) {
+      console.warn('Failed to advance the filename counter:', error);
+    }
+  }
+
+  return ScreenshotProcessor.generateFilename(options.filename, options.format, context);
+}
+
+/**
+ * Save the provenance JSON next to the downloaded screenshot. A failed
+ * sidecar does not fail the capture.
+ */
+async function saveMetadataSidecar(provenance: CaptureProvenance, filenames: string[]): Promise<void> {
+  try {
+    await ScreenshotProcessor.downloadScreenshot(
+      ImageMetadata.createSidecar(provenance, filenames),
+      ImageMetadata.sidecarFilename(filenames[0])
+    );
+  } catch (error) {
+    console.warn('Failed to save metadata sidecar:', error);
+  }
+}
+
+/**
+ * Keep a finished capture in the history gallery, evicting old entries over
+ * the quota. History is best effort: a failure here never fails the capture.
+ */
+async function saveToHistory(
+  session: ScreenshotSession,
+  tab: chrome.tabs.Tab | null,
+  capturedAt: string,
+  images: string[],
+  previewSource: string,
+  filenames: string[]
+): Promise<void> {
+  if (!CaptureHistory.isAvailable()) {
+    return;
+  }
+
+  try {
+    const quotaMb = await SettingsService.get('historyQuotaMb', DEFAULT_HISTORY_QUOTA_MB) ?? DEFAULT_HISTORY_QUOTA_MB;
+    if (quotaMb <= 0) {
+      return;
+    }
+
+    // Previews come from the PNG before encoding, which also covers PDF output
+    const entry: NewHistoryEntry = {
+      capturedAt: Date.parse(capturedAt),
+      url: tab?.url ?? '',
+      elementInfo: session.element,
+      options: session.options,
+      filenames,
+      thumbnail: await ImagePipeline.createThumbnail(previewSource, HISTORY_THUMBNAIL_SIZE),
+      isLongScreenshot: Boolean(session.isLongScreenshot)
     };
+    if (tab?.title) entry.title = tab.title;
+
+    await CaptureHistory.add(entry, images, quotaMb * 1024 * 1024);
+  } catch (error) {
+    console.warn('Failed to save screenshot to history:', error);
+  }
+}
+
+/**
+ * Decide how a selected element is captured. Long elements that are not
+ * scroll containers themselves scroll with the page, so scrolling the element
+ * would never move the content; those are captured by scrolling the page.
+ */
+function resolveCaptureMode(payload: ElementSelectedPayload): CaptureMode {
+  const captureMode = payload.captureMode ?? 'element';
+  const { elementInfo } = payload;
+
+  if (captureMode === 'element' && elementInfo.isScrollable && elementInfo.isScrollContainer === false) {
+    return 'fullPage';
   }
+
+  return captureMode;
+}
+
+/**
+ * Move an element picked inside a child frame onto the tab's viewport. The
+ * other frames still show their selection overlay, so every frame leaves
+ * selection mode before the capture.
+ */
+async function placeFrameElement(tabId: number, frameId: number, elementInfo: ElementInfo): Promise<ElementInfo> {
+  await sendMessageToTab(tabId, MessageType.EXIT_SCREENSHOT_MODE, {});
+  const placement = await FrameOffsets.locate(tabId, frameId);
+
+  // Let the frames repaint without their overlays
+  await new Promise(resolve => setTimeout(resolve, 50));
+  return FrameOffsets.placeElement(elementInfo, placement);
 }
 
 /**
@@ -226,8 +705,10 @@ async function getUserSettings(): Promise<UserSettings> {
 async function captureElementScreenshot(
   tabId: number,
   payload: CaptureScreenshotPayload
-): Promise<{ sessionId: string; filename: string }> {
+): Promise<{ sessionId: string; filename: string; cancelled?: boolean; copiedToClipboard?: boolean; performanceReport?: string }> {
   const sessionId = generateSessionId();
+  const controller = new AbortController();
+  sessionControllers.set(sessionId, controller);
 
   return await ErrorHandler.handleError(
     async () => {
@@ -238,79 +719,123 @@ async function captureElementScreenshot(
         element: payload.elementInfo,
         options: payload.options,
         status: 'processing',
-        progress: 0
+        progress: 0,
+        captureMode: payload.captureMode ?? 'element'
       };
 
       activeSessions.set(sessionId, session);
+      PerformanceOptimizer.startMonitoring(sessionId);
 
       try {
         // Notify progress start
         await notifyProgress(sessionId, 10, '開始截圖捕獲...');
+        const capturedAt = new Date().toISOString();
+        const tab = await getTabDetails(tabId);
+        const encodeOptions = await resolveEncodeOptions(tab, payload.options, capturedAt);
 
         // Capture full page screenshot with retry
         const fullScreenshot = await ErrorHandler.handleError(
-          () => ScreenshotProcessor.captureFullPage(tabId),
+          () => ScreenshotProcessor.captureFullPage(tabId, {
+            signal: controller.signal,
+            onQueued: reportCaptureQueue(sessionId)
+          }),
           'Full page capture',
           { maxAttempts: 2, delayMs: 500 }
         );
 
+        throwIfCancelled(controller.signal);
         await notifyProgress(sessionId, 30, '頁面截圖完成，正在處理元素...');
 
         // Get device pixel ratio
         const devicePixelRatio = await ScreenshotProcessor.getDevicePixelRatio(tabId);
+        PerformanceOptimizer.updateMetrics(sessionId, { devicePixelRatio, segmentCount: 1 });
         await notifyProgress(sessionId, 40, '正在裁剪到元素區域...');
 
-        // Crop to element area with retry
-        const croppedScreenshot = await ErrorHandler.handleError(
-          () => ScreenshotProcessor.cropToElement(
-            fullScreenshot,
-            payload.elementInfo,
-            devicePixelRatio
-          ),
-          'Element cropping',
-          { maxAttempts: 2, delayMs: 300 }
-        );
+        // Crop to element area with retry; the visible area is kept whole
+        const croppedScreenshot = payload.captureMode === 'visible'
+          ? fullScreenshot
+          : await ErrorHandler.handleError(
+            () => ImagePipeline.cropToElement(
+              fullScreenshot,
+              payload.elementInfo,
+              devicePixelRatio
+            ),
+            'Element cropping',
+            { maxAttempts: 2, delayMs: 300 }
+          );
 
+        throwIfCancelled(controller.signal);
         await notifyProgress(sessionId, 60, '正在轉換格式...');
 
-        // Convert to desired format with retry
-        const finalScreenshot = await ErrorHandler.handleError(
-          () => ScreenshotProcessor.convertFormat(croppedScreenshot, payload.options),
+        // Convert to desired format with retry, then embed where it came from
+        const metadata = await resolveProvenance(tab, payload.elementInfo, devicePixelRatio, capturedAt);
+        const encodedScreenshot = await ErrorHandler.handleError(
+          () => ImagePipeline.encode(croppedScreenshot, encodeOptions),
           'Format conversion',
           { maxAttempts: 2, delayMs: 200 }
         );
+        const finalScreenshot = metadata?.embed
+          ? ImageMetadata.embed(encodedScreenshot, metadata.provenance)
+          : encodedScreenshot;
 
+        throwIfCancelled(controller.signal);
+        recordOutputSize(sessionId, [finalScreenshot]);
         await notifyProgress(sessionId, 80, '準備下載...');
 
         // Generate filename
-        const filename = ScreenshotProcessor.generateFilename(
-          payload.options.filename,
-          payload.options.format
+        const filename = await resolveFilename(
+          tab,
+          payload.options,
+          payload.elementInfo,
+          payload.elementInfo.boundingRect,
+          devicePixelRatio,
+          capturedAt
         );
 
+        // The clipboard takes the PNG before format conversion
+        const destinations = await getOutputDestinations();
+        session.copiedToClipboard = destinations.includes('clipboard') &&
+          await copyToClipboard(tabId, croppedScreenshot);
+        const shouldDownload = destinations.includes('download') || !session.copiedToClipboard;
+
         // Download screenshot with retry and manual save fallback
-        try {
-          await ErrorHandler.handleError(
-            () => ScreenshotProcessor.downloadScreenshot(finalScreenshot, filename),
-            'Screenshot download',
-            { maxAttempts: 3, delayMs: 1000 }
-          );
-        } catch (downloadError) {
-          // Offer manual save option
-          await offerManualSave(sessionId, finalScreenshot, filename);
+        if (shouldDownload) {
+          try {
+            await ErrorHandler.handleError(
+              () => ScreenshotProcessor.downloadScreenshot(finalScreenshot, filename),
+              'Screenshot download',
+              { maxAttempts: 3, delayMs: 1000 }
+            );
+
+            if (metadata?.sidecar) {
+              await saveMetadataSidecar(metadata.provenance, [filename]);
+            }
+          } catch (downloadError) {
+            // Offer manual save option
+            await offerManualSave(sessionId, finalScreenshot, filename);
+          }
         }
 
+        await saveToHistory(session, tab, capturedAt, [finalScreenshot], croppedScreenshot, shouldDownload ? [filename] : []);
         await notifyProgress(sessionId, 100, '截圖完成！');
 
         // Update session
         session.status = 'completed';
         session.progress = 100;
         session.result = finalScreenshot;
+        sessionControllers.delete(sessionId);
+        finishMonitoring(sessionId);
 
         // Notify completion
-        await notifyCompletion(sessionId, finalScreenshot, filename);
+        const savedFilename = shouldDownload ? filename : '';
+        await notifyCompletion(sessionId, finalScreenshot, savedFilename);
 
-        return { sessionId, filename };
+        return {
+          sessionId,
+          filename: savedFilename,
+          copiedToClipboard: session.copiedToClipboard,
+          ...(session.performanceReport ? { performanceReport: session.performanceReport } : {})
+        };
 
       } finally {
         // Clean up session after delay
@@ -331,8 +856,15 @@ async function captureElementScreenshot(
       enableQualityReduction: true
     }
   ).catch(async (error) => {
-    // Handle final error
+    // Cancellation is not a failure: skip error reporting
     const session = activeSessions.get(sessionId);
+    if (session?.status === 'cancelled' || controller.signal.aborted) {
+      return await finishCancelledSession(sessionId);
+    }
+
+    // Handle final error
+    sessionControllers.delete(sessionId);
+    finishMonitoring(sessionId);
     if (session) {
       session.status = 'error';
       session.progress = 0;
@@ -357,30 +889,436 @@ async function captureElementScreenshot(
   });
 }
 
+/**
+ * Capture several elements in one session. Each element is scrolled into
+ * view and captured, then the crops are saved as separate files or one ZIP
+ * archive, or combined into one image of the area that covers them all.
+ * Elements larger than the viewport are cut to the visible part.
+ */
+async function captureMultipleElements(
+  tabId: number,
+  elements: ElementInfo[],
+  options: ScreenshotOptions
+): Promise<{ sessionId: string; filename: string; filenames?: string[]; cancelled?: boolean; copiedToClipboard?: boolean; performanceReport?: string }> {
+  const sessionId = generateSessionId();
+  const controller = new AbortController();
+  sessionControllers.set(sessionId, controller);
+
+  return await ErrorHandler.handleError(
+    async () => {
+      const session: ScreenshotSession = {
+        id: sessionId,
+        tabId,
+        element: elements[0],
+        options,
+        status: 'processing',
+        progress: 0,
+        captureMode: 'element'
+      };
+
+      activeSessions.set(sessionId, session);
+      PerformanceOptimizer.startMonitoring(sessionId);
+
+      try {
+        await notifyProgress(sessionId, 5, `開始截取 ${elements.length} 個元素...`);
+        const capturedAt = new Date().toISOString();
+        const tab = await getTabDetails(tabId);
+        const output = await SettingsService.get('multiCaptureOutput', 'separate') ?? 'separate';
+
+        const devicePixelRatio = await ScreenshotProcessor.getDevicePixelRatio(tabId);
+        PerformanceOptimizer.updateMetrics(sessionId, { devicePixelRatio, segmentCount: elements.length });
+
+        const images = output === 'union'
+          ? [await captureElementUnion(sessionId, elements, devicePixelRatio, controller.signal)]
+          : await captureEachElement(sessionId, elements, devicePixelRatio, controller.signal);
+
+        throwIfCancelled(controller.signal);
+        await notifyProgress(sessionId, 75, '正在轉換格式...');
+
+        // A combined image names every element it shows; separate images name their own
+        const selectors = images.length === 1
+          ? [elements.map(element => element.selector).join(', ')]
+          : elements.map(element => element.selector);
+        const encodeOptions = await resolveEncodeOptions(tab, options, capturedAt);
+        const metadata = await resolveProvenance(tab, { ...elements[0], selector: selectors[0] }, devicePixelRatio, capturedAt);
+
+        const finalImages: string[] = [];
+        for (let i = 0; i < images.length; i++) {
+          const encoded = await ErrorHandler.handleError(
+            () => ImagePipeline.encode(images[i], encodeOptions),
+            'Format conversion',
+            { maxAttempts: 2, delayMs: 200 }
+          );
+          finalImages.push(metadata?.embed
+            ? ImageMetadata.embed(encoded, { ...metadata.provenance, selector: selectors[i] })
+            : encoded);
+          throwIfCancelled(controller.signal);
+        }
+
+        recordOutputSize(sessionId, finalImages);
+        await notifyProgress(sessionId, 90, '準備下載...');
+
+        // Files are numbered in the order the elements were picked
+        const capturedArea = images.length === 1
+          ? ScreenshotProcessor.getUnionBounds(elements.map(element => element.boundingRect))
+          : elements[0].boundingRect;
+        const baseFilename = await resolveFilename(
+          tab,
+          options,
+          { ...elements[0], selector: selectors[0] },
+          capturedArea,
+          devicePixelRatio,
+          capturedAt
+        );
+        const filenames = finalImages.length > 1
+          ? finalImages.map((_, index) => ScreenshotProcessor.numberFilename(baseFilename, index + 1, finalImages.length))
+          : [baseFilename];
+
+        // The clipboard holds one image, so only a combined image is copied
+        const destinations = await getOutputDestinations();
+        session.copiedToClipboard = destinations.includes('clipboard') && images.length === 1 &&
+          await copyToClipboard(tabId, images[0]);
+        const shouldDownload = destinations.includes('download') || !session.copiedToClipboard;
+
+        const downloads = output === 'zip' && finalImages.length > 1
+          ? [{ dataUrl: createZipArchive(finalImages, filenames, new Date(capturedAt)), filename: toZipFilename(baseFilename) }]
+          : finalImages.map((dataUrl, index) => ({ dataUrl, filename: filenames[index] }));
+
+        for (let i = 0; shouldDownload && i < downloads.length; i++) {
+          try {
+            await ErrorHandler.handleError(
+              () => ScreenshotProcessor.downloadScreenshot(downloads[i].dataUrl, downloads[i].filename),
+              'Multi-element screenshot download',
+              { maxAttempts: 3, delayMs: 1000 }
+            );
+          } catch (downloadError) {
+            await offerManualSave(sessionId, downloads[i].dataUrl, downloads[i].filename);
+          }
+        }
+
+        const savedFilenames = shouldDownload ? downloads.map(download => download.filename) : [];
+        if (shouldDownload && metadata?.sidecar) {
+          await saveMetadataSidecar({ ...metadata.provenance, selector: selectors.join(', ') }, savedFilenames);
+        }
+
+        // History keeps the images themselves, so they can be downloaded again one by one
+        await saveToHistory(session, tab, capturedAt, finalImages, images[0], shouldDownload ? filenames : []);
+        await notifyProgress(sessionId, 100, '多元素截圖完成！');
+
+        session.status = 'completed';
+        session.progress = 100;
+        session.result = finalImages[0];
+        sessionControllers.delete(sessionId);
+        finishMonitoring(sessionId);
+
+        await notifyCompletion(sessionId, finalImages[0], savedFilenames[0] ?? '', savedFilenames);
+
+        return {
+          sessionId,
+          filename: savedFilenames[0] ?? '',
+          filenames: savedFilenames,
+          copiedToClipboard: session.copiedToClipboard,
+          ...(session.performanceReport ? { performanceReport: session.performanceReport } : {})
+        };
+
+      } finally {
+        setTimeout(() => {
+          activeSessions.delete(sessionId);
+        }, 5000);
+      }
+    },
+    'Multi-element screenshot capture',
+    {
+      maxAttempts: 2,
+      delayMs: 1000,
+      retryableErrors: [ScreenshotError.CAPTURE_FAILED, ScreenshotError.PROCESSING_ERROR]
+    },
+    {
+      enableSimpleScreenshot: true,
+      enableManualSave: true,
+      enableQualityReduction: true
+    }
+  ).catch(async (error) => {
+    // Cancellation is not a failure: skip error reporting
+    const session = activeSessions.get(sessionId);
+    if (session?.status === 'cancelled' || controller.signal.aborted) {
+      return await finishCancelledSession(sessionId);
+    }
+
+    sessionControllers.delete(sessionId);
+    finishMonitoring(sessionId);
+    if (session) {
+      session.status = 'error';
+      session.progress = 0;
+    }
+
+    const screenshotError = ErrorHandler.classifyError(error);
+    const errorInfo = ErrorHandler.createErrorInfo(screenshotError, error);
+    ErrorHandler.logError(errorInfo, 'Multi-element Screenshot');
+    await notifyEnhancedError(sessionId, errorInfo);
+
+    setTimeout(() => {
+      activeSessions.delete(sessionId);
+    }, 1000);
+
+    throw ErrorHandler.createUserMessage(errorInfo);
+  });
+}
+
+/**
+ * Capture each element on its own, in the order they were picked
+ */
+async function captureEachElement(
+  sessionId: string,
+  elements: ElementInfo[],
+  devicePixelRatio: number,
+  signal: AbortSignal
+): Promise<string[]> {
+  const images: string[] = [];
+
+  for (let i = 0; i < elements.length; i++) {
+    await notifyProgress(sessionId, 10 + Math.round(60 * i / elements.length), `正在截取第 ${i + 1}/${elements.length} 個元素...`);
+    const { dataUrl } = await captureElementInView(sessionId, elements[i], devicePixelRatio, signal);
+    images.push(dataUrl);
+  }
+
+  return images;
+}
+
+/**
+ * Capture one image of the area covering every element. When the area fits
+ * in the viewport a single capture keeps what lies between the elements;
+ * otherwise each element is captured where it is and drawn at its position
+ * on a white canvas.
+ */
+async function captureElementUnion(
+  sessionId: string,
+  elements: ElementInfo[],
+  devicePixelRatio: number,
+  signal: AbortSignal
+): Promise<string> {
+  const tabId = activeSessions.get(sessionId)!.tabId;
+  await notifyProgress(sessionId, 10, '正在捲動至所選元素...');
+
+  const view = await scrollElementsIntoView(tabId, elements);
+  const area = ScreenshotProcessor.getUnionBounds(view.rects);
+  const fitsViewport = area.left >= 0 && area.top >= 0 &&
+    area.left + area.width <= view.viewportWidth && area.top + area.height <= view.viewportHeight;
+
+  if (fitsViewport) {
+    const screenshot = await captureVisibleArea(sessionId, signal);
+    await notifyProgress(sessionId, 50, '正在裁剪到元素區域...');
+    return ImagePipeline.cropToElement(screenshot, toViewportElementInfo(elements[0], area), devicePixelRatio);
+  }
+
+  const parts: { dataUrl: string; pageRect: RectBounds }[] = [];
+  for (let i = 0; i < elements.length; i++) {
+    await notifyProgress(sessionId, 10 + Math.round(50 * i / elements.length), `正在截取第 ${i + 1}/${elements.length} 個元素...`);
+    parts.push(await captureElementInView(sessionId, elements[i], devicePixelRatio, signal));
+  }
+
+  await notifyProgress(sessionId, 65, '正在合併圖片...');
+  const bounds = ScreenshotProcessor.getUnionBounds(parts.map(part => part.pageRect));
+  return ImagePipeline.composeImages(
+    parts.map(part => ({
+      dataUrl: part.dataUrl,
+      x: part.pageRect.left - bounds.left,
+      y: part.pageRect.top - bounds.top
+    })),
+    bounds.width,
+    bounds.height,
+    devicePixelRatio
+  );
+}
+
+/**
+ * Scroll one element into view, capture the viewport and crop it to the
+ * element. Also returns where the element is on the page.
+ */
+async function captureElementInView(
+  sessionId: string,
+  element: ElementInfo,
+  devicePixelRatio: number,
+  signal: AbortSignal
+): Promise<{ dataUrl: string; pageRect: RectBounds }> {
+  const tabId = activeSessions.get(sessionId)!.tabId;
+  const view = await scrollElementsIntoView(tabId, [element]);
+  const rect = view.rects[0];
+
+  const screenshot = await captureVisibleArea(sessionId, signal);
+  const dataUrl = await ErrorHandler.handleError(
+    () => ImagePipeline.cropToElement(screenshot, toViewportElementInfo(element, rect), devicePixelRatio),
+    'Element cropping',
+    { maxAttempts: 2, delayMs: 300 }
+  );
+
+  return {
+    dataUrl,
+    pageRect: { ...rect, left: rect.left + view.scrollX, top: rect.top + view.scrollY }
+  };
+}
+
+/**
+ * Capture the visible area of a session's tab with retry
+ */
+async function captureVisibleArea(sessionId: string, signal: AbortSignal): Promise<string> {
+  const tabId = activeSessions.get(sessionId)!.tabId;
+  const screenshot = await ErrorHandler.handleError(
+    () => ScreenshotProcessor.captureFullPage(tabId, {
+      signal,
+      onQueued: reportCaptureQueue(sessionId)
+    }),
+    'Full page capture',
+    { maxAttempts: 2, delayMs: 500 }
+  );
+
+  throwIfCancelled(signal);
+  return screenshot;
+}
+
+/**
+ * Have the content script scroll elements into view and measure them
+ */
+async function scrollElementsIntoView(tabId: number, elements: ElementInfo[]): Promise<ElementsInView> {
+  const targets = elements.map(element => ({
+    selector: element.selector,
+    ...(element.selectorFallbacks ? { fallbacks: element.selectorFallbacks } : {})
+  }));
+
+  const response = await sendMessageToTab<ScrollElementsIntoViewPayload, ElementsInView>(
+    tabId,
+    MessageType.SCROLL_ELEMENTS_INTO_VIEW,
+    { targets }
+  );
+  if (!response.success || !response.data) {
+    throw new Error(response.error || `Element not found: ${targets[0].selector}`);
+  }
+
+  return response.data;
+}
+
+/**
+ * Element info for cropping a viewport capture to `rect`. Rects are already
+ * the visible viewport area; no further adjustments apply.
+ */
+function toViewportElementInfo(element: ElementInfo, rect: RectBounds): ElementInfo {
+  return {
+    ...element,
+    boundingRect: {
+      x: rect.left,
+      y: rect.top,
+      width: rect.width,
+      height: rect.height,
+      top: rect.top,
+      right: rect.left + rect.width,
+      bottom: rect.top + rect.height,
+      left: rect.left
+    } as DOMRect,
+    hasTransform: false,
+    hasShadow: false,
+    isFixed: false,
+    isInIframe: false
+  };
+}
+
+/**
+ * Bundle encoded images into a ZIP archive data URL
+ */
+function createZipArchive(images: string[], filenames: string[], modifiedAt: Date): string {
+  const zip = new ZipWriter();
+  // Entries are named without the template's folders
+  images.forEach((dataUrl, index) => zip.addFile(filenames[index].split('/').pop()!, dataUrlToBytes(dataUrl), modifiedAt));
+  return zip.toDataUrl();
+}
+
+/**
+ * Replace a filename's extension with `.zip`
+ */
+function toZipFilename(filename: string): string {
+  const extensionIndex = filename.lastIndexOf('.');
+  return `${extensionIndex > 0 ? filename.slice(0, extensionIndex) : filename}.zip`;
+}
+
 /**
  * Notify screenshot progress
  */
-async function notifyProgress(sessionId: string, progress: number, status: string): Promise<void> {
+async function notifyProgress(sessionId: string, progress: number, status: string, queuePosition?: number): Promise<void> {
   const session = activeSessions.get(sessionId);
   if (!session) return;
 
   session.progress = progress;
+  session.progressStatus = status;
+
+  const payload: ScreenshotProgressPayload = {
+    sessionId,
+    progress,
+    status,
+    ...(queuePosition !== undefined ? { queuePosition } : {})
+  };
 
   try {
-    await sendMessageToTab(session.tabId, MessageType.SCREENSHOT_PROGRESS, {
-      sessionId,
-      progress,
-      status
-    });
+    await sendMessageToTab(session.tabId, MessageType.SCREENSHOT_PROGRESS, payload);
   } catch (error) {
     console.warn('Failed to notify progress:', error);
   }
+  await notifyPopup(MessageType.SCREENSHOT_PROGRESS, payload);
+}
+
+/**
+ * Send a session update to an open popup; nothing listens when it is closed
+ */
+async function notifyPopup<T>(type: MessageType, data: T): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage({ type, data });
+  } catch {
+    // No popup is open
+  }
+}
+
+/**
+ * Read where finished screenshots go, falling back to downloads
+ */
+async function getOutputDestinations(): Promise<OutputDestination[]> {
+  const destinations = await SettingsService.get('outputDestinations', ['download']);
+  return destinations && destinations.length > 0 ? destinations : ['download'];
+}
+
+/**
+ * Copy a PNG screenshot to the clipboard through the tab's content script,
+ * since the service worker has no clipboard access
+ */
+async function copyToClipboard(tabId: number, dataUrl: string): Promise<boolean> {
+  try {
+    const response = await sendMessageToTab(tabId, MessageType.COPY_TO_CLIPBOARD, { dataUrl });
+    if (!response.success) {
+      throw new Error(response.error || 'Clipboard write failed');
+    }
+    return true;
+  } catch (error) {
+    console.warn('Failed to copy screenshot to clipboard:', error);
+    return false;
+  }
+}
+
+/**
+ * Report a session's place in the capture queue while it waits on the capture rate limit
+ */
+function reportCaptureQueue(sessionId: string): (position: number) => void {
+  return position => {
+    const progress = activeSessions.get(sessionId)?.progress ?? 0;
+    void notifyProgress(sessionId, progress, `等待截圖配額，前方還有 ${position} 個截圖請求...`, position);
+  };
 }
 
 /**
  * Notify screenshot completion
  */
-async function notifyCompletion(sessionId: string, result: string, filename: string): Promise<void> {
+async function notifyCompletion(
+  sessionId: string,
+  result: string,
+  filename: string,
+  filenames: string[] = filename ? [filename] : []
+): Promise<void> {
   const session = activeSessions.get(sessionId);
   if (!session) return;
 
@@ -388,11 +1326,26 @@ async function notifyCompletion(sessionId: string, result: string, filename: str
     await sendMessageToTab(session.tabId, MessageType.SCREENSHOT_COMPLETE, {
       sessionId,
       result,
-      filename
+      filename,
+      filenames,
+      copiedToClipboard: Boolean(session.copiedToClipboard),
+      ...(session.alignments ? { alignments: session.alignments } : {}),
+      ...(session.performanceReport ? { performanceReport: session.performanceReport } : {})
     });
   } catch (error) {
     console.warn('Failed to notify completion:', error);
   }
+
+  // Let an open popup show the completion summary
+  await notifyPopup(MessageType.SCREENSHOT_COMPLETE, {
+    sessionId,
+    filename,
+    filenames,
+    isLongScreenshot: Boolean(session.isLongScreenshot),
+    copiedToClipboard: Boolean(session.copiedToClipboard),
+    ...(session.processingTime !== undefined ? { processingTime: session.processingTime } : {}),
+    ...(session.performanceReport ? { performanceReport: session.performanceReport } : {})
+  });
 }
 
 /**
@@ -419,8 +1372,18 @@ async function notifyError(sessionId: string, error: ScreenshotError, message: s
 async function captureLongScreenshot(
   tabId: number,
   payload: CaptureScreenshotPayload
-): Promise<{ sessionId: string; filename: string }> {
+): Promise<{
+  sessionId: string;
+  filename: string;
+  cancelled?: boolean;
+  filenames?: string[];
+  alignments?: SegmentAlignment[];
+  copiedToClipboard?: boolean;
+  performanceReport?: string;
+}> {
   const sessionId = generateSessionId();
+  const controller = new AbortController();
+  sessionControllers.set(sessionId, controller);
 
   return await ErrorHandler.handleError(
     async () => {
@@ -433,87 +1396,183 @@ async function captureLongScreenshot(
         status: 'processing',
         progress: 0,
         isLongScreenshot: true,
+        captureMode: payload.captureMode ?? 'element',
         segments: [],
         totalSegments: 0
       };
 
       activeSessions.set(sessionId, session);
+      PerformanceOptimizer.startMonitoring(sessionId);
 
       try {
         // Notify progress start
         await notifyProgress(sessionId, 5, '開始長截圖捕獲...');
+        const capturedAt = new Date().toISOString();
+        const tab = await getTabDetails(tabId);
+        const encodeOptions = await resolveEncodeOptions(tab, payload.options, capturedAt);
 
         // Get device pixel ratio
         const devicePixelRatio = await ScreenshotProcessor.getDevicePixelRatio(tabId);
+        const keepHeaderOnFirstSegment = payload.keepHeaderOnFirstSegment ?? await shouldKeepHeaderOnFirstSegment(tabId);
+        PerformanceOptimizer.updateMetrics(sessionId, { devicePixelRatio });
         await notifyProgress(sessionId, 10, '檢測滾動區域...');
 
-        // Capture multiple segments with retry
-        const { segments } = await ErrorHandler.handleError(
-          () => ScreenshotProcessor.captureLongScreenshot(
-            tabId,
-            payload.elementInfo,
-            devicePixelRatio
-          ),
+        // Capture multiple segments with retry; full page captures scroll the
+        // window or scroll ancestor and come with their own stitch geometry.
+        // The session's metrics adapt the scroll step as segments come in.
+        const captureOptions = {
+          signal: controller.signal,
+          keepHeaderOnFirstSegment,
+          sessionId,
+          onQueued: reportCaptureQueue(sessionId)
+        };
+        const { segments, stitchInfo } = await ErrorHandler.handleError(
+          () => payload.captureMode === 'fullPage'
+            ? ScreenshotProcessor.captureFullPageScreenshot(
+              tabId,
+              payload.elementInfo,
+              devicePixelRatio,
+              captureOptions
+            )
+            : ScreenshotProcessor.captureLongScreenshot(
+              tabId,
+              payload.elementInfo,
+              devicePixelRatio,
+              captureOptions
+            ).then(result => ({ ...result, stitchInfo: payload.elementInfo })),
           'Long screenshot segments capture',
           { maxAttempts: 2, delayMs: 1000 }
         );
 
+        throwIfCancelled(controller.signal);
         session.segments = segments;
         session.totalSegments = segments.length;
+        PerformanceOptimizer.updateMetrics(sessionId, { segmentCount: segments.length });
 
         await notifyProgress(sessionId, 50, `已捕獲 ${segments.length} 個片段，正在拼接...`);
 
+        // Results beyond the canvas size limits are split into numbered tiles
+        const stitchedSize = ScreenshotProcessor.getStitchedSize(stitchInfo, devicePixelRatio);
+        const isTiled = ScreenshotProcessor.exceedsCanvasLimits(stitchedSize.width, stitchedSize.height);
+
         // Stitch segments together with retry
-        const stitchedScreenshot = await ErrorHandler.handleError(
-          () => ScreenshotProcessor.stitchScreenshotSegments(
-            segments,
-            payload.elementInfo,
-            devicePixelRatio
-          ),
+        const { images: stitchedImages, alignments } = await ErrorHandler.handleError(
+          () => isTiled
+            ? ImagePipeline.stitchTiles(
+              segments,
+              stitchInfo,
+              devicePixelRatio,
+              ScreenshotProcessor.calculateTileHeight(stitchedSize.width, stitchedSize.height, devicePixelRatio)
+            ).then(result => ({ images: result.tiles, alignments: result.alignments }))
+            : ImagePipeline.stitchSegments(
+              segments,
+              stitchInfo,
+              devicePixelRatio
+            ).then(result => ({ images: [result.dataUrl], alignments: result.alignments })),
           'Screenshot stitching',
           { maxAttempts: 2, delayMs: 500 }
         );
 
-        await notifyProgress(sessionId, 80, '轉換格式中...');
-
-        // Convert to desired format with retry
-        const finalScreenshot = await ErrorHandler.handleError(
-          () => ScreenshotProcessor.convertFormat(stitchedScreenshot, payload.options),
-          'Format conversion',
-          { maxAttempts: 2, delayMs: 200 }
-        );
+        throwIfCancelled(controller.signal);
+        session.alignments = alignments;
+        await notifyProgress(sessionId, 80, isTiled ? `轉換格式中（共 ${stitchedImages.length} 張分塊）...` : '轉換格式中...');
+
+        // Convert to desired format with retry, then embed where it came from
+        const metadata = await resolveProvenance(tab, payload.elementInfo, devicePixelRatio, capturedAt);
+        const finalScreenshots: string[] = [];
+        if (FormatRegistry.get(encodeOptions.format).paged) {
+          // Paged formats keep every tile in one document, which carries its own metadata
+          finalScreenshots.push(await ErrorHandler.handleError(
+            () => ImagePipeline.encodeDocument(stitchedImages, encodeOptions),
+            'Format conversion',
+            { maxAttempts: 2, delayMs: 200 }
+          ));
+          throwIfCancelled(controller.signal);
+        } else {
+          for (const stitchedImage of stitchedImages) {
+            const encodedScreenshot = await ErrorHandler.handleError(
+              () => ImagePipeline.encode(stitchedImage, encodeOptions),
+              'Format conversion',
+              { maxAttempts: 2, delayMs: 200 }
+            );
+            finalScreenshots.push(metadata?.embed
+              ? ImageMetadata.embed(encodedScreenshot, metadata.provenance)
+              : encodedScreenshot);
+            throwIfCancelled(controller.signal);
+          }
+        }
 
+        recordOutputSize(sessionId, finalScreenshots);
         await notifyProgress(sessionId, 90, '準備下載...');
 
-        // Generate filename
-        const filename = ScreenshotProcessor.generateFilename(
-          payload.options.filename,
-          payload.options.format
+        // Generate filenames; tiles are numbered in order from the top
+        const elementRect = payload.elementInfo.boundingRect;
+        const baseFilename = await resolveFilename(
+          tab,
+          payload.options,
+          payload.elementInfo,
+          {
+            width: payload.elementInfo.totalWidth ?? elementRect.width,
+            height: payload.elementInfo.totalHeight || elementRect.height
+          },
+          devicePixelRatio,
+          capturedAt,
+          'long'
         );
+        const filenames = finalScreenshots.length > 1
+          ? finalScreenshots.map((_, index) => ScreenshotProcessor.numberFilename(baseFilename, index + 1, finalScreenshots.length))
+          : [baseFilename];
+
+        // The clipboard holds one image, so tiled results are only downloaded
+        const destinations = await getOutputDestinations();
+        if (destinations.includes('clipboard') && stitchedImages.length > 1) {
+          console.warn('Tiled long screenshot cannot be copied to the clipboard, downloading instead');
+        }
+        session.copiedToClipboard = destinations.includes('clipboard') && stitchedImages.length === 1 &&
+          await copyToClipboard(tabId, stitchedImages[0]);
+        const shouldDownload = destinations.includes('download') || !session.copiedToClipboard;
+
+        // Download screenshots with retry and manual save fallback
+        for (let i = 0; shouldDownload && i < finalScreenshots.length; i++) {
+          try {
+            await ErrorHandler.handleError(
+              () => ScreenshotProcessor.downloadScreenshot(finalScreenshots[i], filenames[i]),
+              'Long screenshot download',
+              { maxAttempts: 3, delayMs: 1000 }
+            );
+          } catch (downloadError) {
+            // Offer manual save option
+            await offerManualSave(sessionId, finalScreenshots[i], filenames[i]);
+          }
+        }
 
-        // Download screenshot with retry and manual save fallback
-        try {
-          await ErrorHandler.handleError(
-            () => ScreenshotProcessor.downloadScreenshot(finalScreenshot, filename),
-            'Long screenshot download',
-            { maxAttempts: 3, delayMs: 1000 }
-          );
-        } catch (downloadError) {
-          // Offer manual save option
-          await offerManualSave(sessionId, finalScreenshot, filename);
+        // One sidecar describes every tile
+        if (shouldDownload && metadata?.sidecar) {
+          await saveMetadataSidecar(metadata.provenance, filenames);
         }
 
+        await saveToHistory(session, tab, capturedAt, finalScreenshots, stitchedImages[0], shouldDownload ? filenames : []);
         await notifyProgress(sessionId, 100, '長截圖完成！');
 
         // Update session
         session.status = 'completed';
         session.progress = 100;
-        session.result = finalScreenshot;
+        session.result = finalScreenshots[0];
+        sessionControllers.delete(sessionId);
+        finishMonitoring(sessionId);
 
         // Notify completion
-        await notifyCompletion(sessionId, finalScreenshot, filename);
-
-        return { sessionId, filename };
+        const savedFilenames = shouldDownload ? filenames : [];
+        await notifyCompletion(sessionId, finalScreenshots[0], savedFilenames[0] ?? '', savedFilenames);
+
+        return {
+          sessionId,
+          filename: savedFilenames[0] ?? '',
+          filenames: savedFilenames,
+          alignments,
+          copiedToClipboard: session.copiedToClipboard,
+          ...(session.performanceReport ? { performanceReport: session.performanceReport } : {})
+        };
 
       } finally {
         // Clean up session after delay
@@ -534,8 +1593,15 @@ async function captureLongScreenshot(
       enableQualityReduction: true
     }
   ).catch(async (error) => {
-    // Handle final error
+    // Cancellation is not a failure: skip error reporting
     const session = activeSessions.get(sessionId);
+    if (session?.status === 'cancelled' || controller.signal.aborted) {
+      return await finishCancelledSession(sessionId);
+    }
+
+    // Handle final error
+    sessionControllers.delete(sessionId);
+    finishMonitoring(sessionId);
     if (session) {
       session.status = 'error';
       session.progress = 0;
@@ -1,17 +1,29 @@
 // Content script for element selection and DOM manipulation
 
 import { MessageRouter, sendMessageToBackground } from '../utils/messageHandler';
-import { MessageType, ElementInfo, ScrollPosition, StartScreenshotModePayload, ElementSelectedPayload, ShadowInfo, IframeInfo, ComputedElementStyles } from '../types';
+import { MessageType, ElementInfo, ScrollPosition, StartScreenshotModePayload, ElementSelectedPayload, SessionCancelledPayload, ShadowInfo, IframeInfo, TransformMatrix, ComputedElementStyles, CaptureMode, PageLayout, PageScrollResult, HideFloatingElementsPayload, HideElementsPayload, CopyToClipboardPayload, LocateElementPayload, SelectorCandidate, NavigationDirection, ElementsSelectedPayload, ScrollElementsIntoViewPayload, ElementsInView, FrameTokenPayload, RectBounds } from '../types';
+import { SelectorEngine } from '../utils/selectorEngine';
+import { dataUrlToBytes } from '../utils/dataUrl';
+import { ScreenshotProcessor } from '../utils/screenshotProcessor';
+import { startRegionSelection, stopRegionSelection, confirmRegionSelection, isRegionControl, createRegionElementInfo, RegionRect } from './regionSelection';
 
 // Initialize message router
 const messageRouter = new MessageRouter();
 
+// The script also runs in every child frame, where it only picks elements
+const isTopFrame = window === window.top;
+
 // Element selection state
 let isSelectionMode = false;
 let highlightDiv: HTMLElement | null = null;
 let overlayElement: HTMLElement | null = null;
 let tooltipElement: HTMLElement | null = null;
 let currentHoveredElement: Element | null = null;
+let selectionCaptureMode: CaptureMode = 'element';
+
+// Elements added with Shift+click, in the order they were picked, and their numbered marks
+let multiSelection: Element[] = [];
+let multiSelectionMarks: HTMLElement[] = [];
 
 // Initialize content script
 console.log('Chrome元素截圖工具 content script 已載入');
@@ -19,8 +31,11 @@ console.log('Chrome元素截圖工具 content script 已載入');
 // Setup message handlers
 setupMessageHandlers();
 
-// Setup message listener
-messageRouter.setupListener();
+// Setup message listener; child frames leave other messages to the top frame
+messageRouter.setupListener({ ignoreUnregistered: !isTopFrame });
+
+// Parents learn which frame element a child frame is from its announcement
+window.addEventListener('message', handleFrameAnnouncement);
 
 /**
  * Setup message handlers for different message types
@@ -32,8 +47,21 @@ function setupMessageHandlers(): void {
   });
 
   // Start screenshot mode
-  messageRouter.register(MessageType.START_SCREENSHOT_MODE, async (_payload: StartScreenshotModePayload) => {
+  messageRouter.register(MessageType.START_SCREENSHOT_MODE, async (payload: StartScreenshotModePayload) => {
     console.log('Starting screenshot mode in content script');
+    selectionCaptureMode = payload?.captureMode ?? 'element';
+
+    // Other modes work on the top document only
+    if (!isTopFrame && selectionCaptureMode !== 'element') {
+      return { status: 'screenshot_mode_skipped_in_frame' };
+    }
+
+    // The visible area needs no element, capture it right away
+    if (selectionCaptureMode === 'visible') {
+      await selectElement(document.documentElement);
+      return { status: 'visible_area_selected' };
+    }
+
     startElementSelection();
     return { status: 'screenshot_mode_started_in_content' };
   });
@@ -45,17 +73,52 @@ function setupMessageHandlers(): void {
     return { status: 'screenshot_mode_exited_in_content' };
   });
 
+  // Identify this frame to its parent while the background measures frame offsets
+  messageRouter.register(MessageType.ANNOUNCE_FRAME, async (payload: FrameTokenPayload) => {
+    announceFrame(payload.token);
+    return { status: 'frame_announced' };
+  });
+
+  // Measure the frame element of a child frame that announced itself
+  messageRouter.register(MessageType.MEASURE_CHILD_FRAME, async (payload: FrameTokenPayload) => {
+    return measureChildFrame(payload.token);
+  });
+
+  // Progress, results and captures concern the top frame only
+  if (!isTopFrame) {
+    return;
+  }
+
   // Handle screenshot progress updates
   messageRouter.register(MessageType.SCREENSHOT_PROGRESS, async (payload) => {
     console.log('Screenshot progress:', payload);
-    showProgressTooltip(payload.status, payload.progress);
+    showProgressTooltip(payload.status, payload.progress, payload.sessionId);
     return { status: 'progress_updated' };
   });
 
+  // Handle screenshot session cancellation
+  messageRouter.register(MessageType.SESSION_CANCELLED, async (payload: SessionCancelledPayload) => {
+    console.log('Screenshot cancelled:', payload);
+    showTooltip('截圖已取消');
+    setTimeout(() => {
+      removeTooltip();
+    }, 3000);
+    return { status: 'cancellation_handled' };
+  });
+
   // Handle screenshot completion
   messageRouter.register(MessageType.SCREENSHOT_COMPLETE, async (payload) => {
     console.log('Screenshot completed:', payload);
-    showTooltip(`截圖完成！文件已保存為: ${payload.filename}`);
+    const filenames: string[] = payload.filenames ?? [payload.filename];
+    const copied = payload.copiedToClipboard ? '已複製到剪貼簿' : '';
+    if (!payload.filename) {
+      showTooltip(`截圖完成！${copied}`);
+    } else {
+      const saved = filenames.length > 1
+        ? `已分為 ${filenames.length} 個檔案保存: ${filenames[0]} 等`
+        : `文件已保存為: ${payload.filename}`;
+      showTooltip(`截圖完成！${copied ? `${copied}，` : ''}${saved}`);
+    }
     setTimeout(() => {
       removeTooltip();
     }, 3000);
@@ -87,7 +150,7 @@ function setupMessageHandlers(): void {
   // Handle scroll control for long screenshots
   messageRouter.register(MessageType.SCROLL_TO_POSITION, async (payload) => {
     try {
-      const scrollPosition = await scrollElementToPosition(payload.selector, payload.scrollTop);
+      const scrollPosition = await scrollElementToPosition(payload.selector, payload.scrollTop, payload.scrollLeft);
       return { status: 'scrolled', scrollPosition };
     } catch (error) {
       console.error('Failed to scroll element:', error);
@@ -95,6 +158,61 @@ function setupMessageHandlers(): void {
     }
   });
 
+  // Handle page layout requests for full page screenshots
+  messageRouter.register(MessageType.GET_PAGE_LAYOUT, async (payload) => {
+    return getPageScrollLayout(payload.selector);
+  });
+
+  // Handle page scroll control for full page screenshots
+  messageRouter.register(MessageType.SCROLL_PAGE_TO_POSITION, async (payload) => {
+    try {
+      return await scrollPageToPosition(payload.selector, payload.scrollTop, payload.scrollLeft);
+    } catch (error) {
+      console.error('Failed to scroll page:', error);
+      throw new Error(`Page scroll failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  // Hide fixed and sticky elements that would repeat in every long screenshot segment
+  messageRouter.register(MessageType.HIDE_FLOATING_ELEMENTS, async (payload: HideFloatingElementsPayload) => {
+    const hiddenCount = hideFloatingElements(payload.selector);
+    return { status: 'floating_elements_hidden', hiddenCount };
+  });
+
+  // Restore hidden fixed and sticky elements
+  messageRouter.register(MessageType.RESTORE_FLOATING_ELEMENTS, async () => {
+    const restoredCount = restoreFloatingElements();
+    return { status: 'floating_elements_restored', restoredCount };
+  });
+
+  // Hide the elements a capture profile leaves out of its screenshots
+  messageRouter.register(MessageType.HIDE_ELEMENTS, async (payload: HideElementsPayload) => {
+    const hiddenCount = hideElements(payload.selectors);
+    return { status: 'elements_hidden', hiddenCount };
+  });
+
+  // Show elements hidden for a capture profile again
+  messageRouter.register(MessageType.SHOW_HIDDEN_ELEMENTS, async () => {
+    const shownCount = showHiddenElements();
+    return { status: 'hidden_elements_shown', shownCount };
+  });
+
+  // Write a finished screenshot to the clipboard; the service worker has no clipboard access
+  messageRouter.register(MessageType.COPY_TO_CLIPBOARD, async (payload: CopyToClipboardPayload) => {
+    await copyImageToClipboard(payload.dataUrl);
+    return { status: 'copied_to_clipboard' };
+  });
+
+  // Find a saved target's element for capture without selection mode
+  messageRouter.register(MessageType.LOCATE_ELEMENT, async (payload: LocateElementPayload) => {
+    return locateElement(payload.selector, payload.fallbacks);
+  });
+
+  // Bring elements of a multi-element capture into view and measure them
+  messageRouter.register(MessageType.SCROLL_ELEMENTS_INTO_VIEW, async (payload: ScrollElementsIntoViewPayload) => {
+    return scrollElementsIntoView(payload.targets);
+  });
+
   // Handle scroll reset
   messageRouter.register(MessageType.RESET_SCROLL, async (payload) => {
     try {
@@ -150,7 +268,20 @@ function startElementSelection(): void {
   isSelectionMode = true;
   createOverlay();
   addEventListeners();
-  showTooltip('將滑鼠懸停在元素上並點擊以選擇截圖區域。按 ESC 鍵退出。');
+
+  // Region mode draws a rectangle on the overlay instead of hovering elements
+  if (selectionCaptureMode === 'region' && overlayElement) {
+    startRegionSelection(overlayElement, {
+      onConfirm: selectRegion,
+      onCancel: () => {
+        exitElementSelection();
+        sendMessageToBackground(MessageType.EXIT_SCREENSHOT_MODE);
+      }
+    });
+    showTooltip('拖曳滑鼠框選截圖區域，邊緣會貼齊附近的元素。Enter 確認，ESC 退出。');
+  } else if (isTopFrame) {
+    showTooltip('將滑鼠懸停在元素上並點擊以選擇截圖區域。按住 Shift 點擊可選擇多個元素，方向鍵可切換上層、子層與同層元素，Enter 截圖，ESC 退出。');
+  }
   
   console.log('Element selection mode started');
 }
@@ -165,6 +296,8 @@ function exitElementSelection(): void {
 
   isSelectionMode = false;
   removeEventListeners();
+  stopRegionSelection();
+  clearMultiSelection();
   removeHighlight();
   removeOverlay();
   removeTooltip();
@@ -224,11 +357,11 @@ function removeEventListeners(): void {
  * Handle mouse over events for element highlighting
  */
 function handleMouseOver(event: MouseEvent): void {
-  if (!isSelectionMode) {
+  if (!isSelectionMode || selectionCaptureMode === 'region') {
     return;
   }
 
-  const target = event.target as Element;
+  const target = getEventTarget(event);
   
   // Skip if hovering over our own overlay or highlight elements
   if (target.classList.contains('screenshot-selection-overlay') ||
@@ -247,15 +380,32 @@ function handleMouseOver(event: MouseEvent): void {
   updateTooltip(target, event);
 }
 
+/**
+ * Innermost element an event happened on. Outside a shadow tree
+ * `event.target` is retargeted to the shadow host, but the composed path
+ * still starts inside open shadow roots.
+ */
+function getEventTarget(event: Event): Element {
+  const inner = event.composedPath().find(node => (node as Node).nodeType === Node.ELEMENT_NODE);
+  return (inner as Element | undefined) ?? event.target as Element;
+}
+
+/**
+ * Parent of an element, continuing from the top of a shadow root to its host
+ */
+function getComposedParent(element: Element): Element | null {
+  return element.parentElement ?? SelectorEngine.getShadowHost(element);
+}
+
 /**
  * Handle mouse out events
  */
 function handleMouseOut(event: MouseEvent): void {
-  if (!isSelectionMode) {
+  if (!isSelectionMode || selectionCaptureMode === 'region') {
     return;
   }
 
-  const target = event.target as Element;
+  const target = getEventTarget(event);
   const relatedTarget = event.relatedTarget as Element;
 
   // Don't remove highlight if moving to our overlay elements
@@ -282,10 +432,19 @@ function handleClick(event: MouseEvent): void {
     return;
   }
 
+  const target = getEventTarget(event);
+
+  // Region mode is driven by dragging; only its toolbar buttons take clicks
+  if (selectionCaptureMode === 'region') {
+    if (!isRegionControl(target)) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+    return;
+  }
+
   event.preventDefault();
   event.stopPropagation();
-
-  const target = event.target as Element;
   
   // Skip if clicking on our overlay elements
   if (target.classList.contains('screenshot-selection-overlay') ||
@@ -294,6 +453,22 @@ function handleClick(event: MouseEvent): void {
     return;
   }
 
+  // Shift+click builds a set; a plain click then adds its element and captures the set.
+  // Sets stay within the top document.
+  if (event.shiftKey && isTopFrame) {
+    toggleMultiSelection(target);
+    updateTooltip(target, event);
+    return;
+  }
+
+  if (multiSelection.length > 0) {
+    if (!multiSelection.includes(target)) {
+      multiSelection.push(target);
+    }
+    selectElements();
+    return;
+  }
+
   selectElement(target);
 }
 
@@ -309,9 +484,147 @@ function handleKeyDown(event: KeyboardEvent): void {
     event.preventDefault();
     exitElementSelection();
     sendMessageToBackground(MessageType.EXIT_SCREENSHOT_MODE);
+    return;
+  }
+
+  if (selectionCaptureMode === 'region') {
+    if (event.key === 'Enter' && confirmRegionSelection()) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+    return;
+  }
+
+  if (event.key === 'Enter') {
+    if (multiSelection.length > 0) {
+      event.preventDefault();
+      event.stopPropagation();
+      selectElements();
+    } else if (currentHoveredElement) {
+      event.preventDefault();
+      event.stopPropagation();
+      selectElement(currentHoveredElement);
+    }
+    return;
+  }
+
+  const direction = NAVIGATION_KEYS[event.key];
+  if (!direction) {
+    return;
+  }
+
+  // Keep arrow keys from scrolling the page while navigating
+  event.preventDefault();
+  event.stopPropagation();
+
+  const next = getNavigationTarget(currentHoveredElement ?? document.body, direction);
+  if (next) {
+    currentHoveredElement = next;
+    next.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    highlightElement(next);
+    updateTooltip(next);
+  }
+}
+
+/**
+ * Keys that move the highlight through the DOM tree
+ */
+const NAVIGATION_KEYS: Record<string, NavigationDirection> = {
+  ArrowUp: 'parent',
+  '[': 'parent',
+  ArrowDown: 'child',
+  ']': 'child',
+  ArrowLeft: 'previous',
+  ArrowRight: 'next'
+};
+
+/**
+ * Element reached by moving from the current one, skipping our own UI.
+ * Returns null at the edges of the tree.
+ */
+function getNavigationTarget(element: Element, direction: NavigationDirection): Element | null {
+  switch (direction) {
+    case 'parent': {
+      const parent = getComposedParent(element);
+      // The root element has no box of its own worth capturing
+      return parent && parent !== document.documentElement ? parent : null;
+    }
+    case 'child':
+      // Shadow hosts render their shadow root, so that is where their children are
+      return Array.from((element.shadowRoot ?? element).children).find(child => !isExtensionElement(child)) ?? null;
+    case 'previous': {
+      let sibling = element.previousElementSibling;
+      while (sibling && isExtensionElement(sibling)) {
+        sibling = sibling.previousElementSibling;
+      }
+      return sibling;
+    }
+    case 'next': {
+      let sibling = element.nextElementSibling;
+      while (sibling && isExtensionElement(sibling)) {
+        sibling = sibling.nextElementSibling;
+      }
+      return sibling;
+    }
   }
 }
 
+/**
+ * Add an element to the multi-element set, or take it out if it is already
+ * there. The body is too large to be useful and is never added.
+ */
+function toggleMultiSelection(element: Element): void {
+  if (element === document.body || element === document.documentElement) {
+    return;
+  }
+
+  const index = multiSelection.indexOf(element);
+  if (index === -1) {
+    multiSelection.push(element);
+  } else {
+    multiSelection.splice(index, 1);
+  }
+
+  renderMultiSelectionMarks();
+}
+
+/**
+ * Outline every element in the set with its number in the capture order
+ */
+function renderMultiSelectionMarks(): void {
+  multiSelectionMarks.forEach(mark => mark.remove());
+
+  const scrollX = window.scrollX || document.documentElement.scrollLeft;
+  const scrollY = window.scrollY || document.documentElement.scrollTop;
+
+  multiSelectionMarks = multiSelection.map((element, index) => {
+    const rect = element.getBoundingClientRect();
+    const mark = document.createElement('div');
+    mark.className = 'screenshot-multi-highlight';
+    mark.style.left = `${rect.left + scrollX}px`;
+    mark.style.top = `${rect.top + scrollY}px`;
+    mark.style.width = `${rect.width}px`;
+    mark.style.height = `${rect.height}px`;
+
+    const label = document.createElement('span');
+    label.className = 'screenshot-multi-highlight-index';
+    label.textContent = String(index + 1);
+    mark.appendChild(label);
+
+    document.body.appendChild(mark);
+    return mark;
+  });
+}
+
+/**
+ * Empty the multi-element set and remove its marks
+ */
+function clearMultiSelection(): void {
+  multiSelectionMarks.forEach(mark => mark.remove());
+  multiSelectionMarks = [];
+  multiSelection = [];
+}
+
 /**
  * Prevent default behavior
  */
@@ -371,30 +684,76 @@ function showTooltip(message: string): void {
 }
 
 /**
- * Update tooltip with element information
+ * Update tooltip with element information and its ancestor chain. Follows the
+ * cursor for mouse events; otherwise sits above the element.
  */
-function updateTooltip(element: Element, event: MouseEvent): void {
+function updateTooltip(element: Element, event?: MouseEvent): void {
   if (!tooltipElement) {
     return;
   }
 
-  const tagName = element.tagName.toLowerCase();
-  const className = element.className ? `.${element.className.split(' ').join('.')}` : '';
-  const id = element.id ? `#${element.id}` : '';
-  
-  let elementInfo = tagName;
-  if (id) elementInfo += id;
-  if (className) elementInfo += className;
-  
-  tooltipElement.textContent = `點擊選擇: ${elementInfo}`;
-  
-  // Position tooltip near cursor but keep it visible
+  const label = document.createElement('div');
+  label.textContent = `點擊選擇: ${describeElement(element)}`;
+  if (multiSelection.length > 0) {
+    label.textContent += `（已選擇 ${multiSelection.length} 個元素）`;
+  }
+
+  const breadcrumb = document.createElement('div');
+  breadcrumb.className = 'screenshot-tooltip-breadcrumb';
+  breadcrumb.textContent = getElementBreadcrumb(element);
+
+  const hint = document.createElement('div');
+  hint.className = 'screenshot-tooltip-hint';
+  hint.textContent = '↑/[ 上層 · ↓/] 子層 · ←/→ 同層 · Shift+點擊 多選 · Enter 截圖';
+
+  tooltipElement.replaceChildren(label, breadcrumb, hint);
+
+  // Keep the tooltip visible
   const rect = tooltipElement.getBoundingClientRect();
-  const x = Math.min(event.clientX + 10, window.innerWidth - rect.width - 10);
-  const y = Math.max(event.clientY - rect.height - 10, 10);
-  
-  tooltipElement.style.left = `${x}px`;
-  tooltipElement.style.top = `${y}px`;
+  let x: number;
+  let y: number;
+  if (event) {
+    x = event.clientX + 10;
+    y = event.clientY - rect.height - 10;
+  } else {
+    const elementRect = element.getBoundingClientRect();
+    x = elementRect.left;
+    y = elementRect.top - rect.height - 10;
+  }
+
+  tooltipElement.style.left = `${Math.max(Math.min(x, window.innerWidth - rect.width - 10), 10)}px`;
+  tooltipElement.style.top = `${Math.max(y, 10)}px`;
+}
+
+/**
+ * Short label of an element: tag, id and classes
+ */
+function describeElement(element: Element): string {
+  const id = element.id ? `#${element.id}` : '';
+  const classes = Array.from(element.classList)
+    .filter(cls => !cls.startsWith('screenshot-'))
+    .map(cls => `.${cls}`)
+    .join('');
+  return `${element.tagName.toLowerCase()}${id}${classes}`;
+}
+
+// Ancestors shown in the tooltip breadcrumb before it is shortened
+const MAX_BREADCRUMB_DEPTH = 6;
+
+/**
+ * Ancestor chain from the body down to the element, e.g. "body > main > div#chart"
+ */
+function getElementBreadcrumb(element: Element): string {
+  const chain: string[] = [];
+  for (let current: Element | null = element; current && current !== document.documentElement; current = getComposedParent(current)) {
+    const id = current.id ? `#${current.id}` : '';
+    const firstClass = Array.from(current.classList).find(cls => !cls.startsWith('screenshot-'));
+    chain.unshift(`${current.tagName.toLowerCase()}${id || (firstClass ? `.${firstClass}` : '')}`);
+  }
+
+  return chain.length > MAX_BREADCRUMB_DEPTH
+    ? ['…', ...chain.slice(-MAX_BREADCRUMB_DEPTH)].join(' > ')
+    : chain.join(' > ');
 }
 
 /**
@@ -408,9 +767,9 @@ function removeTooltip(): void {
 }
 
 /**
- * Show progress tooltip with progress bar
+ * Show progress tooltip with progress bar and a cancel button
  */
-function showProgressTooltip(message: string, progress: number): void {
+function showProgressTooltip(message: string, progress: number, sessionId?: string): void {
   removeTooltip();
 
   tooltipElement = document.createElement('div');
@@ -436,6 +795,25 @@ function showProgressTooltip(message: string, progress: number): void {
   tooltipElement.appendChild(progressBarContainer);
   tooltipElement.appendChild(progressText);
   
+  // Cancel button while the session is still running
+  if (sessionId && progress < 100) {
+    const cancelButton = document.createElement('button');
+    cancelButton.className = 'screenshot-cancel-button';
+    cancelButton.textContent = '取消';
+    cancelButton.onclick = async () => {
+      cancelButton.disabled = true;
+      cancelButton.textContent = '正在取消...';
+      
+      const response = await sendMessageToBackground(MessageType.CANCEL_SESSION, { sessionId });
+      if (!response.success) {
+        console.error('Failed to cancel session:', response.error);
+        cancelButton.disabled = false;
+        cancelButton.textContent = '取消';
+      }
+    };
+    tooltipElement.appendChild(cancelButton);
+  }
+  
   // Position tooltip at top-left of viewport
   tooltipElement.style.left = '20px';
   tooltipElement.style.top = '20px';
@@ -622,7 +1000,8 @@ async function selectElement(element: Element): Promise<void> {
     
     // Send element selection to background script
     const payload: ElementSelectedPayload = {
-      elementInfo
+      elementInfo,
+      captureMode: selectionCaptureMode
     };
     
     const response = await sendMessageToBackground(MessageType.ELEMENT_SELECTED, payload);
@@ -641,6 +1020,121 @@ async function selectElement(element: Element): Promise<void> {
   }
 }
 
+/**
+ * Capture a dragged region. The region UI is removed first so it stays out
+ * of the screenshot.
+ */
+async function selectRegion(region: RegionRect): Promise<void> {
+  exitElementSelection();
+
+  try {
+    // Let the page repaint without the overlay before the capture
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const payload: ElementSelectedPayload = {
+      elementInfo: createRegionElementInfo(region),
+      captureMode: 'region'
+    };
+    const response = await sendMessageToBackground(MessageType.ELEMENT_SELECTED, payload);
+
+    if (!response.success) {
+      console.error('Failed to capture region:', response.error);
+      showTooltip('區域截圖失敗，請重試');
+    }
+  } catch (error) {
+    console.error('Error capturing region:', error);
+    showTooltip('區域截圖時發生錯誤');
+  }
+}
+
+/**
+ * Capture every element in the multi-element set. The selection UI is
+ * removed first so the marks stay out of the screenshots.
+ */
+async function selectElements(): Promise<void> {
+  const payload: ElementsSelectedPayload = {
+    elements: multiSelection.map(element => getElementInfo(element))
+  };
+  exitElementSelection();
+
+  try {
+    // Let the page repaint without the marks before the capture
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const response = await sendMessageToBackground(MessageType.ELEMENTS_SELECTED, payload);
+    if (!response.success) {
+      console.error('Failed to capture elements:', response.error);
+      showTooltip('多元素截圖失敗，請重試');
+    }
+  } catch (error) {
+    console.error('Error capturing elements:', error);
+    showTooltip('多元素截圖時發生錯誤');
+  }
+}
+
+/**
+ * Scroll so that the targets are visible together where they fit, and
+ * measure them in viewport coordinates. A single target may sit in a
+ * scrollable container, so it scrolls itself into view; several targets
+ * scroll the window to center the area they cover.
+ */
+export async function scrollElementsIntoView(targets: LocateElementPayload[]): Promise<ElementsInView> {
+  const elements = targets.map(target => {
+    const element = SelectorEngine.find(target.selector, target.fallbacks ?? []);
+    if (!element) {
+      throw new Error(`Element not found: ${target.selector}`);
+    }
+    return element;
+  });
+
+  const viewportWidth = document.documentElement.clientWidth || window.innerWidth;
+  const viewportHeight = document.documentElement.clientHeight || window.innerHeight;
+  const area = ScreenshotProcessor.getUnionBounds(elements.map(element => element.getBoundingClientRect()));
+  const isVisible = area.left >= 0 && area.top >= 0 &&
+    area.left + area.width <= viewportWidth && area.top + area.height <= viewportHeight;
+
+  if (!isVisible) {
+    if (elements.length === 1) {
+      elements[0].scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    } else {
+      // Center the area when it fits, otherwise start at its top-left corner
+      const offsetX = area.width <= viewportWidth ? area.left - (viewportWidth - area.width) / 2 : area.left;
+      const offsetY = area.height <= viewportHeight ? area.top - (viewportHeight - area.height) / 2 : area.top;
+      window.scrollBy(offsetX, offsetY);
+    }
+
+    // Let the page settle after scrolling before measuring
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+
+  return {
+    rects: elements.map(element => {
+      const { left, top, width, height } = element.getBoundingClientRect();
+      return { left, top, width, height };
+    }),
+    scrollX: window.scrollX || document.documentElement.scrollLeft,
+    scrollY: window.scrollY || document.documentElement.scrollTop,
+    viewportWidth,
+    viewportHeight
+  };
+}
+
+/**
+ * Find an element by selector or one of its fallbacks, bring it into view and measure it
+ */
+export async function locateElement(selector: string, fallbacks: SelectorCandidate[] = []): Promise<ElementInfo> {
+  const element = SelectorEngine.find(selector, fallbacks);
+  if (!element) {
+    throw new Error(`Element not found: ${selector}`);
+  }
+
+  element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  // Let the page settle after scrolling before measuring
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  return getElementInfo(element);
+}
+
 /**
  * Get detailed information about an element
  */
@@ -649,8 +1143,8 @@ function getElementInfo(element: Element): ElementInfo {
   const scrollX = window.scrollX || document.documentElement.scrollLeft;
   const scrollY = window.scrollY || document.documentElement.scrollTop;
   
-  // Create a more specific selector
-  const selector = generateElementSelector(element);
+  // Stable selector plus ranked fallbacks for finding the element again
+  const { selector, fallbacks } = SelectorEngine.generate(element);
   
   // Enhanced scrollable detection
   const scrollInfo = detectScrollableElement(element);
@@ -660,6 +1154,9 @@ function getElementInfo(element: Element): ElementInfo {
   
   return {
     selector,
+    ...(fallbacks.length > 0 ? { selectorFallbacks: fallbacks } : {}),
+    tagName: element.tagName.toLowerCase(),
+    ...(element.id ? { elementId: element.id } : {}),
     boundingRect: {
       x: rect.left + scrollX,
       y: rect.top + scrollY,
@@ -683,17 +1180,23 @@ function getElementInfo(element: Element): ElementInfo {
     isScrollable: scrollInfo.isScrollable,
     totalHeight: scrollInfo.totalHeight,
     visibleHeight: scrollInfo.visibleHeight,
+    totalWidth: scrollInfo.totalWidth,
+    visibleWidth: scrollInfo.visibleWidth,
+    isScrollContainer: scrollInfo.isScrollContainer,
     ...complexInfo
   };
 }
 
 /**
- * Detect if element is scrollable and get scroll dimensions
+ * Detect if element is scrollable and get scroll dimensions on both axes
  */
 function detectScrollableElement(element: Element): {
   isScrollable: boolean;
   totalHeight: number;
   visibleHeight: number;
+  totalWidth: number;
+  visibleWidth: number;
+  isScrollContainer: boolean;
 } {
   const rect = element.getBoundingClientRect();
   const computedStyle = window.getComputedStyle(element);
@@ -703,23 +1206,34 @@ function detectScrollableElement(element: Element): {
                              computedStyle.overflowY === 'auto' ||
                              computedStyle.overflow === 'scroll' ||
                              computedStyle.overflow === 'auto';
+  const hasHorizontalOverflow = computedStyle.overflowX === 'scroll' ||
+                               computedStyle.overflowX === 'auto' ||
+                               computedStyle.overflow === 'scroll' ||
+                               computedStyle.overflow === 'auto';
   
   // Get scroll dimensions
   const scrollHeight = element.scrollHeight;
   const clientHeight = element.clientHeight;
   const visibleHeight = rect.height;
+  const scrollWidth = element.scrollWidth;
+  const clientWidth = element.clientWidth;
+  const visibleWidth = rect.width;
   
   // Element is scrollable if it has overflow and content exceeds visible area
-  const isScrollable = hasVerticalOverflow && scrollHeight > clientHeight;
+  const isVerticallyScrollable = hasVerticalOverflow && scrollHeight > clientHeight;
+  const isHorizontallyScrollable = hasHorizontalOverflow && scrollWidth > clientWidth;
   
   // For long screenshot detection, also consider if content significantly exceeds viewport
   const exceedsViewport = scrollHeight > window.innerHeight * 1.5;
-  const isLongContent = isScrollable || exceedsViewport;
+  const isLongContent = isVerticallyScrollable || isHorizontallyScrollable || exceedsViewport;
   
   return {
     isScrollable: isLongContent,
     totalHeight: Math.max(scrollHeight, visibleHeight),
-    visibleHeight: visibleHeight
+    visibleHeight: visibleHeight,
+    totalWidth: isHorizontallyScrollable ? Math.max(scrollWidth, visibleWidth) : visibleWidth,
+    visibleWidth: visibleWidth,
+    isScrollContainer: isVerticallyScrollable || isHorizontallyScrollable
   };
 }
 
@@ -727,45 +1241,7 @@ function detectScrollableElement(element: Element): {
  * Generate a unique CSS selector for an element
  */
 function generateElementSelector(element: Element): string {
-  // If element has an ID, use it
-  if (element.id) {
-    return `#${element.id}`;
-  }
-  
-  // Build path from element to root
-  const path: string[] = [];
-  let current: Element | null = element;
-  
-  while (current && current !== document.body) {
-    let selector = current.tagName.toLowerCase();
-    
-    // Add class if available and not too generic
-    if (current.className && typeof current.className === 'string') {
-      const classes = current.className.split(' ').filter(cls => 
-        cls && !cls.startsWith('screenshot-') // Skip our own classes
-      );
-      if (classes.length > 0) {
-        selector += '.' + classes.join('.');
-      }
-    }
-    
-    // Add nth-child if needed for uniqueness
-    const parent = current.parentElement;
-    if (parent) {
-      const siblings = Array.from(parent.children).filter(child => 
-        child.tagName === current!.tagName
-      );
-      if (siblings.length > 1) {
-        const index = siblings.indexOf(current) + 1;
-        selector += `:nth-child(${index})`;
-      }
-    }
-    
-    path.unshift(selector);
-    current = current.parentElement;
-  }
-  
-  return path.join(' > ');
+  return SelectorEngine.generate(element).selector;
 }
 
 // ===== Long Screenshot Scroll Control =====
@@ -775,77 +1251,93 @@ function generateElementSelector(element: Element): string {
  */
 export async function scrollElementToPosition(
   selector: string, 
-  scrollTop: number
+  scrollTop: number,
+  scrollLeft?: number
 ): Promise<ScrollPosition> {
-  const element = document.querySelector(selector);
+  const element = SelectorEngine.querySelectorDeep(selector);
   if (!element) {
     throw new Error(`Element not found: ${selector}`);
   }
 
   // Scroll to position
   element.scrollTop = scrollTop;
+  if (scrollLeft !== undefined) {
+    element.scrollLeft = scrollLeft;
+  }
   
   // Wait for scroll to complete
   await new Promise(resolve => setTimeout(resolve, 100));
   
   // Get current scroll position
   const currentScrollTop = element.scrollTop;
+  const currentScrollLeft = element.scrollLeft;
   const maxScrollTop = element.scrollHeight - element.clientHeight;
+  const maxScrollLeft = element.scrollWidth - element.clientWidth;
   
   return {
-    x: element.scrollLeft,
+    x: currentScrollLeft,
     y: currentScrollTop,
-    isComplete: currentScrollTop >= maxScrollTop
+    isComplete: currentScrollTop >= maxScrollTop && currentScrollLeft >= maxScrollLeft
   };
 }
 
 /**
- * Calculate scroll positions for long screenshot segments
+ * Calculate scroll positions for long screenshot segments.
+ * Positions form a row-major grid so wide and tall content is covered on both axes.
  */
 export function calculateScrollSegments(elementInfo: ElementInfo): ScrollPosition[] {
   const { totalHeight, visibleHeight } = elementInfo;
+  const totalWidth = elementInfo.totalWidth ?? elementInfo.boundingRect.width;
+  const visibleWidth = elementInfo.visibleWidth ?? elementInfo.boundingRect.width;
   
-  if (!elementInfo.isScrollable || totalHeight <= visibleHeight) {
+  if (!elementInfo.isScrollable || (totalHeight <= visibleHeight && totalWidth <= visibleWidth)) {
     // Not scrollable, return single position
     return [{ x: 0, y: 0, isComplete: true }];
   }
   
+  // 90% steps to ensure no gaps
+  const rows = calculateAxisPositions(totalHeight, visibleHeight, 0.9);
+  const columns = calculateAxisPositions(totalWidth, visibleWidth, 0.9);
   const segments: ScrollPosition[] = [];
-  const segmentHeight = visibleHeight * 0.9; // 90% overlap to ensure no gaps
-  const totalScrollHeight = totalHeight - visibleHeight;
   
-  let currentScrollTop = 0;
-  let segmentIndex = 0;
-  
-  while (currentScrollTop <= totalScrollHeight) {
-    segments.push({
-      x: 0,
-      y: currentScrollTop,
-      isComplete: currentScrollTop >= totalScrollHeight
-    });
-    
-    if (currentScrollTop >= totalScrollHeight) {
-      break;
-    }
-    
-    currentScrollTop += segmentHeight;
-    segmentIndex++;
-    
-    // Safety limit to prevent infinite loops
-    if (segmentIndex > 50) {
-      console.warn('Too many scroll segments, limiting to 50');
-      break;
+  for (const y of rows) {
+    for (const x of columns) {
+      segments.push({ x, y, isComplete: false });
+      
+      // Safety limit to prevent runaway captures
+      if (segments.length >= 50) {
+        console.warn('Too many scroll segments, limiting to 50');
+        segments[segments.length - 1].isComplete = true;
+        return segments;
+      }
     }
   }
   
+  segments[segments.length - 1].isComplete = true;
   return segments;
 }
 
+/**
+ * Calculate scroll offsets along one axis, ending at the maximum scroll offset
+ */
+function calculateAxisPositions(total: number, visible: number, stepRatio: number): number[] {
+  const maxScroll = Math.max(0, total - visible);
+  const step = Math.max(1, visible * stepRatio);
+  const positions: number[] = [];
+  
+  for (let position = 0; position < maxScroll; position += step) {
+    positions.push(position);
+  }
+  positions.push(maxScroll);
+  
+  return positions;
+}
+
 /**
  * Reset element scroll position
  */
 export async function resetElementScroll(selector: string): Promise<void> {
-  const element = document.querySelector(selector);
+  const element = SelectorEngine.querySelectorDeep(selector);
   if (element) {
     element.scrollTop = 0;
     element.scrollLeft = 0;
@@ -853,12 +1345,293 @@ export async function resetElementScroll(selector: string): Promise<void> {
   }
 }
 
+// ===== Full Page Scroll Control =====
+
+/**
+ * Find the nearest ancestor that actually scrolls vertically.
+ * Returns null when the element scrolls with the window.
+ */
+export function findScrollAncestor(element: Element): Element | null {
+  let current = getComposedParent(element);
+
+  while (current && current !== document.body && current !== document.documentElement) {
+    const style = window.getComputedStyle(current);
+    const overflowY = style.overflowY || style.overflow;
+    if ((overflowY === 'auto' || overflowY === 'scroll') && current.scrollHeight > current.clientHeight) {
+      return current;
+    }
+    current = getComposedParent(current);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the capture target of a full page screenshot. An empty selector or
+ * the root elements capture the whole document.
+ */
+function resolvePageTarget(selector: string): { element: Element | null; scroller: Element | null } {
+  if (!selector) {
+    return { element: null, scroller: null };
+  }
+
+  const element = SelectorEngine.querySelectorDeep(selector);
+  if (!element) {
+    throw new Error(`Element not found: ${selector}`);
+  }
+
+  if (element === document.documentElement || element === document.body) {
+    return { element: null, scroller: null };
+  }
+
+  return { element, scroller: findScrollAncestor(element) };
+}
+
+/**
+ * Get the visible viewport of a scroll container in viewport coordinates
+ */
+function getScrollViewport(scroller: Element | null): { top: number; left: number; width: number; height: number } {
+  if (!scroller) {
+    return { top: 0, left: 0, width: window.innerWidth, height: window.innerHeight };
+  }
+
+  const rect = scroller.getBoundingClientRect();
+  return {
+    top: Math.max(0, rect.top + scroller.clientTop),
+    left: Math.max(0, rect.left + scroller.clientLeft),
+    width: Math.min(scroller.clientWidth, window.innerWidth),
+    height: Math.min(scroller.clientHeight, window.innerHeight)
+  };
+}
+
+/**
+ * Measure the scroll range that covers the capture area of a full page screenshot
+ */
+export function getPageScrollLayout(selector: string): PageLayout {
+  const { element, scroller } = resolvePageTarget(selector);
+  const viewport = getScrollViewport(scroller);
+  const scrollTop = scroller ? scroller.scrollTop : (window.scrollY || document.documentElement.scrollTop);
+  const scrollLeft = scroller ? scroller.scrollLeft : (window.scrollX || document.documentElement.scrollLeft);
+
+  let startY = 0;
+  let endY = document.documentElement.scrollHeight;
+
+  if (element) {
+    // Convert the element's position into the scroller's scroll coordinates
+    const rect = element.getBoundingClientRect();
+    startY = rect.top - viewport.top + scrollTop;
+    endY = startY + rect.height;
+  }
+
+  return {
+    startY: Math.max(0, startY),
+    endY,
+    viewportHeight: viewport.height,
+    originalScrollTop: scrollTop,
+    originalScrollLeft: scrollLeft,
+    usesWindowScroll: !scroller
+  };
+}
+
+/**
+ * Scroll the window (or the element's scroll ancestor) and report which part
+ * of the capture area is visible
+ */
+export async function scrollPageToPosition(
+  selector: string,
+  scrollTop: number,
+  scrollLeft?: number
+): Promise<PageScrollResult> {
+  const { element, scroller } = resolvePageTarget(selector);
+
+  if (scroller) {
+    scroller.scrollTop = scrollTop;
+    if (scrollLeft !== undefined) {
+      scroller.scrollLeft = scrollLeft;
+    }
+  } else {
+    window.scrollTo(scrollLeft ?? window.scrollX, scrollTop);
+  }
+
+  // Wait for scroll to complete
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  const viewport = getScrollViewport(scroller);
+  const targetRect = (element ?? document.documentElement).getBoundingClientRect();
+
+  // Visible part of the capture area, clipped to the scroll viewport
+  const left = Math.max(targetRect.left, viewport.left);
+  const top = Math.max(targetRect.top, viewport.top);
+  const right = Math.min(targetRect.right, viewport.left + viewport.width);
+  const bottom = Math.min(targetRect.bottom, viewport.top + viewport.height);
+  const width = Math.max(0, right - left);
+  const height = Math.max(0, bottom - top);
+
+  return {
+    elementRect: {
+      x: left,
+      y: top,
+      width,
+      height,
+      top,
+      right: left + width,
+      bottom: top + height,
+      left
+    } as DOMRect,
+    offset: {
+      x: left - targetRect.left,
+      y: top - targetRect.top
+    }
+  };
+}
+
+// ===== Floating Element Control =====
+
+const FLOATING_HIDDEN_ATTRIBUTE = 'data-screenshot-hidden';
+const FLOATING_STYLE_ID = 'screenshot-floating-style';
+const PROFILE_HIDDEN_ATTRIBUTE = 'data-screenshot-profile-hidden';
+const PROFILE_STYLE_ID = 'screenshot-profile-style';
+
+/**
+ * Hide fixed and sticky elements that overlap the capture area with an
+ * injected stylesheet. Ancestors of the target and the extension's own UI
+ * are left alone. Returns the number of hidden elements.
+ */
+export function hideFloatingElements(selector: string): number {
+  const target = selector ? SelectorEngine.querySelectorDeep(selector) : null;
+  const isPageTarget = !target || target === document.documentElement || target === document.body;
+
+  // Page elements contain a target in a shadow root only through its outermost host
+  let outermostTarget = target;
+  for (let host = target && SelectorEngine.getShadowHost(target); host; host = SelectorEngine.getShadowHost(host)) {
+    outermostTarget = host;
+  }
+  const area = isPageTarget
+    ? { top: 0, left: 0, right: window.innerWidth, bottom: window.innerHeight }
+    : target.getBoundingClientRect();
+
+  const floatingElements = Array.from(document.body.querySelectorAll('*')).filter(element => {
+    if (element.hasAttribute(FLOATING_HIDDEN_ATTRIBUTE) || isExtensionElement(element)) {
+      return false;
+    }
+
+    // Hiding an ancestor would hide the capture target itself
+    if (!isPageTarget && element.contains(outermostTarget)) {
+      return false;
+    }
+
+    const position = window.getComputedStyle(element).position;
+    if (position !== 'fixed' && position !== 'sticky') {
+      return false;
+    }
+
+    const rect = element.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0 &&
+      rect.left < area.right && rect.right > area.left &&
+      rect.top < area.bottom && rect.bottom > area.top;
+  });
+
+  if (floatingElements.length === 0) {
+    return 0;
+  }
+
+  if (!document.getElementById(FLOATING_STYLE_ID)) {
+    const style = document.createElement('style');
+    style.id = FLOATING_STYLE_ID;
+    style.textContent = `[${FLOATING_HIDDEN_ATTRIBUTE}] { visibility: hidden !important; }`;
+    (document.head || document.documentElement).appendChild(style);
+  }
+
+  floatingElements.forEach(element => element.setAttribute(FLOATING_HIDDEN_ATTRIBUTE, ''));
+
+  return floatingElements.length;
+}
+
+/**
+ * Remove the injected stylesheet and show hidden floating elements again
+ */
+export function restoreFloatingElements(): number {
+  const hiddenElements = document.querySelectorAll(`[${FLOATING_HIDDEN_ATTRIBUTE}]`);
+  hiddenElements.forEach(element => element.removeAttribute(FLOATING_HIDDEN_ATTRIBUTE));
+  document.getElementById(FLOATING_STYLE_ID)?.remove();
+
+  return hiddenElements.length;
+}
+
+/**
+ * Hide every element matching the selectors. Elements keep their layout
+ * space, so the measured capture area stays where it is. Invalid selectors
+ * are skipped. Returns the number of hidden elements.
+ */
+export function hideElements(selectors: string[]): number {
+  const elements = new Set<Element>();
+  for (const selector of selectors) {
+    try {
+      document.querySelectorAll(selector).forEach(element => {
+        if (!isExtensionElement(element)) {
+          elements.add(element);
+        }
+      });
+    } catch (error) {
+      console.warn(`Skipping invalid hidden selector "${selector}":`, error);
+    }
+  }
+
+  if (elements.size === 0) {
+    return 0;
+  }
+
+  if (!document.getElementById(PROFILE_STYLE_ID)) {
+    const style = document.createElement('style');
+    style.id = PROFILE_STYLE_ID;
+    style.textContent = `[${PROFILE_HIDDEN_ATTRIBUTE}] { visibility: hidden !important; }`;
+    (document.head || document.documentElement).appendChild(style);
+  }
+
+  elements.forEach(element => element.setAttribute(PROFILE_HIDDEN_ATTRIBUTE, ''));
+
+  return elements.size;
+}
+
+/**
+ * Show the elements hidden by hideElements again
+ */
+export function showHiddenElements(): number {
+  const hiddenElements = document.querySelectorAll(`[${PROFILE_HIDDEN_ATTRIBUTE}]`);
+  hiddenElements.forEach(element => element.removeAttribute(PROFILE_HIDDEN_ATTRIBUTE));
+  document.getElementById(PROFILE_STYLE_ID)?.remove();
+
+  return hiddenElements.length;
+}
+
+/**
+ * Write a PNG data URL to the clipboard. The data URL is decoded in place
+ * rather than fetched, so page CSP rules on data: URLs do not apply.
+ */
+export async function copyImageToClipboard(dataUrl: string): Promise<void> {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
+  if (mimeType !== 'image/png') {
+    throw new Error(`Clipboard only accepts PNG images, got ${mimeType}`);
+  }
+
+  const blob = new Blob([dataUrlToBytes(dataUrl)], { type: mimeType });
+  await navigator.clipboard.write([new ClipboardItem({ [mimeType]: blob })]);
+}
+
+/**
+ * Check whether an element belongs to the extension's own overlay UI
+ */
+function isExtensionElement(element: Element): boolean {
+  return element.id.startsWith('screenshot-') ||
+    Array.from(element.classList).some(cls => cls.startsWith('screenshot-'));
+}
+
 /**
  * Analyze complex element properties for enhanced screenshot handling
  */
 function analyzeComplexElement(element: Element): {
   hasTransform: boolean;
-  transformMatrix?: DOMMatrix;
+  transformMatrix?: TransformMatrix;
   hasShadow: boolean;
   shadowInfo?: ShadowInfo;
   isInIframe: boolean;
@@ -872,11 +1645,12 @@ function analyzeComplexElement(element: Element): {
   // Analyze CSS transforms
   const transform = computedStyle.transform;
   const hasTransform = Boolean(transform && transform !== 'none' && transform !== '');
-  let transformMatrix: DOMMatrix | undefined;
+  let transformMatrix: TransformMatrix | undefined;
   
   if (hasTransform) {
     try {
-      transformMatrix = new DOMMatrix(transform);
+      const { a, b, c, d, e, f } = new DOMMatrix(transform);
+      transformMatrix = { a, b, c, d, e, f };
     } catch (error) {
       console.warn('Failed to parse transform matrix:', error);
     }
@@ -1018,68 +1792,32 @@ function parseShadowExtent(shadowValue: string): number {
 }
 
 /**
- * Detect if element is within an iframe and get iframe information
+ * Describe an element picked inside a child frame. Only its position in this
+ * frame's viewport is known here; the frames above may be cross-origin, so
+ * the background adds where this frame is on the tab.
  */
 function detectIframeContext(element: Element): IframeInfo | null {
-  try {
-    // Check if we're in an iframe by comparing window objects
-    if (window.parent === window) {
-      return null; // Not in iframe
-    }
-    
-    // We're in an iframe, but we can't access parent due to cross-origin restrictions
-    // We'll need to handle this differently by detecting iframe elements in the current document
-    const iframes = document.querySelectorAll('iframe');
-    
-    for (const iframe of iframes) {
-      try {
-        // Check if element is within this iframe's content
-        const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (iframeDoc && iframeDoc.contains(element)) {
-          const iframeRect = iframe.getBoundingClientRect();
-          const scrollX = window.scrollX || document.documentElement.scrollLeft;
-          const scrollY = window.scrollY || document.documentElement.scrollTop;
-          const elementRect = element.getBoundingClientRect();
-          
-          return {
-            iframeSelector: generateElementSelector(iframe),
-            iframeBounds: {
-              x: iframeRect.left + scrollX,
-              y: iframeRect.top + scrollY,
-              width: iframeRect.width,
-              height: iframeRect.height,
-              top: iframeRect.top + scrollY,
-              right: iframeRect.right + scrollX,
-              bottom: iframeRect.bottom + scrollY,
-              left: iframeRect.left + scrollX,
-              toJSON: () => ({
-                x: iframeRect.left + scrollX,
-                y: iframeRect.top + scrollY,
-                width: iframeRect.width,
-                height: iframeRect.height,
-                top: iframeRect.top + scrollY,
-                right: iframeRect.right + scrollX,
-                bottom: iframeRect.bottom + scrollY,
-                left: iframeRect.left + scrollX
-              })
-            } as DOMRect,
-            relativePosition: {
-              x: elementRect.left - iframeRect.left,
-              y: elementRect.top - iframeRect.top
-            }
-          };
-        }
-      } catch (error) {
-        // Cross-origin iframe, skip
-        continue;
-      }
-    }
-    
-    return null;
-  } catch (error) {
-    console.warn('Failed to detect iframe context:', error);
+  if (isTopFrame) {
     return null;
   }
+
+  const rect = element.getBoundingClientRect();
+  const viewport = {
+    x: 0,
+    y: 0,
+    width: window.innerWidth,
+    height: window.innerHeight,
+    top: 0,
+    right: window.innerWidth,
+    bottom: window.innerHeight,
+    left: 0
+  };
+
+  return {
+    iframeSelector: '',
+    iframeBounds: { ...viewport, toJSON: () => viewport } as DOMRect,
+    relativePosition: { x: rect.left, y: rect.top }
+  };
 }
 
 /**
@@ -1107,7 +1845,7 @@ function getComplexElementBounds(element: Element): DOMRect {
 /**
  * Calculate bounds after applying transform matrix
  */
-function calculateTransformedBounds(bounds: DOMRect, matrix: DOMMatrix): DOMRect {
+function calculateTransformedBounds(bounds: DOMRect, matrix: TransformMatrix): DOMRect {
   // Get all four corners of the element
   const corners = [
     { x: bounds.left, y: bounds.top },
@@ -1117,10 +1855,10 @@ function calculateTransformedBounds(bounds: DOMRect, matrix: DOMMatrix): DOMRect
   ];
   
   // Transform each corner
-  const transformedCorners = corners.map(corner => {
-    const point = new DOMPoint(corner.x, corner.y);
-    return matrix.transformPoint(point);
-  });
+  const transformedCorners = corners.map(corner => ({
+    x: matrix.a * corner.x + matrix.c * corner.y + matrix.e,
+    y: matrix.b * corner.x + matrix.d * corner.y + matrix.f
+  }));
   
   // Find bounding box of transformed corners
   const xs = transformedCorners.map(p => p.x);
@@ -1153,15 +1891,116 @@ function calculateTransformedBounds(bounds: DOMRect, matrix: DOMMatrix): DOMRect
   } as DOMRect;
 }
 
+// ===== Frames =====
+
+// Type of the message a child frame posts to its parent window
+const FRAME_ANNOUNCEMENT = 'screenshot-frame-announcement';
+
+// Announcements that came before the parent was asked, and parents still waiting for one
+const announcedFrames = new Map<string, MessageEventSource>();
+const frameAnnouncementWaiters = new Map<string, (source: MessageEventSource) => void>();
+
+/**
+ * Post a token to the parent window, so the parent can tell which of its
+ * frame elements this frame is even when it can't read the frame's origin
+ */
+export function announceFrame(token: string): void {
+  window.parent.postMessage({ type: FRAME_ANNOUNCEMENT, token }, '*');
+}
+
+/**
+ * Record the window that announced a token
+ */
+function handleFrameAnnouncement(event: MessageEvent): void {
+  const { data, source } = event;
+  if (data?.type !== FRAME_ANNOUNCEMENT || typeof data.token !== 'string' || !source) {
+    return;
+  }
+
+  const waiter = frameAnnouncementWaiters.get(data.token);
+  if (waiter) {
+    frameAnnouncementWaiters.delete(data.token);
+    waiter(source);
+  } else {
+    announcedFrames.set(data.token, source);
+  }
+}
+
+/**
+ * Measure the content box of the child frame that announced a token, in this
+ * frame's viewport. The child's viewport starts inside the frame element's
+ * border and padding.
+ */
+export async function measureChildFrame(token: string, timeoutMs: number = 1000): Promise<RectBounds> {
+  const source = await waitForFrameAnnouncement(token, timeoutMs);
+  const frame = findFrameElements(document).find(element => element.contentWindow === source);
+  if (!frame) {
+    throw new Error('Frame element not found for the announced frame');
+  }
+
+  const rect = frame.getBoundingClientRect();
+  const style = window.getComputedStyle(frame);
+  const paddingLeft = parseFloat(style.paddingLeft) || 0;
+  const paddingTop = parseFloat(style.paddingTop) || 0;
+  const paddingRight = parseFloat(style.paddingRight) || 0;
+  const paddingBottom = parseFloat(style.paddingBottom) || 0;
+
+  return {
+    left: rect.left + frame.clientLeft + paddingLeft,
+    top: rect.top + frame.clientTop + paddingTop,
+    width: Math.max(0, frame.clientWidth - paddingLeft - paddingRight),
+    height: Math.max(0, frame.clientHeight - paddingTop - paddingBottom)
+  };
+}
+
+/**
+ * Resolve with the window that posts a token, or fail once the time is up
+ */
+function waitForFrameAnnouncement(token: string, timeoutMs: number): Promise<MessageEventSource> {
+  const announced = announcedFrames.get(token);
+  if (announced) {
+    announcedFrames.delete(token);
+    return Promise.resolve(announced);
+  }
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      frameAnnouncementWaiters.delete(token);
+      reject(new Error('Child frame did not announce itself'));
+    }, timeoutMs);
+
+    frameAnnouncementWaiters.set(token, source => {
+      clearTimeout(timer);
+      resolve(source);
+    });
+  });
+}
+
+/**
+ * Frame elements in a document, including those inside open shadow roots
+ */
+function findFrameElements(root: Document | ShadowRoot): HTMLIFrameElement[] {
+  const frames = Array.from(root.querySelectorAll<HTMLIFrameElement>('iframe, frame'));
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    if (element.shadowRoot) {
+      frames.push(...findFrameElements(element.shadowRoot));
+    }
+  }
+  return frames;
+}
+
 // Export functions for testing
 export {
   startElementSelection,
   exitElementSelection,
   getElementInfo,
   generateElementSelector,
+  getNavigationTarget,
+  getElementBreadcrumb,
   detectScrollableElement,
   analyzeComplexElement,
   getComplexElementBounds,
   calculateShadowBounds,
-  detectIframeContext
+  detectIframeContext,
+  handleFrameAnnouncement
 };
\ No newline at end of file
@@ -0,0 +1,438 @@
+// Region selection: drag a rectangle over the page instead of picking an element
+
+import { ElementInfo } from '../types';
+
+// Page coordinates, like ElementInfo.boundingRect
+export interface RegionRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export type RegionSide = 'top' | 'right' | 'bottom' | 'left';
+export type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+export interface SnapEdges {
+  x: number[]; // Left and right edges of elements, page coordinates
+  y: number[]; // Top and bottom edges
+}
+
+interface RegionCallbacks {
+  onConfirm: (region: RegionRect) => void;
+  onCancel: () => void;
+}
+
+interface DragState {
+  mode: 'draw' | 'move' | 'resize';
+  handle?: ResizeHandle;
+  startX: number;
+  startY: number;
+  startRegion: RegionRect;
+}
+
+// Drags smaller than this are treated as clicks
+export const MIN_REGION_SIZE = 5;
+
+// Distance in CSS pixels within which a side snaps to an element edge
+export const SNAP_THRESHOLD = 8;
+
+// Elements measured for snap edges; very large pages snap to the first ones only
+const MAX_SNAP_ELEMENTS = 3000;
+
+const RESIZE_HANDLES: ResizeHandle[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+
+// Region selection state
+let overlay: HTMLElement | null = null;
+let selectionBox: HTMLElement | null = null;
+let toolbar: HTMLElement | null = null;
+let sizeLabel: HTMLElement | null = null;
+let region: RegionRect | null = null;
+let drag: DragState | null = null;
+let snapEdges: SnapEdges = { x: [], y: [] };
+let callbacks: RegionCallbacks | null = null;
+
+/**
+ * Start drawing regions on the selection overlay
+ */
+export function startRegionSelection(selectionOverlay: HTMLElement, regionCallbacks: RegionCallbacks): void {
+  stopRegionSelection();
+
+  overlay = selectionOverlay;
+  callbacks = regionCallbacks;
+  overlay.classList.add('screenshot-region-mode');
+  overlay.addEventListener('mousedown', handleOverlayMouseDown);
+  document.addEventListener('mousemove', handleMouseMove, true);
+  document.addEventListener('mouseup', handleMouseUp, true);
+}
+
+/**
+ * Remove the region UI and listeners
+ */
+export function stopRegionSelection(): void {
+  overlay?.classList.remove('screenshot-region-mode');
+  overlay?.removeEventListener('mousedown', handleOverlayMouseDown);
+  document.removeEventListener('mousemove', handleMouseMove, true);
+  document.removeEventListener('mouseup', handleMouseUp, true);
+
+  selectionBox?.remove();
+  toolbar?.remove();
+  overlay = null;
+  selectionBox = null;
+  toolbar = null;
+  sizeLabel = null;
+  region = null;
+  drag = null;
+  callbacks = null;
+}
+
+/**
+ * Confirm the drawn region, if any
+ *
+ * @returns Whether there was a region to confirm
+ */
+export function confirmRegionSelection(): boolean {
+  if (!region || !callbacks) {
+    return false;
+  }
+
+  const confirmed = region;
+  const { onConfirm } = callbacks;
+  stopRegionSelection();
+  onConfirm(confirmed);
+  return true;
+}
+
+/**
+ * Whether an element belongs to the region controls, which take their own clicks
+ */
+export function isRegionControl(element: Element): boolean {
+  return element.closest('.screenshot-region-toolbar') !== null;
+}
+
+// ===== Geometry =====
+
+/**
+ * Rectangle spanned by two corners, in any order
+ */
+export function normalizeRegion(x1: number, y1: number, x2: number, y2: number): RegionRect {
+  return {
+    left: Math.min(x1, x2),
+    top: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1)
+  };
+}
+
+/**
+ * Move the sides named by a handle; dragging past the opposite side flips the rectangle
+ */
+export function resizeRegion(rect: RegionRect, handle: ResizeHandle, dx: number, dy: number): RegionRect {
+  let left = rect.left;
+  let top = rect.top;
+  let right = rect.left + rect.width;
+  let bottom = rect.top + rect.height;
+
+  if (handle.includes('w')) left += dx;
+  if (handle.includes('e')) right += dx;
+  if (handle.includes('n')) top += dy;
+  if (handle.includes('s')) bottom += dy;
+
+  return normalizeRegion(left, top, right, bottom);
+}
+
+/**
+ * Sides moved by a resize handle
+ */
+export function getHandleSides(handle: ResizeHandle): RegionSide[] {
+  const sides: RegionSide[] = [];
+  if (handle.includes('n')) sides.push('top');
+  if (handle.includes('e')) sides.push('right');
+  if (handle.includes('s')) sides.push('bottom');
+  if (handle.includes('w')) sides.push('left');
+  return sides;
+}
+
+/**
+ * Move each given side to the nearest element edge within the threshold
+ */
+export function snapRegion(
+  rect: RegionRect,
+  edges: SnapEdges,
+  threshold: number = SNAP_THRESHOLD,
+  sides: RegionSide[] = ['top', 'right', 'bottom', 'left']
+): RegionRect {
+  const snap = (value: number, candidates: number[]): number => {
+    let best = value;
+    let bestDistance = threshold;
+    for (const candidate of candidates) {
+      const distance = Math.abs(candidate - value);
+      if (distance <= bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const left = sides.includes('left') ? snap(rect.left, edges.x) : rect.left;
+  const right = sides.includes('right') ? snap(rect.left + rect.width, edges.x) : rect.left + rect.width;
+  const top = sides.includes('top') ? snap(rect.top, edges.y) : rect.top;
+  const bottom = sides.includes('bottom') ? snap(rect.top + rect.height, edges.y) : rect.top + rect.height;
+
+  // Snapping never collapses the region
+  if (right - left < MIN_REGION_SIZE || bottom - top < MIN_REGION_SIZE) {
+    return rect;
+  }
+  return normalizeRegion(left, top, right, bottom);
+}
+
+/**
+ * Edges of the page's elements in view, in page coordinates
+ */
+export function collectSnapEdges(): SnapEdges {
+  const scrollX = window.scrollX || document.documentElement.scrollLeft;
+  const scrollY = window.scrollY || document.documentElement.scrollTop;
+  const x = new Set<number>();
+  const y = new Set<number>();
+
+  const elements = Array.from(document.body.querySelectorAll('*')).slice(0, MAX_SNAP_ELEMENTS);
+  for (const element of elements) {
+    if (Array.from(element.classList).some(cls => cls.startsWith('screenshot-'))) {
+      continue;
+    }
+
+    const rect = element.getBoundingClientRect();
+    const inView = rect.right > 0 && rect.bottom > 0 && rect.left < window.innerWidth && rect.top < window.innerHeight;
+    if (rect.width === 0 || rect.height === 0 || !inView) {
+      continue;
+    }
+
+    x.add(rect.left + scrollX).add(rect.right + scrollX);
+    y.add(rect.top + scrollY).add(rect.bottom + scrollY);
+  }
+
+  return { x: Array.from(x), y: Array.from(y) };
+}
+
+/**
+ * Element info for a region, so the background crops it like an element
+ */
+export function createRegionElementInfo(rect: RegionRect): ElementInfo {
+  const bounds = {
+    x: rect.left,
+    y: rect.top,
+    width: rect.width,
+    height: rect.height,
+    top: rect.top,
+    right: rect.left + rect.width,
+    bottom: rect.top + rect.height,
+    left: rect.left
+  };
+
+  return {
+    selector: '',
+    boundingRect: { ...bounds, toJSON: () => bounds } as DOMRect,
+    isScrollable: false,
+    totalHeight: rect.height,
+    visibleHeight: rect.height,
+    totalWidth: rect.width,
+    visibleWidth: rect.width,
+    isScrollContainer: false,
+    hasTransform: false,
+    hasShadow: false,
+    isInIframe: false,
+    isFixed: false,
+    zIndex: 0,
+    computedStyles: {
+      position: 'static',
+      transform: 'none',
+      transformOrigin: '',
+      boxShadow: 'none',
+      textShadow: 'none',
+      border: '',
+      borderRadius: '',
+      overflow: 'visible',
+      zIndex: 'auto'
+    }
+  };
+}
+
+// ===== Mouse handling =====
+
+function getPagePoint(event: MouseEvent): { x: number; y: number } {
+  return {
+    x: event.clientX + (window.scrollX || document.documentElement.scrollLeft),
+    y: event.clientY + (window.scrollY || document.documentElement.scrollTop)
+  };
+}
+
+function beginDrag(event: MouseEvent, mode: DragState['mode'], handle?: ResizeHandle): void {
+  event.preventDefault();
+  event.stopPropagation();
+
+  const point = getPagePoint(event);
+  drag = {
+    mode,
+    startX: point.x,
+    startY: point.y,
+    startRegion: region ?? { left: point.x, top: point.y, width: 0, height: 0 }
+  };
+  if (handle) {
+    drag.handle = handle;
+  }
+
+  // The page may have scrolled since the last drag
+  snapEdges = collectSnapEdges();
+}
+
+function handleOverlayMouseDown(event: MouseEvent): void {
+  if (event.button !== 0) {
+    return;
+  }
+
+  // Drawing starts over any existing region
+  region = null;
+  beginDrag(event, 'draw');
+}
+
+function handleMouseMove(event: MouseEvent): void {
+  if (!drag) {
+    return;
+  }
+
+  event.preventDefault();
+  const point = getPagePoint(event);
+  const dx = point.x - drag.startX;
+  const dy = point.y - drag.startY;
+
+  // Alt turns snapping off while dragging
+  const snapping = !event.altKey;
+  let next: RegionRect;
+
+  switch (drag.mode) {
+    case 'draw':
+      next = normalizeRegion(drag.startX, drag.startY, point.x, point.y);
+      if (snapping) next = snapRegion(next, snapEdges);
+      break;
+    case 'move':
+      next = { ...drag.startRegion, left: drag.startRegion.left + dx, top: drag.startRegion.top + dy };
+      break;
+    case 'resize':
+      next = resizeRegion(drag.startRegion, drag.handle!, dx, dy);
+      if (snapping) next = snapRegion(next, snapEdges, SNAP_THRESHOLD, getHandleSides(drag.handle!));
+      break;
+  }
+
+  region = next;
+  renderRegion(false);
+}
+
+function handleMouseUp(event: MouseEvent): void {
+  if (!drag) {
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+  drag = null;
+
+  if (!region || region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) {
+    region = null;
+    selectionBox?.remove();
+    toolbar?.remove();
+    selectionBox = null;
+    toolbar = null;
+    return;
+  }
+
+  renderRegion(true);
+}
+
+// ===== Rendering =====
+
+/**
+ * Draw the region box, with handles and the confirm toolbar once the drag ends
+ */
+function renderRegion(showToolbar: boolean): void {
+  if (!region) {
+    return;
+  }
+
+  if (!selectionBox) {
+    selectionBox = createSelectionBox();
+    document.body.appendChild(selectionBox);
+  }
+
+  selectionBox.style.left = `${region.left}px`;
+  selectionBox.style.top = `${region.top}px`;
+  selectionBox.style.width = `${region.width}px`;
+  selectionBox.style.height = `${region.height}px`;
+
+  if (!showToolbar) {
+    toolbar?.classList.add('screenshot-region-toolbar-hidden');
+    return;
+  }
+
+  if (!toolbar) {
+    toolbar = createToolbar();
+    document.body.appendChild(toolbar);
+  }
+  toolbar.classList.remove('screenshot-region-toolbar-hidden');
+  sizeLabel!.textContent = `${Math.round(region.width)} × ${Math.round(region.height)}`;
+
+  // Below the region, or above it when there is no room in the viewport
+  const scrollY = window.scrollY || document.documentElement.scrollTop;
+  const below = region.top + region.height + 8;
+  const fitsBelow = below + toolbar.offsetHeight < scrollY + window.innerHeight;
+  toolbar.style.left = `${region.left}px`;
+  toolbar.style.top = `${fitsBelow ? below : Math.max(region.top - toolbar.offsetHeight - 8, scrollY + 8)}px`;
+}
+
+function createSelectionBox(): HTMLElement {
+  const box = document.createElement('div');
+  box.className = 'screenshot-region-selection';
+  box.addEventListener('mousedown', event => {
+    if (event.button === 0) beginDrag(event, 'move');
+  });
+
+  for (const handle of RESIZE_HANDLES) {
+    const handleElement = document.createElement('div');
+    handleElement.className = `screenshot-region-handle screenshot-region-handle-${handle}`;
+    handleElement.addEventListener('mousedown', event => {
+      if (event.button === 0) beginDrag(event, 'resize', handle);
+    });
+    box.appendChild(handleElement);
+  }
+
+  return box;
+}
+
+function createToolbar(): HTMLElement {
+  const bar = document.createElement('div');
+  bar.className = 'screenshot-region-toolbar';
+
+  sizeLabel = document.createElement('span');
+  sizeLabel.className = 'screenshot-region-size';
+
+  const hint = document.createElement('span');
+  hint.className = 'screenshot-region-hint';
+  hint.textContent = '拖曳控制點調整大小，按住 Alt 停用貼齊';
+
+  const confirmButton = document.createElement('button');
+  confirmButton.className = 'screenshot-region-confirm';
+  confirmButton.textContent = '確認截圖';
+  confirmButton.addEventListener('click', () => confirmRegionSelection());
+
+  const cancelButton = document.createElement('button');
+  cancelButton.className = 'screenshot-region-cancel';
+  cancelButton.textContent = '取消';
+  cancelButton.addEventListener('click', () => {
+    const onCancel = callbacks?.onCancel;
+    stopRegionSelection();
+    onCancel?.();
+  });
+
+  bar.append(sizeLabel, hint, confirmButton, cancelButton);
+  return bar;
+}
@@ -0,0 +1,244 @@
+// History page script: browse, search and reuse earlier captures
+
+import { HistoryEntry, HistoryFilter } from '../types';
+import { CaptureHistory, DEFAULT_HISTORY_QUOTA_MB } from '../utils/captureHistory';
+import { FormatRegistry } from '../utils/formatRegistry';
+import { ScreenshotProcessor } from '../utils/screenshotProcessor';
+import { SettingsService } from '../utils/settingsService';
+
+// DOM elements
+let searchInput: HTMLInputElement;
+let fromInput: HTMLInputElement;
+let toInput: HTMLInputElement;
+let clearButton: HTMLButtonElement;
+let listElement: HTMLElement;
+let emptyElement: HTMLElement;
+let usageElement: HTMLElement;
+
+document.addEventListener('DOMContentLoaded', () => {
+  initializeHistory();
+});
+
+function initializeHistory() {
+  console.log('History page 已初始化');
+
+  searchInput = document.getElementById('history-search') as HTMLInputElement;
+  fromInput = document.getElementById('history-from') as HTMLInputElement;
+  toInput = document.getElementById('history-to') as HTMLInputElement;
+  clearButton = document.getElementById('clear-history') as HTMLButtonElement;
+  listElement = document.getElementById('history-list') as HTMLElement;
+  emptyElement = document.getElementById('history-empty') as HTMLElement;
+  usageElement = document.getElementById('history-usage') as HTMLElement;
+
+  searchInput.addEventListener('input', () => renderHistory());
+  fromInput.addEventListener('change', () => renderHistory());
+  toInput.addEventListener('change', () => renderHistory());
+  clearButton.addEventListener('click', clearHistory);
+
+  renderHistory();
+}
+
+/**
+ * Read the filter inputs; dates cover whole local days
+ */
+function getFilter(): HistoryFilter {
+  const filter: HistoryFilter = {};
+
+  if (searchInput.value.trim()) {
+    filter.hostname = searchInput.value;
+  }
+  if (fromInput.value) {
+    filter.from = new Date(`${fromInput.value}T00:00:00`).getTime();
+  }
+  if (toInput.value) {
+    filter.to = new Date(`${toInput.value}T23:59:59.999`).getTime();
+  }
+
+  return filter;
+}
+
+async function renderHistory() {
+  try {
+    const entries = await CaptureHistory.list(getFilter());
+
+    listElement.replaceChildren(...entries.map(createCard));
+    emptyElement.classList.toggle('hidden', entries.length > 0);
+    await renderUsage();
+  } catch (error) {
+    console.error('Failed to load history:', error);
+    showNotification('載入截圖紀錄失敗', 'error');
+  }
+}
+
+async function renderUsage() {
+  const [usage, quotaMb] = await Promise.all([
+    CaptureHistory.getUsage(),
+    SettingsService.get('historyQuotaMb', DEFAULT_HISTORY_QUOTA_MB)
+  ]);
+
+  usageElement.textContent = quotaMb
+    ? `已使用 ${formatMegabytes(usage)} MB，上限 ${quotaMb} MB（超過時刪除最久未使用的紀錄）`
+    : '截圖紀錄已關閉，可在設定頁面開啟';
+}
+
+/**
+ * Build the card of one entry. Page text is set through textContent only.
+ */
+function createCard(entry: HistoryEntry): HTMLElement {
+  const card = document.createElement('article');
+  card.className = 'history-card';
+
+  const thumbnail = document.createElement('img');
+  thumbnail.className = 'history-thumbnail';
+  thumbnail.src = entry.thumbnail;
+  thumbnail.alt = entry.title || entry.hostname;
+
+  const details = document.createElement('div');
+  details.className = 'history-details';
+
+  const title = document.createElement('p');
+  title.className = 'history-title';
+  title.textContent = entry.title || entry.hostname || '未知頁面';
+  title.title = entry.url;
+
+  const format = FormatRegistry.has(entry.options.format) ? FormatRegistry.get(entry.options.format).label : entry.options.format;
+  const meta = document.createElement('p');
+  meta.className = 'history-meta';
+  meta.textContent = [
+    entry.hostname,
+    new Date(entry.capturedAt).toLocaleString(),
+    entry.imageCount > 1 ? `${format}，${entry.imageCount} 張分塊` : format,
+    `${formatMegabytes(entry.size)} MB`
+  ].filter(Boolean).join(' · ');
+
+  details.append(title, meta);
+
+  const actions = document.createElement('div');
+  actions.className = 'history-actions';
+  actions.append(
+    createButton('下載', 'primary-button', () => downloadEntry(entry)),
+    createButton('複製', 'secondary-button', () => copyEntry(entry), !canCopy(entry)),
+    createButton('刪除', 'danger-button', () => deleteEntry(entry))
+  );
+
+  card.append(thumbnail, details, actions);
+  return card;
+}
+
+function createButton(label: string, className: string, onClick: () => void, disabled = false): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.className = className;
+  button.textContent = label;
+  button.disabled = disabled;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * The clipboard holds one image, so tiled and PDF captures are download only
+ */
+function canCopy(entry: HistoryEntry): boolean {
+  return entry.imageCount === 1 && !(FormatRegistry.has(entry.options.format) && FormatRegistry.get(entry.options.format).paged);
+}
+
+async function downloadEntry(entry: HistoryEntry) {
+  try {
+    const images = await CaptureHistory.getImages(entry.id);
+    const baseFilename = entry.filenames[0] ??
+      ScreenshotProcessor.generateFilename(entry.options.filename, entry.options.format, {
+        date: new Date(entry.capturedAt),
+        url: entry.url,
+        ...(entry.title ? { title: entry.title } : {}),
+        selector: entry.elementInfo.selector,
+        mode: entry.isLongScreenshot ? 'long' : 'element'
+      });
+
+    for (let i = 0; i < images.length; i++) {
+      const filename = entry.filenames[i] ?? (images.length > 1
+        ? ScreenshotProcessor.numberFilename(baseFilename, i + 1, images.length)
+        : baseFilename);
+      await ScreenshotProcessor.downloadScreenshot(images[i], filename);
+    }
+
+    showNotification('已重新下載', 'success');
+  } catch (error) {
+    console.error('Failed to download history entry:', error);
+    showNotification('下載失敗', 'error');
+  }
+}
+
+async function copyEntry(entry: HistoryEntry) {
+  try {
+    const [image] = await CaptureHistory.getImages(entry.id);
+    const blob = await toPngBlob(image);
+    await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+    showNotification('已複製到剪貼簿', 'success');
+  } catch (error) {
+    console.error('Failed to copy history entry:', error);
+    showNotification('複製失敗', 'error');
+  }
+}
+
+async function deleteEntry(entry: HistoryEntry) {
+  try {
+    await CaptureHistory.delete(entry.id);
+    await renderHistory();
+  } catch (error) {
+    console.error('Failed to delete history entry:', error);
+    showNotification('刪除失敗', 'error');
+  }
+}
+
+async function clearHistory() {
+  if (!confirm('確定要刪除所有截圖紀錄嗎？')) {
+    return;
+  }
+
+  try {
+    await CaptureHistory.clear();
+    await renderHistory();
+    showNotification('已清除所有截圖紀錄', 'success');
+  } catch (error) {
+    console.error('Failed to clear history:', error);
+    showNotification('清除失敗', 'error');
+  }
+}
+
+/**
+ * The clipboard only takes PNG; redraw JPEG and WebP captures
+ */
+function toPngBlob(dataUrl: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      canvas.getContext('2d')?.drawImage(img, 0, 0);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUrl;
+  });
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+function showNotification(message: string, type: 'success' | 'error') {
+  const container = document.getElementById('history-notification');
+  if (!container) return;
+
+  const notification = document.createElement('div');
+  notification.className = `notification notification-${type}`;
+  notification.textContent = message;
+  container.replaceChildren(notification);
+
+  // Auto-remove after 3 seconds
+  setTimeout(() => {
+    if (notification.parentNode) {
+      notification.remove();
+    }
+  }, 3000);
+}
@@ -0,0 +1,72 @@
+// Offscreen document script: runs canvas-based image processing for the service worker
+
+import { MessageRouter } from '../utils/messageHandler';
+import { MessageType, CropImagePayload, StitchImagePayload, StitchTilesPayload, EncodeImagePayload, EncodeDocumentPayload, ThumbnailPayload, ComposeImagesPayload } from '../types';
+import { ScreenshotProcessor } from '../utils/screenshotProcessor';
+
+// Initialize message router
+const messageRouter = new MessageRouter();
+
+// Setup message handlers
+setupMessageHandlers();
+
+// Only answer image jobs; every other runtime message belongs to the background
+messageRouter.setupListener({ ignoreUnregistered: true });
+
+/**
+ * Setup message handlers for image processing jobs
+ */
+function setupMessageHandlers(): void {
+  // Crop a viewport capture to the element area
+  messageRouter.register(MessageType.OFFSCREEN_CROP, async (payload: CropImagePayload) => {
+    return ScreenshotProcessor.cropToElement(
+      payload.dataUrl,
+      payload.elementInfo,
+      payload.devicePixelRatio
+    );
+  });
+
+  // Stitch long screenshot segments and report their alignment
+  messageRouter.register(MessageType.OFFSCREEN_STITCH, async (payload: StitchImagePayload) => {
+    return ScreenshotProcessor.stitchSegmentsWithAlignment(
+      payload.segments,
+      payload.elementInfo,
+      payload.devicePixelRatio
+    );
+  });
+
+  // Stitch oversized long screenshots into tiles
+  messageRouter.register(MessageType.OFFSCREEN_STITCH_TILES, async (payload: StitchTilesPayload) => {
+    return ScreenshotProcessor.stitchSegmentsTiled(
+      payload.segments,
+      payload.elementInfo,
+      payload.devicePixelRatio,
+      payload.tileHeight
+    );
+  });
+
+  // Encode to the requested output format
+  messageRouter.register(MessageType.OFFSCREEN_ENCODE, async (payload: EncodeImagePayload) => {
+    return ScreenshotProcessor.convertFormat(payload.dataUrl, payload.options);
+  });
+
+  // Encode several images as the pages of one document
+  messageRouter.register(MessageType.OFFSCREEN_ENCODE_DOCUMENT, async (payload: EncodeDocumentPayload) => {
+    return ScreenshotProcessor.createPdf(payload.dataUrls, payload.options);
+  });
+
+  // Scale down a preview for the capture history
+  messageRouter.register(MessageType.OFFSCREEN_THUMBNAIL, async (payload: ThumbnailPayload) => {
+    return ScreenshotProcessor.createThumbnail(payload.dataUrl, payload.maxSize);
+  });
+
+  // Combine several element crops into one image
+  messageRouter.register(MessageType.OFFSCREEN_COMPOSE, async (payload: ComposeImagesPayload) => {
+    return ScreenshotProcessor.composeImages(
+      payload.parts,
+      payload.width,
+      payload.height,
+      payload.devicePixelRatio
+    );
+  });
+}
@@ -1,27 +1,85 @@
 // Options page script for user settings management
 
-import { UserSettings } from '../types';
+import { UserSettings, OutputDestination, ImageFormat, PdfPageSize, MultiCaptureOutput, CaptureProfile, FilenameContext } from '../types';
+import { FormatRegistry } from '../utils/formatRegistry';
+import { DEFAULT_HISTORY_QUOTA_MB } from '../utils/captureHistory';
 import { 
-  loadSettings, 
-  saveSettings, 
-  resetSettings, 
   validateSettings, 
-  generateFilename,
   DEFAULT_SETTINGS 
 } from '../utils/settingsManager';
+import { SettingsService } from '../utils/settingsService';
+import { CaptureProfiles, MAX_PROFILE_PADDING } from '../utils/captureProfiles';
+import { FilenameTemplate } from '../utils/filenameTemplate';
+import { SettingsTransfer, SettingsDocument, ImportMode, ImportPreview } from '../utils/settingsTransfer';
 
 // DOM elements
 let formatSelect: HTMLSelectElement;
 let qualitySlider: HTMLInputElement;
 let qualityValue: HTMLSpanElement;
+let pdfPageSizeSelect: HTMLSelectElement;
 let filenameTemplate: HTMLInputElement;
+let filenamePreview: HTMLElement;
 let autoDownloadCheckbox: HTMLInputElement;
 let showProgressCheckbox: HTMLInputElement;
 let highlightColorInput: HTMLInputElement;
+let keepHeaderSitesInput: HTMLTextAreaElement;
+let outputDownloadCheckbox: HTMLInputElement;
+let outputClipboardCheckbox: HTMLInputElement;
+let multiCaptureOutputSelect: HTMLSelectElement;
+let embedMetadataCheckbox: HTMLInputElement;
+let metadataSidecarCheckbox: HTMLInputElement;
+let historyQuotaInput: HTMLInputElement;
+let profileList: HTMLElement;
+let addProfileButton: HTMLButtonElement;
+let profileTestUrlInput: HTMLInputElement;
+let profileTestButton: HTMLButtonElement;
+let profileTestResult: HTMLElement;
+let exportButton: HTMLButtonElement;
+let importButton: HTMLButtonElement;
+let importFileInput: HTMLInputElement;
+let importPreview: HTMLElement;
+let importChangesList: HTMLUListElement;
+let applyImportButton: HTMLButtonElement;
+let cancelImportButton: HTMLButtonElement;
 let saveButton: HTMLButtonElement;
 let resetButton: HTMLButtonElement;
 
-// Import default settings from settings manager
+// Fields of each setting, disabled when a policy locks the setting
+const SETTING_FIELD_IDS: Partial<Record<keyof UserSettings, string[]>> = {
+  defaultFormat: ['format-select'],
+  defaultQuality: ['quality-slider'],
+  pdfPageSize: ['pdf-page-size'],
+  filenameTemplate: ['filename-template'],
+  autoDownload: ['auto-download'],
+  showProgress: ['show-progress'],
+  highlightColor: ['highlight-color'],
+  keepHeaderSites: ['keep-header-sites'],
+  outputDestinations: ['output-download', 'output-clipboard'],
+  multiCaptureOutput: ['multi-capture-output'],
+  embedMetadata: ['embed-metadata'],
+  metadataSidecar: ['metadata-sidecar'],
+  historyQuotaMb: ['history-quota'],
+  captureProfiles: ['add-profile']
+};
+
+// Sample page the filename preview expands page tokens for
+const FILENAME_PREVIEW_CONTEXT: FilenameContext = {
+  url: 'https://www.example.com/docs/getting-started',
+  title: '開始使用',
+  selector: '#main > .card',
+  tagName: 'div',
+  elementId: 'main',
+  width: 1280,
+  height: 720,
+  mode: 'element',
+  counter: 1
+};
+
+// Settings locked by policy
+let lockedKeys: Array<keyof UserSettings> = [];
+
+// Document picked for import, waiting for the user to confirm the preview
+let pendingImport: SettingsDocument | null = null;
 
 document.addEventListener('DOMContentLoaded', () => {
   initializeOptions();
@@ -32,22 +90,50 @@ function initializeOptions() {
   
   // Get DOM elements
   getDOMElements();
+  FormatRegistry.populateSelect(formatSelect);
   
   // Set up event listeners
   setupEventListeners();
   
   // Load and display current settings
   loadAndDisplaySettings();
+
+  // Follow changes saved elsewhere, such as the popup's quick settings, and policy updates
+  SettingsService.onChanged(settings => {
+    displaySettings(settings);
+    loadLockedSettings();
+  });
 }
 
 function getDOMElements() {
   formatSelect = document.getElementById('format-select') as HTMLSelectElement;
   qualitySlider = document.getElementById('quality-slider') as HTMLInputElement;
   qualityValue = document.getElementById('quality-value') as HTMLSpanElement;
+  pdfPageSizeSelect = document.getElementById('pdf-page-size') as HTMLSelectElement;
   filenameTemplate = document.getElementById('filename-template') as HTMLInputElement;
+  filenamePreview = document.getElementById('filename-preview') as HTMLElement;
   autoDownloadCheckbox = document.getElementById('auto-download') as HTMLInputElement;
   showProgressCheckbox = document.getElementById('show-progress') as HTMLInputElement;
   highlightColorInput = document.getElementById('highlight-color') as HTMLInputElement;
+  keepHeaderSitesInput = document.getElementById('keep-header-sites') as HTMLTextAreaElement;
+  outputDownloadCheckbox = document.getElementById('output-download') as HTMLInputElement;
+  outputClipboardCheckbox = document.getElementById('output-clipboard') as HTMLInputElement;
+  multiCaptureOutputSelect = document.getElementById('multi-capture-output') as HTMLSelectElement;
+  embedMetadataCheckbox = document.getElementById('embed-metadata') as HTMLInputElement;
+  metadataSidecarCheckbox = document.getElementById('metadata-sidecar') as HTMLInputElement;
+  historyQuotaInput = document.getElementById('history-quota') as HTMLInputElement;
+  profileList = document.getElementById('capture-profiles') as HTMLElement;
+  addProfileButton = document.getElementById('add-profile') as HTMLButtonElement;
+  profileTestUrlInput = document.getElementById('profile-test-url') as HTMLInputElement;
+  profileTestButton = document.getElementById('test-profile-match') as HTMLButtonElement;
+  profileTestResult = document.getElementById('profile-test-result') as HTMLElement;
+  exportButton = document.getElementById('export-settings') as HTMLButtonElement;
+  importButton = document.getElementById('import-settings') as HTMLButtonElement;
+  importFileInput = document.getElementById('import-file') as HTMLInputElement;
+  importPreview = document.getElementById('import-preview') as HTMLElement;
+  importChangesList = document.getElementById('import-changes') as HTMLUListElement;
+  applyImportButton = document.getElementById('apply-import') as HTMLButtonElement;
+  cancelImportButton = document.getElementById('cancel-import') as HTMLButtonElement;
   saveButton = document.getElementById('save-settings') as HTMLButtonElement;
   resetButton = document.getElementById('reset-settings') as HTMLButtonElement;
 }
@@ -67,8 +153,29 @@ function setupEventListeners() {
   // Reset settings
   resetButton.addEventListener('click', resetUserSettings);
   
-  // Format change handler (show/hide quality setting for JPEG)
-  formatSelect.addEventListener('change', () => handleFormatChange());
+  // Format change handler (show/hide quality setting for JPEG); the preview shows the new extension
+  formatSelect.addEventListener('change', () => {
+    handleFormatChange();
+    validateFilenameTemplate();
+  });
+
+  // Capture profile editor
+  addProfileButton?.addEventListener('click', () => {
+    profileList.appendChild(createProfileCard({}));
+  });
+  profileTestButton?.addEventListener('click', () => {
+    profileTestResult.textContent = describeProfileMatch(readProfiles(), profileTestUrlInput.value);
+  });
+
+  // Settings import and export
+  exportButton?.addEventListener('click', exportUserSettings);
+  importButton?.addEventListener('click', () => importFileInput.click());
+  importFileInput?.addEventListener('change', handleImportFile);
+  document.querySelectorAll('input[name="import-mode"]').forEach(radio => {
+    radio.addEventListener('change', () => showImportPreview());
+  });
+  applyImportButton?.addEventListener('click', applyImport);
+  cancelImportButton?.addEventListener('click', closeImportPreview);
 }
 
 function handleFormatChange(formatElement?: HTMLSelectElement) {
@@ -78,36 +185,64 @@ function handleFormatChange(formatElement?: HTMLSelectElement) {
   const qualityGroup = document.querySelector('.quality-group') as HTMLElement;
   if (!qualityGroup) return;
   
-  if (format.value === 'jpeg') {
+  // Only lossy formats have a quality setting, within their own range
+  const info = FormatRegistry.has(format.value) ? FormatRegistry.get(format.value) : null;
+  if (info?.lossy && info.quality) {
     qualityGroup.style.display = 'flex';
+    const slider = qualityGroup.querySelector('input[type="range"]') as HTMLInputElement | null;
+    if (slider) {
+      slider.min = info.quality.min.toString();
+      slider.max = info.quality.max.toString();
+    }
   } else {
     qualityGroup.style.display = 'none';
   }
+  
+  // Page size applies to document formats only
+  const pageSizeGroup = document.querySelector('.pdf-page-size-group') as HTMLElement | null;
+  if (pageSizeGroup) {
+    pageSizeGroup.style.display = info?.paged ? 'flex' : 'none';
+  }
 }
 
 function validateFilenameTemplate(templateInput?: HTMLInputElement) {
   const input = templateInput || filenameTemplate;
   if (!input) return false;
   
-  const template = input.value.trim();
-  const isValid = template.length > 0 && !template.includes('/') && !template.includes('\\');
+  const isValid = FilenameTemplate.validate(input.value) === null;
   
   if (isValid) {
     input.classList.remove('invalid');
     input.title = '';
   } else {
     input.classList.add('invalid');
-    input.title = '文件名模板不能為空且不能包含路徑分隔符';
+    input.title = '文件名模板不能為空、不能包含反斜線或 . 與 .. 資料夾，且只能使用支援的變量';
+  }
+
+  if (filenamePreview && input === filenameTemplate) {
+    filenamePreview.textContent = describeFilenamePreview(input.value, (formatSelect?.value || DEFAULT_SETTINGS.defaultFormat) as ImageFormat);
   }
   
   return isValid;
 }
 
+/**
+ * The download path a template gives for a sample page, or why it is invalid
+ */
+function describeFilenamePreview(template: string, format: ImageFormat, date: Date = new Date()): string {
+  const error = FilenameTemplate.validate(template);
+  if (error) {
+    return `模板無效：${error}`;
+  }
+  return `預覽：${FilenameTemplate.render(template.trim(), format, { ...FILENAME_PREVIEW_CONTEXT, date })}`;
+}
+
 async function loadAndDisplaySettings() {
   try {
-    const settings = await loadSettings();
+    const settings = await SettingsService.load();
     displaySettings(settings);
     console.log('Settings loaded and displayed:', settings);
+    await loadLockedSettings();
   } catch (error) {
     console.error('Failed to load settings:', error);
     showNotification('載入設置失敗', 'error');
@@ -118,29 +253,63 @@ function displaySettings(settings: UserSettings, elements?: {
   formatSelect?: HTMLSelectElement;
   qualitySlider?: HTMLInputElement;
   qualityValue?: HTMLSpanElement;
+  pdfPageSizeSelect?: HTMLSelectElement;
   filenameTemplate?: HTMLInputElement;
   autoDownloadCheckbox?: HTMLInputElement;
   showProgressCheckbox?: HTMLInputElement;
   highlightColorInput?: HTMLInputElement;
+  keepHeaderSitesInput?: HTMLTextAreaElement;
+  outputDownloadCheckbox?: HTMLInputElement;
+  outputClipboardCheckbox?: HTMLInputElement;
+  multiCaptureOutputSelect?: HTMLSelectElement;
+  embedMetadataCheckbox?: HTMLInputElement;
+  metadataSidecarCheckbox?: HTMLInputElement;
+  historyQuotaInput?: HTMLInputElement;
+  profileList?: HTMLElement;
 }) {
   const format = elements?.formatSelect || formatSelect;
   const quality = elements?.qualitySlider || qualitySlider;
   const qualityVal = elements?.qualityValue || qualityValue;
+  const pdfPageSize = elements?.pdfPageSizeSelect || pdfPageSizeSelect;
   const filename = elements?.filenameTemplate || filenameTemplate;
   const autoDownload = elements?.autoDownloadCheckbox || autoDownloadCheckbox;
   const showProgress = elements?.showProgressCheckbox || showProgressCheckbox;
   const highlightColor = elements?.highlightColorInput || highlightColorInput;
+  const keepHeaderSites = elements?.keepHeaderSitesInput || keepHeaderSitesInput;
+  const outputDownload = elements?.outputDownloadCheckbox || outputDownloadCheckbox;
+  const outputClipboard = elements?.outputClipboardCheckbox || outputClipboardCheckbox;
+  const multiCaptureOutput = elements?.multiCaptureOutputSelect || multiCaptureOutputSelect;
+  const embedMetadata = elements?.embedMetadataCheckbox || embedMetadataCheckbox;
+  const metadataSidecar = elements?.metadataSidecarCheckbox || metadataSidecarCheckbox;
+  const historyQuota = elements?.historyQuotaInput || historyQuotaInput;
+  const profiles = elements?.profileList || profileList;
+  const destinations = settings.outputDestinations ?? ['download'];
   
   if (format) format.value = settings.defaultFormat;
   if (quality) quality.value = settings.defaultQuality.toString();
   if (qualityVal) qualityVal.textContent = `${settings.defaultQuality}%`;
-  if (filename) filename.value = settings.filenameTemplate;
+  if (pdfPageSize) pdfPageSize.value = settings.pdfPageSize ?? 'a4';
+  if (filename) {
+    filename.value = settings.filenameTemplate;
+    validateFilenameTemplate(filename);
+  }
   if (autoDownload) autoDownload.checked = settings.autoDownload;
   if (showProgress) showProgress.checked = settings.showProgress;
   if (highlightColor) highlightColor.value = settings.highlightColor;
+  if (keepHeaderSites) keepHeaderSites.value = (settings.keepHeaderSites ?? []).join('\n');
+  if (outputDownload) outputDownload.checked = destinations.includes('download');
+  if (outputClipboard) outputClipboard.checked = destinations.includes('clipboard');
+  if (multiCaptureOutput) multiCaptureOutput.value = settings.multiCaptureOutput ?? 'separate';
+  if (embedMetadata) embedMetadata.checked = settings.embedMetadata ?? false;
+  if (metadataSidecar) metadataSidecar.checked = settings.metadataSidecar ?? false;
+  if (historyQuota) historyQuota.value = String(settings.historyQuotaMb ?? DEFAULT_HISTORY_QUOTA_MB);
+  if (profiles) renderProfiles(settings.captureProfiles ?? [], profiles);
   
   // Handle format-specific UI
   handleFormatChange(format);
+
+  // Rendered profile cards start out editable
+  applyLockedSettings(lockedKeys);
 }
 
 async function saveUserSettings() {
@@ -152,12 +321,23 @@ async function saveUserSettings() {
     }
     
     const settings: UserSettings = {
-      defaultFormat: formatSelect.value as 'png' | 'jpeg',
+      defaultFormat: formatSelect.value as ImageFormat,
       defaultQuality: parseInt(qualitySlider.value),
+      pdfPageSize: (pdfPageSizeSelect?.value || 'a4') as PdfPageSize,
       filenameTemplate: filenameTemplate.value.trim(),
       autoDownload: autoDownloadCheckbox.checked,
       showProgress: showProgressCheckbox.checked,
-      highlightColor: highlightColorInput?.value || DEFAULT_SETTINGS.highlightColor
+      highlightColor: highlightColorInput?.value || DEFAULT_SETTINGS.highlightColor,
+      keepHeaderSites: parseSiteList(keepHeaderSitesInput?.value ?? ''),
+      outputDestinations: getSelectedDestinations(
+        outputDownloadCheckbox?.checked ?? true,
+        outputClipboardCheckbox?.checked ?? false
+      ),
+      multiCaptureOutput: (multiCaptureOutputSelect?.value || 'separate') as MultiCaptureOutput,
+      embedMetadata: embedMetadataCheckbox?.checked ?? false,
+      metadataSidecar: metadataSidecarCheckbox?.checked ?? false,
+      historyQuotaMb: historyQuotaInput?.value ? Number(historyQuotaInput.value) : DEFAULT_HISTORY_QUOTA_MB,
+      captureProfiles: readProfiles()
     };
     
     // Validate settings before saving
@@ -167,12 +347,12 @@ async function saveUserSettings() {
       return;
     }
     
-    await saveSettings(settings);
+    await SettingsService.save(settings);
     showNotification('設置已保存', 'success');
     console.log('Settings saved:', settings);
     
     // Show preview of generated filename
-    const previewFilename = generateFilename(settings.filenameTemplate, settings.defaultFormat);
+    const previewFilename = FilenameTemplate.render(settings.filenameTemplate, settings.defaultFormat, FILENAME_PREVIEW_CONTEXT);
     showNotification(`文件名預覽: ${previewFilename}`, 'info');
   } catch (error) {
     console.error('Failed to save settings:', error);
@@ -182,7 +362,7 @@ async function saveUserSettings() {
 
 async function resetUserSettings() {
   try {
-    const defaultSettings = await resetSettings();
+    const defaultSettings = await SettingsService.reset();
     displaySettings(defaultSettings);
     showNotification('設置已重置為默認值', 'success');
     console.log('Settings reset to defaults');
@@ -192,7 +372,342 @@ async function resetUserSettings() {
   }
 }
 
-// Settings functions are now imported from settingsManager
+/**
+ * Parse one hostname per line, ignoring blank lines and duplicates
+ */
+function parseSiteList(value: string): string[] {
+  const sites = value
+    .split('\n')
+    .map(site => site.trim().toLowerCase())
+    .filter(site => site.length > 0);
+
+  return Array.from(new Set(sites));
+}
+
+/**
+ * Show one editor card per capture profile, in matching order
+ */
+function renderProfiles(profiles: CaptureProfile[], container: HTMLElement = profileList) {
+  container.replaceChildren(...profiles.map(profile => createProfileCard(profile)));
+}
+
+/**
+ * Build the editor card of a capture profile. Empty fields keep the global
+ * settings.
+ */
+function createProfileCard(profile: Partial<CaptureProfile>): HTMLElement {
+  const card = document.createElement('fieldset');
+  card.className = 'profile-card';
+  card.innerHTML = `
+    <div class="setting-group">
+      <label>名稱：</label>
+      <input type="text" data-field="name" placeholder="內部系統">
+    </div>
+    <div class="setting-group">
+      <label>網址比對：</label>
+      <input type="text" data-field="pattern" placeholder="*.example.com">
+    </div>
+    <div class="setting-group">
+      <label>圖片格式：</label>
+      <select data-field="format"><option value="">沿用預設</option></select>
+    </div>
+    <div class="setting-group">
+      <label>圖片質量：</label>
+      <input type="number" data-field="quality" min="10" max="100" placeholder="沿用預設">
+      <span>%</span>
+    </div>
+    <div class="setting-group">
+      <label>文件命名模板：</label>
+      <input type="text" data-field="filenameTemplate" placeholder="沿用預設">
+    </div>
+    <div class="setting-group">
+      <label>元素外圍留白：</label>
+      <input type="number" data-field="padding" min="0" max="${MAX_PROFILE_PADDING}" placeholder="0">
+      <span>px</span>
+    </div>
+    <div class="setting-group">
+      <label>截圖時隱藏的元素：</label>
+      <textarea data-field="hiddenSelectors" rows="2" placeholder="header.app-bar"></textarea>
+    </div>
+    <div class="setting-group">
+      <label>長截圖：</label>
+      <select data-field="longScreenshot">
+        <option value="auto">元素過長時自動長截圖</option>
+        <option value="off">只截取可見部分</option>
+      </select>
+    </div>
+    <div class="setting-group">
+      <label>長截圖頁首：</label>
+      <select data-field="keepHeader">
+        <option value="">依保留頁首的網站清單</option>
+        <option value="true">保留在第一段</option>
+        <option value="false">在所有片段中隱藏</option>
+      </select>
+    </div>
+    <div class="profile-card-actions">
+      <button type="button" class="secondary-button" data-action="up">上移</button>
+      <button type="button" class="secondary-button" data-action="remove">刪除</button>
+    </div>
+  `;
+
+  const field = <T extends HTMLElement>(name: string) => card.querySelector(`[data-field="${name}"]`) as T;
+  const formatField = field<HTMLSelectElement>('format');
+  FormatRegistry.list().forEach(format => {
+    const option = document.createElement('option');
+    option.value = format.id;
+    option.textContent = format.label;
+    formatField.appendChild(option);
+  });
+
+  field<HTMLInputElement>('name').value = profile.name ?? '';
+  field<HTMLInputElement>('pattern').value = profile.pattern ?? '';
+  formatField.value = profile.format ?? '';
+  field<HTMLInputElement>('quality').value = profile.quality?.toString() ?? '';
+  field<HTMLInputElement>('filenameTemplate').value = profile.filenameTemplate ?? '';
+  field<HTMLInputElement>('padding').value = profile.padding?.toString() ?? '';
+  field<HTMLTextAreaElement>('hiddenSelectors').value = (profile.hiddenSelectors ?? []).join('\n');
+  field<HTMLSelectElement>('longScreenshot').value = profile.longScreenshot ?? 'auto';
+  field<HTMLSelectElement>('keepHeader').value = profile.keepHeader === undefined ? '' : String(profile.keepHeader);
+
+  // Flag patterns that can never match while they are typed
+  const patternField = field<HTMLInputElement>('pattern');
+  patternField.addEventListener('input', () => {
+    const error = CaptureProfiles.validatePattern(patternField.value);
+    patternField.classList.toggle('invalid', error !== null);
+    patternField.title = error ?? '';
+  });
+
+  card.querySelector('[data-action="remove"]')?.addEventListener('click', () => card.remove());
+  card.querySelector('[data-action="up"]')?.addEventListener('click', () => {
+    if (card.previousElementSibling) {
+      card.parentElement?.insertBefore(card, card.previousElementSibling);
+    }
+  });
+
+  return card;
+}
+
+/**
+ * Read a capture profile back from its editor card, leaving out empty fields
+ */
+function readProfileCard(card: HTMLElement): CaptureProfile {
+  const value = (name: string) =>
+    ((card.querySelector(`[data-field="${name}"]`) as HTMLInputElement | null)?.value ?? '').trim();
+
+  const profile: CaptureProfile = {
+    name: value('name'),
+    pattern: value('pattern')
+  };
+
+  const format = value('format');
+  const quality = value('quality');
+  const filenameTemplate = value('filenameTemplate');
+  const padding = value('padding');
+  const hiddenSelectors = value('hiddenSelectors').split('\n').map(selector => selector.trim()).filter(Boolean);
+  const keepHeader = value('keepHeader');
+
+  if (format) profile.format = format as ImageFormat;
+  if (quality) profile.quality = Number(quality);
+  if (filenameTemplate) profile.filenameTemplate = filenameTemplate;
+  if (padding) profile.padding = Number(padding);
+  if (hiddenSelectors.length > 0) profile.hiddenSelectors = hiddenSelectors;
+  if (value('longScreenshot') === 'off') profile.longScreenshot = 'off';
+  if (keepHeader) profile.keepHeader = keepHeader === 'true';
+
+  return profile;
+}
+
+/**
+ * Read every capture profile in the editor, in matching order
+ */
+function readProfiles(container: HTMLElement = profileList): CaptureProfile[] {
+  if (!container) return [];
+  return Array.from(container.querySelectorAll<HTMLElement>('.profile-card')).map(readProfileCard);
+}
+
+/**
+ * Say which profile a URL would be captured with
+ */
+function describeProfileMatch(profiles: CaptureProfile[], url: string): string {
+  const trimmed = url.trim();
+  try {
+    new URL(trimmed);
+  } catch {
+    return '請輸入完整網址，例如 https://example.com/page';
+  }
+
+  const profile = CaptureProfiles.find(profiles, trimmed);
+  if (!profile) {
+    return '沒有符合的設定檔，將使用上方的預設設定';
+  }
+  return `符合設定檔「${profile.name || profile.pattern}」（第 ${profiles.indexOf(profile) + 1} 個）`;
+}
+
+/**
+ * Read which settings a policy locks and disable their fields
+ */
+async function loadLockedSettings() {
+  try {
+    lockedKeys = await SettingsService.getLockedKeys();
+    applyLockedSettings(lockedKeys);
+  } catch (error) {
+    console.error('Failed to read locked settings:', error);
+  }
+}
+
+/**
+ * Disable the fields of locked settings and say why
+ */
+function applyLockedSettings(keys: Array<keyof UserSettings>, root: Document | HTMLElement = document) {
+  for (const [key, ids] of Object.entries(SETTING_FIELD_IDS)) {
+    const locked = keys.includes(key as keyof UserSettings);
+    ids.forEach(id => {
+      const field = root.querySelector(`#${id}`) as HTMLInputElement | null;
+      if (field) {
+        field.disabled = locked;
+        field.title = locked ? '此設定由管理員鎖定' : '';
+      }
+    });
+  }
+
+  const profilesLocked = keys.includes('captureProfiles');
+  root.querySelectorAll<HTMLFieldSetElement>('.profile-card').forEach(card => {
+    card.disabled = profilesLocked;
+  });
+
+  const notice = root.querySelector('#managed-notice') as HTMLElement | null;
+  if (notice) notice.hidden = keys.length === 0;
+}
+
+/**
+ * Download the settings and saved targets as a JSON document
+ */
+async function exportUserSettings() {
+  try {
+    const json = await SettingsTransfer.export();
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `element-screenshot-settings-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    showNotification('設定已匯出', 'success');
+  } catch (error) {
+    console.error('Failed to export settings:', error);
+    showNotification('匯出設定失敗', 'error');
+  }
+}
+
+/**
+ * Read the picked settings file and preview what importing it would change
+ */
+async function handleImportFile() {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = '';
+  if (!file) return;
+
+  try {
+    pendingImport = SettingsTransfer.parse(await file.text());
+    await showImportPreview();
+  } catch (error) {
+    console.error('Failed to read settings file:', error);
+    closeImportPreview();
+    showNotification(`無法匯入設定檔: ${error instanceof Error ? error.message : String(error)}`, 'error');
+  }
+}
+
+function getImportMode(): ImportMode {
+  const selected = document.querySelector('input[name="import-mode"]:checked') as HTMLInputElement | null;
+  return selected?.value === 'replace' ? 'replace' : 'merge';
+}
+
+async function showImportPreview() {
+  if (!pendingImport) return;
+
+  try {
+    const preview = await SettingsTransfer.preview(pendingImport, getImportMode());
+    renderImportChanges(preview, importChangesList);
+    importPreview.hidden = false;
+  } catch (error) {
+    console.error('Failed to preview settings import:', error);
+    showNotification('無法預覽匯入內容', 'error');
+  }
+}
+
+/**
+ * List the settings an import changes, the locked ones it can't change and
+ * what happens to the saved targets
+ */
+function renderImportChanges(preview: ImportPreview, list: HTMLUListElement) {
+  const items = preview.changes.map(change => {
+    const item = document.createElement('li');
+    item.textContent = change.locked
+      ? `${change.key}: 由管理員鎖定，維持 ${formatSettingValue(change.before)}`
+      : `${change.key}: ${formatSettingValue(change.before)} → ${formatSettingValue(change.after)}`;
+    item.classList.toggle('locked', change.locked);
+    return item;
+  });
+
+  if (preview.savedTargets) {
+    const { added, updated, removed } = preview.savedTargets;
+    const item = document.createElement('li');
+    item.textContent = `已儲存的目標：新增 ${added} 個、更新 ${updated} 個、移除 ${removed} 個`;
+    items.push(item);
+  }
+
+  if (preview.ignoredKeys.length > 0) {
+    const item = document.createElement('li');
+    item.textContent = `略過不明的項目：${preview.ignoredKeys.join('、')}`;
+    item.classList.add('ignored');
+    items.push(item);
+  }
+
+  if (items.length === 0) {
+    const item = document.createElement('li');
+    item.textContent = '匯入不會變更任何設定';
+    items.push(item);
+  }
+
+  list.replaceChildren(...items);
+}
+
+function formatSettingValue(value: unknown): string {
+  if (value === undefined) return '（未設定）';
+  if (Array.isArray(value) && value.every(entry => typeof entry === 'object' && entry !== null && 'name' in entry)) {
+    return value.length > 0 ? value.map(entry => entry.name).join('、') : '（無）';
+  }
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+async function applyImport() {
+  if (!pendingImport) return;
+
+  try {
+    const result = await SettingsTransfer.apply(pendingImport, getImportMode());
+    closeImportPreview();
+    displaySettings(result.settings);
+    showNotification('設定已匯入', 'success');
+  } catch (error) {
+    console.error('Failed to import settings:', error);
+    showNotification('匯入設定失敗', 'error');
+  }
+}
+
+function closeImportPreview() {
+  pendingImport = null;
+  if (importPreview) importPreview.hidden = true;
+}
+
+/**
+ * Collect the checked output destinations
+ */
+function getSelectedDestinations(download: boolean, clipboard: boolean): OutputDestination[] {
+  const destinations: OutputDestination[] = [];
+  if (download) destinations.push('download');
+  if (clipboard) destinations.push('clipboard');
+  return destinations;
+}
 
 function showNotification(message: string, type: 'success' | 'error' | 'info' = 'info') {
   // Remove existing notifications
@@ -223,6 +738,15 @@ function showNotification(message: string, type: 'success' | 'error' | 'info' =
 // Export functions for testing
 export {
   validateFilenameTemplate,
+  describeFilenamePreview,
   showNotification,
-  displaySettings
+  displaySettings,
+  parseSiteList,
+  getSelectedDestinations,
+  renderProfiles,
+  createProfileCard,
+  readProfiles,
+  describeProfileMatch,
+  applyLockedSettings,
+  renderImportChanges
 };
\ No newline at end of file
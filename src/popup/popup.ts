@@ -1,6 +1,9 @@
 // Popup UI script for the Chrome extension
 
-import { MessageRequest, MessageResponse, MessageType } from '../types';
+import { MessageRequest, MessageResponse, MessageType, CaptureMode, ImageFormat, SavedTarget, ScreenshotError, ScreenshotProgressPayload, UserSettings } from '../types';
+import { FormatRegistry } from '../utils/formatRegistry';
+import { ErrorHandler } from '../utils/errorHandler';
+import { SettingsService } from '../utils/settingsService';
 
 // UI state management
 interface UIState {
@@ -8,9 +11,11 @@ interface UIState {
   isProcessing: boolean;
   currentError: string | null;
   settings: {
-    format: 'png' | 'jpeg';
+    format: ImageFormat;
     quality: number;
+    captureMode: CaptureMode;
   };
+  lockedSettings: Array<keyof UserSettings>; // Set by policy, shown but not editable
 }
 
 let uiState: UIState = {
@@ -19,8 +24,10 @@ let uiState: UIState = {
   currentError: null,
   settings: {
     format: 'png',
-    quality: 90
-  }
+    quality: 90,
+    captureMode: 'element'
+  },
+  lockedSettings: []
 };
 
 // DOM elements
@@ -32,6 +39,7 @@ let elements: {
   progressSection: HTMLElement;
   progressFill: HTMLElement;
   progressText: HTMLElement;
+  cancelButton: HTMLButtonElement;
   errorSection: HTMLElement;
   errorMessage: HTMLElement;
   retryButton: HTMLButtonElement;
@@ -39,8 +47,12 @@ let elements: {
   formatSelect: HTMLSelectElement;
   qualitySlider: HTMLInputElement;
   qualityValue: HTMLElement;
+  captureModeSelect: HTMLSelectElement;
   openOptionsButton: HTMLButtonElement;
+  openHistoryButton: HTMLButtonElement;
   showHelpButton: HTMLButtonElement;
+  savedTargetsSection: HTMLElement;
+  savedTargetList: HTMLElement;
 } = {} as any;
 
 document.addEventListener('DOMContentLoaded', () => {
@@ -55,21 +67,31 @@ function initializePopup() {
   
   // Get DOM elements
   getElements();
+  FormatRegistry.populateSelect(elements.formatSelect);
   
   // Setup event listeners
   setupEventListeners();
   
-  // Load saved settings
+  // Load saved settings, and follow changes made on the options page
   loadSettings();
+  SettingsService.onChanged(applySettings);
   
   // Update initial UI state
   updateUI();
   
+  // List elements saved for this page
+  loadSavedTargets();
+  
+  // Show a capture that was already running when the popup opened
+  loadActiveSession();
+  
   // Test communication with background script
   sendMessage({ type: MessageType.PING })
     .then(response => {
       console.log('Background script response:', response);
-      updateStatus('ready', '準備就緒');
+      if (!uiState.isProcessing) {
+        updateStatus('ready', '準備就緒');
+      }
     })
     .catch(error => {
       console.error('Failed to communicate with background script:', error);
@@ -85,6 +107,7 @@ function getElements() {
   elements.progressSection = document.getElementById('progress-section')!;
   elements.progressFill = document.getElementById('progress-fill')!;
   elements.progressText = document.getElementById('progress-text')!;
+  elements.cancelButton = document.getElementById('cancel-session') as HTMLButtonElement;
   elements.errorSection = document.getElementById('error-section')!;
   elements.errorMessage = document.getElementById('error-message')!;
   elements.retryButton = document.getElementById('retry-button') as HTMLButtonElement;
@@ -92,14 +115,19 @@ function getElements() {
   elements.formatSelect = document.getElementById('format-select') as HTMLSelectElement;
   elements.qualitySlider = document.getElementById('quality-slider') as HTMLInputElement;
   elements.qualityValue = document.getElementById('quality-value')!;
+  elements.captureModeSelect = document.getElementById('capture-mode-select') as HTMLSelectElement;
   elements.openOptionsButton = document.getElementById('open-options') as HTMLButtonElement;
+  elements.openHistoryButton = document.getElementById('open-history') as HTMLButtonElement;
   elements.showHelpButton = document.getElementById('show-help') as HTMLButtonElement;
+  elements.savedTargetsSection = document.getElementById('saved-targets-section')!;
+  elements.savedTargetList = document.getElementById('saved-target-list')!;
 }
 
 function setupEventListeners() {
   // Screenshot mode controls
   elements.startButton.addEventListener('click', startScreenshotMode);
   elements.stopButton.addEventListener('click', stopScreenshotMode);
+  elements.cancelButton.addEventListener('click', cancelScreenshotSession);
   
   // Error handling
   elements.retryButton.addEventListener('click', retryLastAction);
@@ -108,7 +136,9 @@ function setupEventListeners() {
   // Settings
   elements.formatSelect.addEventListener('change', updateFormat);
   elements.qualitySlider.addEventListener('input', updateQuality);
+  elements.captureModeSelect.addEventListener('change', updateCaptureMode);
   elements.openOptionsButton.addEventListener('click', openOptionsPage);
+  elements.openHistoryButton?.addEventListener('click', openHistoryPage);
   elements.showHelpButton.addEventListener('click', showHelpDialog);
   
   // Listen for messages from background script
@@ -121,11 +151,14 @@ async function startScreenshotMode() {
     uiState.isScreenshotMode = true;
     
     // Send message to background script to start screenshot mode
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
     const response = await sendMessage({
       type: MessageType.START_SCREENSHOT,
       payload: {
         format: uiState.settings.format,
-        quality: uiState.settings.quality
+        quality: uiState.settings.quality,
+        captureMode: uiState.settings.captureMode,
+        tabId: tab?.id
       }
     });
     
@@ -167,6 +200,157 @@ async function stopScreenshotMode() {
   }
 }
 
+async function cancelScreenshotSession() {
+  try {
+    elements.cancelButton.disabled = true;
+    updateStatus('processing', '正在取消截圖...');
+    
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    const response = await sendMessage({
+      type: MessageType.CANCEL_SESSION,
+      payload: { tabId: tab?.id }
+    });
+    
+    if (response.success) {
+      uiState.isProcessing = false;
+      elements.progressSection.classList.add('hidden');
+      updateStatus('ready', '截圖已取消');
+      updateUI();
+    } else {
+      throw new Error(response.error || '取消截圖失敗');
+    }
+  } catch (error) {
+    console.error('Failed to cancel screenshot session:', error);
+    showError(error instanceof Error ? error.message : '取消截圖時發生錯誤');
+  } finally {
+    elements.cancelButton.disabled = false;
+  }
+}
+
+async function loadActiveSession() {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) return;
+
+    const response = await sendMessage({
+      type: MessageType.GET_ACTIVE_SESSION,
+      payload: { tabId: tab.id }
+    });
+    const session: ScreenshotProgressPayload | null = response.success ? response.data : null;
+    if (!session) return;
+
+    uiState.isProcessing = true;
+    updateProgress(session.progress, session.status || '截圖處理中...');
+  } catch (error) {
+    console.warn('Failed to load active session:', error);
+  }
+}
+
+async function loadSavedTargets() {
+  if (!elements.savedTargetList) return;
+
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) return;
+
+    const response = await sendMessage({
+      type: MessageType.GET_SAVED_TARGETS,
+      payload: { tabId: tab.id }
+    });
+    if (!response.success) {
+      throw new Error(response.error || '載入已儲存的目標失敗');
+    }
+
+    renderSavedTargets(response.data ?? []);
+  } catch (error) {
+    console.error('Failed to load saved targets:', error);
+  }
+}
+
+/**
+ * List saved targets; selectors and titles come from pages, so only textContent is used
+ */
+function renderSavedTargets(targets: SavedTarget[]) {
+  elements.savedTargetList.replaceChildren(...targets.map(target => {
+    const item = document.createElement('li');
+    item.className = 'saved-target-item';
+
+    const selector = document.createElement('span');
+    selector.className = 'saved-target-selector';
+    selector.textContent = target.selector;
+    selector.title = `${target.selector}\n${target.urlPattern}`;
+
+    const captureButton = document.createElement('button');
+    captureButton.className = 'saved-target-capture';
+    captureButton.textContent = '截圖';
+    captureButton.title = '再次截取此元素';
+    captureButton.addEventListener('click', () => captureSavedTarget(target, captureButton));
+
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'saved-target-delete';
+    deleteButton.textContent = '×';
+    deleteButton.title = '移除此目標';
+    deleteButton.setAttribute('aria-label', '移除此目標');
+    deleteButton.addEventListener('click', () => deleteSavedTarget(target));
+
+    item.append(selector, captureButton, deleteButton);
+    return item;
+  }));
+
+  elements.savedTargetsSection.classList.toggle('hidden', targets.length === 0);
+}
+
+async function captureSavedTarget(target: SavedTarget, button: HTMLButtonElement) {
+  try {
+    button.disabled = true;
+    updateStatus('processing', '正在截取已儲存的元素...');
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab?.id) {
+      throw new Error('No tab ID available');
+    }
+
+    const response = await sendMessage({
+      type: MessageType.CAPTURE_SAVED_TARGET,
+      payload: { tabId: tab.id, targetId: target.id }
+    });
+
+    if (!response.success) {
+      const error = new Error(response.error || '截圖失敗');
+      if (ErrorHandler.classifyError(error) === ScreenshotError.ELEMENT_NOT_FOUND) {
+        // The page changed since the target was saved
+        const errorInfo = ErrorHandler.createErrorInfo(ScreenshotError.ELEMENT_NOT_FOUND, response.error);
+        showError(`${errorInfo.chineseMessage}：${target.selector}\n頁面結構可能已變更，${errorInfo.userAction}`);
+        return;
+      }
+      throw error;
+    }
+
+    updateStatus('ready', response.data?.filename ? `✅ 截圖已保存: ${response.data.filename}` : '✅ 截圖完成');
+  } catch (error) {
+    console.error('Failed to capture saved target:', error);
+    showError(error instanceof Error ? error.message : '截取已儲存的元素時發生錯誤');
+  } finally {
+    button.disabled = false;
+  }
+}
+
+async function deleteSavedTarget(target: SavedTarget) {
+  try {
+    const response = await sendMessage({
+      type: MessageType.DELETE_SAVED_TARGET,
+      payload: { targetId: target.id }
+    });
+    if (!response.success) {
+      throw new Error(response.error || '移除目標失敗');
+    }
+    await loadSavedTargets();
+  } catch (error) {
+    console.error('Failed to delete saved target:', error);
+    showError(error instanceof Error ? error.message : '移除目標時發生錯誤');
+  }
+}
+
 function retryLastAction() {
   dismissError();
   if (!uiState.isScreenshotMode) {
@@ -180,25 +364,45 @@ function dismissError() {
 }
 
 function updateFormat() {
-  uiState.settings.format = elements.formatSelect.value as 'png' | 'jpeg';
+  uiState.settings.format = elements.formatSelect.value as ImageFormat;
+  updateQualityAvailability();
   saveSettings();
 }
 
+/**
+ * Quality only applies to lossy formats
+ */
+function updateQualityAvailability() {
+  const format = uiState.settings.format;
+  elements.qualitySlider.disabled = uiState.lockedSettings.includes('defaultQuality') ||
+    (FormatRegistry.has(format) && !FormatRegistry.get(format).lossy);
+}
+
 function updateQuality() {
   uiState.settings.quality = parseInt(elements.qualitySlider.value);
   elements.qualityValue.textContent = `${uiState.settings.quality}%`;
   saveSettings();
 }
 
+function updateCaptureMode() {
+  uiState.settings.captureMode = elements.captureModeSelect.value as CaptureMode;
+  saveSettings();
+}
+
 function openOptionsPage() {
   chrome.runtime.openOptionsPage();
 }
 
+function openHistoryPage() {
+  chrome.tabs.create({ url: chrome.runtime.getURL('dist/history.html') });
+}
+
 function handleBackgroundMessage(message: any, _sender: any, _sendResponse: any) {
   console.log('Received message from background:', message);
   
   switch (message.type) {
     case 'SCREENSHOT_PROGRESS':
+      uiState.isProcessing = true;
       updateProgress(message.data.progress, message.data.status);
       break;
     case 'SCREENSHOT_COMPLETE':
@@ -207,6 +411,11 @@ function handleBackgroundMessage(message: any, _sender: any, _sendResponse: any)
     case 'SCREENSHOT_ERROR':
       handleScreenshotError(message.data.error);
       break;
+    case 'SESSION_CANCELLED':
+      uiState.isProcessing = false;
+      elements.progressSection.classList.add('hidden');
+      updateStatus('ready', '截圖已取消');
+      break;
     case 'MODE_CHANGED':
       uiState.isScreenshotMode = message.data.isActive;
       updateUI();
@@ -231,6 +440,7 @@ function updateProgress(progress: number, status: string) {
 
 function handleScreenshotComplete(data: any) {
   elements.progressSection.classList.add('hidden');
+  uiState.isProcessing = false;
   uiState.isScreenshotMode = false;
   updateUI();
   
@@ -238,10 +448,18 @@ function handleScreenshotComplete(data: any) {
   const filename = data.filename || '未知檔名';
   const fileSize = data.fileSize ? ` (${formatFileSize(data.fileSize)})` : '';
   const screenshotType = data.isLongScreenshot ? '長截圖' : '截圖';
-  updateStatus('ready', `✅ ${screenshotType}已保存: ${filename}${fileSize}`);
   
-  // Show success notification with enhanced details
-  showSuccessNotification(`${screenshotType}已成功保存為 ${filename}`, data.isLongScreenshot);
+  if (data.copiedToClipboard && !data.filename) {
+    // Copied only, nothing was saved to disk
+    updateStatus('ready', `✅ ${screenshotType}已複製到剪貼簿`);
+    showSuccessNotification(`${screenshotType}已複製到剪貼簿`, data.isLongScreenshot);
+  } else {
+    const copied = data.copiedToClipboard ? '，並已複製到剪貼簿' : '';
+    updateStatus('ready', `✅ ${screenshotType}已保存: ${filename}${fileSize}`);
+    
+    // Show success notification with enhanced details
+    showSuccessNotification(`${screenshotType}已成功保存為 ${filename}${copied}`, data.isLongScreenshot);
+  }
   
   // Show completion summary
   showCompletionSummary(data);
@@ -328,6 +546,7 @@ function showSuccessNotification(message: string, isLongScreenshot: boolean = fa
 
 function handleScreenshotError(error: string) {
   elements.progressSection.classList.add('hidden');
+  uiState.isProcessing = false;
   uiState.isScreenshotMode = false;
   updateUI();
   showError(error);
@@ -457,28 +676,38 @@ function updateUI() {
 
 async function loadSettings() {
   try {
-    const result = await chrome.storage.sync.get(['screenshotFormat', 'screenshotQuality']);
-    
-    if (result.screenshotFormat) {
-      uiState.settings.format = result.screenshotFormat;
-      elements.formatSelect.value = result.screenshotFormat;
-    }
-    
-    if (result.screenshotQuality) {
-      uiState.settings.quality = result.screenshotQuality;
-      elements.qualitySlider.value = result.screenshotQuality.toString();
-      elements.qualityValue.textContent = `${result.screenshotQuality}%`;
-    }
+    const [settings, lockedSettings] = await Promise.all([SettingsService.load(), SettingsService.getLockedKeys()]);
+    uiState.lockedSettings = lockedSettings;
+    elements.formatSelect.disabled = lockedSettings.includes('defaultFormat');
+    applySettings(settings);
   } catch (error) {
     console.error('Failed to load settings:', error);
   }
 }
 
+function applySettings(settings: UserSettings) {
+  if (FormatRegistry.has(settings.defaultFormat)) {
+    uiState.settings.format = settings.defaultFormat;
+    elements.formatSelect.value = settings.defaultFormat;
+    updateQualityAvailability();
+  }
+
+  uiState.settings.quality = settings.defaultQuality;
+  elements.qualitySlider.value = settings.defaultQuality.toString();
+  elements.qualityValue.textContent = `${settings.defaultQuality}%`;
+
+  if (settings.captureMode) {
+    uiState.settings.captureMode = settings.captureMode;
+    elements.captureModeSelect.value = settings.captureMode;
+  }
+}
+
 async function saveSettings() {
   try {
-    await chrome.storage.sync.set({
-      screenshotFormat: uiState.settings.format,
-      screenshotQuality: uiState.settings.quality
+    await SettingsService.update({
+      defaultFormat: uiState.settings.format,
+      defaultQuality: uiState.settings.quality,
+      captureMode: uiState.settings.captureMode
     });
   } catch (error) {
     console.error('Failed to save settings:', error);
@@ -514,10 +743,13 @@ function showCompletionSummary(data: any) {
       </div>
       <div class="completion-details">
         ${data.filename ? `<p><strong>檔名:</strong> ${data.filename}</p>` : ''}
+        ${data.copiedToClipboard ? '<p><strong>剪貼簿:</strong> 已複製，可直接貼上</p>' : ''}
+        ${data.filenames?.length > 1 ? `<p><strong>分塊:</strong> 共 ${data.filenames.length} 個檔案（依序編號）</p>` : ''}
         ${dimensions ? `<p><strong>尺寸:</strong> ${dimensions}</p>` : ''}
         ${fileSize ? `<p><strong>大小:</strong> ${fileSize}</p>` : ''}
         ${processingTime ? `<p><strong>處理時間:</strong> ${processingTime}</p>` : ''}
         ${data.isLongScreenshot ? '<p><strong>類型:</strong> 長截圖 (多段拼接)</p>' : '<p><strong>類型:</strong> 標準截圖</p>'}
+        ${data.performanceReport ? '<details class="completion-report"><summary>效能報告</summary><pre></pre></details>' : ''}
       </div>
       <button class="completion-close">確定</button>
     </div>
@@ -569,6 +801,21 @@ function showCompletionSummary(data: any) {
     .completion-details strong {
       color: #333;
     }
+    .completion-report summary {
+      font-size: 13px;
+      color: #1a73e8;
+      cursor: pointer;
+    }
+    .completion-report pre {
+      margin: 8px 0 0;
+      padding: 8px;
+      max-height: 160px;
+      overflow: auto;
+      background: #f8f9fa;
+      border-radius: 4px;
+      font-size: 11px;
+      white-space: pre-wrap;
+    }
     .completion-close {
       width: 100%;
       padding: 10px;
@@ -590,6 +837,12 @@ function showCompletionSummary(data: any) {
   `;
   document.head.appendChild(style);
   
+  // The report is plain text from the background, so it is never parsed as HTML
+  const reportElement = overlay.querySelector('.completion-report pre');
+  if (reportElement) {
+    reportElement.textContent = data.performanceReport;
+  }
+  
   document.body.appendChild(overlay);
   
   // Handle close button
@@ -714,6 +967,9 @@ function showHelpDialog() {
           <h4>快捷鍵</h4>
           <ul>
             <li><kbd>ESC</kbd> - 退出截圖模式</li>
+            <li><kbd>↑</kbd> <kbd>↓</kbd> <kbd>←</kbd> <kbd>→</kbd> / <kbd>[</kbd> <kbd>]</kbd> - 截圖模式中切換上層、子層與同層元素</li>
+            <li><kbd>Enter</kbd> - 截圖模式中截取高亮的元素</li>
+            <li><kbd>Shift</kbd> + 點擊 - 加入或移除多元素截圖的元素，再按 <kbd>Enter</kbd> 一次截取</li>
             <li><kbd>Enter</kbd> - 開始截圖（當按鈕聚焦時）</li>
             <li><kbd>Ctrl/Cmd + S</kbd> - 打開設定頁面</li>
             <li><kbd>Ctrl/Cmd + R</kbd> - 重試上次操作（錯誤時）</li>
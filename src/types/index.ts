@@ -1,8 +1,11 @@
 // Core interfaces for the Chrome element screenshot extension
 
+export type CaptureMode = 'element' | 'fullPage' | 'visible' | 'region';
+
 export interface ScreenshotRequest {
   elementSelector: string;
   isLongScreenshot: boolean;
+  captureMode: CaptureMode;
   options: ScreenshotOptions;
 }
 
@@ -13,21 +16,73 @@ export interface LongScreenshotSegment {
   elementRect: DOMRect;
 }
 
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'pdf';
+
+export type PdfPageSize = 'a4' | 'letter' | 'fit'; // fit: one page as wide as A4 and as tall as the image
+
+export interface ImageFormatInfo {
+  id: ImageFormat;
+  label: string; // Shown in the format selectors
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+  opaque: boolean; // No alpha channel: transparent areas are filled with white
+  quality?: { min: number; max: number; default: number }; // Percent; lossy formats only
+  paged?: boolean; // A document format: the image is split into JPEG pages instead of encoded directly
+}
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  sourceUrl?: string;
+  title?: string;
+  capturedAt?: string; // ISO timestamp; options are passed through extension messages
+}
+
 export interface ScreenshotOptions {
-  format: 'png' | 'jpeg';
-  quality: number;
-  filename: string;
+  format: ImageFormat;
+  quality: number; // 0-1, as canvas encoders take it
+  filename: string; // Filename template; expanded when the capture is saved
+  pdf?: PdfExportOptions; // Used by paged formats only
+}
+
+// Page details that filename template tokens such as {hostname} and {selector} expand to
+export interface FilenameContext {
+  date?: Date; // Capture time; now when unset
+  url?: string;
+  title?: string;
+  selector?: string;
+  tagName?: string;
+  elementId?: string;
+  width?: number; // Image pixels
+  height?: number;
+  mode?: 'element' | 'long';
+  counter?: number; // Captures so far today, from FilenameTemplate.nextCounter
+}
+
+export type SelectorStrategy = 'id' | 'testId' | 'aria' | 'path' | 'text' | 'xpath';
+
+// One way to find an element again; `value` is a CSS selector or an XPath expression
+export interface SelectorCandidate {
+  strategy: SelectorStrategy;
+  type: 'css' | 'xpath';
+  value: string;
 }
 
 export interface ElementInfo {
   selector: string;
+  selectorFallbacks?: SelectorCandidate[]; // Other unique selectors, most stable first
+  tagName?: string; // Lowercase
+  elementId?: string; // The element's id attribute, when it has one
   boundingRect: DOMRect;
   isScrollable: boolean;
   totalHeight: number;
   visibleHeight: number;
+  totalWidth?: number; // scrollWidth; falls back to boundingRect.width when absent
+  visibleWidth?: number;
+  isScrollContainer?: boolean; // false when the element only extends past the viewport and scrolls with the page
   // Complex element properties
   hasTransform: boolean;
-  transformMatrix?: DOMMatrix;
+  transformMatrix?: TransformMatrix;
   hasShadow: boolean;
   shadowInfo?: ShadowInfo;
   isInIframe: boolean;
@@ -37,6 +92,20 @@ export interface ElementInfo {
   computedStyles: ComputedElementStyles;
 }
 
+// Moves of the highlight through the DOM tree during element selection
+export type NavigationDirection = 'parent' | 'child' | 'previous' | 'next';
+
+// 2D transform as plain numbers, which survive runtime messaging where a
+// DOMMatrix arrives as a plain object without its methods
+export interface TransformMatrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
 export interface ShadowInfo {
   boxShadow: string;
   textShadow: string;
@@ -44,9 +113,9 @@ export interface ShadowInfo {
 }
 
 export interface IframeInfo {
-  iframeSelector: string;
-  iframeBounds: DOMRect;
-  relativePosition: { x: number; y: number };
+  iframeSelector: string; // Empty for elements picked inside the frame itself
+  iframeBounds: DOMRect; // Visible part of the frame, in the top frame's viewport
+  relativePosition: { x: number; y: number }; // Element offset from the iframeBounds origin
 }
 
 export interface ComputedElementStyles {
@@ -61,19 +130,81 @@ export interface ComputedElementStyles {
   zIndex: string;
 }
 
+export type ScrollDirection = 'vertical' | 'horizontal' | 'both';
+
 export interface ScrollPosition {
   x: number;
   y: number;
   isComplete: boolean;
 }
 
+export type OutputDestination = 'download' | 'clipboard';
+
+// How several selected elements are saved: one file each, one ZIP archive, or
+// one image of the area that covers them all
+export type MultiCaptureOutput = 'separate' | 'zip' | 'union';
+
+// Whether long elements get a long screenshot, or only their visible part is captured
+export type LongScreenshotBehavior = 'auto' | 'off';
+
+// Capture settings for the pages a URL pattern matches; unset fields keep the global settings
+export interface CaptureProfile {
+  name: string;
+  pattern: string; // Host glob such as *.example.com, or /regex/ tested against the whole URL
+  format?: ImageFormat;
+  quality?: number; // Percentage from 10 to 100
+  filenameTemplate?: string;
+  padding?: number; // CSS pixels added around elements that fit on screen
+  hiddenSelectors?: string[]; // Elements hidden while capturing
+  longScreenshot?: LongScreenshotBehavior;
+  keepHeader?: boolean; // Overrides keepHeaderSites for long screenshots
+}
+
 export interface UserSettings {
-  defaultFormat: 'png' | 'jpeg';
-  defaultQuality: number;
+  defaultFormat: ImageFormat;
+  defaultQuality: number; // Percentage from 10 to 100
   filenameTemplate: string;
   autoDownload: boolean;
   showProgress: boolean;
   highlightColor: string;
+  keepHeaderSites?: string[]; // Hostnames whose fixed/sticky headers stay on the first long screenshot segment
+  outputDestinations?: OutputDestination[]; // Where finished screenshots go; downloads only when unset
+  pdfPageSize?: PdfPageSize; // Page size of PDF output; A4 when unset
+  embedMetadata?: boolean; // Write capture provenance into PNG and JPEG files
+  metadataSidecar?: boolean; // Also save the provenance as a JSON file next to the screenshot
+  historyQuotaMb?: number; // Storage for the capture history; 0 turns history off
+  multiCaptureOutput?: MultiCaptureOutput; // Output of multi-element captures; separate files when unset
+  captureMode?: CaptureMode; // Last capture mode picked in the popup
+  captureProfiles?: CaptureProfile[]; // Checked in order; the first matching profile applies to element captures
+}
+
+// Where and how a screenshot was taken, embedded in output files and sidecars
+export interface CaptureProvenance {
+  url?: string;
+  title?: string;
+  selector: string;
+  capturedAt: string; // ISO timestamp
+  devicePixelRatio: number;
+  viewport?: { width: number; height: number }; // CSS pixels
+  extensionVersion: string;
+}
+
+export interface SegmentAlignment {
+  segmentIndex: number;
+  offsetY: number; // Top of the segment in the stitched image, in device pixels
+  overlap: number; // Rows shared with the previous segment in the same column
+  confidence: number; // 0-1 score of the pixel match; computed placements report the best score found
+  method: 'pixel' | 'computed';
+}
+
+export interface StitchResult {
+  dataUrl: string;
+  alignments: SegmentAlignment[];
+}
+
+export interface TiledStitchResult {
+  tiles: string[]; // Data URLs, top to bottom
+  alignments: SegmentAlignment[];
 }
 
 export interface ScreenshotSession {
@@ -81,12 +212,53 @@ export interface ScreenshotSession {
   tabId: number;
   element: ElementInfo;
   options: ScreenshotOptions;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   progress: number;
+  progressStatus?: string; // Last progress message, for popups opened during the capture
   result?: string; // base64 image data
   isLongScreenshot?: boolean;
+  captureMode?: CaptureMode;
   segments?: LongScreenshotSegment[];
+  alignments?: SegmentAlignment[];
   totalSegments?: number;
+  processingTime?: number; // ms from start to completion
+  performanceReport?: string;
+  copiedToClipboard?: boolean;
+}
+
+// A finished capture kept in the history gallery. Full images are stored
+// separately and loaded only when an entry is downloaded or copied.
+export interface HistoryEntry {
+  id: string;
+  capturedAt: number; // ms since epoch
+  lastAccessedAt: number; // Least recently accessed entries are evicted first
+  url: string;
+  hostname: string;
+  title?: string;
+  elementInfo: ElementInfo;
+  options: ScreenshotOptions;
+  filenames: string[]; // Downloaded names; empty when the capture only went to the clipboard
+  imageCount: number; // Tiles of an oversized long screenshot are kept together
+  thumbnail: string; // Small JPEG data URL
+  size: number; // Estimated bytes of the stored images and thumbnail
+  isLongScreenshot?: boolean;
+}
+
+export interface HistoryFilter {
+  hostname?: string; // Case-insensitive substring of the hostname
+  from?: number; // Inclusive range of capture times, ms since epoch
+  to?: number;
+}
+
+// An element that can be captured again from the popup without selecting it
+export interface SavedTarget {
+  id: string;
+  urlPattern: string; // Origin and path of the page; `*` matches any characters
+  selector: string;
+  fallbacks?: SelectorCandidate[];
+  title?: string; // Page title when the target was last captured
+  createdAt: number;
+  lastUsedAt: number;
 }
 
 export enum ScreenshotError {
@@ -94,7 +266,8 @@ export enum ScreenshotError {
   PERMISSION_DENIED = 'permission_denied',
   CAPTURE_FAILED = 'capture_failed',
   PROCESSING_ERROR = 'processing_error',
-  DOWNLOAD_FAILED = 'download_failed'
+  DOWNLOAD_FAILED = 'download_failed',
+  CANCELLED = 'cancelled'
 }
 
 // Message types for communication between components
@@ -108,21 +281,54 @@ export enum MessageType {
   START_SCREENSHOT_MODE = 'START_SCREENSHOT_MODE',
   EXIT_SCREENSHOT_MODE = 'EXIT_SCREENSHOT_MODE',
   ELEMENT_SELECTED = 'ELEMENT_SELECTED',
+  ELEMENTS_SELECTED = 'ELEMENTS_SELECTED',
   CAPTURE_SCREENSHOT = 'CAPTURE_SCREENSHOT',
   SCREENSHOT_PROGRESS = 'SCREENSHOT_PROGRESS',
   SCREENSHOT_COMPLETE = 'SCREENSHOT_COMPLETE',
+  CANCEL_SESSION = 'CANCEL_SESSION',
+  SESSION_CANCELLED = 'SESSION_CANCELLED',
+  GET_ACTIVE_SESSION = 'GET_ACTIVE_SESSION',
   
   // Long screenshot related
   SCROLL_TO_POSITION = 'SCROLL_TO_POSITION',
   RESET_SCROLL = 'RESET_SCROLL',
+  GET_PAGE_LAYOUT = 'GET_PAGE_LAYOUT',
+  SCROLL_PAGE_TO_POSITION = 'SCROLL_PAGE_TO_POSITION',
+  HIDE_FLOATING_ELEMENTS = 'HIDE_FLOATING_ELEMENTS',
+  RESTORE_FLOATING_ELEMENTS = 'RESTORE_FLOATING_ELEMENTS',
+  HIDE_ELEMENTS = 'HIDE_ELEMENTS',
+  SHOW_HIDDEN_ELEMENTS = 'SHOW_HIDDEN_ELEMENTS',
+  SCROLL_ELEMENTS_INTO_VIEW = 'SCROLL_ELEMENTS_INTO_VIEW',
   
   // Settings related
   GET_SETTINGS = 'GET_SETTINGS',
   UPDATE_SETTINGS = 'UPDATE_SETTINGS',
   
+  // Output
+  COPY_TO_CLIPBOARD = 'COPY_TO_CLIPBOARD',
+
+  // Saved targets
+  GET_SAVED_TARGETS = 'GET_SAVED_TARGETS',
+  CAPTURE_SAVED_TARGET = 'CAPTURE_SAVED_TARGET',
+  DELETE_SAVED_TARGET = 'DELETE_SAVED_TARGET',
+  LOCATE_ELEMENT = 'LOCATE_ELEMENT',
+
+  // Frames
+  ANNOUNCE_FRAME = 'ANNOUNCE_FRAME',
+  MEASURE_CHILD_FRAME = 'MEASURE_CHILD_FRAME',
+  
   // Error handling
   ERROR_OCCURRED = 'ERROR_OCCURRED',
-  MANUAL_SAVE_REQUEST = 'MANUAL_SAVE_REQUEST'
+  MANUAL_SAVE_REQUEST = 'MANUAL_SAVE_REQUEST',
+
+  // Image processing (handled by the offscreen document)
+  OFFSCREEN_CROP = 'OFFSCREEN_CROP',
+  OFFSCREEN_STITCH = 'OFFSCREEN_STITCH',
+  OFFSCREEN_STITCH_TILES = 'OFFSCREEN_STITCH_TILES',
+  OFFSCREEN_ENCODE = 'OFFSCREEN_ENCODE',
+  OFFSCREEN_ENCODE_DOCUMENT = 'OFFSCREEN_ENCODE_DOCUMENT',
+  OFFSCREEN_THUMBNAIL = 'OFFSCREEN_THUMBNAIL',
+  OFFSCREEN_COMPOSE = 'OFFSCREEN_COMPOSE'
 }
 
 export interface MessageRequest<T = any> {
@@ -139,29 +345,86 @@ export interface MessageResponse<T = any> {
 }
 
 // Specific message payload types
+export interface StartScreenshotPayload {
+  captureMode?: CaptureMode;
+  tabId?: number; // Required when sent from the popup, which has no sender tab
+}
+
 export interface StartScreenshotModePayload {
   options?: Partial<ScreenshotOptions>;
+  captureMode?: CaptureMode;
 }
 
 export interface ElementSelectedPayload {
   elementInfo: ElementInfo;
+  captureMode?: CaptureMode;
+}
+
+export interface ElementsSelectedPayload {
+  elements: ElementInfo[]; // In the order they were picked
 }
 
 export interface CaptureScreenshotPayload {
   elementInfo: ElementInfo;
   options: ScreenshotOptions;
+  captureMode?: CaptureMode;
+  keepHeaderOnFirstSegment?: boolean; // Decided by keepHeaderSites when unset
 }
 
 export interface ScreenshotProgressPayload {
   sessionId: string;
   progress: number;
   status: string;
+  queuePosition?: number; // Captures ahead while waiting on the capture rate limit
 }
 
 export interface ScreenshotCompletePayload {
   sessionId: string;
   result: string; // base64 image data
   filename: string;
+  filenames?: string[]; // Every saved file when the result was split into tiles
+  copiedToClipboard?: boolean;
+}
+
+export interface CopyToClipboardPayload {
+  dataUrl: string; // PNG data URL
+}
+
+export interface GetSavedTargetsPayload {
+  tabId: number; // Targets matching this tab's URL
+}
+
+export interface CaptureSavedTargetPayload {
+  tabId: number;
+  targetId: string;
+}
+
+export interface DeleteSavedTargetPayload {
+  targetId: string;
+}
+
+export interface LocateElementPayload {
+  selector: string;
+  fallbacks?: SelectorCandidate[]; // Tried in order when the selector matches nothing
+}
+
+// A child frame posts the token to its parent window so the parent can tell
+// which of its frame elements the child is
+export interface FrameTokenPayload {
+  token: string;
+}
+
+export interface CancelSessionPayload {
+  sessionId?: string;
+  tabId?: number; // Cancel every active session in this tab when no sessionId is given
+}
+
+export interface SessionCancelledPayload {
+  sessionId: string;
+}
+
+export interface GetActiveSessionPayload {
+  tabId: number; // Answered with the ScreenshotProgressPayload of the session running in this tab, or null
 }
 
 export interface ErrorPayload {
@@ -173,8 +436,104 @@ export interface ErrorPayload {
 export interface ScrollToPositionPayload {
   selector: string;
   scrollTop: number;
+  scrollLeft?: number;
 }
 
 export interface ResetScrollPayload {
   selector: string;
-}
\ No newline at end of file
+}
+
+export interface HideFloatingElementsPayload {
+  selector: string; // Capture area; empty selector means the whole viewport
+}
+
+export interface HideElementsPayload {
+  selectors: string[];
+}
+
+export interface PageLayoutPayload {
+  selector: string; // Empty selector means the whole document
+}
+
+export interface PageLayout {
+  startY: number; // Scroll offset at which the capture area begins
+  endY: number; // Scroll offset at which the capture area ends
+  viewportHeight: number; // Visible height of the scroll container
+  originalScrollTop: number;
+  originalScrollLeft: number;
+  usesWindowScroll: boolean; // false when a scrollable ancestor is scrolled instead of the window
+}
+
+export interface ScrollPageToPositionPayload {
+  selector: string;
+  scrollTop: number;
+  scrollLeft?: number;
+}
+
+export interface ScrollElementsIntoViewPayload {
+  targets: LocateElementPayload[];
+}
+
+export interface RectBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ElementsInView {
+  rects: RectBounds[]; // Each target after scrolling, in viewport coordinates
+  scrollX: number; // Page scroll after scrolling; adds to viewport rects for page coordinates
+  scrollY: number;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+export interface PageScrollResult {
+  elementRect: DOMRect; // Visible part of the capture area, in viewport coordinates
+  offset: { x: number; y: number }; // Position of that visible part within the capture area
+}
+
+export interface CropImagePayload {
+  dataUrl: string;
+  elementInfo: ElementInfo;
+  devicePixelRatio: number;
+}
+
+export interface StitchImagePayload {
+  segments: LongScreenshotSegment[];
+  elementInfo: ElementInfo;
+  devicePixelRatio: number;
+}
+
+export interface StitchTilesPayload extends StitchImagePayload {
+  tileHeight: number; // Device pixels per output tile
+}
+
+export interface EncodeImagePayload {
+  dataUrl: string;
+  options: ScreenshotOptions;
+}
+
+export interface EncodeDocumentPayload {
+  dataUrls: string[]; // Images in page order
+  options: ScreenshotOptions;
+}
+
+export interface ThumbnailPayload {
+  dataUrl: string;
+  maxSize: number; // Longest side in pixels
+}
+
+export interface ComposedImagePart {
+  dataUrl: string;
+  x: number; // Position in the composed image, CSS pixels
+  y: number;
+}
+
+export interface ComposeImagesPayload {
+  parts: ComposedImagePart[];
+  width: number; // CSS pixels
+  height: number;
+  devicePixelRatio: number;
+}
@@ -0,0 +1,247 @@
+// Capture history stored in IndexedDB
+
+import { HistoryEntry, HistoryFilter } from '../types';
+
+const DB_NAME = 'screenshot-history';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const IMAGE_STORE = 'images';
+
+export const DEFAULT_HISTORY_QUOTA_MB = 100;
+export const MAX_HISTORY_QUOTA_MB = 1000;
+
+// Longest side of history thumbnails, in pixels
+export const HISTORY_THUMBNAIL_SIZE = 320;
+
+interface StoredImages {
+  id: string;
+  images: string[]; // Encoded output, one data URL per file
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'lastAccessedAt' | 'hostname' | 'imageCount' | 'size'>;
+
+/**
+ * Finished captures outlive their session here. Entry metadata and
+ * thumbnails live in one object store and the full images in another, so the
+ * gallery lists entries without loading every image. The background writes
+ * entries; the history page reads and deletes them from the same database.
+ */
+export class CaptureHistory {
+  private static db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Whether this context has IndexedDB
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Store a capture, then evict the least recently used entries until the
+   * history fits its quota again
+   */
+  static async add(entry: NewHistoryEntry, images: string[], quotaBytes: number): Promise<HistoryEntry> {
+    const stored: HistoryEntry = {
+      ...entry,
+      id: `history_${entry.capturedAt}_${Math.random().toString(36).slice(2, 11)}`,
+      lastAccessedAt: entry.capturedAt,
+      hostname: this.getHostname(entry.url),
+      imageCount: images.length,
+      size: this.estimateSize([...images, entry.thumbnail])
+    };
+
+    const storedImages: StoredImages = { id: stored.id, images };
+
+    const db = await this.open();
+    const transaction = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).put(stored);
+    transaction.objectStore(IMAGE_STORE).put(storedImages);
+    await this.complete(transaction);
+
+    await this.enforceQuota(quotaBytes);
+    return stored;
+  }
+
+  /**
+   * List entries matching the filter, newest first
+   */
+  static async list(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+    const db = await this.open();
+    const entries = await this.request<HistoryEntry[]>(
+      db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()
+    );
+
+    return entries
+      .filter(entry => this.matches(entry, filter))
+      .sort((a, b) => b.capturedAt - a.capturedAt);
+  }
+
+  /**
+   * Load the full images of an entry and mark it as recently used
+   */
+  static async getImages(id: string): Promise<string[]> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+    const entryStore = transaction.objectStore(ENTRY_STORE);
+
+    const [entry, stored] = await Promise.all([
+      this.request<HistoryEntry | undefined>(entryStore.get(id)),
+      this.request<StoredImages | undefined>(transaction.objectStore(IMAGE_STORE).get(id))
+    ]);
+    if (!entry || !stored) {
+      throw new Error(`History entry not found: ${id}`);
+    }
+
+    entryStore.put({ ...entry, lastAccessedAt: Date.now() });
+    await this.complete(transaction);
+    return stored.images;
+  }
+
+  /**
+   * Delete an entry and its images
+   */
+  static async delete(id: string): Promise<void> {
+    await this.deleteMany([id]);
+  }
+
+  /**
+   * Delete every entry
+   */
+  static async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    transaction.objectStore(IMAGE_STORE).clear();
+    await this.complete(transaction);
+  }
+
+  /**
+   * Total estimated bytes used by the history
+   */
+  static async getUsage(): Promise<number> {
+    const entries = await this.list();
+    return entries.reduce((total, entry) => total + entry.size, 0);
+  }
+
+  /**
+   * Evict least recently used entries while the history is over its quota
+   *
+   * @returns Ids of the evicted entries
+   */
+  static async enforceQuota(quotaBytes: number): Promise<string[]> {
+    const evicted = this.selectEvictions(await this.list(), quotaBytes);
+    if (evicted.length > 0) {
+      await this.deleteMany(evicted);
+      console.log(`Evicted ${evicted.length} history entries over the ${quotaBytes} byte quota`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Choose entries to evict, least recently accessed first, until the rest
+   * fit in the quota
+   */
+  static selectEvictions(entries: HistoryEntry[], quotaBytes: number): string[] {
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+
+    for (const entry of [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+      if (total <= quotaBytes) {
+        break;
+      }
+      evicted.push(entry.id);
+      total -= entry.size;
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Check an entry against a hostname and date filter
+   */
+  static matches(entry: HistoryEntry, filter: HistoryFilter): boolean {
+    const hostname = filter.hostname?.trim().toLowerCase();
+    if (hostname && !entry.hostname.toLowerCase().includes(hostname)) {
+      return false;
+    }
+    if (filter.from !== undefined && entry.capturedAt < filter.from) {
+      return false;
+    }
+    if (filter.to !== undefined && entry.capturedAt > filter.to) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Estimate the decoded size of base64 data URLs
+   */
+  static estimateSize(dataUrls: string[]): number {
+    return dataUrls.reduce((total, dataUrl) => {
+      const base64 = dataUrl.split(',')[1] ?? '';
+      return total + Math.round(base64.length * 3 / 4);
+    }, 0);
+  }
+
+  private static getHostname(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return '';
+    }
+  }
+
+  private static async deleteMany(ids: string[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRY_STORE, IMAGE_STORE], 'readwrite');
+    for (const id of ids) {
+      transaction.objectStore(ENTRY_STORE).delete(id);
+      transaction.objectStore(IMAGE_STORE).delete(id);
+    }
+    await this.complete(transaction);
+  }
+
+  /**
+   * Open the database once per context, creating the stores on first use
+   */
+  private static open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+            db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+            db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(new Error(`Failed to open history database: ${request.error?.message}`));
+      }).catch(error => {
+        // Let the next call try again
+        this.db = null;
+        throw error;
+      });
+    }
+
+    return this.db;
+  }
+
+  private static request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error ?? new Error('History request failed'));
+    });
+  }
+
+  private static complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error ?? new Error('History transaction failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('History transaction aborted'));
+    });
+  }
+}
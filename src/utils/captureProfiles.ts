@@ -0,0 +1,169 @@
+// Per-site capture profiles: matching page URLs and applying profile overrides
+
+import { CaptureProfile, ElementInfo, LongScreenshotBehavior } from '../types';
+import { FormatRegistry } from './formatRegistry';
+import { FilenameTemplate } from './filenameTemplate';
+
+export const MAX_PROFILE_PADDING = 500;
+
+const LONG_SCREENSHOT_BEHAVIORS: LongScreenshotBehavior[] = ['auto', 'off'];
+
+/**
+ * A profile's pattern is either a host glob such as `*.corp.example.com`,
+ * where `*` matches any run of characters and `?` one character, or a
+ * regular expression between slashes such as `/docs\.example\.com\/api/i`,
+ * tested against the whole URL. Profiles are checked in order and the first
+ * match applies.
+ */
+export class CaptureProfiles {
+  /**
+   * Check whether a page URL matches a profile pattern. Invalid patterns and
+   * URLs never match.
+   */
+  static matches(pattern: string, url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    const regex = this.toRegExp(pattern.trim());
+    if (!regex) {
+      return false;
+    }
+    return this.isRegexPattern(pattern) ? regex.test(url) : regex.test(parsed.hostname);
+  }
+
+  /**
+   * The first profile whose pattern matches the URL
+   */
+  static find(profiles: CaptureProfile[] | undefined, url: string | undefined): CaptureProfile | null {
+    if (!url || !profiles) {
+      return null;
+    }
+    return profiles.find(profile => this.matches(profile.pattern, url)) ?? null;
+  }
+
+  /**
+   * Describe what is wrong with a pattern, or null when it is usable
+   */
+  static validatePattern(pattern: string): string | null {
+    const trimmed = typeof pattern === 'string' ? pattern.trim() : '';
+    if (!trimmed) {
+      return 'pattern cannot be empty';
+    }
+    if (!this.isRegexPattern(trimmed) && /[/:\s]/.test(trimmed)) {
+      return 'host globs cannot contain slashes, colons or spaces';
+    }
+    return this.toRegExp(trimmed) ? null : 'invalid regular expression';
+  }
+
+  /**
+   * Validate one profile, returning an error per invalid field
+   */
+  static validate(profile: CaptureProfile): string[] {
+    const errors: string[] = [];
+    const label = [profile.name, profile.pattern].find(value => typeof value === 'string' && value.trim())?.trim() ?? 'unnamed';
+
+    if (typeof profile.name !== 'string' || !profile.name.trim()) {
+      errors.push('name cannot be empty');
+    }
+
+    const patternError = this.validatePattern(profile.pattern);
+    if (patternError) {
+      errors.push(patternError);
+    }
+
+    if (profile.format !== undefined && !FormatRegistry.has(profile.format)) {
+      errors.push(`unknown format ${profile.format}`);
+    }
+
+    if (profile.quality !== undefined &&
+        (typeof profile.quality !== 'number' || profile.quality < 10 || profile.quality > 100)) {
+      errors.push('quality must be a number between 10 and 100');
+    }
+
+    const templateError = profile.filenameTemplate !== undefined && FilenameTemplate.validate(profile.filenameTemplate);
+    if (templateError) {
+      errors.push(`filename template ${templateError}`);
+    }
+
+    if (profile.padding !== undefined &&
+        (!Number.isInteger(profile.padding) || profile.padding < 0 || profile.padding > MAX_PROFILE_PADDING)) {
+      errors.push(`padding must be a whole number between 0 and ${MAX_PROFILE_PADDING}`);
+    }
+
+    if (profile.hiddenSelectors !== undefined &&
+        (!Array.isArray(profile.hiddenSelectors) ||
+         !profile.hiddenSelectors.every(selector => typeof selector === 'string' && selector.trim().length > 0))) {
+      errors.push('hidden selectors must be a list of CSS selectors');
+    }
+
+    if (profile.longScreenshot !== undefined && !LONG_SCREENSHOT_BEHAVIORS.includes(profile.longScreenshot)) {
+      errors.push('long screenshot behavior must be auto or off');
+    }
+
+    if (profile.keepHeader !== undefined && typeof profile.keepHeader !== 'boolean') {
+      errors.push('keepHeader must be boolean');
+    }
+
+    return errors.map(error => `${label}: ${error}`);
+  }
+
+  /**
+   * Grow an element's box by the profile padding on every side. Framed
+   * elements are placed by their offset in the frame, which moves with it.
+   */
+  static padElement(elementInfo: ElementInfo, padding: number): ElementInfo {
+    if (padding <= 0) {
+      return elementInfo;
+    }
+
+    const rect = elementInfo.boundingRect;
+    const bounds = {
+      x: rect.left - padding,
+      y: rect.top - padding,
+      width: rect.width + padding * 2,
+      height: rect.height + padding * 2,
+      top: rect.top - padding,
+      right: rect.right + padding,
+      bottom: rect.bottom + padding,
+      left: rect.left - padding
+    };
+
+    const padded: ElementInfo = { ...elementInfo, boundingRect: { ...bounds, toJSON: () => bounds } as DOMRect };
+    if (elementInfo.iframeInfo) {
+      const { x, y } = elementInfo.iframeInfo.relativePosition;
+      padded.iframeInfo = { ...elementInfo.iframeInfo, relativePosition: { x: x - padding, y: y - padding } };
+    }
+    return padded;
+  }
+
+  private static isRegexPattern(pattern: string): boolean {
+    return /^\/.+\/[a-z]*$/.test(pattern.trim());
+  }
+
+  private static toRegExp(pattern: string): RegExp | null {
+    if (this.isRegexPattern(pattern)) {
+      const lastSlash = pattern.lastIndexOf('/');
+      // Global and sticky flags would make test() depend on the previous call
+      const flags = pattern.slice(lastSlash + 1).replace(/[gy]/g, '');
+      try {
+        return new RegExp(pattern.slice(1, lastSlash), flags);
+      } catch {
+        return null;
+      }
+    }
+
+    if (!pattern) {
+      return null;
+    }
+    const source = pattern
+      .toLowerCase()
+      .split('')
+      .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    return new RegExp(`^${source}$`, 'i');
+  }
+}
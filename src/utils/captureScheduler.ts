@@ -0,0 +1,155 @@
+// Rate-limited scheduling of chrome.tabs.captureVisibleTab calls
+
+import { ErrorHandler } from './errorHandler';
+
+export interface CaptureRequestOptions {
+  signal?: AbortSignal; // Drops the request from the queue when aborted
+  onQueued?: (position: number) => void; // Number of captures ahead, reported while waiting
+}
+
+interface CaptureJob {
+  capture: () => Promise<string>;
+  options: CaptureRequestOptions;
+  resolve: (dataUrl: string) => void;
+  reject: (error: Error) => void;
+}
+
+// chrome.tabs.MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND
+const CAPTURES_PER_SECOND = 2;
+
+// Backoff after a quota error: doubles on every retry up to the maximum
+const QUOTA_BACKOFF_BASE_MS = 500;
+const QUOTA_BACKOFF_MAX_MS = 4000;
+const MAX_QUOTA_RETRIES = 4;
+
+/**
+ * Chrome allows only about two captureVisibleTab calls per second across the
+ * whole browser. Every capture goes through this queue, which runs one call
+ * at a time, paces the calls with a token bucket and backs off when Chrome
+ * still reports the quota as exceeded.
+ */
+export class CaptureScheduler {
+  private static queue: CaptureJob[] = [];
+  private static processing = false;
+  private static tokens = CAPTURES_PER_SECOND;
+  private static lastRefill = Date.now();
+
+  /**
+   * Queue a capture and resolve with its result once it has run
+   */
+  static schedule(capture: () => Promise<string>, options: CaptureRequestOptions = {}): Promise<string> {
+    if (options.signal?.aborted) {
+      return Promise.reject(ErrorHandler.createCancellationError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: CaptureJob = { capture, options, resolve, reject };
+      this.queue.push(job);
+
+      options.signal?.addEventListener('abort', () => this.cancel(job), { once: true });
+
+      const ahead = this.queue.length - 1 + (this.processing ? 1 : 0);
+      if (ahead > 0) {
+        options.onQueued?.(ahead);
+      }
+
+      void this.processQueue();
+    });
+  }
+
+  /**
+   * Check whether an error is Chrome rejecting a capture over the rate limit
+   */
+  static isQuotaError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return message.includes('MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND') || /quota/i.test(message);
+  }
+
+  /**
+   * Run queued captures one at a time
+   */
+  private static async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+
+    this.processing = true;
+    try {
+      while (this.queue.length > 0) {
+        const job = this.queue.shift()!;
+
+        // Everyone still waiting moved up one place
+        this.queue.forEach((waiting, index) => waiting.options.onQueued?.(index + 1));
+
+        try {
+          job.resolve(await this.runWithBackoff(job));
+        } catch (error) {
+          job.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Run a capture once a token is available, retrying with backoff on quota errors
+   */
+  private static async runWithBackoff(job: CaptureJob): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquireToken();
+
+      if (job.options.signal?.aborted) {
+        throw ErrorHandler.createCancellationError();
+      }
+
+      try {
+        return await job.capture();
+      } catch (error) {
+        if (!this.isQuotaError(error) || attempt >= MAX_QUOTA_RETRIES) {
+          throw error;
+        }
+
+        // Another extension or an earlier burst used up the quota: wait it out
+        const delay = Math.min(QUOTA_BACKOFF_MAX_MS, QUOTA_BACKOFF_BASE_MS * 2 ** attempt);
+        console.warn(`Capture quota exceeded, retrying in ${delay}ms`);
+        this.tokens = 0;
+        this.lastRefill = Date.now();
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Wait until the bucket holds a token and take it
+   */
+  private static async acquireToken(): Promise<void> {
+    for (;;) {
+      // The wall clock may be set back; never refill for negative time
+      const now = Date.now();
+      const elapsed = Math.max(0, now - this.lastRefill);
+      this.tokens = Math.min(CAPTURES_PER_SECOND, this.tokens + elapsed * CAPTURES_PER_SECOND / 1000);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.ceil((1 - this.tokens) * 1000 / CAPTURES_PER_SECOND)));
+    }
+  }
+
+  /**
+   * Remove a cancelled capture that has not started yet
+   */
+  private static cancel(job: CaptureJob): void {
+    const index = this.queue.indexOf(job);
+    if (index === -1) {
+      return;
+    }
+
+    this.queue.splice(index, 1);
+    job.reject(ErrorHandler.createCancellationError());
+  }
+}
@@ -0,0 +1,30 @@
+// Base64 data URL encoding shared by the image, PDF and ZIP writers
+
+/**
+ * Decode the bytes of a base64 data URL of any type
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const separator = dataUrl.indexOf(',');
+  if (!dataUrl.startsWith('data:') || !dataUrl.slice(0, separator).endsWith(';base64')) {
+    throw new Error('Expected a base64 data URL');
+  }
+
+  const binary = atob(dataUrl.slice(separator + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as a base64 data URL of the given type
+ */
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  // Build the string in slices; spreading the whole array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
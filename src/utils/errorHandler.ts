@@ -13,6 +13,9 @@ export interface ErrorInfo {
   technicalDetails?: any;
 }
 
+// Name carried by the error that stops a cancelled screenshot session
+const CANCELLATION_ERROR_NAME = 'AbortError';
+
 export interface RetryConfig {
   maxAttempts: number;
   delayMs: number;
@@ -91,6 +94,14 @@ export class ErrorHandler {
       retryable: true,
       fallbackAvailable: true,
       userAction: '正在準備手動保存選項...'
+    },
+    [ScreenshotError.CANCELLED]: {
+      code: ScreenshotError.CANCELLED,
+      message: 'Screenshot session was cancelled',
+      chineseMessage: '截圖已取消',
+      severity: 'low',
+      retryable: false,
+      fallbackAvailable: false
     }
   };
 
@@ -175,10 +186,38 @@ export class ErrorHandler {
     throw new Error(`${errorContext} - Unknown error occurred`);
   }
 
+  /**
+   * Create the error that stops a cancelled screenshot session
+   */
+  static createCancellationError(): Error {
+    const error = new Error('Screenshot session cancelled');
+    error.name = CANCELLATION_ERROR_NAME;
+    return error;
+  }
+
+  /**
+   * Whether an error stopped a cancelled session, before or after enhancement
+   */
+  static isCancellation(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+      return false;
+    }
+    return error.name === CANCELLATION_ERROR_NAME || (isEnhancedError(error) && error.errorInfo.code === ScreenshotError.CANCELLED);
+  }
+
   /**
    * Classify error into screenshot error types
    */
   static classifyError(error: Error): ScreenshotError {
+    // Errors already enhanced by a nested handler keep their classification
+    if (isEnhancedError(error)) {
+      return error.errorInfo.code;
+    }
+
+    if (error.name === CANCELLATION_ERROR_NAME) {
+      return ScreenshotError.CANCELLED;
+    }
+
     const message = error.message.toLowerCase();
     
     if (message.includes('element not found') || message.includes('selector')) {
@@ -376,5 +415,15 @@ export class ErrorHandler {
   }
 }
 
+/**
+ * Whether an error was enhanced by ErrorHandler and carries its ErrorInfo
+ */
+function isEnhancedError(error: Error): error is Error & { errorInfo: ErrorInfo } {
+  return 'errorInfo' in error
+    && typeof error.errorInfo === 'object'
+    && error.errorInfo !== null
+    && 'code' in error.errorInfo;
+}
+
 // Export error handling utilities
 export { ScreenshotError };
\ No newline at end of file
@@ -0,0 +1,214 @@
+// Filename templates: expanding page tokens, subfolders and safe download paths
+
+import { FilenameContext, ImageFormat } from '../types';
+import { FormatRegistry } from './formatRegistry';
+
+const COUNTER_STORAGE_KEY = 'filenameCounter';
+
+// Longest folder or file name, and longest whole path, in characters
+export const MAX_FILENAME_SEGMENT_LENGTH = 100;
+export const MAX_FILENAME_LENGTH = 200;
+
+// Tokens that take a date format such as {date:YYYYMMDD}
+const DATE_TOKENS = ['date', 'time'];
+
+const TOKENS = [
+  'timestamp', 'date', 'time', 'format', 'hostname', 'title', 'path',
+  'selector', 'tag', 'id', 'counter', 'width', 'height', 'mode'
+];
+
+const TOKEN_PATTERN = /\{(\w+)(?::([^{}]*))?\}/g;
+
+// Characters Windows, macOS or Chrome refuse in file names, besides control characters
+const ILLEGAL_CHARACTERS = /[<>:"|?*\\]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+/**
+ * A filename template is text with tokens in braces, such as
+ * `{hostname}/{date:YYYYMMDD}-{counter}`. Every occurrence of a token is
+ * replaced, slashes in the template create subfolders of the download
+ * folder, and token values never do: a slash in a page title becomes a dash.
+ * Each folder and file name is then cleaned of characters operating systems
+ * reject and cut to a length every system accepts.
+ */
+export class FilenameTemplate {
+  private static counterQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Expand a template into a download path ending in the format's extension.
+   * Tokens without a value in the context expand to nothing; unknown tokens
+   * are kept as written.
+   */
+  static render(template: string, format: ImageFormat, context: FilenameContext = {}): string {
+    const date = context.date ?? new Date();
+    const expanded = template.replace(TOKEN_PATTERN, (match, name: string, dateFormat?: string) => {
+      const value = this.expandToken(name, dateFormat, format, date, context);
+      return value === null ? match : value.replace(/[/\\]/g, '-');
+    });
+
+    const segments = expanded
+      .split('/')
+      .map(segment => this.sanitizeSegment(segment))
+      .filter(segment => segment && segment !== '.' && segment !== '..');
+    const basename = segments.pop() || 'screenshot';
+
+    // Folders take at most half the path; the deepest go first
+    while (segments.join('/').length > MAX_FILENAME_LENGTH / 2) {
+      segments.pop();
+    }
+
+    const { extension } = FormatRegistry.get(format);
+    const suffix = basename.toLowerCase().endsWith(`.${extension}`) ? '' : `.${extension}`;
+    const folders = segments.map(segment => `${segment}/`).join('');
+
+    // The file name gives way so the extension and folders are kept
+    const available = Math.min(
+      MAX_FILENAME_SEGMENT_LENGTH - suffix.length,
+      MAX_FILENAME_LENGTH - folders.length - suffix.length
+    );
+    return `${folders}${truncate(basename, available)}${suffix}`;
+  }
+
+  /**
+   * Describe what is wrong with a template, or null when it is usable
+   */
+  static validate(template: string): string | null {
+    const trimmed = typeof template === 'string' ? template.trim() : '';
+    if (!trimmed) {
+      return 'cannot be empty';
+    }
+    if (trimmed.includes('\\')) {
+      return 'cannot contain backslashes';
+    }
+    if (trimmed.startsWith('/') || trimmed.split('/').some(segment => ['.', '..'].includes(segment.trim()))) {
+      return 'folders must be relative and cannot be . or ..';
+    }
+
+    for (const [, name, dateFormat] of trimmed.matchAll(TOKEN_PATTERN)) {
+      if (!TOKENS.includes(name)) {
+        return `unknown token {${name}}`;
+      }
+      if (dateFormat !== undefined && !DATE_TOKENS.includes(name)) {
+        return `{${name}} does not take a format`;
+      }
+    }
+    return null;
+  }
+
+  static usesCounter(template: string): boolean {
+    return /\{counter\}/.test(template);
+  }
+
+  /**
+   * Take the next value of today's capture counter, starting at 1 each day.
+   * The counter lives in chrome.storage.local so it survives restarts; calls
+   * are queued so concurrent captures get distinct numbers.
+   */
+  static nextCounter(date: Date = new Date()): Promise<number> {
+    const next = this.counterQueue.then(async () => {
+      const day = formatDate(date, 'YYYY-MM-DD');
+      const result = await chrome.storage.local.get(COUNTER_STORAGE_KEY);
+      const stored = result[COUNTER_STORAGE_KEY] as { day: string; value: number } | undefined;
+      const value = stored?.day === day ? stored.value + 1 : 1;
+      await chrome.storage.local.set({ [COUNTER_STORAGE_KEY]: { day, value } });
+      return value;
+    });
+    this.counterQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private static expandToken(
+    name: string,
+    dateFormat: string | undefined,
+    format: ImageFormat,
+    date: Date,
+    context: FilenameContext
+  ): string | null {
+    switch (name) {
+      case 'timestamp':
+        return date.toISOString().replace(/[:.]/g, '-').slice(0, -5);
+      case 'date':
+        return formatDate(date, dateFormat ?? 'YYYY-MM-DD');
+      case 'time':
+        return formatDate(date, dateFormat ?? 'HH-mm-ss');
+      case 'format':
+        return format;
+      case 'hostname':
+        return parseUrl(context.url)?.hostname ?? '';
+      case 'path':
+        return parseUrl(context.url)?.pathname.replace(/^\/+|\/+$/g, '').replace(/\/+/g, '-') ?? '';
+      case 'title':
+        return context.title?.trim() ?? '';
+      case 'selector':
+        return context.selector ?? '';
+      case 'tag':
+        return context.tagName ?? '';
+      case 'id':
+        return context.elementId ?? '';
+      case 'counter':
+        return String(context.counter ?? 1).padStart(3, '0');
+      case 'width':
+        return context.width !== undefined ? String(Math.round(context.width)) : '';
+      case 'height':
+        return context.height !== undefined ? String(Math.round(context.height)) : '';
+      case 'mode':
+        return context.mode ?? 'element';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Make one folder or file name safe on every system
+   */
+  private static sanitizeSegment(segment: string): string {
+    const cleaned = Array.from(segment, char => isControlCharacter(char) ? '_' : char)
+      .join('')
+      .replace(ILLEGAL_CHARACTERS, '_')
+      .replace(/\s+/g, ' ')
+      // Windows drops trailing dots and spaces, and leading dots would hide the file
+      .replace(/^[\s.]+|[\s.]+$/g, '');
+    const safe = RESERVED_NAMES.test(cleaned) ? `_${cleaned}` : cleaned;
+    return truncate(safe, MAX_FILENAME_SEGMENT_LENGTH);
+  }
+}
+
+/**
+ * Format a local time with YYYY, YY, MM, DD, HH, mm and ss; other
+ * characters are kept
+ */
+function formatDate(date: Date, pattern: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return pattern.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, part => parts[part]);
+}
+
+function parseUrl(url: string | undefined): URL | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function isControlCharacter(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+// Cut by code points so emoji in page titles are not split in half
+function truncate(value: string, length: number): string {
+  const characters = Array.from(value);
+  return characters.length > length ? characters.slice(0, length).join('').trim() : value;
+}
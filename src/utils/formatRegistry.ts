@@ -0,0 +1,114 @@
+// Registry of output image formats and how they are encoded
+
+import { ImageFormat, ImageFormatInfo } from '../types';
+
+/**
+ * Every output format is described here once: its MIME type, file
+ * extension, whether it is lossy and which quality range applies. Encoding,
+ * filenames, validation and the format selectors all read from the registry,
+ * so a new format only needs to be registered.
+ */
+export class FormatRegistry {
+  private static formats = new Map<ImageFormat, ImageFormatInfo>();
+
+  /**
+   * Add a format, or replace the description of an existing one
+   */
+  static register(info: ImageFormatInfo): void {
+    this.formats.set(info.id, info);
+  }
+
+  /**
+   * Look up a registered format
+   */
+  static get(format: ImageFormat): ImageFormatInfo {
+    const info = this.formats.get(format);
+    if (!info) {
+      throw new Error(`Unsupported image format: ${format}`);
+    }
+    return info;
+  }
+
+  /**
+   * Check whether a value names a registered format
+   */
+  static has(format: unknown): format is ImageFormat {
+    return typeof format === 'string' && this.formats.has(format as ImageFormat);
+  }
+
+  /**
+   * All registered formats, in registration order
+   */
+  static list(): ImageFormatInfo[] {
+    return Array.from(this.formats.values());
+  }
+
+  /**
+   * Check whether a quality percentage is accepted by a format. Lossless
+   * formats ignore quality and accept any value.
+   */
+  static isQualityInRange(format: ImageFormat, quality: number): boolean {
+    const range = this.get(format).quality;
+    return !range || (quality >= range.min && quality <= range.max);
+  }
+
+  /**
+   * Replace the options of a format selector with the registered formats
+   */
+  static populateSelect(select: HTMLSelectElement): void {
+    const selected = select.value;
+    select.innerHTML = '';
+
+    for (const info of this.list()) {
+      const option = document.createElement('option');
+      option.value = info.id;
+      option.textContent = info.label;
+      select.appendChild(option);
+    }
+
+    if (this.has(selected)) {
+      select.value = selected;
+    }
+  }
+}
+
+FormatRegistry.register({
+  id: 'png',
+  label: 'PNG',
+  mimeType: 'image/png',
+  extension: 'png',
+  lossy: false,
+  opaque: false
+});
+
+FormatRegistry.register({
+  id: 'jpeg',
+  label: 'JPEG',
+  mimeType: 'image/jpeg',
+  extension: 'jpg',
+  lossy: true,
+  opaque: true,
+  quality: { min: 10, max: 100, default: 90 }
+});
+
+FormatRegistry.register({
+  id: 'webp',
+  label: 'WebP',
+  mimeType: 'image/webp',
+  extension: 'webp',
+  lossy: true,
+  opaque: false,
+  quality: { min: 10, max: 100, default: 85 }
+});
+
+// Pages are embedded as JPEG, so PDF output takes a JPEG quality
+FormatRegistry.register({
+  id: 'pdf',
+  label: 'PDF',
+  mimeType: 'application/pdf',
+  extension: 'pdf',
+  lossy: true,
+  opaque: true,
+  quality: { min: 10, max: 100, default: 90 },
+  paged: true
+});
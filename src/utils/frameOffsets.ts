@@ -0,0 +1,141 @@
+// Placing elements picked inside child frames on the tab's screenshot
+
+import { ElementInfo, FrameTokenPayload, MessageType, RectBounds } from '../types';
+import { sendMessageToTab } from './messageHandler';
+
+// Longer parent chains are treated as broken frame trees
+const MAX_FRAME_DEPTH = 32;
+
+export interface FramePlacement {
+  origin: { x: number; y: number }; // Where the frame's viewport starts in the top frame's viewport
+  visible: RectBounds; // The part of the frame not clipped by the frames around it
+}
+
+/**
+ * A content script only knows coordinates within its own frame. To crop an
+ * element picked in a child frame, the background walks from that frame up
+ * to the top frame and asks each parent where the frame element of its
+ * child is. A parent can't read which frame ID a cross-origin frame element
+ * belongs to, so the child first posts a one-off token to its parent window
+ * and the parent matches the message's source against its frame elements.
+ */
+export class FrameOffsets {
+  /**
+   * Frame IDs from a frame up to, but not including, the top frame
+   */
+  static getAncestorChain(
+    frames: Array<{ frameId: number; parentFrameId: number }>,
+    frameId: number
+  ): number[] {
+    const parents = new Map(frames.map(frame => [frame.frameId, frame.parentFrameId]));
+    const chain: number[] = [];
+
+    for (let id = frameId; id !== 0; ) {
+      const parentId = parents.get(id);
+      if (parentId === undefined || parentId < 0 || chain.length >= MAX_FRAME_DEPTH) {
+        throw new Error(`Frame ${id} is not attached to the tab`);
+      }
+      chain.push(id);
+      id = parentId;
+    }
+    return chain;
+  }
+
+  /**
+   * Combine the content boxes of nested frame elements, innermost first, each
+   * measured in its parent frame's viewport
+   */
+  static combine(boxes: RectBounds[]): FramePlacement {
+    let x = 0;
+    let y = 0;
+    let visible: RectBounds | null = null;
+
+    for (let i = boxes.length - 1; i >= 0; i--) {
+      const box = { ...boxes[i], left: x + boxes[i].left, top: y + boxes[i].top };
+      visible = visible ? intersect(visible, box) : box;
+      x = box.left;
+      y = box.top;
+    }
+
+    return { origin: { x, y }, visible: visible ?? { left: 0, top: 0, width: 0, height: 0 } };
+  }
+
+  /**
+   * Measure where a frame's viewport is in the top frame's viewport
+   */
+  static async locate(tabId: number, frameId: number): Promise<FramePlacement> {
+    const frames = await chrome.webNavigation.getAllFrames({ tabId }) ?? [];
+    const chain = this.getAncestorChain(frames, frameId);
+
+    const boxes: RectBounds[] = [];
+    for (const [index, id] of chain.entries()) {
+      boxes.push(await this.measureFrame(tabId, id, chain[index + 1] ?? 0));
+    }
+    return this.combine(boxes);
+  }
+
+  /**
+   * Move an element measured inside a frame onto the top frame's viewport.
+   * The frame's content script reports the element's position in its own
+   * viewport as the relative position.
+   */
+  static placeElement(elementInfo: ElementInfo, placement: FramePlacement): ElementInfo {
+    const position = elementInfo.iframeInfo?.relativePosition ?? { x: 0, y: 0 };
+    const { origin, visible } = placement;
+    const bounds = {
+      x: visible.left,
+      y: visible.top,
+      width: visible.width,
+      height: visible.height,
+      top: visible.top,
+      right: visible.left + visible.width,
+      bottom: visible.top + visible.height,
+      left: visible.left
+    };
+
+    return {
+      ...elementInfo,
+      isInIframe: true,
+      iframeInfo: {
+        iframeSelector: elementInfo.iframeInfo?.iframeSelector ?? '',
+        iframeBounds: { ...bounds, toJSON: () => bounds } as DOMRect,
+        relativePosition: {
+          x: origin.x + position.x - visible.left,
+          y: origin.y + position.y - visible.top
+        }
+      }
+    };
+  }
+
+  /**
+   * Ask a parent frame for the content box of one child frame element
+   */
+  private static async measureFrame(tabId: number, frameId: number, parentFrameId: number): Promise<RectBounds> {
+    const payload: FrameTokenPayload = {
+      token: `frame_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+    };
+
+    // Both frames are asked at once; the parent keeps tokens posted before it was asked
+    const [measured, announced] = await Promise.all([
+      sendMessageToTab<FrameTokenPayload, RectBounds>(tabId, MessageType.MEASURE_CHILD_FRAME, payload, parentFrameId),
+      sendMessageToTab<FrameTokenPayload>(tabId, MessageType.ANNOUNCE_FRAME, payload, frameId)
+    ]);
+
+    if (!announced.success) {
+      throw new Error(`Frame ${frameId} did not respond: ${announced.error}`);
+    }
+    if (!measured.success || !measured.data) {
+      throw new Error(`Frame ${frameId} not found in frame ${parentFrameId}: ${measured.error}`);
+    }
+    return measured.data;
+  }
+}
+
+function intersect(a: RectBounds, b: RectBounds): RectBounds {
+  const left = Math.max(a.left, b.left);
+  const top = Math.max(a.top, b.top);
+  const right = Math.min(a.left + a.width, b.left + b.width);
+  const bottom = Math.min(a.top + a.height, b.top + b.height);
+
+  return { left, top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+}
@@ -0,0 +1,221 @@
+// Capture provenance metadata embedded in encoded screenshots
+
+import { CaptureProvenance } from '../types';
+import { crc32 } from './crc32';
+import { bytesToDataUrl, dataUrlToBytes } from './dataUrl';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+const PROVENANCE_NAMESPACE = 'https://github.com/CatRaiden/chrome-element-screenshot/ns/1.0/';
+
+// JPEG segment data is limited by its two-byte length field
+const MAX_JPEG_SEGMENT_DATA = 65533;
+
+/**
+ * Writes where a screenshot came from into the file itself: PNG text chunks
+ * or JPEG comment and XMP segments. Both carry an XMP packet, so tools that
+ * understand XMP read the same fields from either format. Formats without a
+ * writer here are returned unchanged.
+ */
+export class ImageMetadata {
+  /**
+   * Embed provenance into an encoded PNG or JPEG data URL
+   */
+  static embed(dataUrl: string, provenance: CaptureProvenance): string {
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+
+    try {
+      if (mimeType === 'image/png') {
+        return bytesToDataUrl(this.embedPng(dataUrlToBytes(dataUrl), provenance), mimeType);
+      }
+      if (mimeType === 'image/jpeg') {
+        return bytesToDataUrl(this.embedJpeg(dataUrlToBytes(dataUrl), provenance), mimeType);
+      }
+    } catch (error) {
+      console.warn('Failed to embed capture metadata, saving without it:', error);
+    }
+
+    return dataUrl;
+  }
+
+  /**
+   * Name of the JSON sidecar saved next to an image
+   */
+  static sidecarFilename(filename: string): string {
+    const extensionIndex = filename.lastIndexOf('.');
+    const base = extensionIndex > 0 ? filename.slice(0, extensionIndex) : filename;
+    return `${base}.json`;
+  }
+
+  /**
+   * Serialize provenance as a JSON sidecar data URL, listing the files it describes
+   */
+  static createSidecar(provenance: CaptureProvenance, filenames: string[]): string {
+    const json = JSON.stringify({ ...provenance, files: filenames }, null, 2);
+    return bytesToDataUrl(new TextEncoder().encode(json), 'application/json');
+  }
+
+  /**
+   * Provenance as text fields, in the order they are written
+   */
+  static toTextFields(provenance: CaptureProvenance): Array<[string, string]> {
+    const fields: Array<[string, string]> = [];
+
+    if (provenance.title) fields.push(['Title', provenance.title]);
+    if (provenance.url) fields.push(['URL', provenance.url]);
+    fields.push(['Selector', provenance.selector]);
+    fields.push(['Creation Time', provenance.capturedAt]);
+    fields.push(['Device Pixel Ratio', String(provenance.devicePixelRatio)]);
+    if (provenance.viewport) {
+      fields.push(['Viewport', `${provenance.viewport.width}x${provenance.viewport.height}`]);
+    }
+    fields.push(['Software', `Chrome元素截圖工具 ${provenance.extensionVersion}`]);
+
+    return fields;
+  }
+
+  /**
+   * Build an XMP packet with Dublin Core and XMP basic fields, plus the
+   * capture details in the extension's own namespace
+   */
+  static buildXmp(provenance: CaptureProvenance): string {
+    const properties: string[] = [];
+
+    if (provenance.title) {
+      properties.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.title)}</rdf:li></rdf:Alt></dc:title>`);
+    }
+    if (provenance.url) {
+      properties.push(`<dc:source>${escapeXml(provenance.url)}</dc:source>`);
+    }
+    properties.push(
+      `<xmp:CreateDate>${escapeXml(provenance.capturedAt)}</xmp:CreateDate>`,
+      `<xmp:CreatorTool>Chrome元素截圖工具 ${escapeXml(provenance.extensionVersion)}</xmp:CreatorTool>`,
+      `<ces:selector>${escapeXml(provenance.selector)}</ces:selector>`,
+      `<ces:devicePixelRatio>${provenance.devicePixelRatio}</ces:devicePixelRatio>`
+    );
+    if (provenance.viewport) {
+      properties.push(
+        `<ces:viewportWidth>${provenance.viewport.width}</ces:viewportWidth>`,
+        `<ces:viewportHeight>${provenance.viewport.height}</ces:viewportHeight>`
+      );
+    }
+
+    return '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">' +
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+      '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+      `xmlns:xmp="${XMP_NAMESPACE}" xmlns:ces="${PROVENANCE_NAMESPACE}">` +
+      properties.join('') +
+      '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>';
+  }
+
+  /**
+   * Insert text chunks right after IHDR: tEXt for Latin-1 values, iTXt
+   * (UTF-8) for anything else, and the XMP packet as iTXt
+   */
+  private static embedPng(png: Uint8Array, provenance: CaptureProvenance): Uint8Array {
+    if (!PNG_SIGNATURE.every((byte, index) => png[index] === byte)) {
+      throw new Error('Not a PNG image');
+    }
+
+    // IHDR is always the first chunk: length, type, 13 data bytes, CRC
+    const ihdrEnd = 8 + 12 + readUint32(png, 8);
+
+    const chunks = this.toTextFields(provenance).map(([keyword, value]) => isLatin1(value)
+      ? this.createPngChunk('tEXt', concat(latin1(keyword), [0], latin1(value)))
+      : this.createInternationalTextChunk(keyword, value));
+    chunks.push(this.createInternationalTextChunk('XML:com.adobe.xmp', this.buildXmp(provenance)));
+
+    return concat(png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd));
+  }
+
+  /**
+   * Build an uncompressed iTXt chunk
+   */
+  private static createInternationalTextChunk(keyword: string, text: string): Uint8Array {
+    // Keyword, null, compression flag and method, empty language tag and translated keyword
+    return this.createPngChunk('iTXt', concat(latin1(keyword), [0, 0, 0, 0, 0], new TextEncoder().encode(text)));
+  }
+
+  /**
+   * Build a PNG chunk with its length and CRC
+   */
+  private static createPngChunk(type: string, data: Uint8Array): Uint8Array {
+    const typeAndData = concat(latin1(type), data);
+    const chunk = new Uint8Array(typeAndData.length + 8);
+    writeUint32(chunk, 0, data.length);
+    chunk.set(typeAndData, 4);
+    writeUint32(chunk, typeAndData.length + 4, crc32(typeAndData));
+    return chunk;
+  }
+
+  /**
+   * Insert a COM segment holding the provenance as JSON and an APP1 XMP
+   * segment. They go after the JFIF APP0 segment, which must come first.
+   */
+  private static embedJpeg(jpeg: Uint8Array, provenance: CaptureProvenance): Uint8Array {
+    if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+      throw new Error('Not a JPEG image');
+    }
+
+    let insertAt = 2;
+    if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+      insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+    }
+
+    const comment = this.createJpegSegment(0xfe, new TextEncoder().encode(JSON.stringify(provenance)));
+    const xmp = this.createJpegSegment(0xe1, concat(latin1(XMP_NAMESPACE), [0], new TextEncoder().encode(this.buildXmp(provenance))));
+
+    return concat(jpeg.subarray(0, insertAt), comment, xmp, jpeg.subarray(insertAt));
+  }
+
+  /**
+   * Build a JPEG marker segment
+   */
+  private static createJpegSegment(marker: number, data: Uint8Array): Uint8Array {
+    if (data.length > MAX_JPEG_SEGMENT_DATA) {
+      throw new Error('Metadata too large for a JPEG segment');
+    }
+
+    const length = data.length + 2;
+    return concat([0xff, marker, length >> 8, length & 0xff], data);
+  }
+
+}
+
+function concat(...parts: Array<Uint8Array | number[]>): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+function isLatin1(value: string): boolean {
+  return /^[\x20-\x7e\xa0-\xff\n]*$/.test(value);
+}
+
+function latin1(value: string): Uint8Array {
+  return Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,206 @@
+// Image processing pipeline that runs canvas work in an offscreen document
+
+import {
+  MessageType,
+  ElementInfo,
+  LongScreenshotSegment,
+  ScreenshotOptions,
+  CropImagePayload,
+  StitchImagePayload,
+  EncodeImagePayload,
+  EncodeDocumentPayload,
+  ThumbnailPayload,
+  StitchResult,
+  StitchTilesPayload,
+  TiledStitchResult,
+  ComposedImagePart,
+  ComposeImagesPayload
+} from '../types';
+import { sendMessageToOffscreen } from './messageHandler';
+import { ScreenshotProcessor } from './screenshotProcessor';
+
+export const OFFSCREEN_DOCUMENT_PATH = 'dist/offscreen.html';
+
+/**
+ * The MV3 service worker has no `document` or `Image`, so cropping, stitching,
+ * encoding and thumbnails are sent as jobs to an offscreen document which
+ * runs the canvas-based ScreenshotProcessor methods and returns the resulting
+ * data URL.
+ */
+export class ImagePipeline {
+  private static creatingDocument: Promise<void> | null = null;
+
+  /**
+   * Crop a captured viewport screenshot to the element area
+   */
+  static async cropToElement(
+    dataUrl: string,
+    elementInfo: ElementInfo,
+    devicePixelRatio: number
+  ): Promise<string> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.cropToElement(dataUrl, elementInfo, devicePixelRatio);
+    }
+
+    return this.runJob<CropImagePayload>(MessageType.OFFSCREEN_CROP, {
+      dataUrl,
+      elementInfo,
+      devicePixelRatio
+    });
+  }
+
+  /**
+   * Stitch long screenshot segments into a single image, reporting how each
+   * segment was aligned
+   */
+  static async stitchSegments(
+    segments: LongScreenshotSegment[],
+    elementInfo: ElementInfo,
+    devicePixelRatio: number
+  ): Promise<StitchResult> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.stitchSegmentsWithAlignment(segments, elementInfo, devicePixelRatio);
+    }
+
+    return this.runJob<StitchImagePayload, StitchResult>(MessageType.OFFSCREEN_STITCH, {
+      segments,
+      elementInfo,
+      devicePixelRatio
+    }, result => typeof result?.dataUrl === 'string');
+  }
+
+  /**
+   * Stitch long screenshot segments into numbered tiles of `tileHeight`
+   * device pixels, for results beyond the canvas size limits
+   */
+  static async stitchTiles(
+    segments: LongScreenshotSegment[],
+    elementInfo: ElementInfo,
+    devicePixelRatio: number,
+    tileHeight: number
+  ): Promise<TiledStitchResult> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.stitchSegmentsTiled(segments, elementInfo, devicePixelRatio, tileHeight);
+    }
+
+    return this.runJob<StitchTilesPayload, TiledStitchResult>(MessageType.OFFSCREEN_STITCH_TILES, {
+      segments,
+      elementInfo,
+      devicePixelRatio,
+      tileHeight
+    }, result => Array.isArray(result?.tiles) && result.tiles.length > 0);
+  }
+
+  /**
+   * Encode an image in the requested output format and quality
+   */
+  static async encode(dataUrl: string, options: ScreenshotOptions): Promise<string> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.convertFormat(dataUrl, options);
+    }
+
+    return this.runJob<EncodeImagePayload>(MessageType.OFFSCREEN_ENCODE, {
+      dataUrl,
+      options
+    });
+  }
+
+  /**
+   * Encode several images as consecutive pages of one document in a paged
+   * format such as PDF
+   */
+  static async encodeDocument(dataUrls: string[], options: ScreenshotOptions): Promise<string> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.createPdf(dataUrls, options);
+    }
+
+    return this.runJob<EncodeDocumentPayload>(MessageType.OFFSCREEN_ENCODE_DOCUMENT, {
+      dataUrls,
+      options
+    });
+  }
+
+  /**
+   * Scale an image down to a small JPEG preview
+   */
+  static async createThumbnail(dataUrl: string, maxSize: number): Promise<string> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.createThumbnail(dataUrl, maxSize);
+    }
+
+    return this.runJob<ThumbnailPayload>(MessageType.OFFSCREEN_THUMBNAIL, {
+      dataUrl,
+      maxSize
+    });
+  }
+
+  /**
+   * Draw cropped images at their positions on one white canvas
+   */
+  static async composeImages(
+    parts: ComposedImagePart[],
+    width: number,
+    height: number,
+    devicePixelRatio: number
+  ): Promise<string> {
+    if (!this.isOffscreenAvailable()) {
+      return ScreenshotProcessor.composeImages(parts, width, height, devicePixelRatio);
+    }
+
+    return this.runJob<ComposeImagesPayload>(MessageType.OFFSCREEN_COMPOSE, {
+      parts,
+      width,
+      height,
+      devicePixelRatio
+    });
+  }
+
+  /**
+   * Create the offscreen document unless one is already open
+   */
+  static async ensureOffscreenDocument(): Promise<void> {
+    if (await chrome.offscreen.hasDocument()) {
+      return;
+    }
+
+    // Concurrent sessions must not race to create a second document
+    if (!this.creatingDocument) {
+      this.creatingDocument = chrome.offscreen.createDocument({
+        url: OFFSCREEN_DOCUMENT_PATH,
+        reasons: [chrome.offscreen.Reason.BLOBS],
+        justification: 'Crop, stitch and encode captured screenshots with canvas'
+      }).finally(() => {
+        this.creatingDocument = null;
+      });
+    }
+
+    await this.creatingDocument;
+  }
+
+  /**
+   * Whether jobs should go to an offscreen document. Contexts that already
+   * have a DOM (and no offscreen API) process images in place.
+   */
+  private static isOffscreenAvailable(): boolean {
+    return typeof chrome !== 'undefined' && Boolean(chrome.offscreen?.createDocument);
+  }
+
+  /**
+   * Send a job to the offscreen document and unwrap its result, a data URL
+   * unless another shape is checked by `isValid`
+   */
+  private static async runJob<T, R = string>(
+    type: MessageType,
+    payload: T,
+    isValid: (result: R | undefined) => boolean = result => typeof result === 'string'
+  ): Promise<R> {
+    await this.ensureOffscreenDocument();
+
+    const response = await sendMessageToOffscreen<T, R>(type, payload);
+    if (!response.success || !isValid(response.data)) {
+      throw new Error(`Image processing failed: ${response.error || 'Empty result'}`);
+    }
+
+    return response.data as R;
+  }
+}
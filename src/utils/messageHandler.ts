@@ -60,12 +60,26 @@ export class MessageRouter {
     }
   }
 
+  /**
+   * Check whether a handler is registered for a message type
+   */
+  hasHandler(type: MessageType): boolean {
+    return this.handlers.has(type);
+  }
+
   /**
    * Setup Chrome runtime message listener
+   *
+   * When `ignoreUnregistered` is set, messages without a registered handler are
+   * left for other extension contexts to answer instead of failing them here.
    */
-  setupListener(): void {
+  setupListener(options: { ignoreUnregistered?: boolean } = {}): void {
     chrome.runtime.onMessage.addListener(
       (request: MessageRequest, sender, sendResponse: (response: MessageResponse) => void) => {
+        if (options.ignoreUnregistered && !this.hasHandler(request?.type)) {
+          return false;
+        }
+
         this.handle(request, sender)
           .then(response => sendResponse(response))
           .catch(error => {
@@ -120,10 +134,52 @@ export function sendMessageToBackground<T = any, R = any>(
 }
 
 /**
- * Send message to content script from background script
+ * Send message to content script from background script, or only to the
+ * content script of one frame when a frame ID is given
  */
 export function sendMessageToTab<T = any, R = any>(
   tabId: number,
+  type: MessageType,
+  payload?: T,
+  frameId?: number
+): Promise<MessageResponse<R>> {
+  return new Promise((resolve) => {
+    const request: MessageRequest<T> = {
+      type,
+      requestId: generateRequestId()
+    };
+    
+    if (payload !== undefined) {
+      request.payload = payload;
+    }
+
+    const callback = (response: MessageResponse<R>) => {
+      if (chrome.runtime.lastError) {
+        const errorResponse: MessageResponse<R> = {
+          success: false,
+          error: chrome.runtime.lastError.message || 'Unknown error'
+        };
+        if (request.requestId !== undefined) {
+          errorResponse.requestId = request.requestId;
+        }
+        resolve(errorResponse);
+      } else {
+        resolve(response);
+      }
+    };
+
+    if (frameId === undefined) {
+      chrome.tabs.sendMessage(tabId, request, callback);
+    } else {
+      chrome.tabs.sendMessage(tabId, request, { frameId }, callback);
+    }
+  });
+}
+
+/**
+ * Send message to the offscreen document from background script
+ */
+export function sendMessageToOffscreen<T = any, R = any>(
   type: MessageType,
   payload?: T
 ): Promise<MessageResponse<R>> {
@@ -137,7 +193,7 @@ export function sendMessageToTab<T = any, R = any>(
       request.payload = payload;
     }
 
-    chrome.tabs.sendMessage(tabId, request, (response: MessageResponse<R>) => {
+    chrome.runtime.sendMessage(request, (response: MessageResponse<R>) => {
       if (chrome.runtime.lastError) {
         const errorResponse: MessageResponse<R> = {
           success: false,
@@ -147,6 +203,12 @@ export function sendMessageToTab<T = any, R = any>(
           errorResponse.requestId = request.requestId;
         }
         resolve(errorResponse);
+      } else if (!response) {
+        resolve({
+          success: false,
+          error: 'No response from offscreen document',
+          requestId: request.requestId
+        });
       } else {
         resolve(response);
       }
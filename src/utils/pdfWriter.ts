@@ -0,0 +1,201 @@
+// Minimal PDF writer for wrapping screenshots in a document
+
+import { PdfPageSize } from '../types';
+import { bytesToDataUrl, dataUrlToBytes } from './dataUrl';
+
+export interface PdfMetadata {
+  title?: string;
+  sourceUrl?: string;
+  capturedAt?: Date;
+}
+
+export interface PdfImagePage {
+  jpeg: Uint8Array; // JPEG-encoded image drawn on the page
+  imageWidth: number; // Pixels
+  imageHeight: number;
+  pageWidth: number; // Points
+  pageHeight: number;
+  margin: number; // Points around the image; the image is drawn at the top of the page
+}
+
+// Page sizes in points (1/72 inch); fit-to-width pages use the A4 width
+export const PDF_PAGE_SIZES: Record<Exclude<PdfPageSize, 'fit'>, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+};
+export const PDF_PAGE_MARGIN = 36;
+
+// Largest page side most PDF readers accept
+export const PDF_MAX_PAGE_SIZE = 14400;
+
+const CREATOR = 'Chrome元素截圖工具';
+
+/**
+ * Writes a PDF 1.4 document with one JPEG image per page. Images are
+ * embedded as-is with DCTDecode, so no compression library is needed.
+ */
+export class PdfWriter {
+  private pages: PdfImagePage[] = [];
+
+  constructor(private metadata: PdfMetadata = {}) {}
+
+  /**
+   * Add a page showing a JPEG image scaled to the page width inside the margin
+   */
+  addImagePage(page: PdfImagePage): void {
+    this.pages.push(page);
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) {
+      throw new Error('PDF has no pages');
+    }
+
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encodeAscii(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const writeObject = (id: number, body: string) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\nendobj\n`);
+    };
+    const writeStream = (id: number, dictionary: string, data: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`);
+      write(data);
+      write('\nendstream\nendobj\n');
+    };
+
+    // Objects 1-3 are the catalog, page tree and info; each page then takes three
+    const pageIds = this.pages.map((_, index) => 4 + index * 3);
+    const objectCount = 3 + this.pages.length * 3;
+
+    // Header with a binary comment so transfer tools treat the file as binary
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    writeObject(3, this.buildInfo());
+
+    this.pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const contentId = pageId + 1;
+      const imageId = pageId + 2;
+
+      const drawWidth = page.pageWidth - page.margin * 2;
+      const drawHeight = drawWidth * page.imageHeight / page.imageWidth;
+      const drawTop = page.pageHeight - page.margin;
+      const content = `q ${formatNumber(drawWidth)} 0 0 ${formatNumber(drawHeight)} ` +
+        `${formatNumber(page.margin)} ${formatNumber(drawTop - drawHeight)} cm /Im0 Do Q`;
+
+      writeObject(pageId, `<< /Type /Page /Parent 2 0 R ` +
+        `/MediaBox [0 0 ${formatNumber(page.pageWidth)} ${formatNumber(page.pageHeight)}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`);
+      writeStream(contentId, '', encodeAscii(content));
+      writeStream(imageId, `/Type /XObject /Subtype /Image /Width ${page.imageWidth} /Height ${page.imageHeight} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode', page.jpeg);
+    });
+
+    // Cross-reference table: every entry is exactly 20 bytes
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) {
+      write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+
+  /**
+   * Serialize the document as a data URL, ready for download
+   */
+  toDataUrl(): string {
+    return bytesToDataUrl(this.toBytes(), 'application/pdf');
+  }
+
+  /**
+   * Build the document information dictionary. The source URL is kept both
+   * as the subject, which readers display, and in a custom key.
+   */
+  private buildInfo(): string {
+    const { title, sourceUrl, capturedAt } = this.metadata;
+    const entries = [
+      `/Creator ${encodeTextString(CREATOR)}`,
+      `/Producer ${encodeTextString(CREATOR)}`
+    ];
+
+    if (title) {
+      entries.push(`/Title ${encodeTextString(title)}`);
+    }
+    if (sourceUrl) {
+      entries.push(`/Subject ${encodeTextString(sourceUrl)}`, `/SourceURL ${encodeTextString(sourceUrl)}`);
+    }
+    if (capturedAt) {
+      entries.push(`/CreationDate ${encodeTextString(formatPdfDate(capturedAt))}`);
+    }
+
+    return `<< ${entries.join(' ')} >>`;
+  }
+}
+
+/**
+ * Decode the JPEG bytes of a base64 JPEG data URL
+ */
+export function decodeJpegDataUrl(dataUrl: string): Uint8Array {
+  if (!dataUrl.startsWith('data:image/jpeg;base64,')) {
+    throw new Error('Expected a JPEG data URL');
+  }
+
+  return dataUrlToBytes(dataUrl);
+}
+
+/**
+ * Format a date as a PDF date string in UTC, e.g. D:20240101120000Z
+ */
+export function formatPdfDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Encode a text string as UTF-16BE hex with a byte order mark, which PDF
+ * readers accept for any Unicode text
+ */
+function encodeTextString(value: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Encode a string whose characters are all below 256 byte for byte
+ */
+function encodeAscii(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
@@ -345,9 +345,9 @@ export class PerformanceOptimizer {
   private static async performMemoryCleanup(): Promise<void> {
     this.lastMemoryCleanup = Date.now();
     
-    // Force garbage collection if available
-    if ('gc' in window && typeof (window as any).gc === 'function') {
-      (window as any).gc();
+    // Force garbage collection if available (service workers have no window)
+    if ('gc' in globalThis && typeof (globalThis as any).gc === 'function') {
+      (globalThis as any).gc();
     }
     
     // Release object references
@@ -0,0 +1,181 @@
+// Saved capture targets: elements that can be captured again without selecting them
+
+import { SavedTarget, SelectorCandidate } from '../types';
+
+const STORAGE_KEY = 'savedTargets';
+
+// Oldest unused targets are dropped beyond this count
+export const MAX_SAVED_TARGETS = 50;
+
+/**
+ * Every element capture is remembered as a URL pattern plus the element's
+ * selector, so the popup can offer the same element again the next time the
+ * page is open. Targets live in chrome.storage.local, next to other
+ * per-device state, and are shared by the background and the popup.
+ */
+export class SavedTargets {
+  /**
+   * Remember a captured element. Capturing the same element on the same page
+   * again refreshes the existing target instead of adding another one.
+   */
+  static async record(
+    url: string,
+    selector: string,
+    title?: string,
+    fallbacks: SelectorCandidate[] = []
+  ): Promise<SavedTarget | null> {
+    const urlPattern = this.createUrlPattern(url);
+    if (!urlPattern || !selector) {
+      return null;
+    }
+
+    const now = Date.now();
+    const targets = await this.list();
+    const existing = targets.find(target => target.urlPattern === urlPattern && target.selector === selector);
+
+    const target: SavedTarget = existing
+      ? { ...existing, lastUsedAt: now }
+      : {
+          id: `target_${now}_${Math.random().toString(36).slice(2, 11)}`,
+          urlPattern,
+          selector,
+          createdAt: now,
+          lastUsedAt: now
+        };
+    if (title) {
+      target.title = title;
+    }
+    if (fallbacks.length > 0) {
+      target.fallbacks = fallbacks;
+    }
+
+    const others = targets.filter(item => item.id !== target.id);
+    await this.save(this.prune([target, ...others], MAX_SAVED_TARGETS));
+    return target;
+  }
+
+  /**
+   * All saved targets, most recently used first
+   */
+  static async list(): Promise<SavedTarget[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    const targets: SavedTarget[] = Array.isArray(result[STORAGE_KEY]) ? result[STORAGE_KEY] : [];
+    return targets.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  /**
+   * Targets whose pattern matches the given page URL
+   */
+  static async listForUrl(url: string): Promise<SavedTarget[]> {
+    const targets = await this.list();
+    return targets.filter(target => this.matchesUrl(target.urlPattern, url));
+  }
+
+  static async get(id: string): Promise<SavedTarget | null> {
+    const targets = await this.list();
+    return targets.find(target => target.id === id) ?? null;
+  }
+
+  /**
+   * Mark a target as just used, keeping it ahead of pruning
+   */
+  static async touch(id: string): Promise<void> {
+    const targets = await this.list();
+    await this.save(targets.map(target => target.id === id ? { ...target, lastUsedAt: Date.now() } : target));
+  }
+
+  static async delete(id: string): Promise<void> {
+    const targets = await this.list();
+    await this.save(targets.filter(target => target.id !== id));
+  }
+
+  /**
+   * Pattern for a page URL: origin and path. The query string and fragment
+   * are left out, since they usually carry filters or state rather than
+   * identify the page.
+   */
+  static createUrlPattern(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return null;
+      }
+      return `${parsed.origin}${parsed.pathname}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check a page URL against a pattern. `*` in the pattern matches any run of
+   * characters, so a pattern can be widened by hand, e.g. to every report
+   * under a path.
+   */
+  static matchesUrl(pattern: string, url: string): boolean {
+    const page = this.createUrlPattern(url);
+    if (!page) {
+      return false;
+    }
+
+    const source = pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${source}$`).test(page);
+  }
+
+  /**
+   * Keep the most recently used targets within the limit
+   */
+  static prune(targets: SavedTarget[], limit: number): SavedTarget[] {
+    return [...targets]
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Check that an imported value has the shape of a saved target
+   */
+  static isValid(target: unknown): target is SavedTarget {
+    const candidate = target as Partial<SavedTarget> | null;
+    return typeof candidate === 'object' && candidate !== null &&
+      typeof candidate.id === 'string' &&
+      typeof candidate.urlPattern === 'string' && candidate.urlPattern.length > 0 &&
+      typeof candidate.selector === 'string' && candidate.selector.length > 0 &&
+      typeof candidate.createdAt === 'number' &&
+      typeof candidate.lastUsedAt === 'number' &&
+      (candidate.fallbacks === undefined || Array.isArray(candidate.fallbacks));
+  }
+
+  /**
+   * Combine imported targets with the current ones. Merging keeps both, and
+   * the same element on the same page keeps the current target's ID with
+   * the imported details; replacing keeps the imported targets only.
+   */
+  static combine(current: SavedTarget[], imported: SavedTarget[], mode: 'merge' | 'replace'): SavedTarget[] {
+    if (mode === 'replace') {
+      return this.prune(imported, MAX_SAVED_TARGETS);
+    }
+
+    const key = (target: SavedTarget) => `${target.urlPattern}\n${target.selector}`;
+    const combined = new Map(current.map(target => [key(target), target]));
+    for (const target of imported) {
+      const existing = combined.get(key(target));
+      combined.set(key(target), existing ? { ...target, id: existing.id } : target);
+    }
+    return this.prune(Array.from(combined.values()), MAX_SAVED_TARGETS);
+  }
+
+  /**
+   * Store imported targets, merged with or replacing the current ones
+   */
+  static async import(targets: SavedTarget[], mode: 'merge' | 'replace'): Promise<SavedTarget[]> {
+    const combined = this.combine(await this.list(), targets, mode);
+    await this.save(combined);
+    return combined;
+  }
+
+  private static async save(targets: SavedTarget[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: targets });
+  }
+}
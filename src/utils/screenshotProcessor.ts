@@ -1,6 +1,36 @@
 // Screenshot processing utilities for Chrome element screenshot extension
 
-import { ScreenshotOptions, ElementInfo, LongScreenshotSegment, ScrollPosition } from '../types';
+import {
+  ScreenshotOptions,
+  ImageFormat,
+  PdfPageSize,
+  ElementInfo,
+  LongScreenshotSegment,
+  ScrollDirection,
+  PageLayout,
+  PageScrollResult,
+  SegmentAlignment,
+  StitchResult,
+  TiledStitchResult,
+  RectBounds,
+  ComposedImagePart,
+  FilenameContext,
+  TransformMatrix
+} from '../types';
+import { PerformanceOptimizer } from './performanceOptimizer';
+import { CaptureScheduler, CaptureRequestOptions } from './captureScheduler';
+import { FormatRegistry } from './formatRegistry';
+import { FilenameTemplate } from './filenameTemplate';
+import { ErrorHandler } from './errorHandler';
+import {
+  PdfWriter,
+  PdfMetadata,
+  PDF_PAGE_SIZES,
+  PDF_PAGE_MARGIN,
+  PDF_MAX_PAGE_SIZE,
+  decodeJpegDataUrl
+} from './pdfWriter';
+import { SHADOW_SELECTOR_SEPARATOR } from './selectorEngine';
 
 export interface CropArea {
   x: number;
@@ -9,20 +39,80 @@ export interface CropArea {
   height: number;
 }
 
+export interface RowProfile {
+  hashes: number[];
+  flat: boolean[]; // true for rows of a single color, which match anywhere
+}
+
+export interface SegmentCaptureOptions {
+  signal?: AbortSignal; // Stops the capture between segments when aborted
+  keepHeaderOnFirstSegment?: boolean;
+  sessionId?: string; // Monitored session whose metrics adapt the scroll step
+  onQueued?: (position: number) => void; // Reports captures waiting ahead on the rate limit
+}
+
+// A segment's adjusted crop area and row profile, read before placement
+interface LoadedSegment {
+  cropArea: CropArea;
+  profile: RowProfile | null;
+}
+
+// How an image is laid out on PDF pages
+interface PdfPageLayout {
+  pageWidth: number; // Points
+  pageHeight: number; // Points; fit-to-width pages shrink to the rows they hold
+  margin: number;
+  scale: number; // Points per image pixel
+  rowsPerPage: number;
+  fitHeight: boolean;
+}
+
+// Where a segment's trimmed crop goes in the stitched image
+interface SegmentPlacement {
+  index: number;
+  source: CropArea;
+  destX: number;
+  destY: number;
+}
+
+// Chrome's canvas limits: longest side and total pixel count
+const MAX_CANVAS_DIMENSION = 32767;
+const MAX_CANVAS_AREA = 268435456;
+
+// Share of the visible area scrolled per segment, and the most an adapted step may scroll
+const SCROLL_STEP_RATIO = 0.8;
+const MAX_SCROLL_STEP_RATIO = 0.9;
+
+// Safety limit on the number of captured segments
+const MAX_SEGMENTS = 50;
+
+// JPEG quality of history thumbnails
+const THUMBNAIL_QUALITY = 0.7;
+
+// How far above the full page height a PDF page break may move to land on a blank row
+const PAGE_BREAK_SEARCH_RATIO = 0.15;
+
+// Overlap detection tuning, in device pixel rows
+const OVERLAP_MIN_ROWS = 8;
+const OVERLAP_BAND_ROWS = 64;
+const OVERLAP_MIN_INFORMATIVE_ROWS = 4;
+const OVERLAP_MATCH_THRESHOLD = 0.9;
+
 export class ScreenshotProcessor {
   /**
-   * Capture full page screenshot using Chrome tabs API
+   * Capture full page screenshot using Chrome tabs API. Calls are queued by
+   * the CaptureScheduler to stay within Chrome's capture rate limit.
    */
-  static async captureFullPage(tabId: number): Promise<string> {
+  static async captureFullPage(tabId: number, options: CaptureRequestOptions = {}): Promise<string> {
     try {
       // Get the window ID for the tab
       const tab = await chrome.tabs.get(tabId);
       const windowId = tab.windowId;
       
-      const dataUrl = await chrome.tabs.captureVisibleTab(windowId, {
+      const dataUrl = await CaptureScheduler.schedule(() => chrome.tabs.captureVisibleTab(windowId, {
         format: 'png',
         quality: 100
-      });
+      }), options);
       
       if (!dataUrl) {
         throw new Error('Failed to capture screenshot');
@@ -30,6 +120,9 @@ export class ScreenshotProcessor {
       
       return dataUrl;
     } catch (error) {
+      if (ErrorHandler.isCancellation(error)) {
+        throw error;
+      }
       console.error('Failed to capture full page screenshot:', error);
       throw new Error(`Screenshot capture failed: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -90,6 +183,11 @@ export class ScreenshotProcessor {
     dataUrl: string,
     options: ScreenshotOptions
   ): Promise<string> {
+    // Document formats wrap the image in pages instead
+    if (FormatRegistry.get(options.format).paged) {
+      return this.createPdf(dataUrl, options);
+    }
+
     return new Promise((resolve, reject) => {
       try {
         const canvas = document.createElement('canvas');
@@ -100,22 +198,23 @@ export class ScreenshotProcessor {
           return;
         }
 
+        const format = FormatRegistry.get(options.format);
         const img = new Image();
         
         img.onload = () => {
           canvas.width = img.width;
           canvas.height = img.height;
           
-          // Fill with white background for JPEG format
-          if (options.format === 'jpeg') {
+          // Fill with white background for formats without transparency
+          if (format.opaque) {
             ctx.fillStyle = '#FFFFFF';
             ctx.fillRect(0, 0, canvas.width, canvas.height);
           }
           
           ctx.drawImage(img, 0, 0);
           
-          const mimeType = options.format === 'jpeg' ? 'image/jpeg' : 'image/png';
-          const convertedDataUrl = canvas.toDataURL(mimeType, options.quality);
+          // Lossless formats ignore the quality argument
+          const convertedDataUrl = canvas.toDataURL(format.mimeType, options.quality);
           
           resolve(convertedDataUrl);
         };
@@ -132,27 +231,226 @@ export class ScreenshotProcessor {
   }
 
   /**
-   * Generate filename based on template and current timestamp
+   * Wrap a screenshot in a PDF. Images taller than a page are split into
+   * pages, with each break moved up to a blank row nearby where there is one
+   * so text lines are not cut in half. Several images, such as the tiles of
+   * an oversized long screenshot, become consecutive pages of one document.
    */
-  static generateFilename(template: string, format: 'png' | 'jpeg'): string {
-    const now = new Date();
-    const timestamp = now.toISOString().replace(/[:.]/g, '-').slice(0, -5);
-    const dateStr = now.toISOString().slice(0, 10);
-    const timeStr = now.toTimeString().slice(0, 8).replace(/:/g, '-');
-    
-    let filename = template
-      .replace('{timestamp}', timestamp)
-      .replace('{date}', dateStr)
-      .replace('{time}', timeStr)
-      .replace('{format}', format);
-    
-    // Ensure filename has correct extension
-    const extension = format === 'jpeg' ? 'jpg' : 'png';
-    if (!filename.endsWith(`.${extension}`)) {
-      filename += `.${extension}`;
+  static async createPdf(dataUrls: string | string[], options: ScreenshotOptions): Promise<string> {
+    try {
+      const pdf = options.pdf ?? { pageSize: 'a4' };
+      const metadata: PdfMetadata = {};
+      if (pdf.title) metadata.title = pdf.title;
+      if (pdf.sourceUrl) metadata.sourceUrl = pdf.sourceUrl;
+      if (pdf.capturedAt) metadata.capturedAt = new Date(pdf.capturedAt);
+      const writer = new PdfWriter(metadata);
+
+      for (const dataUrl of Array.isArray(dataUrls) ? dataUrls : [dataUrls]) {
+        const img = await this.loadImage(dataUrl);
+        const layout = this.getPdfPageLayout(pdf.pageSize, img.width, img.height);
+        const pageBottoms = this.calculatePageBreaks(
+          img.height,
+          layout.rowsPerPage,
+          (top, bottom) => this.readRowProfile(img, { x: 0, y: top, width: img.width, height: bottom - top })?.flat ?? null
+        );
+
+        let top = 0;
+        for (const bottom of pageBottoms) {
+          const canvas = document.createElement('canvas');
+          const ctx = canvas.getContext('2d');
+          if (!ctx) {
+            throw new Error('Failed to get canvas context');
+          }
+
+          canvas.width = img.width;
+          canvas.height = bottom - top;
+
+          // Pages are JPEG, which has no transparency
+          ctx.fillStyle = '#FFFFFF';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          ctx.drawImage(img, 0, top, img.width, canvas.height, 0, 0, canvas.width, canvas.height);
+
+          writer.addImagePage({
+            jpeg: decodeJpegDataUrl(canvas.toDataURL('image/jpeg', options.quality)),
+            imageWidth: canvas.width,
+            imageHeight: canvas.height,
+            pageWidth: layout.pageWidth,
+            pageHeight: layout.fitHeight ? canvas.height * layout.scale : layout.pageHeight,
+            margin: layout.margin
+          });
+          top = bottom;
+        }
+      }
+
+      return writer.toDataUrl();
+    } catch (error) {
+      throw new Error(`PDF creation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    return filename;
+  }
+
+  /**
+   * Scale an image down to fit `maxSize` pixels on its longest side, as a
+   * small JPEG for previews
+   */
+  static async createThumbnail(dataUrl: string, maxSize: number): Promise<string> {
+    const img = await this.loadImage(dataUrl);
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+  }
+
+  /**
+   * Draw cropped images at their positions on one white canvas of
+   * `width` × `height` CSS pixels. Areas no part covers stay white.
+   */
+  static async composeImages(
+    parts: ComposedImagePart[],
+    width: number,
+    height: number,
+    devicePixelRatio: number
+  ): Promise<string> {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    canvas.width = Math.max(1, Math.round(width * devicePixelRatio));
+    canvas.height = Math.max(1, Math.round(height * devicePixelRatio));
+    if (this.exceedsCanvasLimits(canvas.width, canvas.height)) {
+      throw new Error(`Composed image of ${canvas.width}×${canvas.height} exceeds the canvas size limit`);
+    }
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    for (const part of parts) {
+      const img = await this.loadImage(part.dataUrl);
+      ctx.drawImage(img, Math.round(part.x * devicePixelRatio), Math.round(part.y * devicePixelRatio));
+    }
+
+    return canvas.toDataURL('image/png', 1.0);
+  }
+
+  /**
+   * Smallest rectangle containing every rect
+   */
+  static getUnionBounds(rects: RectBounds[]): RectBounds {
+    if (rects.length === 0) {
+      throw new Error('No rectangles to combine');
+    }
+
+    const left = Math.min(...rects.map(rect => rect.left));
+    const top = Math.min(...rects.map(rect => rect.top));
+    const right = Math.max(...rects.map(rect => rect.left + rect.width));
+    const bottom = Math.max(...rects.map(rect => rect.top + rect.height));
+
+    return { left, top, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * Work out the page size and how many image rows fit on one page
+   */
+  private static getPdfPageLayout(pageSize: PdfPageSize, imageWidth: number, imageHeight: number): PdfPageLayout {
+    if (pageSize === 'fit') {
+      const pageWidth = PDF_PAGE_SIZES.a4.width;
+      const scale = pageWidth / imageWidth;
+      const pageHeight = Math.min(PDF_MAX_PAGE_SIZE, imageHeight * scale);
+      return {
+        pageWidth,
+        pageHeight,
+        margin: 0,
+        scale,
+        rowsPerPage: Math.max(1, Math.floor(PDF_MAX_PAGE_SIZE / scale)),
+        fitHeight: true
+      };
+    }
+
+    const { width, height } = PDF_PAGE_SIZES[pageSize];
+    const scale = (width - PDF_PAGE_MARGIN * 2) / imageWidth;
+    return {
+      pageWidth: width,
+      pageHeight: height,
+      margin: PDF_PAGE_MARGIN,
+      scale,
+      rowsPerPage: Math.max(1, Math.floor((height - PDF_PAGE_MARGIN * 2) / scale)),
+      fitHeight: false
+    };
+  }
+
+  /**
+   * Choose where pages end. A page ends where the next one would start on a
+   * blank row, searching upwards from the full page height; when the search
+   * finds none, or pixels cannot be read, the page is filled.
+   *
+   * @param readFlatRows Flags single-color rows from top (inclusive) to bottom (exclusive)
+   * @returns The bottom row (exclusive) of every page
+   */
+  static calculatePageBreaks(
+    height: number,
+    rowsPerPage: number,
+    readFlatRows: (top: number, bottom: number) => boolean[] | null
+  ): number[] {
+    const pageBottoms: number[] = [];
+    let top = 0;
+
+    while (height - top > rowsPerPage) {
+      const fullPage = top + rowsPerPage;
+      const searchTop = Math.max(top + 1, fullPage - Math.floor(rowsPerPage * PAGE_BREAK_SEARCH_RATIO));
+      const flat = readFlatRows(searchTop, fullPage + 1);
+      let bottom = fullPage;
+
+      if (flat) {
+        for (let row = fullPage; row >= searchTop; row--) {
+          if (flat[row - searchTop]) {
+            bottom = row;
+            break;
+          }
+        }
+      }
+
+      pageBottoms.push(bottom);
+      top = bottom;
+    }
+
+    pageBottoms.push(height);
+    return pageBottoms;
+  }
+
+  /**
+   * Generate a download path from a filename template, expanding page tokens
+   * from the context
+   */
+  static generateFilename(template: string, format: ImageFormat, context: FilenameContext = {}): string {
+    return FilenameTemplate.render(template, format, context);
+  }
+
+  /**
+   * Number a filename for one part of a multi-file result, e.g. `shot_03.png`.
+   * Numbers are zero-padded so the files sort in order.
+   */
+  static numberFilename(filename: string, index: number, total: number): string {
+    const digits = Math.max(2, String(total).length);
+    const number = String(index).padStart(digits, '0');
+    const extensionIndex = filename.lastIndexOf('.');
+
+    if (extensionIndex <= 0) {
+      return `${filename}_${number}`;
+    }
+
+    return `${filename.slice(0, extensionIndex)}_${number}${filename.slice(extensionIndex)}`;
   }
 
   /**
@@ -245,22 +543,43 @@ export class ScreenshotProcessor {
   }
 
   /**
-   * Capture long screenshot by scrolling and stitching multiple segments
+   * Capture long screenshot by scrolling and stitching multiple segments.
+   * Aborting `options.signal` stops the capture between segments. Fixed and
+   * sticky elements over the element are hidden from the first segment on, or
+   * from the second row when `keepHeaderOnFirstSegment` is set, so every
+   * column of the first row shows the header. With a
+   * monitored `sessionId` the vertical scroll step adapts to how the capture
+   * is performing.
    */
   static async captureLongScreenshot(
     tabId: number,
     elementInfo: ElementInfo,
-    _devicePixelRatio: number = 1
-  ): Promise<{ segments: LongScreenshotSegment[]; totalHeight: number }> {
+    devicePixelRatio: number = 1,
+    options: SegmentCaptureOptions = {}
+  ): Promise<{ segments: LongScreenshotSegment[]; totalHeight: number; totalWidth: number }> {
+    const { signal, keepHeaderOnFirstSegment = false, sessionId, onQueued } = options;
+    const captureOptions: CaptureRequestOptions = { ...(signal ? { signal } : {}), ...(onQueued ? { onQueued } : {}) };
+    
     try {
       // Import types for messaging
       const { MessageType } = await import('../types');
       
-      // Calculate scroll segments
-      const scrollSegments = await this.calculateScrollSegments(elementInfo);
+      // Rows are scrolled one step at a time; columns are fixed up front
+      const { totalHeight, visibleHeight } = elementInfo;
+      const totalWidth = elementInfo.totalWidth ?? elementInfo.boundingRect.width;
+      const visibleWidth = elementInfo.visibleWidth ?? elementInfo.boundingRect.width;
+      const maxScrollY = elementInfo.isScrollable ? Math.max(0, totalHeight - visibleHeight) : 0;
+      const columns = elementInfo.isScrollable
+        ? this.calculateAxisPositions(totalWidth, visibleWidth, SCROLL_STEP_RATIO)
+        : [0];
+      const estimatedSegments = Math.min(
+        MAX_SEGMENTS,
+        columns.length * this.calculateAxisPositions(maxScrollY + visibleHeight, visibleHeight, SCROLL_STEP_RATIO).length
+      );
       const segments: LongScreenshotSegment[] = [];
+      let floatingHidden = false;
       
-      console.log(`Capturing ${scrollSegments.length} segments for long screenshot`);
+      console.log(`Capturing about ${estimatedSegments} segments for long screenshot`);
       
       // Reset scroll position first
       await chrome.tabs.sendMessage(tabId, {
@@ -268,40 +587,70 @@ export class ScreenshotProcessor {
         payload: { selector: elementInfo.selector }
       });
       
-      // Capture each segment
-      for (let i = 0; i < scrollSegments.length; i++) {
-        const scrollPos = scrollSegments[i];
-        
-        // Scroll to position
-        await chrome.tabs.sendMessage(tabId, {
-          type: MessageType.SCROLL_TO_POSITION,
-          payload: { 
-            selector: elementInfo.selector, 
-            scrollTop: scrollPos.y 
+      // Capture every column of a row before moving down
+      for (let y = 0; ; ) {
+        for (const x of columns) {
+          if (signal?.aborted) {
+            await this.abortLongScreenshot(segments, () => chrome.tabs.sendMessage(tabId, {
+              type: MessageType.RESET_SCROLL,
+              payload: { selector: elementInfo.selector }
+            }));
           }
-        });
-        
-        // Wait for scroll to settle
-        await new Promise(resolve => setTimeout(resolve, 200));
-        
-        // Capture screenshot at this position
-        const screenshotDataUrl = await this.captureFullPage(tabId);
+
+          if (!floatingHidden && (y > 0 || !keepHeaderOnFirstSegment)) {
+            await this.hideFloatingElements(tabId, elementInfo.selector);
+            floatingHidden = true;
+          }
+          
+          // Scroll to position
+          await chrome.tabs.sendMessage(tabId, {
+            type: MessageType.SCROLL_TO_POSITION,
+            payload: { 
+              selector: elementInfo.selector, 
+              scrollTop: y,
+              scrollLeft: x
+            }
+          });
+          
+          // Wait for scroll to settle
+          await new Promise(resolve => setTimeout(resolve, 200));
+          
+          // Capture screenshot at this position
+          const screenshotDataUrl = await this.captureFullPage(tabId, captureOptions);
+          
+          // Get current element rect after scroll
+          const currentElementRect = await this.getElementRectAfterScroll(
+            tabId, 
+            elementInfo.selector
+          );
+          
+          segments.push({
+            dataUrl: screenshotDataUrl,
+            scrollPosition: { x, y, isComplete: false },
+            segmentIndex: segments.length,
+            elementRect: currentElementRect
+          });
+          
+          if (segments.length >= MAX_SEGMENTS) {
+            break;
+          }
+        }
         
-        // Get current element rect after scroll
-        const currentElementRect = await this.getElementRectAfterScroll(
-          tabId, 
-          elementInfo.selector
-        );
+        if (y >= maxScrollY || segments.length >= MAX_SEGMENTS) {
+          break;
+        }
         
-        segments.push({
-          dataUrl: screenshotDataUrl,
-          scrollPosition: scrollPos,
-          segmentIndex: i,
-          elementRect: currentElementRect
-        });
+        const step = this.calculateScrollStep(visibleHeight, segments.length, estimatedSegments, devicePixelRatio, sessionId);
+        y = Math.min(maxScrollY, y + step);
       }
       
+      if (segments.length >= MAX_SEGMENTS && segments[segments.length - 1].scrollPosition.y < maxScrollY) {
+        console.warn(`Too many scroll segments, limiting to ${MAX_SEGMENTS}`);
+      }
+      segments[segments.length - 1].scrollPosition.isComplete = true;
+      
       // Reset scroll position after capture
+      await this.restoreFloatingElements(tabId);
       await chrome.tabs.sendMessage(tabId, {
         type: MessageType.RESET_SCROLL,
         payload: { selector: elementInfo.selector }
@@ -309,15 +658,205 @@ export class ScreenshotProcessor {
       
       return {
         segments,
-        totalHeight: elementInfo.totalHeight
+        totalHeight: elementInfo.totalHeight,
+        totalWidth: elementInfo.totalWidth ?? elementInfo.boundingRect.width
       };
       
     } catch (error) {
+      await this.restoreFloatingElements(tabId);
+      if (ErrorHandler.isCancellation(error)) {
+        throw error;
+      }
       console.error('Failed to capture long screenshot:', error);
       throw new Error(`Long screenshot capture failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Restore the element's scroll, release captured segments and stop the capture
+   */
+  private static async abortLongScreenshot(
+    segments: LongScreenshotSegment[],
+    restoreScroll: () => Promise<unknown>
+  ): Promise<never> {
+    // Drop references to the captured data URLs so they can be collected
+    segments.forEach(segment => {
+      segment.dataUrl = '';
+    });
+    segments.length = 0;
+
+    try {
+      await restoreScroll();
+    } catch (error) {
+      console.warn('Failed to reset scroll after cancellation:', error);
+    }
+
+    throw ErrorHandler.createCancellationError();
+  }
+
+  /**
+   * Capture an element that scrolls with the page (or the whole document) by
+   * scrolling the window or the element's nearest scrollable ancestor.
+   * Returns the segments together with the element info to stitch them with,
+   * whose rects are in viewport coordinates. The scroll step adapts like
+   * the element capture's when `options.sessionId` is monitored.
+   */
+  static async captureFullPageScreenshot(
+    tabId: number,
+    elementInfo: ElementInfo,
+    devicePixelRatio: number = 1,
+    options: SegmentCaptureOptions = {}
+  ): Promise<{ segments: LongScreenshotSegment[]; totalHeight: number; totalWidth: number; stitchInfo: ElementInfo }> {
+    const { signal, keepHeaderOnFirstSegment = false, sessionId, onQueued } = options;
+    const captureOptions: CaptureRequestOptions = { ...(signal ? { signal } : {}), ...(onQueued ? { onQueued } : {}) };
+    
+    try {
+      const { MessageType } = await import('../types');
+      const selector = elementInfo.selector;
+
+      const layout = await this.sendTabRequest<PageLayout>(tabId, MessageType.GET_PAGE_LAYOUT, { selector });
+      const totalHeight = Math.max(0, layout.endY - layout.startY);
+      const maxOffset = Math.max(0, totalHeight - layout.viewportHeight);
+      const estimatedSegments = Math.min(
+        MAX_SEGMENTS,
+        this.calculateAxisPositions(totalHeight, layout.viewportHeight, SCROLL_STEP_RATIO).length
+      );
+      const segments: LongScreenshotSegment[] = [];
+      let floatingHidden = false;
+
+      const restoreScroll = () => this.sendTabRequest<PageScrollResult>(tabId, MessageType.SCROLL_PAGE_TO_POSITION, {
+        selector,
+        scrollTop: layout.originalScrollTop,
+        scrollLeft: layout.originalScrollLeft
+      });
+
+      console.log(`Capturing about ${estimatedSegments} page segments for full page screenshot`);
+
+      for (let offset = 0, i = 0; ; i++) {
+        if (signal?.aborted) {
+          await this.abortLongScreenshot(segments, restoreScroll);
+        }
+
+        // The header stays on the first screen only
+        if (!floatingHidden && (offset > 0 || !keepHeaderOnFirstSegment)) {
+          await this.hideFloatingElements(tabId, selector);
+          floatingHidden = true;
+        }
+
+        const scrollResult = await this.sendTabRequest<PageScrollResult>(tabId, MessageType.SCROLL_PAGE_TO_POSITION, {
+          selector,
+          scrollTop: layout.startY + offset,
+          scrollLeft: layout.originalScrollLeft
+        });
+
+        // Wait for lazy content and scroll-linked effects to settle
+        await new Promise(resolve => setTimeout(resolve, 200));
+
+        const screenshotDataUrl = await this.captureFullPage(tabId, captureOptions);
+
+        // Segments are placed by their offset within the capture area
+        segments.push({
+          dataUrl: screenshotDataUrl,
+          scrollPosition: {
+            x: scrollResult.offset.x,
+            y: scrollResult.offset.y,
+            isComplete: offset >= maxOffset
+          },
+          segmentIndex: i,
+          elementRect: scrollResult.elementRect
+        });
+
+        if (offset >= maxOffset) {
+          break;
+        }
+        if (segments.length >= MAX_SEGMENTS) {
+          console.warn(`Too many scroll segments, limiting to ${MAX_SEGMENTS}`);
+          segments[segments.length - 1].scrollPosition.isComplete = true;
+          break;
+        }
+
+        const step = this.calculateScrollStep(layout.viewportHeight, segments.length, estimatedSegments, devicePixelRatio, sessionId);
+        offset = Math.min(maxOffset, offset + step);
+      }
+
+      await this.restoreFloatingElements(tabId);
+      await restoreScroll();
+
+      if (segments.length === 0) {
+        throw new Error('No visible area to capture');
+      }
+
+      const firstRect = segments[0].elementRect;
+      const stitchInfo: ElementInfo = {
+        ...elementInfo,
+        boundingRect: firstRect,
+        isScrollable: true,
+        totalHeight,
+        visibleHeight: layout.viewportHeight,
+        totalWidth: firstRect.width,
+        visibleWidth: firstRect.width,
+        // Rects are already the visible viewport area; no further adjustments apply
+        hasTransform: false,
+        hasShadow: false,
+        isFixed: false,
+        isInIframe: false
+      };
+
+      return { segments, totalHeight, totalWidth: firstRect.width, stitchInfo };
+    } catch (error) {
+      await this.restoreFloatingElements(tabId);
+      if (ErrorHandler.isCancellation(error)) {
+        throw error;
+      }
+      console.error('Failed to capture full page screenshot:', error);
+      throw new Error(`Full page capture failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Hide fixed and sticky elements over the capture area so they don't repeat
+   * in every segment. Failures only leave the elements visible.
+   */
+  private static async hideFloatingElements(tabId: number, selector: string): Promise<void> {
+    const { MessageType } = await import('../types');
+
+    try {
+      await chrome.tabs.sendMessage(tabId, {
+        type: MessageType.HIDE_FLOATING_ELEMENTS,
+        payload: { selector }
+      });
+    } catch (error) {
+      console.warn('Failed to hide floating elements:', error);
+    }
+  }
+
+  /**
+   * Show floating elements hidden for the capture again
+   */
+  private static async restoreFloatingElements(tabId: number): Promise<void> {
+    const { MessageType } = await import('../types');
+
+    try {
+      await chrome.tabs.sendMessage(tabId, {
+        type: MessageType.RESTORE_FLOATING_ELEMENTS,
+        payload: {}
+      });
+    } catch (error) {
+      console.warn('Failed to restore floating elements:', error);
+    }
+  }
+
+  /**
+   * Send a request to the tab's content script and unwrap the response data
+   */
+  private static async sendTabRequest<T>(tabId: number, type: string, payload: unknown): Promise<T> {
+    const response = await chrome.tabs.sendMessage(tabId, { type, payload });
+    if (!response?.success) {
+      throw new Error(response?.error || `No response for ${type}`);
+    }
+    return response.data as T;
+  }
+
   /**
    * Stitch multiple screenshot segments into a single image
    */
@@ -326,6 +865,20 @@ export class ScreenshotProcessor {
     elementInfo: ElementInfo,
     devicePixelRatio: number = 1
   ): Promise<string> {
+    const { dataUrl } = await this.stitchSegmentsWithAlignment(segments, elementInfo, devicePixelRatio);
+    return dataUrl;
+  }
+
+  /**
+   * Stitch segments and report where each one was placed. Vertically adjacent
+   * segments are aligned by matching their pixel rows; the overlap computed
+   * from the scroll positions is used when no confident match is found.
+   */
+  static async stitchSegmentsWithAlignment(
+    segments: LongScreenshotSegment[],
+    elementInfo: ElementInfo,
+    devicePixelRatio: number = 1
+  ): Promise<StitchResult> {
     try {
       if (segments.length === 0) {
         throw new Error('No segments to stitch');
@@ -333,7 +886,10 @@ export class ScreenshotProcessor {
       
       if (segments.length === 1) {
         // Single segment, just crop it
-        return this.cropToElement(segments[0].dataUrl, elementInfo, devicePixelRatio);
+        return {
+          dataUrl: await this.cropToElement(segments[0].dataUrl, elementInfo, devicePixelRatio),
+          alignments: [{ segmentIndex: segments[0].segmentIndex, offsetY: 0, overlap: 0, confidence: 1, method: 'computed' }]
+        };
       }
       
       // Create canvas for final stitched image
@@ -344,53 +900,24 @@ export class ScreenshotProcessor {
         throw new Error('Failed to get canvas context');
       }
       
-      // Calculate final dimensions
-      const elementWidth = elementInfo.boundingRect.width * devicePixelRatio;
-      const totalHeight = elementInfo.totalHeight * devicePixelRatio;
-      
-      canvas.width = elementWidth;
-      canvas.height = totalHeight;
+      const { width, height } = this.getStitchedSize(elementInfo, devicePixelRatio);
+      canvas.width = width;
+      canvas.height = height;
       
-      // Load and process each segment
-      let currentY = 0;
+      const loaded = await this.loadSegments(segments, devicePixelRatio);
+      const { placements, alignments } = this.placeSegments(segments, loaded, devicePixelRatio);
       
-      for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i];
-        const img = await this.loadImage(segment.dataUrl);
-        
-        // Calculate crop area for this segment
-        const cropArea: CropArea = {
-          x: segment.elementRect.left * devicePixelRatio,
-          y: segment.elementRect.top * devicePixelRatio,
-          width: elementWidth,
-          height: segment.elementRect.height * devicePixelRatio
-        };
-        
-        // Adjust crop area to image bounds
-        const adjustedCropArea = this.adjustCropArea(cropArea, img.width, img.height);
-        
-        // Calculate how much of this segment to use
-        let segmentHeight = adjustedCropArea.height;
-        
-        // For overlapping segments, avoid duplicating content
-        if (i > 0) {
-          const overlapHeight = this.calculateOverlapHeight(segments, i, devicePixelRatio);
-          segmentHeight -= overlapHeight;
-          adjustedCropArea.y += overlapHeight;
-          adjustedCropArea.height = segmentHeight;
-        }
-        
-        // Draw segment onto final canvas
+      // Draw segments in batches so only a few decoded images are alive at once
+      await PerformanceOptimizer.processSegmentsProgressively(placements, async placement => {
+        const img = await this.loadImage(segments[placement.index].dataUrl);
         ctx.drawImage(
           img,
-          adjustedCropArea.x, adjustedCropArea.y, adjustedCropArea.width, segmentHeight,
-          0, currentY, elementWidth, segmentHeight
+          placement.source.x, placement.source.y, placement.source.width, placement.source.height,
+          placement.destX, placement.destY, placement.source.width, placement.source.height
         );
-        
-        currentY += segmentHeight;
-      }
+      });
       
-      return canvas.toDataURL('image/png', 1.0);
+      return { dataUrl: canvas.toDataURL('image/png', 1.0), alignments };
       
     } catch (error) {
       console.error('Failed to stitch screenshot segments:', error);
@@ -399,42 +926,393 @@ export class ScreenshotProcessor {
   }
 
   /**
-   * Calculate scroll segments for long screenshot
+   * Stitch segments into tiles of `tileHeight` device pixels, for results
+   * larger than a single canvas can hold. Results wider than a canvas are
+   * also split into columns of the widest canvas. Tiles are returned row by
+   * row from the top, left to right within a row.
    */
-  private static async calculateScrollSegments(elementInfo: ElementInfo): Promise<ScrollPosition[]> {
-    const { totalHeight, visibleHeight } = elementInfo;
-    
-    if (!elementInfo.isScrollable || totalHeight <= visibleHeight) {
-      return [{ x: 0, y: 0, isComplete: true }];
+  static async stitchSegmentsTiled(
+    segments: LongScreenshotSegment[],
+    elementInfo: ElementInfo,
+    devicePixelRatio: number,
+    tileHeight: number
+  ): Promise<TiledStitchResult> {
+    try {
+      if (segments.length === 0) {
+        throw new Error('No segments to stitch');
+      }
+      
+      const { width, height } = this.getStitchedSize(elementInfo, devicePixelRatio);
+      const rowsPerTile = Math.max(1, Math.floor(tileHeight));
+      const columnsPerTile = this.calculateTileWidth(width);
+      
+      // First pass: align all segments without drawing
+      const loaded = await this.loadSegments(segments, devicePixelRatio);
+      const { placements, alignments } = this.placeSegments(segments, loaded, devicePixelRatio);
+      
+      // Second pass: draw one tile at a time so only one tile canvas is alive
+      const tiles: string[] = [];
+      for (let tileTop = 0; tileTop < height; tileTop += rowsPerTile) {
+        for (let tileLeft = 0; tileLeft < width; tileLeft += columnsPerTile) {
+          const canvas = document.createElement('canvas');
+          const ctx = canvas.getContext('2d');
+          
+          if (!ctx) {
+            throw new Error('Failed to get canvas context');
+          }
+          
+          canvas.width = Math.min(columnsPerTile, width - tileLeft);
+          canvas.height = Math.min(rowsPerTile, height - tileTop);
+          
+          for (const placement of placements) {
+            const overlapsTile = placement.destY < tileTop + canvas.height &&
+              placement.destY + placement.source.height > tileTop &&
+              placement.destX < tileLeft + canvas.width &&
+              placement.destX + placement.source.width > tileLeft;
+            if (!overlapsTile) {
+              continue;
+            }
+            
+            const img = await this.loadImage(segments[placement.index].dataUrl);
+            ctx.drawImage(
+              img,
+              placement.source.x, placement.source.y, placement.source.width, placement.source.height,
+              placement.destX - tileLeft, placement.destY - tileTop, placement.source.width, placement.source.height
+            );
+          }
+          
+          tiles.push(canvas.toDataURL('image/png', 1.0));
+        }
+      }
+      
+      return { tiles, alignments };
+      
+    } catch (error) {
+      console.error('Failed to stitch screenshot tiles:', error);
+      throw new Error(`Screenshot stitching failed: ${error instanceof Error ? error.message : String(error)}`);
     }
+  }
+
+  /**
+   * Calculate the stitched image size in device pixels: scrolled axes use the full scroll extent
+   */
+  static getStitchedSize(elementInfo: ElementInfo, devicePixelRatio: number): { width: number; height: number } {
+    const direction = this.getScrollDirection(elementInfo);
+    const width = direction === 'vertical'
+      ? elementInfo.boundingRect.width * devicePixelRatio
+      : (elementInfo.totalWidth ?? elementInfo.boundingRect.width) * devicePixelRatio;
+    const height = direction === 'horizontal'
+      ? elementInfo.boundingRect.height * devicePixelRatio
+      : elementInfo.totalHeight * devicePixelRatio;
     
-    const segments: ScrollPosition[] = [];
-    const segmentHeight = visibleHeight * 0.8; // 80% to ensure overlap
-    const totalScrollHeight = totalHeight - visibleHeight;
+    return { width, height };
+  }
+
+  /**
+   * Check whether a canvas of this size exceeds the browser's limits
+   */
+  static exceedsCanvasLimits(width: number, height: number): boolean {
+    return width > MAX_CANVAS_DIMENSION ||
+      height > MAX_CANVAS_DIMENSION ||
+      width * height > MAX_CANVAS_AREA;
+  }
+
+  /**
+   * Calculate the tile width for tiled output: the full width, unless it is
+   * wider than a canvas can be
+   */
+  static calculateTileWidth(width: number): number {
+    return Math.max(1, Math.min(Math.ceil(width), MAX_CANVAS_DIMENSION));
+  }
+
+  /**
+   * Calculate the tile height for tiled output, kept within the canvas limits
+   * for tiles of `calculateTileWidth(width)`
+   */
+  static calculateTileHeight(width: number, height: number, devicePixelRatio: number): number {
+    const optimalHeight = PerformanceOptimizer.calculateOptimalSegmentSize(
+      height / devicePixelRatio,
+      width / devicePixelRatio,
+      devicePixelRatio
+    );
     
-    let currentScrollTop = 0;
+    return Math.max(1, Math.min(
+      optimalHeight,
+      MAX_CANVAS_DIMENSION,
+      Math.floor(MAX_CANVAS_AREA / this.calculateTileWidth(width))
+    ));
+  }
+
+  /**
+   * Load segments in batches and read each one's crop area and row profile.
+   * The decoded images are released once read.
+   */
+  private static async loadSegments(
+    segments: LongScreenshotSegment[],
+    devicePixelRatio: number
+  ): Promise<LoadedSegment[]> {
+    return PerformanceOptimizer.processSegmentsProgressively(segments, async segment => {
+      const img = await this.loadImage(segment.dataUrl);
+      
+      // Calculate crop area for this segment
+      const cropArea: CropArea = {
+        x: segment.elementRect.left * devicePixelRatio,
+        y: segment.elementRect.top * devicePixelRatio,
+        width: segment.elementRect.width * devicePixelRatio,
+        height: segment.elementRect.height * devicePixelRatio
+      };
+      
+      // Adjust crop area to image bounds
+      const adjustedCropArea = this.adjustCropArea(cropArea, img.width, img.height);
+      return { cropArea: adjustedCropArea, profile: this.readRowProfile(img, adjustedCropArea) };
+    });
+  }
+
+  /**
+   * Work out where each segment goes in the stitched image: its trimmed
+   * source area and destination, and how it was aligned.
+   */
+  private static placeSegments(
+    segments: LongScreenshotSegment[],
+    loaded: LoadedSegment[],
+    devicePixelRatio: number
+  ): { placements: SegmentPlacement[]; alignments: SegmentAlignment[] } {
+    // Placement of each tile, used to align the next tile in its column
+    const tileTops: number[] = [];
+    const placements: SegmentPlacement[] = [];
+    const alignments: SegmentAlignment[] = [];
     
-    while (currentScrollTop <= totalScrollHeight) {
-      segments.push({
-        x: 0,
-        y: currentScrollTop,
-        isComplete: currentScrollTop >= totalScrollHeight
+    // Tiles are placed at their scroll offsets unless their pixels say otherwise
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const adjustedCropArea = { ...loaded[i].cropArea };
+      
+      // For overlapping segments, avoid duplicating content already drawn
+      // by the previous tile in the same column (vertical) or row (horizontal)
+      const previousInColumn = this.findPreviousSegment(segments, i, 'column');
+      const previousInRow = this.findPreviousSegment(segments, i, 'row');
+      
+      let tileTop = segment.scrollPosition.y * devicePixelRatio;
+      let overlapHeight = 0;
+      let alignment: Pick<SegmentAlignment, 'confidence' | 'method'> = { confidence: 1, method: 'computed' };
+      
+      if (previousInColumn) {
+        const previousIndex = segments.indexOf(previousInColumn);
+        const expectedOverlap = this.calculateOverlapHeight(previousInColumn, segment, devicePixelRatio);
+        const previousProfile = loaded[previousIndex].profile;
+        const currentProfile = loaded[i].profile;
+        const match = previousProfile && currentProfile
+          ? this.detectOverlap(previousProfile, currentProfile, expectedOverlap)
+          : null;
+        
+        if (match && match.confidence >= OVERLAP_MATCH_THRESHOLD) {
+          // Place the tile right below the rows it shares with the previous tile
+          overlapHeight = match.overlap;
+          tileTop = tileTops[previousIndex] + loaded[previousIndex].cropArea.height - match.overlap;
+          alignment = { confidence: match.confidence, method: 'pixel' };
+        } else {
+          overlapHeight = expectedOverlap;
+          alignment = { confidence: match?.confidence ?? 0, method: 'computed' };
+        }
+        
+        overlapHeight = Math.min(overlapHeight, adjustedCropArea.height - 1);
+      }
+      
+      const overlapWidth = previousInRow
+        ? Math.min(this.calculateOverlapWidth(previousInRow, segment, devicePixelRatio), adjustedCropArea.width - 1)
+        : 0;
+      tileTops[i] = tileTop;
+      
+      adjustedCropArea.x += overlapWidth;
+      adjustedCropArea.width -= overlapWidth;
+      adjustedCropArea.y += overlapHeight;
+      adjustedCropArea.height -= overlapHeight;
+      
+      placements.push({
+        index: i,
+        source: adjustedCropArea,
+        destX: segment.scrollPosition.x * devicePixelRatio + overlapWidth,
+        destY: tileTop + overlapHeight
+      });
+      
+      alignments.push({
+        segmentIndex: segment.segmentIndex,
+        offsetY: tileTop,
+        overlap: overlapHeight,
+        ...alignment
       });
+    }
+    
+    return { placements, alignments };
+  }
+
+  /**
+   * Find how many rows at the bottom of the previous tile repeat at the top of
+   * the current one by comparing row hashes. Every candidate overlap is scored
+   * by the share of matching rows in the compared band; ties are resolved in
+   * favour of the overlap closest to the expected one. Bands made only of flat
+   * rows (such as blank background) match anywhere and score zero.
+   */
+  static detectOverlap(
+    previous: RowProfile,
+    current: RowProfile,
+    expectedOverlap: number
+  ): { overlap: number; confidence: number } {
+    const maxOverlap = Math.min(previous.hashes.length, current.hashes.length) - 1;
+    let best = { overlap: Math.round(expectedOverlap), confidence: 0 };
+    
+    for (let overlap = OVERLAP_MIN_ROWS; overlap <= maxOverlap; overlap++) {
+      const bandHeight = Math.min(overlap, OVERLAP_BAND_ROWS);
+      const previousStart = previous.hashes.length - overlap;
+      let matches = 0;
+      let informativeRows = 0;
       
-      if (currentScrollTop >= totalScrollHeight) {
-        break;
+      for (let row = 0; row < bandHeight; row++) {
+        if (current.hashes[row] === previous.hashes[previousStart + row]) {
+          matches++;
+        }
+        if (!current.flat[row]) {
+          informativeRows++;
+        }
       }
       
-      currentScrollTop += segmentHeight;
+      const score = informativeRows >= OVERLAP_MIN_INFORMATIVE_ROWS ? matches / bandHeight : 0;
+      const isCloser = Math.abs(overlap - expectedOverlap) < Math.abs(best.overlap - expectedOverlap);
       
-      // Safety limit
-      if (segments.length > 50) {
-        console.warn('Too many scroll segments, limiting to 50');
-        break;
+      if (score > best.confidence || (score === best.confidence && score > 0 && isCloser)) {
+        best = { overlap, confidence: score };
       }
     }
     
-    return segments;
+    return best;
+  }
+
+  /**
+   * Hash every row of the crop area. Returns null when pixels cannot be read,
+   * in which case the computed overlap is used.
+   */
+  private static readRowProfile(img: HTMLImageElement, cropArea: CropArea): RowProfile | null {
+    if (typeof OffscreenCanvas === 'undefined') {
+      return null;
+    }
+
+    try {
+      const canvas = new OffscreenCanvas(
+        Math.max(1, Math.floor(cropArea.width)),
+        Math.max(1, Math.floor(cropArea.height))
+      );
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        return null;
+      }
+      
+      ctx.drawImage(
+        img,
+        cropArea.x, cropArea.y, cropArea.width, cropArea.height,
+        0, 0, canvas.width, canvas.height
+      );
+      
+      return this.hashRows(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    } catch (error) {
+      console.warn('Failed to read segment pixels, using computed overlap:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compute a hash per pixel row and flag rows of a single color
+   */
+  static hashRows(imageData: Pick<ImageData, 'data' | 'width' | 'height'>): RowProfile {
+    const { data, width, height } = imageData;
+    const hashes: number[] = [];
+    const flat: boolean[] = [];
+    
+    for (let y = 0; y < height; y++) {
+      const rowStart = y * width * 4;
+      let hash = 2166136261;
+      let isFlat = true;
+      
+      for (let x = 0; x < width; x++) {
+        const offset = rowStart + x * 4;
+        const pixel = (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+        
+        if (x > 0 && pixel !== ((data[rowStart] << 16) | (data[rowStart + 1] << 8) | data[rowStart + 2])) {
+          isFlat = false;
+        }
+        
+        // FNV-1a over the RGB value
+        hash = Math.imul(hash ^ pixel, 16777619) >>> 0;
+      }
+      
+      hashes.push(hash);
+      flat.push(isFlat);
+    }
+    
+    return { hashes, flat };
+  }
+
+  /**
+   * Determine which axes of the element need to be scrolled
+   */
+  static getScrollDirection(elementInfo: ElementInfo): ScrollDirection {
+    const totalWidth = elementInfo.totalWidth ?? elementInfo.boundingRect.width;
+    const visibleWidth = elementInfo.visibleWidth ?? elementInfo.boundingRect.width;
+    const scrollsHorizontally = totalWidth > visibleWidth;
+    const scrollsVertically = elementInfo.totalHeight > elementInfo.visibleHeight;
+
+    if (scrollsHorizontally && scrollsVertically) {
+      return 'both';
+    }
+    return scrollsHorizontally ? 'horizontal' : 'vertical';
+  }
+
+  /**
+   * Calculate how far to scroll for the next row of segments. Monitored
+   * sessions adapt the step to their metrics so far, but always keep some
+   * overlap with the previous row for stitching.
+   */
+  private static calculateScrollStep(
+    visibleHeight: number,
+    capturedSegments: number,
+    estimatedSegments: number,
+    devicePixelRatio: number,
+    sessionId?: string
+  ): number {
+    const baseStep = Math.max(1, visibleHeight * SCROLL_STEP_RATIO);
+    const metrics = sessionId ? PerformanceOptimizer.getMetrics(sessionId) : null;
+    if (!sessionId || !metrics) {
+      return baseStep;
+    }
+    
+    PerformanceOptimizer.updateMetrics(sessionId, {
+      duration: performance.now() - metrics.startTime,
+      segmentCount: capturedSegments
+    });
+    const step = PerformanceOptimizer.calculateDynamicSegmentSize(
+      sessionId,
+      baseStep,
+      capturedSegments,
+      estimatedSegments,
+      devicePixelRatio
+    );
+    
+    return Math.max(1, Math.min(step, visibleHeight * MAX_SCROLL_STEP_RATIO));
+  }
+
+  /**
+   * Calculate scroll offsets along one axis, always ending at the maximum scroll offset
+   */
+  private static calculateAxisPositions(total: number, visible: number, stepRatio: number): number[] {
+    const maxScroll = Math.max(0, total - visible);
+    const step = Math.max(1, visible * stepRatio);
+    const positions: number[] = [];
+    
+    for (let position = 0; position < maxScroll; position += step) {
+      positions.push(position);
+    }
+    positions.push(maxScroll);
+    
+    return positions;
   }
 
   /**
@@ -447,8 +1325,14 @@ export class ScreenshotProcessor {
     try {
       const results = await chrome.scripting.executeScript({
         target: { tabId },
-        func: (sel: string) => {
-          const element = document.querySelector(sel);
+        func: (sel: string, shadowSeparator: string) => {
+          // Runs in the page, so the selector engine's shadow root lookup is repeated here
+          let scope: ParentNode | null = document;
+          let element: Element | null = null;
+          for (const part of sel.split(shadowSeparator)) {
+            element = scope ? scope.querySelector(part.trim()) : null;
+            scope = element?.shadowRoot ?? null;
+          }
           if (!element) {
             throw new Error(`Element not found: ${sel}`);
           }
@@ -467,7 +1351,7 @@ export class ScreenshotProcessor {
             left: rect.left + scrollX
           };
         },
-        args: [selector]
+        args: [selector, SHADOW_SELECTOR_SEPARATOR]
       });
       
       return results[0]?.result as DOMRect;
@@ -478,28 +1362,57 @@ export class ScreenshotProcessor {
   }
 
   /**
-   * Calculate overlap height between segments
+   * Find the previous segment in the same column (same scroll x) or row (same scroll y)
+   */
+  private static findPreviousSegment(
+    segments: LongScreenshotSegment[],
+    currentIndex: number,
+    axis: 'column' | 'row'
+  ): LongScreenshotSegment | null {
+    const current = segments[currentIndex].scrollPosition;
+    
+    for (let i = currentIndex - 1; i >= 0; i--) {
+      const candidate = segments[i].scrollPosition;
+      if (axis === 'column' ? candidate.x === current.x : candidate.y === current.y) {
+        return segments[i];
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * Calculate overlap height between vertically adjacent segments
    */
   private static calculateOverlapHeight(
-    segments: LongScreenshotSegment[], 
-    currentIndex: number, 
+    previousSegment: LongScreenshotSegment,
+    currentSegment: LongScreenshotSegment,
     devicePixelRatio: number
   ): number {
-    if (currentIndex === 0) return 0;
-    
-    const currentSegment = segments[currentIndex];
-    const previousSegment = segments[currentIndex - 1];
-    
     // Calculate expected overlap based on scroll positions
     const scrollDiff = currentSegment.scrollPosition.y - previousSegment.scrollPosition.y;
-    const segmentHeight = currentSegment.elementRect.height;
+    const segmentHeight = previousSegment.elementRect.height;
     
-    // Overlap is the difference between segment height and scroll distance
+    // Overlap is the part of the previous segment that extends past the scroll distance
     const overlapHeight = Math.max(0, segmentHeight - scrollDiff);
     
     return overlapHeight * devicePixelRatio;
   }
 
+  /**
+   * Calculate overlap width between horizontally adjacent segments
+   */
+  private static calculateOverlapWidth(
+    previousSegment: LongScreenshotSegment,
+    currentSegment: LongScreenshotSegment,
+    devicePixelRatio: number
+  ): number {
+    const scrollDiff = currentSegment.scrollPosition.x - previousSegment.scrollPosition.x;
+    const segmentWidth = previousSegment.elementRect.width;
+    
+    return Math.max(0, segmentWidth - scrollDiff) * devicePixelRatio;
+  }
+
   /**
    * Calculate crop area for complex elements (transforms, shadows, etc.)
    */
@@ -533,6 +1446,11 @@ export class ScreenshotProcessor {
     if (elementInfo.hasTransform && elementInfo.transformMatrix) {
       bounds = this.calculateTransformedBounds(bounds, elementInfo.transformMatrix);
     }
+
+    // Parts of a framed element outside the frame's visible area are not on screen
+    if (elementInfo.isInIframe && elementInfo.iframeInfo) {
+      bounds = this.clipBounds(bounds, elementInfo.iframeInfo.iframeBounds);
+    }
     
     return {
       x: bounds.left * devicePixelRatio,
@@ -542,10 +1460,23 @@ export class ScreenshotProcessor {
     };
   }
 
+  /**
+   * Intersect bounds with a clipping rectangle; no overlap leaves an empty area
+   */
+  private static clipBounds(bounds: DOMRect, clip: DOMRect): DOMRect {
+    const left = Math.max(bounds.left, clip.left);
+    const top = Math.max(bounds.top, clip.top);
+    const right = Math.max(left, Math.min(bounds.right, clip.right));
+    const bottom = Math.max(top, Math.min(bounds.bottom, clip.bottom));
+    const clipped = { x: left, y: top, width: right - left, height: bottom - top, top, right, bottom, left };
+
+    return { ...clipped, toJSON: () => clipped } as DOMRect;
+  }
+
   /**
    * Calculate bounds after applying transform matrix
    */
-  private static calculateTransformedBounds(bounds: DOMRect, matrix: DOMMatrix): DOMRect {
+  private static calculateTransformedBounds(bounds: DOMRect, matrix: TransformMatrix): DOMRect {
     // Get all four corners of the element
     const corners = [
       { x: bounds.left, y: bounds.top },
@@ -554,11 +1485,11 @@ export class ScreenshotProcessor {
       { x: bounds.left, y: bounds.bottom }
     ];
     
-    // Transform each corner
-    const transformedCorners = corners.map(corner => {
-      const point = new DOMPoint(corner.x, corner.y);
-      return matrix.transformPoint(point);
-    });
+    // Transform each corner; the matrix is plain numbers after messaging
+    const transformedCorners = corners.map(corner => ({
+      x: matrix.a * corner.x + matrix.c * corner.y + matrix.e,
+      y: matrix.b * corner.x + matrix.d * corner.y + matrix.f
+    }));
     
     // Find bounding box of transformed corners
     const xs = transformedCorners.map(p => p.x);
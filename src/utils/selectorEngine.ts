@@ -0,0 +1,417 @@
+// Selector engine: stable, unique selectors for captured elements
+
+import { SelectorCandidate } from '../types';
+
+// Attributes that pages add for tests and automation; the most stable hooks there are
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+
+// Classes from CSS-in-JS libraries and frameworks, regenerated on every build
+const GENERATED_CLASS_PREFIX = /^(?:css|sc|jsx|svelte|emotion|styled|ng)-/i;
+
+// Classes that follow UI state rather than identify an element
+const STATE_CLASS = /^(?:is|has)-|^(?:active|selected|focus(?:ed)?|hover(?:ed)?|open|disabled|visible|hidden|show|collapsed|expanded)$/i;
+
+// Utility classes (Tailwind and similar) describe looks and change with every restyle
+const UTILITY_CHARACTERS = /[:[\]/()!.%@#]/;
+const UTILITY_CLASS = /^-?[mp][xytrbl]?-|^-?(?:w|h|min-w|min-h|max-w|max-h|gap|space-[xy]|text|bg|border|rounded|shadow|font|leading|tracking|z|top|right|bottom|left|inset|grid-cols|col-span|row-span|opacity|items|justify|self|place|order|overflow|translate-[xy]|scale|rotate|duration|ease|delay|transition|ring|outline|fill|stroke|basis|flex)-|^(?:flex|grid|block|inline|inline-block|inline-flex|contents|relative|absolute|fixed|sticky|static|truncate|uppercase|lowercase|capitalize|italic|underline|grow|shrink)$/;
+
+// Ids that libraries generate per render
+const GENERATED_ID = /^(?:ember|ext-gen|yui_|react-select-|radix-|headlessui-|mui-|downshift-)|^\d/;
+
+// Longest text used to anchor an XPath fallback
+const MAX_TEXT_ANCHOR_LENGTH = 60;
+
+// Separates a shadow host's selector from the selector inside its shadow root: `app-card >>> .title`
+export const SHADOW_SELECTOR_SEPARATOR = '>>>';
+
+// Where an element's selector is evaluated: the document, or the shadow root holding the element
+type SelectorRoot = Document | ShadowRoot;
+
+/**
+ * Builds selectors that survive page rebuilds. Ids, test attributes and ARIA
+ * labels come first; otherwise a path of tags and stable classes is anchored
+ * at the nearest identifiable ancestor. Every candidate is checked to match
+ * only the element, and the unused candidates are kept as ranked fallbacks,
+ * including text-anchored and absolute XPath expressions.
+ *
+ * Elements inside open shadow roots get the host's selector, `>>>`, then a
+ * selector within the shadow root, once per level of nesting. XPath cannot
+ * cross shadow boundaries, so their fallbacks are CSS only.
+ */
+export class SelectorEngine {
+  /**
+   * Best CSS selector for an element plus the other unique candidates
+   */
+  static generate(element: Element): { selector: string; fallbacks: SelectorCandidate[] } {
+    // An empty selector stands for the whole document
+    if (element === element.ownerDocument.body) {
+      return { selector: '', fallbacks: [] };
+    }
+
+    const candidates = this.getCandidates(element);
+    const best = candidates.find(candidate => candidate.type === 'css')!;
+    const fallbacks = candidates.filter(candidate => candidate !== best);
+
+    const host = this.getShadowHost(element);
+    if (!host) {
+      return { selector: best.value, fallbacks };
+    }
+
+    const prefix = `${this.generate(host).selector} ${SHADOW_SELECTOR_SEPARATOR} `;
+    return {
+      selector: prefix + best.value,
+      fallbacks: fallbacks.map(candidate => ({ ...candidate, value: prefix + candidate.value }))
+    };
+  }
+
+  /**
+   * Every unique selector for an element within its document or shadow root,
+   * most stable first. The path selector is always present, so there is at
+   * least one CSS candidate.
+   */
+  static getCandidates(element: Element): SelectorCandidate[] {
+    const candidates: SelectorCandidate[] = [
+      ...this.getAnchorCandidates(element),
+      ...this.getAriaCandidates(element),
+      { strategy: 'path', type: 'css', value: this.buildPath(element) }
+    ];
+
+    if (!this.getShadowHost(element)) {
+      const text = this.buildTextXPath(element);
+      if (text) {
+        candidates.push({ strategy: 'text', type: 'xpath', value: text });
+      }
+      candidates.push({ strategy: 'xpath', type: 'xpath', value: this.buildAbsoluteXPath(element) });
+    }
+
+    // Drop repeats, keeping the higher ranked strategy
+    return candidates.filter((candidate, index) =>
+      candidates.findIndex(other => other.value === candidate.value) === index
+    );
+  }
+
+  /**
+   * Find an element by its selector, then by each fallback in order
+   */
+  static find(selector: string, fallbacks: SelectorCandidate[] = [], root: Document = document): Element | null {
+    const candidates: SelectorCandidate[] = [{ strategy: 'path', type: 'css', value: selector }, ...fallbacks];
+
+    for (const candidate of candidates) {
+      const element = this.resolve(candidate, root);
+      if (element) {
+        return element;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The element a candidate points to, or null when it matches nothing or is invalid
+   */
+  static resolve(candidate: SelectorCandidate, root: Document = document): Element | null {
+    if (!candidate.value) {
+      return null;
+    }
+
+    try {
+      if (candidate.type === 'xpath') {
+        const result = root.evaluate(candidate.value, root, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+        return result.singleNodeValue instanceof Element ? result.singleNodeValue : null;
+      }
+      return this.querySelectorDeep(candidate.value, root);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * querySelector that follows `>>>` into open shadow roots. Throws on an
+   * invalid selector, like querySelector.
+   */
+  static querySelectorDeep(selector: string, root: Document = document): Element | null {
+    let scope: ParentNode | null = root;
+    let element: Element | null = null;
+
+    for (const part of selector.split(SHADOW_SELECTOR_SEPARATOR)) {
+      element = scope ? scope.querySelector(part.trim()) : null;
+      scope = element?.shadowRoot ?? null;
+    }
+    return element;
+  }
+
+  /**
+   * The host of the shadow root an element is in, or null in the document
+   */
+  static getShadowHost(element: Element): Element | null {
+    const root = element.getRootNode() as Partial<ShadowRoot>;
+    return root.host ?? null;
+  }
+
+  /**
+   * Whether a candidate matches exactly this element and nothing else
+   */
+  static isUnique(candidate: SelectorCandidate, element: Element): boolean {
+    const root = this.getRoot(element);
+
+    try {
+      if (candidate.type === 'xpath') {
+        if (!('evaluate' in root)) {
+          return false;
+        }
+        const result = root.evaluate(candidate.value, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        return result.snapshotLength === 1 && result.snapshotItem(0) === element;
+      }
+      const matches = root.querySelectorAll(candidate.value);
+      return matches.length === 1 && matches[0] === element;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a class name looks generated, state dependent or like a utility class
+   */
+  static isVolatileClass(token: string): boolean {
+    if (token.startsWith('screenshot-')) {
+      return true; // Our own highlight classes
+    }
+    return GENERATED_CLASS_PREFIX.test(token) || STATE_CLASS.test(token) ||
+      UTILITY_CHARACTERS.test(token) || UTILITY_CLASS.test(token) || this.hasHashPart(token);
+  }
+
+  /**
+   * Whether an id looks generated per render or per build
+   */
+  static isVolatileId(id: string): boolean {
+    return GENERATED_ID.test(id) || id.includes(':') || this.hasHashPart(id);
+  }
+
+  /**
+   * Escape an identifier or attribute value for use in a CSS selector
+   */
+  static escape(value: string): string {
+    if (typeof CSS !== 'undefined' && typeof CSS.escape === 'function') {
+      return CSS.escape(value);
+    }
+
+    // Same algorithm as CSS.escape, for contexts without it
+    let result = '';
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      const char = value.charAt(i);
+      const isDigit = code >= 0x30 && code <= 0x39;
+
+      if (code === 0) {
+        result += '\uFFFD';
+      } else if ((code >= 0x01 && code <= 0x1f) || code === 0x7f ||
+          (i === 0 && isDigit) || (i === 1 && isDigit && value.charCodeAt(0) === 0x2d)) {
+        result += `\\${code.toString(16)} `;
+      } else if (i === 0 && value.length === 1 && code === 0x2d) {
+        result += `\\${char}`;
+      } else if (code >= 0x80 || code === 0x2d || code === 0x5f || isDigit || /[a-zA-Z]/.test(char)) {
+        result += char;
+      } else {
+        result += `\\${char}`;
+      }
+    }
+    return result;
+  }
+
+  private static getRoot(element: Element): SelectorRoot {
+    const host = this.getShadowHost(element);
+    return host ? element.getRootNode() as ShadowRoot : element.ownerDocument;
+  }
+
+  /**
+   * Hashes such as CSS module suffixes (Button_root__a1b2c); word-number names like item3 are kept
+   */
+  private static hasHashPart(token: string): boolean {
+    return token.split(/[-_]+/).some(part =>
+      part.length >= 5 && /\d/.test(part) && /[a-z]/i.test(part) && !/^[a-z]+\d+$/i.test(part)
+    );
+  }
+
+  /**
+   * Id and test attribute selectors that match only this element
+   */
+  private static getAnchorCandidates(element: Element): SelectorCandidate[] {
+    const candidates: SelectorCandidate[] = [];
+
+    if (element.id && !this.isVolatileId(element.id)) {
+      candidates.push({ strategy: 'id', type: 'css', value: `#${this.escape(element.id)}` });
+    }
+
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        candidates.push({ strategy: 'testId', type: 'css', value: `[${attribute}="${this.escape(value)}"]` });
+      }
+    }
+
+    return candidates.filter(candidate => this.isUnique(candidate, element));
+  }
+
+  private static getAriaCandidates(element: Element): SelectorCandidate[] {
+    const label = element.getAttribute('aria-label');
+    if (!label) {
+      return [];
+    }
+
+    const tag = element.tagName.toLowerCase();
+    const role = element.getAttribute('role');
+    const selectors = [`${tag}[aria-label="${this.escape(label)}"]`];
+    if (role) {
+      selectors.push(`${tag}[role="${this.escape(role)}"][aria-label="${this.escape(label)}"]`);
+    }
+
+    return selectors
+      .map((value): SelectorCandidate => ({ strategy: 'aria', type: 'css', value }))
+      .filter(candidate => this.isUnique(candidate, element))
+      .slice(0, 1);
+  }
+
+  /**
+   * Path of tags and stable classes, from the nearest ancestor with a unique
+   * id or test attribute (or the body, or the top of a shadow root) down to
+   * the element
+   */
+  private static buildPath(element: Element): string {
+    const body = element.ownerDocument.body;
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current && current !== body) {
+      if (current !== element) {
+        const [anchor] = this.getAnchorCandidates(current);
+        if (anchor) {
+          segments.unshift(anchor.value);
+          break;
+        }
+      }
+
+      segments.unshift(this.buildSegment(current));
+      current = current.parentElement;
+    }
+
+    const path: SelectorCandidate = { strategy: 'path', type: 'css', value: segments.join(' > ') };
+    return this.isUnique(path, element) ? path.value : this.buildStructuralPath(element);
+  }
+
+  /**
+   * Tag and stable classes, with :nth-of-type when a sibling matches the same
+   */
+  private static buildSegment(element: Element): string {
+    const tag = element.tagName.toLowerCase();
+    const classes = Array.from(element.classList)
+      .filter(cls => !this.isVolatileClass(cls))
+      .map(cls => `.${this.escape(cls)}`);
+    const segment = `${tag}${classes.join('')}`;
+
+    const parent = element.parentElement;
+    if (!parent) {
+      return segment;
+    }
+
+    const siblings = Array.from(parent.children);
+    if (!siblings.some(sibling => sibling !== element && sibling.matches(segment))) {
+      return segment;
+    }
+
+    const sameTag = siblings.filter(sibling => sibling.tagName === element.tagName);
+    return `${segment}:nth-of-type(${sameTag.indexOf(element) + 1})`;
+  }
+
+  /**
+   * Tags and positions only; unique by construction
+   */
+  private static buildStructuralPath(element: Element): string {
+    const segments: string[] = [];
+    let current: Element = element;
+
+    while (current.parentElement) {
+      const parent: Element = current.parentElement;
+      const sameTag = Array.from(parent.children).filter(child => child.tagName === current.tagName);
+      segments.unshift(`${current.tagName.toLowerCase()}:nth-of-type(${sameTag.indexOf(current) + 1})`);
+      current = parent;
+    }
+
+    // The top of a shadow root can have siblings, unlike the root element of a document
+    const top = current;
+    const tag = top.tagName.toLowerCase();
+    if (!this.getShadowHost(top)) {
+      return [tag, ...segments].join(' > ');
+    }
+
+    const sameTag = Array.from((top.getRootNode() as ShadowRoot).children).filter(child => child.tagName === top.tagName);
+    return [`${tag}:nth-of-type(${sameTag.indexOf(top) + 1})`, ...segments].join(' > ');
+  }
+
+
+  /**
+   * XPath matching the element by its text, anchored at the document or the
+   * nearest identifiable ancestor when the text alone is not unique
+   */
+  private static buildTextXPath(element: Element): string | null {
+    const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (!text || text.length > MAX_TEXT_ANCHOR_LENGTH) {
+      return null;
+    }
+
+    const step = `${element.tagName.toLowerCase()}[normalize-space(.)=${this.xpathLiteral(text)}]`;
+    const global: SelectorCandidate = { strategy: 'text', type: 'xpath', value: `//${step}` };
+    if (this.isUnique(global, element)) {
+      return global.value;
+    }
+
+    for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+      const anchor = this.getXPathAnchor(ancestor);
+      if (anchor) {
+        const anchored: SelectorCandidate = { strategy: 'text', type: 'xpath', value: `${anchor}//${step}` };
+        return this.isUnique(anchored, element) ? anchored.value : null;
+      }
+    }
+    return null;
+  }
+
+  private static getXPathAnchor(element: Element): string | null {
+    if (element.id && !this.isVolatileId(element.id)) {
+      return `//*[@id=${this.xpathLiteral(element.id)}]`;
+    }
+    for (const attribute of TEST_ID_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) {
+        return `//*[@${attribute}=${this.xpathLiteral(value)}]`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Absolute XPath from the root element, e.g. /html/body/div[2]/p
+   */
+  private static buildAbsoluteXPath(element: Element): string {
+    const steps: string[] = [];
+
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      const tag = current.tagName.toLowerCase();
+      const parent: Element | null = current.parentElement;
+      const sameTag = parent ? Array.from(parent.children).filter(child => child.tagName === current!.tagName) : [];
+      steps.unshift(sameTag.length > 1 ? `${tag}[${sameTag.indexOf(current) + 1}]` : tag);
+    }
+
+    return `/${steps.join('/')}`;
+  }
+
+  /**
+   * Quote text for XPath, which has no escapes inside string literals
+   */
+  private static xpathLiteral(text: string): string {
+    if (!text.includes("'")) {
+      return `'${text}'`;
+    }
+    if (!text.includes('"')) {
+      return `"${text}"`;
+    }
+    return `concat('${text.split("'").join(`', "'", '`)}')`;
+  }
+}
@@ -1,5 +1,9 @@
-// Settings manager utility for Chrome extension
+// Settings defaults, validation and helpers; storage goes through SettingsService
 import { UserSettings } from '../types';
+import { FormatRegistry } from './formatRegistry';
+import { MAX_HISTORY_QUOTA_MB } from './captureHistory';
+import { CaptureProfiles } from './captureProfiles';
+import { FilenameTemplate } from './filenameTemplate';
 
 // Default settings
 export const DEFAULT_SETTINGS: UserSettings = {
@@ -11,53 +15,29 @@ export const DEFAULT_SETTINGS: UserSettings = {
   highlightColor: '#007bff'
 };
 
-/**
- * Load user settings from Chrome storage
- */
-export async function loadSettings(): Promise<UserSettings> {
-  return new Promise((resolve, reject) => {
-    chrome.storage.sync.get(null, (items) => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message));
-      } else {
-        const settings = { ...DEFAULT_SETTINGS, ...items };
-        resolve(settings);
-      }
-    });
-  });
-}
-
-/**
- * Save user settings to Chrome storage
- */
-export async function saveSettings(settings: UserSettings): Promise<void> {
-  return new Promise((resolve, reject) => {
-    chrome.storage.sync.set(settings, () => {
-      if (chrome.runtime.lastError) {
-        reject(new Error(chrome.runtime.lastError.message));
-      } else {
-        resolve();
-      }
-    });
-  });
-}
+// Settings without a default; with the defaults' keys these are every setting
+const OPTIONAL_SETTING_KEYS: Array<keyof UserSettings> = [
+  'keepHeaderSites',
+  'outputDestinations',
+  'pdfPageSize',
+  'embedMetadata',
+  'metadataSidecar',
+  'historyQuotaMb',
+  'multiCaptureOutput',
+  'captureMode',
+  'captureProfiles'
+];
+
+export const SETTING_KEYS: Array<keyof UserSettings> = [
+  ...Object.keys(DEFAULT_SETTINGS) as Array<keyof UserSettings>,
+  ...OPTIONAL_SETTING_KEYS
+];
 
 /**
- * Update specific setting values
+ * Check whether a key names a setting, as opposed to other stored or imported data
  */
-export async function updateSettings(updates: Partial<UserSettings>): Promise<UserSettings> {
-  const currentSettings = await loadSettings();
-  const newSettings = { ...currentSettings, ...updates };
-  await saveSettings(newSettings);
-  return newSettings;
-}
-
-/**
- * Reset settings to default values
- */
-export async function resetSettings(): Promise<UserSettings> {
-  await saveSettings(DEFAULT_SETTINGS);
-  return DEFAULT_SETTINGS;
+export function isSettingKey(key: string): key is keyof UserSettings {
+  return (SETTING_KEYS as string[]).includes(key);
 }
 
 /**
@@ -67,24 +47,29 @@ export function validateSettings(settings: Partial<UserSettings>): { isValid: bo
   const errors: string[] = [];
 
   // Validate format
-  if (settings.defaultFormat && !['png', 'jpeg'].includes(settings.defaultFormat)) {
-    errors.push('Invalid format: must be png or jpeg');
+  if (settings.defaultFormat && !FormatRegistry.has(settings.defaultFormat)) {
+    const formats = FormatRegistry.list().map(format => format.id).join(', ');
+    errors.push(`Invalid format: must be one of ${formats}`);
   }
 
-  // Validate quality
+  // Validate quality, within the format's own range when it has one
   if (settings.defaultQuality !== undefined) {
     if (typeof settings.defaultQuality !== 'number' || 
         settings.defaultQuality < 10 || 
         settings.defaultQuality > 100) {
       errors.push('Invalid quality: must be a number between 10 and 100');
+    } else if (FormatRegistry.has(settings.defaultFormat) &&
+        !FormatRegistry.isQualityInRange(settings.defaultFormat, settings.defaultQuality)) {
+      const range = FormatRegistry.get(settings.defaultFormat).quality!;
+      errors.push(`Invalid quality: ${settings.defaultFormat} accepts ${range.min} to ${range.max}`);
     }
   }
 
   // Validate filename template
   if (settings.filenameTemplate !== undefined) {
-    const template = settings.filenameTemplate.trim();
-    if (!template || template.includes('/') || template.includes('\\')) {
-      errors.push('Invalid filename template: cannot be empty or contain path separators');
+    const templateError = FilenameTemplate.validate(settings.filenameTemplate);
+    if (templateError) {
+      errors.push(`Invalid filename template: ${templateError}`);
     }
   }
 
@@ -97,6 +82,68 @@ export function validateSettings(settings: Partial<UserSettings>): { isValid: bo
     errors.push('Invalid showProgress: must be boolean');
   }
 
+  if (settings.embedMetadata !== undefined && typeof settings.embedMetadata !== 'boolean') {
+    errors.push('Invalid embedMetadata: must be boolean');
+  }
+
+  if (settings.metadataSidecar !== undefined && typeof settings.metadataSidecar !== 'boolean') {
+    errors.push('Invalid metadataSidecar: must be boolean');
+  }
+
+  // Validate per-site header list
+  if (settings.keepHeaderSites !== undefined) {
+    if (!Array.isArray(settings.keepHeaderSites) ||
+        !settings.keepHeaderSites.every(site => typeof site === 'string' && site.trim().length > 0)) {
+      errors.push('Invalid keepHeaderSites: must be a list of hostnames');
+    }
+  }
+
+  // Validate output destinations: at least one known destination
+  if (settings.outputDestinations !== undefined) {
+    if (!Array.isArray(settings.outputDestinations) ||
+        settings.outputDestinations.length === 0 ||
+        !settings.outputDestinations.every(destination => destination === 'download' || destination === 'clipboard')) {
+      errors.push('Invalid outputDestinations: must be download, clipboard or both');
+    }
+  }
+
+  // Validate history quota; 0 turns history off
+  if (settings.historyQuotaMb !== undefined) {
+    if (typeof settings.historyQuotaMb !== 'number' ||
+        !Number.isInteger(settings.historyQuotaMb) ||
+        settings.historyQuotaMb < 0 ||
+        settings.historyQuotaMb > MAX_HISTORY_QUOTA_MB) {
+      errors.push(`Invalid historyQuotaMb: must be a whole number between 0 and ${MAX_HISTORY_QUOTA_MB}`);
+    }
+  }
+
+  // Validate multi-element capture output
+  if (settings.multiCaptureOutput !== undefined && !['separate', 'zip', 'union'].includes(settings.multiCaptureOutput)) {
+    errors.push('Invalid multiCaptureOutput: must be separate, zip or union');
+  }
+
+  // Validate the popup's capture mode
+  if (settings.captureMode !== undefined && !['element', 'fullPage', 'visible', 'region'].includes(settings.captureMode)) {
+    errors.push('Invalid captureMode: must be element, fullPage, visible or region');
+  }
+
+  // Validate per-site capture profiles
+  if (settings.captureProfiles !== undefined) {
+    if (!Array.isArray(settings.captureProfiles) ||
+        !settings.captureProfiles.every(profile => typeof profile === 'object' && profile !== null)) {
+      errors.push('Invalid captureProfiles: must be a list of profiles');
+    } else {
+      settings.captureProfiles.forEach(profile => {
+        errors.push(...CaptureProfiles.validate(profile).map(error => `Invalid capture profile ${error}`));
+      });
+    }
+  }
+
+  // Validate PDF page size
+  if (settings.pdfPageSize !== undefined && !['a4', 'letter', 'fit'].includes(settings.pdfPageSize)) {
+    errors.push('Invalid pdfPageSize: must be a4, letter or fit');
+  }
+
   // Validate highlight color
   if (settings.highlightColor !== undefined) {
     const colorRegex = /^#[0-9a-fA-F]{6}$/;
@@ -112,79 +159,19 @@ export function validateSettings(settings: Partial<UserSettings>): { isValid: bo
 }
 
 /**
- * Generate filename from template
- */
-export function generateFilename(template: string, format: 'png' | 'jpeg'): string {
-  const now = new Date();
-  const timestamp = now.getTime().toString();
-  const date = now.toISOString().split('T')[0]; // YYYY-MM-DD
-  const time = now.toTimeString().split(' ')[0].replace(/:/g, '-'); // HH-MM-SS
-
-  let filename = template
-    .replace(/{timestamp}/g, timestamp)
-    .replace(/{date}/g, date)
-    .replace(/{time}/g, time);
-
-  // Ensure proper extension
-  const extension = format === 'jpeg' ? 'jpg' : format;
-  if (!filename.toLowerCase().endsWith(`.${extension}`)) {
-    filename += `.${extension}`;
-  }
-
-  return filename;
-}
-
-/**
- * Get setting value with fallback to default
+ * Check whether a page URL belongs to one of the listed sites.
+ * A site also matches its subdomains.
  */
-export async function getSetting<K extends keyof UserSettings>(
-  key: K, 
-  fallback?: UserSettings[K]
-): Promise<UserSettings[K]> {
+export function matchesSiteList(url: string, sites: string[]): boolean {
+  let hostname: string;
   try {
-    const settings = await loadSettings();
-    return settings[key] ?? fallback ?? DEFAULT_SETTINGS[key];
-  } catch (error) {
-    console.error('Failed to get setting:', error);
-    return fallback ?? DEFAULT_SETTINGS[key];
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
   }
-}
 
-/**
- * Listen for settings changes
- */
-export function onSettingsChanged(callback: (changes: { [key: string]: chrome.storage.StorageChange }) => void): void {
-  chrome.storage.onChanged.addListener((changes, areaName) => {
-    if (areaName === 'sync') {
-      callback(changes);
-    }
+  return sites.some(site => {
+    const normalized = site.trim().toLowerCase();
+    return normalized.length > 0 && (hostname === normalized || hostname.endsWith(`.${normalized}`));
   });
 }
-
-/**
- * Export settings to JSON
- */
-export async function exportSettings(): Promise<string> {
-  const settings = await loadSettings();
-  return JSON.stringify(settings, null, 2);
-}
-
-/**
- * Import settings from JSON
- */
-export async function importSettings(jsonString: string): Promise<UserSettings> {
-  try {
-    const importedSettings = JSON.parse(jsonString);
-    const validation = validateSettings(importedSettings);
-    
-    if (!validation.isValid) {
-      throw new Error(`Invalid settings: ${validation.errors.join(', ')}`);
-    }
-    
-    const settings = { ...DEFAULT_SETTINGS, ...importedSettings };
-    await saveSettings(settings);
-    return settings;
-  } catch (error) {
-    throw new Error(`Failed to import settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
\ No newline at end of file
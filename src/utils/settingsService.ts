@@ -0,0 +1,292 @@
+// User settings storage shared by the background, popup and options page
+
+import { UserSettings } from '../types';
+import { FormatRegistry } from './formatRegistry';
+import { DEFAULT_SETTINGS, isSettingKey, validateSettings } from './settingsManager';
+
+type StoredItems = Record<string, unknown>;
+
+// Turns the stored items of one schema version into the next
+type SettingsMigration = (items: StoredItems) => StoredItems;
+
+// Stored next to the settings, which keep one sync storage key each
+export const SCHEMA_VERSION_KEY = 'settingsVersion';
+
+// Layouts from before the schema had a version: the background kept one
+// object with 0-1 qualities, the popup kept its own keys
+const LEGACY_BACKGROUND_KEY = 'userSettings';
+const LEGACY_POPUP_KEYS = ['screenshotFormat', 'screenshotQuality', 'screenshotCaptureMode'];
+
+const MIGRATIONS: SettingsMigration[] = [
+  mergeLegacyLayouts
+];
+
+export const SETTINGS_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Settings live in chrome.storage.sync with one key per setting, so writers
+ * that change different settings never overwrite each other. Reads apply
+ * any pending migrations in memory; the background writes them back when
+ * the extension is installed or updated. Every context learns about changes
+ * through chrome.storage.onChanged.
+ *
+ * An administrator can set settings through policy, which Chrome exposes in
+ * chrome.storage.managed. Policy values win over stored ones and lock their
+ * settings: saves leave locked settings out.
+ */
+export class SettingsService {
+  /**
+   * Load the settings, filling unset ones with defaults
+   */
+  static async load(): Promise<UserSettings> {
+    const [stored, managed] = await Promise.all([this.read(), this.readManaged()]);
+    const items = this.pickSettings(this.migrate(stored));
+    return this.normalize({ ...DEFAULT_SETTINGS, ...items, ...managed });
+  }
+
+  /**
+   * Save settings; settings left out keep their stored values, and settings
+   * locked by policy are not saved
+   */
+  static async save(settings: Partial<UserSettings>): Promise<void> {
+    await this.write(this.normalize(this.omit(settings, await this.getLockedKeys())));
+  }
+
+  /**
+   * Change some settings and return the result
+   */
+  static async update(updates: Partial<UserSettings>): Promise<UserSettings> {
+    const settings = { ...await this.load(), ...this.omit(updates, await this.getLockedKeys()) };
+    await this.save(settings);
+    return this.normalize(settings);
+  }
+
+  /**
+   * Replace every stored setting: settings left out return to their defaults,
+   * and keys that are not settings are not saved
+   */
+  static async replace(settings: Partial<UserSettings>): Promise<void> {
+    const stored = await this.read();
+    const next = this.pickSettings({ ...DEFAULT_SETTINGS, ...settings });
+    const removedKeys = Object.keys(stored).filter(key => key !== SCHEMA_VERSION_KEY && !(key in next));
+    if (removedKeys.length > 0) {
+      await this.remove(removedKeys);
+    }
+    await this.save(next);
+  }
+
+  /**
+   * Restore the default settings, except those locked by policy, and
+   * remove the optional settings that have no default
+   */
+  static async reset(): Promise<UserSettings> {
+    const managed = await this.readManaged();
+    await this.replace({});
+    return { ...DEFAULT_SETTINGS, ...managed };
+  }
+
+  /**
+   * Settings an administrator has set through policy
+   */
+  static async getLockedKeys(): Promise<Array<keyof UserSettings>> {
+    return Object.keys(await this.readManaged()) as Array<keyof UserSettings>;
+  }
+
+  /**
+   * Get one setting, with a fallback for unset settings and storage errors
+   */
+  static async get<K extends keyof UserSettings>(
+    key: K,
+    fallback?: UserSettings[K]
+  ): Promise<UserSettings[K]> {
+    try {
+      const settings = await this.load();
+      return settings[key] ?? fallback ?? DEFAULT_SETTINGS[key];
+    } catch (error) {
+      console.error('Failed to get setting:', error);
+      return fallback ?? DEFAULT_SETTINGS[key];
+    }
+  }
+
+  /**
+   * Call back with the new settings whenever any context or a policy update
+   * changes them. Returns a function that stops listening.
+   */
+  static onChanged(callback: (settings: UserSettings, changedKeys: string[]) => void): () => void {
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      const changedKeys = Object.keys(changes).filter(key => key !== SCHEMA_VERSION_KEY);
+      if ((areaName !== 'sync' && areaName !== 'managed') || changedKeys.length === 0) {
+        return;
+      }
+
+      this.load()
+        .then(settings => callback(settings, changedKeys))
+        .catch(error => console.error('Failed to reload changed settings:', error));
+    };
+
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }
+
+  /**
+   * Bring stored settings up to the current schema, removing keys of older
+   * layouts
+   */
+  static async migrateStorage(): Promise<void> {
+    const items = await this.read();
+    if (items[SCHEMA_VERSION_KEY] === SETTINGS_SCHEMA_VERSION) {
+      return;
+    }
+
+    const migrated = this.migrate(items);
+    const removedKeys = Object.keys(items).filter(key => !(key in migrated));
+    if (removedKeys.length > 0) {
+      await this.remove(removedKeys);
+    }
+    await this.write(migrated);
+    console.log(`Settings migrated to schema version ${SETTINGS_SCHEMA_VERSION}`);
+  }
+
+  /**
+   * Apply the migrations stored items still need. Items without a version
+   * predate the schema.
+   */
+  static migrate(items: StoredItems): StoredItems {
+    const version = typeof items[SCHEMA_VERSION_KEY] === 'number' ? items[SCHEMA_VERSION_KEY] : 0;
+    const migrated = MIGRATIONS.slice(version).reduce((current, migration) => migration(current), { ...items });
+    return { ...migrated, [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION };
+  }
+
+  /**
+   * Quality as a percentage from 10 to 100. Qualities of 1 or less are
+   * 0-1 canvas qualities from the old background layout.
+   */
+  static normalizeQuality(quality: unknown): number {
+    if (typeof quality !== 'number' || !Number.isFinite(quality)) {
+      return DEFAULT_SETTINGS.defaultQuality;
+    }
+
+    const percent = quality <= 1 ? quality * 100 : quality;
+    return Math.min(100, Math.max(10, Math.round(percent)));
+  }
+
+  /**
+   * Keep only the items that are settings, leaving out stray and legacy keys
+   */
+  private static pickSettings(items: StoredItems): Partial<UserSettings> {
+    return Object.fromEntries(Object.entries(items).filter(([key]) => isSettingKey(key))) as Partial<UserSettings>;
+  }
+
+  private static omit<T extends Partial<UserSettings>>(settings: T, keys: Array<keyof UserSettings>): T {
+    const result = { ...settings };
+    keys.forEach(key => delete result[key]);
+    return result;
+  }
+
+  private static normalize<T extends Partial<UserSettings>>(settings: T): T {
+    return settings.defaultQuality === undefined
+      ? { ...settings }
+      : { ...settings, defaultQuality: this.normalizeQuality(settings.defaultQuality) };
+  }
+
+  private static read(): Promise<StoredItems> {
+    return new Promise((resolve, reject) => {
+      chrome.storage.sync.get(null, (items) => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else {
+          resolve(items ?? {});
+        }
+      });
+    });
+  }
+
+  /**
+   * Policy settings with valid values. Invalid policy values are ignored, and
+   * so is managed storage that can't be read, as outside managed browsers.
+   */
+  private static readManaged(): Promise<Partial<UserSettings>> {
+    return new Promise(resolve => {
+      if (!chrome.storage.managed) {
+        resolve({});
+        return;
+      }
+
+      chrome.storage.managed.get(null, (items) => {
+        if (chrome.runtime.lastError || !items) {
+          resolve({});
+          return;
+        }
+
+        const managed: StoredItems = {};
+        for (const [key, value] of Object.entries(items)) {
+          const validation = validateSettings({ [key]: value });
+          if (validation.isValid) {
+            managed[key] = value;
+          } else {
+            console.warn(`Ignoring invalid policy setting ${key}:`, validation.errors.join(', '));
+          }
+        }
+        resolve(managed);
+      });
+    });
+  }
+
+  private static write(items: StoredItems): Promise<void> {
+    return new Promise((resolve, reject) => {
+      chrome.storage.sync.set(items, () => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private static remove(keys: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      chrome.storage.sync.remove(keys, () => {
+        if (chrome.runtime.lastError) {
+          reject(new Error(chrome.runtime.lastError.message));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Version 1: merge the background's settings object, the options page's
+ * per-setting keys and the popup's keys into per-setting keys. The options
+ * page wins over the background, whose object mostly held install defaults,
+ * and the popup wins over both, as its settings were shown at every capture.
+ */
+function mergeLegacyLayouts(items: StoredItems): StoredItems {
+  const backgroundSettings = items[LEGACY_BACKGROUND_KEY];
+  const merged: StoredItems = typeof backgroundSettings === 'object' && backgroundSettings !== null
+    ? { ...backgroundSettings }
+    : {};
+
+  for (const [key, value] of Object.entries(items)) {
+    if (key !== LEGACY_BACKGROUND_KEY && !LEGACY_POPUP_KEYS.includes(key)) {
+      merged[key] = value;
+    }
+  }
+
+  if (FormatRegistry.has(items.screenshotFormat)) {
+    merged.defaultFormat = items.screenshotFormat;
+  }
+  if (typeof items.screenshotQuality === 'number') {
+    merged.defaultQuality = items.screenshotQuality;
+  }
+  if (typeof items.screenshotCaptureMode === 'string') {
+    merged.captureMode = items.screenshotCaptureMode;
+  }
+  if (merged.defaultQuality !== undefined) {
+    merged.defaultQuality = SettingsService.normalizeQuality(merged.defaultQuality);
+  }
+
+  return merged;
+}
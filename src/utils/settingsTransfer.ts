@@ -0,0 +1,248 @@
+// Settings documents: exporting settings and saved targets, and importing them on another browser
+
+import { CaptureProfile, SavedTarget, UserSettings } from '../types';
+import { DEFAULT_SETTINGS, isSettingKey, validateSettings } from './settingsManager';
+import { SettingsService, SCHEMA_VERSION_KEY, SETTINGS_SCHEMA_VERSION } from './settingsService';
+import { SavedTargets } from './savedTargets';
+
+export const SETTINGS_DOCUMENT_TYPE = 'chrome-element-screenshot-settings';
+export const SETTINGS_DOCUMENT_VERSION = 1;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface SettingsDocument {
+  type: typeof SETTINGS_DOCUMENT_TYPE;
+  version: number; // Layout of the document itself
+  schemaVersion: number; // Settings schema the settings were exported with
+  exportedAt: string; // ISO timestamp
+  settings: Partial<UserSettings>;
+  savedTargets?: SavedTarget[]; // Left out of shared team files to keep the current targets
+  ignoredKeys?: string[]; // Keys of the file that are not settings, left out of the import
+}
+
+export interface SettingChange {
+  key: keyof UserSettings;
+  before: unknown;
+  after: unknown;
+  locked: boolean; // Set by policy, so the import leaves it unchanged
+}
+
+export interface ImportPreview {
+  settings: UserSettings; // Settings after the import
+  changes: SettingChange[];
+  savedTargets: { added: number; updated: number; removed: number } | null; // null when the document has none
+  ignoredKeys: string[];
+}
+
+/**
+ * A settings document is versioned JSON holding every setting, including
+ * capture profiles, and the saved targets. Importing one validates it with
+ * validateSettings, previews what would change, and then either merges it
+ * into the current settings or replaces them. Merging keeps settings the
+ * document leaves out and matches capture profiles by name; replacing resets
+ * them to their defaults. Settings locked by policy are never imported.
+ */
+export class SettingsTransfer {
+  /**
+   * Export the current settings and saved targets
+   */
+  static async export(): Promise<string> {
+    const [settings, savedTargets] = await Promise.all([SettingsService.load(), SavedTargets.list()]);
+    const document: SettingsDocument = {
+      type: SETTINGS_DOCUMENT_TYPE,
+      version: SETTINGS_DOCUMENT_VERSION,
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      settings,
+      savedTargets
+    };
+    return JSON.stringify(document, null, 2);
+  }
+
+  /**
+   * Read and validate a settings document. Plain settings objects, as saved
+   * before documents had a version, are read as documents without saved
+   * targets.
+   */
+  static parse(json: string): SettingsDocument {
+    try {
+      const data = JSON.parse(json);
+      if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error('Not a settings document');
+      }
+
+      const isDocument = data.type === SETTINGS_DOCUMENT_TYPE;
+      if (isDocument && (typeof data.version !== 'number' || data.version > SETTINGS_DOCUMENT_VERSION)) {
+        throw new Error('The document was exported by a newer version of the extension');
+      }
+
+      const rawSettings = isDocument ? data.settings : data;
+      if (typeof rawSettings !== 'object' || rawSettings === null || Array.isArray(rawSettings)) {
+        throw new Error('The document has no settings');
+      }
+
+      // Documents from older schemas go through the same migrations as stored settings
+      const migrated = SettingsService.migrate({
+        ...rawSettings,
+        [SCHEMA_VERSION_KEY]: isDocument && typeof data.schemaVersion === 'number' ? data.schemaVersion : 0
+      });
+      delete migrated[SCHEMA_VERSION_KEY];
+
+      // Only settings are imported; anything else in the file is listed as ignored
+      const settings: Record<string, unknown> = {};
+      const ignoredKeys: string[] = [];
+      for (const [key, value] of Object.entries(migrated)) {
+        if (isSettingKey(key)) {
+          settings[key] = value;
+        } else {
+          ignoredKeys.push(key);
+        }
+      }
+
+      const validation = validateSettings(settings);
+      if (!validation.isValid) {
+        throw new Error(`Invalid settings: ${validation.errors.join(', ')}`);
+      }
+
+      const document: SettingsDocument = {
+        type: SETTINGS_DOCUMENT_TYPE,
+        version: SETTINGS_DOCUMENT_VERSION,
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        exportedAt: isDocument && typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        settings
+      };
+      if (ignoredKeys.length > 0) {
+        document.ignoredKeys = ignoredKeys;
+      }
+
+      if (isDocument && data.savedTargets !== undefined) {
+        if (!Array.isArray(data.savedTargets)) {
+          throw new Error('Invalid savedTargets: must be a list');
+        }
+        const invalidIndex = data.savedTargets.findIndex((target: unknown) => !SavedTargets.isValid(target));
+        if (invalidIndex !== -1) {
+          throw new Error(`Invalid saved target at position ${invalidIndex + 1}`);
+        }
+        document.savedTargets = data.savedTargets;
+      }
+
+      return document;
+    } catch (error) {
+      throw new Error(`Failed to import settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Work out what importing a document would change, without changing anything
+   */
+  static async preview(document: SettingsDocument, mode: ImportMode): Promise<ImportPreview> {
+    const [current, lockedKeys] = await Promise.all([SettingsService.load(), SettingsService.getLockedKeys()]);
+    const settings = this.combineSettings(current, document.settings, mode, lockedKeys);
+
+    return {
+      settings,
+      changes: this.diff(current, settings, document.settings, lockedKeys),
+      savedTargets: document.savedTargets
+        ? this.countTargetChanges(await SavedTargets.list(), document.savedTargets, mode)
+        : null,
+      ignoredKeys: document.ignoredKeys ?? []
+    };
+  }
+
+  /**
+   * Import a document, returning what changed
+   */
+  static async apply(document: SettingsDocument, mode: ImportMode): Promise<ImportPreview> {
+    const preview = await this.preview(document, mode);
+
+    await SettingsService.replace(preview.settings);
+    if (document.savedTargets) {
+      await SavedTargets.import(document.savedTargets, mode);
+    }
+    return preview;
+  }
+
+  /**
+   * The settings an import results in. Locked settings keep their current,
+   * policy-set values.
+   */
+  static combineSettings(
+    current: UserSettings,
+    imported: Partial<UserSettings>,
+    mode: ImportMode,
+    lockedKeys: Array<keyof UserSettings> = []
+  ): UserSettings {
+    const combined: UserSettings = mode === 'replace'
+      ? { ...DEFAULT_SETTINGS, ...imported }
+      : { ...current, ...imported };
+
+    if (mode === 'merge' && imported.captureProfiles && current.captureProfiles) {
+      combined.captureProfiles = this.mergeProfiles(current.captureProfiles, imported.captureProfiles);
+    }
+
+    const result = combined as unknown as Record<string, unknown>;
+    for (const key of lockedKeys) {
+      if (current[key] === undefined) {
+        delete result[key];
+      } else {
+        result[key] = current[key];
+      }
+    }
+    return combined;
+  }
+
+  /**
+   * Imported profiles replace current profiles of the same name, in place;
+   * the others are added after the current ones
+   */
+  static mergeProfiles(current: CaptureProfile[], imported: CaptureProfile[]): CaptureProfile[] {
+    const importedByName = new Map(imported.map(profile => [profile.name, profile]));
+    const merged = current.map(profile => importedByName.get(profile.name) ?? profile);
+    const currentNames = new Set(current.map(profile => profile.name));
+    return [...merged, ...imported.filter(profile => !currentNames.has(profile.name))];
+  }
+
+  /**
+   * List the settings that differ, plus locked settings the document would
+   * have changed
+   */
+  private static diff(
+    current: UserSettings,
+    combined: UserSettings,
+    imported: Partial<UserSettings>,
+    lockedKeys: Array<keyof UserSettings>
+  ): SettingChange[] {
+    const keys = new Set([...Object.keys(current), ...Object.keys(combined)].filter(isSettingKey));
+    const changes: SettingChange[] = [];
+
+    for (const key of keys) {
+      const locked = lockedKeys.includes(key);
+      const after = locked ? imported[key] : combined[key];
+      if ((!locked || key in imported) && !isEqual(current[key], after)) {
+        changes.push({ key, before: current[key], after, locked });
+      }
+    }
+    return changes;
+  }
+
+  private static countTargetChanges(
+    current: SavedTarget[],
+    imported: SavedTarget[],
+    mode: ImportMode
+  ): { added: number; updated: number; removed: number } {
+    const key = (target: SavedTarget) => `${target.urlPattern}\n${target.selector}`;
+    const currentKeys = new Set(current.map(key));
+    const combinedKeys = new Set(SavedTargets.combine(current, imported, mode).map(key));
+    const importedKeys = imported.map(key).filter(item => combinedKeys.has(item));
+
+    return {
+      added: importedKeys.filter(item => !currentKeys.has(item)).length,
+      updated: importedKeys.filter(item => currentKeys.has(item)).length,
+      removed: Array.from(currentKeys).filter(item => !combinedKeys.has(item)).length
+    };
+  }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,127 @@
+// Minimal ZIP writer for bundling several screenshots into one download
+
+import { crc32 } from './crc32';
+import { bytesToDataUrl } from './dataUrl';
+
+interface ZipEntry {
+  name: Uint8Array; // UTF-8 encoded path
+  data: Uint8Array;
+  crc: number;
+  modifiedAt: Date;
+}
+
+// Names are flagged as UTF-8 (general purpose bit 11)
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+/**
+ * Writes a ZIP archive whose entries are stored without compression.
+ * Screenshots are already compressed images, so deflating them again would
+ * save little and need a compression library.
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+
+  /**
+   * Add a file to the archive
+   */
+  addFile(name: string, data: Uint8Array, modifiedAt: Date = new Date()): void {
+    this.entries.push({
+      name: new TextEncoder().encode(name),
+      data,
+      crc: crc32(data),
+      modifiedAt
+    });
+  }
+
+  /**
+   * Serialize the archive: local headers with their data, then the central
+   * directory and its end record
+   */
+  toBytes(): Uint8Array {
+    if (this.entries.length === 0) {
+      throw new Error('ZIP archive has no files');
+    }
+
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (bytes: Uint8Array) => {
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    for (const entry of this.entries) {
+      offsets.push(length);
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, 0x04034b50, true);
+      header.setUint16(4, ZIP_VERSION, true);
+      this.writeEntryFields(header, 6, entry);
+      header.setUint16(28, 0, true); // Extra field length
+      write(new Uint8Array(header.buffer));
+      write(entry.name);
+      write(entry.data);
+    }
+
+    const directoryOffset = length;
+    this.entries.forEach((entry, index) => {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, ZIP_VERSION, true); // Version made by
+      header.setUint16(6, ZIP_VERSION, true); // Version needed to extract
+      this.writeEntryFields(header, 8, entry);
+      // Extra field, comment, disk number and attributes stay zero
+      header.setUint32(42, offsets[index], true);
+      write(new Uint8Array(header.buffer));
+      write(entry.name);
+    });
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, length - directoryOffset, true);
+    end.setUint32(16, directoryOffset, true);
+    write(new Uint8Array(end.buffer));
+
+    const output = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, position);
+      position += chunk.length;
+    }
+    return output;
+  }
+
+  /**
+   * Serialize the archive as a data URL, ready for download
+   */
+  toDataUrl(): string {
+    return bytesToDataUrl(this.toBytes(), 'application/zip');
+  }
+
+  /**
+   * Write the fields local and central headers share, from flags to the
+   * name length
+   */
+  private writeEntryFields(view: DataView, offset: number, entry: ZipEntry): void {
+    view.setUint16(offset, UTF8_FLAG, true);
+    view.setUint16(offset + 2, 0, true); // Stored, no compression
+    view.setUint16(offset + 4, toDosTime(entry.modifiedAt), true);
+    view.setUint16(offset + 6, toDosDate(entry.modifiedAt), true);
+    view.setUint32(offset + 8, entry.crc, true);
+    view.setUint32(offset + 12, entry.data.length, true); // Compressed size
+    view.setUint32(offset + 16, entry.data.length, true);
+    view.setUint16(offset + 20, entry.name.length, true);
+  }
+}
+
+// MS-DOS timestamps have two-second resolution and start in 1980
+function toDosTime(date: Date): number {
+  return (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+}
+
+function toDosDate(date: Date): number {
+  return (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+}
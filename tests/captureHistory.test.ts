@@ -0,0 +1,84 @@
+// Tests for capture history filtering and quota eviction
+
+import { describe, it, expect } from 'vitest';
+import { CaptureHistory } from '../src/utils/captureHistory';
+import { HistoryEntry } from '../src/types';
+
+function entry(id: string, overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    id,
+    capturedAt: Date.UTC(2024, 0, 15, 12),
+    lastAccessedAt: Date.UTC(2024, 0, 15, 12),
+    url: 'https://docs.example.com/page',
+    hostname: 'docs.example.com',
+    elementInfo: {
+      selector: '#main',
+      boundingRect: { x: 0, y: 0, width: 100, height: 100 } as DOMRect,
+      isScrollable: false,
+      totalHeight: 100,
+      visibleHeight: 100,
+      x: 0,
+      y: 0,
+      isComplete: true
+    },
+    options: { format: 'png', quality: 0.9, filename: 'screenshot' },
+    filenames: ['screenshot.png'],
+    imageCount: 1,
+    thumbnail: 'data:image/jpeg;base64,',
+    size: 100,
+    ...overrides
+  };
+}
+
+describe('CaptureHistory', () => {
+  describe('matches', () => {
+    it('should match hostnames case-insensitively by substring', () => {
+      expect(CaptureHistory.matches(entry('a'), { hostname: 'Example.COM' })).toBe(true);
+      expect(CaptureHistory.matches(entry('a'), { hostname: ' docs ' })).toBe(true);
+      expect(CaptureHistory.matches(entry('a'), { hostname: 'other.org' })).toBe(false);
+    });
+
+    it('should match an inclusive date range', () => {
+      const capturedAt = Date.UTC(2024, 0, 15, 12);
+
+      expect(CaptureHistory.matches(entry('a'), { from: capturedAt, to: capturedAt })).toBe(true);
+      expect(CaptureHistory.matches(entry('a'), { from: capturedAt + 1 })).toBe(false);
+      expect(CaptureHistory.matches(entry('a'), { to: capturedAt - 1 })).toBe(false);
+    });
+
+    it('should match everything without a filter', () => {
+      expect(CaptureHistory.matches(entry('a'), {})).toBe(true);
+      expect(CaptureHistory.matches(entry('a'), { hostname: '  ' })).toBe(true);
+    });
+  });
+
+  describe('selectEvictions', () => {
+    it('should evict least recently accessed entries until the rest fit', () => {
+      const entries = [
+        entry('newest', { lastAccessedAt: 300, size: 40 }),
+        entry('oldest', { lastAccessedAt: 100, size: 40 }),
+        entry('middle', { lastAccessedAt: 200, size: 40 })
+      ];
+
+      expect(CaptureHistory.selectEvictions(entries, 80)).toEqual(['oldest']);
+      expect(CaptureHistory.selectEvictions(entries, 50)).toEqual(['oldest', 'middle']);
+    });
+
+    it('should keep old entries that were accessed recently', () => {
+      const entries = [
+        entry('reopened', { capturedAt: 100, lastAccessedAt: 500, size: 60 }),
+        entry('recent', { capturedAt: 400, lastAccessedAt: 400, size: 60 })
+      ];
+
+      expect(CaptureHistory.selectEvictions(entries, 100)).toEqual(['recent']);
+    });
+
+    it('should evict nothing within the quota', () => {
+      expect(CaptureHistory.selectEvictions([entry('a'), entry('b')], 200)).toEqual([]);
+    });
+  });
+
+  it('should estimate the decoded size of data URLs', () => {
+    expect(CaptureHistory.estimateSize(['data:image/png;base64,AAAA', 'data:image/png;base64,AAAAAAAA'])).toBe(9);
+  });
+});
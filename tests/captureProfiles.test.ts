@@ -0,0 +1,103 @@
+// Tests for matching pages to per-site capture profiles
+
+import { describe, it, expect } from 'vitest';
+import { CaptureProfiles } from '../src/utils/captureProfiles';
+import { validateSettings } from '../src/utils/settingsManager';
+import { CaptureProfile, ElementInfo } from '../src/types';
+
+describe('CaptureProfiles', () => {
+  it('should match host globs against the hostname only', () => {
+    expect(CaptureProfiles.matches('*.corp.example.com', 'https://wiki.corp.example.com/page')).toBe(true);
+    expect(CaptureProfiles.matches('*.corp.example.com', 'https://a.b.corp.example.com')).toBe(true);
+    expect(CaptureProfiles.matches('*.corp.example.com', 'https://corp.example.com')).toBe(false);
+    expect(CaptureProfiles.matches('docs.example.com', 'https://DOCS.example.com/guide')).toBe(true);
+    expect(CaptureProfiles.matches('app?.example.com', 'https://app2.example.com')).toBe(true);
+    expect(CaptureProfiles.matches('example.com', 'https://evil.com/?q=example.com')).toBe(false);
+  });
+
+  it('should test slash-delimited patterns as regular expressions on the whole URL', () => {
+    expect(CaptureProfiles.matches('/example\\.com\\/docs\\//', 'https://example.com/docs/intro')).toBe(true);
+    expect(CaptureProfiles.matches('/example\\.com\\/docs\\//', 'https://example.com/blog/')).toBe(false);
+    expect(CaptureProfiles.matches('/EXAMPLE/i', 'https://example.com')).toBe(true);
+
+    // The global flag must not make repeated matches alternate
+    expect(CaptureProfiles.matches('/example/g', 'https://example.com')).toBe(true);
+    expect(CaptureProfiles.matches('/example/g', 'https://example.com')).toBe(true);
+  });
+
+  it('should never match invalid patterns or URLs', () => {
+    expect(CaptureProfiles.matches('/([/', 'https://example.com')).toBe(false);
+    expect(CaptureProfiles.matches('', 'https://example.com')).toBe(false);
+    expect(CaptureProfiles.matches('*', 'not a url')).toBe(false);
+  });
+
+  it('should pick the first matching profile', () => {
+    const profiles: CaptureProfile[] = [
+      { name: 'Internal', pattern: '*.corp.example.com', format: 'jpeg' },
+      { name: 'Everything', pattern: '*', format: 'png' }
+    ];
+
+    expect(CaptureProfiles.find(profiles, 'https://hr.corp.example.com')?.name).toBe('Internal');
+    expect(CaptureProfiles.find(profiles, 'https://example.org')?.name).toBe('Everything');
+    expect(CaptureProfiles.find(profiles, undefined)).toBeNull();
+    expect(CaptureProfiles.find(undefined, 'https://example.org')).toBeNull();
+  });
+
+  it('should report invalid profile fields', () => {
+    expect(CaptureProfiles.validate({ name: 'Docs', pattern: 'docs.example.com', padding: 8 })).toEqual([]);
+    expect(CaptureProfiles.validate({
+      name: 'Broken',
+      pattern: 'https://example.com/',
+      format: 'gif' as CaptureProfile['format'],
+      quality: 0.8,
+      padding: -1,
+      longScreenshot: 'always' as CaptureProfile['longScreenshot']
+    })).toEqual([
+      'Broken: host globs cannot contain slashes, colons or spaces',
+      'Broken: unknown format gif',
+      'Broken: quality must be a number between 10 and 100',
+      'Broken: padding must be a whole number between 0 and 500',
+      'Broken: long screenshot behavior must be auto or off'
+    ]);
+    expect(CaptureProfiles.validatePattern('/([/')).toBe('invalid regular expression');
+  });
+
+  it('should validate profiles as part of the settings', () => {
+    expect(validateSettings({ captureProfiles: [{ name: 'Docs', pattern: '*.example.com' }] }).isValid).toBe(true);
+
+    const result = validateSettings({ captureProfiles: [{ name: '', pattern: '*.example.com' }] });
+    expect(result.errors).toEqual(['Invalid capture profile *.example.com: name cannot be empty']);
+    expect(validateSettings({ captureProfiles: 'docs' as unknown as CaptureProfile[] }).errors)
+      .toEqual(['Invalid captureProfiles: must be a list of profiles']);
+  });
+
+  it('should grow the element box by the padding', () => {
+    const bounds = { x: 100, y: 50, width: 200, height: 80, top: 50, right: 300, bottom: 130, left: 100 };
+    const elementInfo = { selector: '.card', boundingRect: { ...bounds, toJSON: () => bounds } } as ElementInfo;
+
+    const padded = CaptureProfiles.padElement(elementInfo, 10);
+
+    expect(padded.boundingRect.toJSON()).toEqual({
+      x: 90, y: 40, width: 220, height: 100, top: 40, right: 310, bottom: 140, left: 90
+    });
+    expect(CaptureProfiles.padElement(elementInfo, 0)).toBe(elementInfo);
+  });
+
+  it('should move a framed element\'s offset in the frame with the padding', () => {
+    const bounds = { x: 20, y: 30, width: 200, height: 80, top: 30, right: 220, bottom: 110, left: 20 };
+    const frameBounds = { x: 100, y: 200, width: 600, height: 400, top: 200, right: 700, bottom: 600, left: 100 } as DOMRect;
+    const elementInfo = {
+      selector: '.card',
+      boundingRect: { ...bounds, toJSON: () => bounds },
+      isInIframe: true,
+      iframeInfo: { iframeSelector: 'iframe#docs', iframeBounds: frameBounds, relativePosition: { x: 20, y: 30 } }
+    } as ElementInfo;
+
+    const padded = CaptureProfiles.padElement(elementInfo, 10);
+
+    // The box grows on every side, not only to the right and bottom
+    expect(padded.iframeInfo).toEqual({ iframeSelector: 'iframe#docs', iframeBounds: frameBounds, relativePosition: { x: 10, y: 20 } });
+    expect(padded.boundingRect.width).toBe(220);
+    expect(elementInfo.iframeInfo?.relativePosition).toEqual({ x: 20, y: 30 });
+  });
+});
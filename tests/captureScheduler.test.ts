@@ -0,0 +1,121 @@
+// Tests for rate-limited capture scheduling
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import { CaptureScheduler } from '../src/utils/captureScheduler';
+
+describe('CaptureScheduler', () => {
+  // One fake clock for the whole file, so the token bucket never sees time go back
+  beforeAll(() => {
+    vi.useFakeTimers();
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  beforeEach(async () => {
+    // Let the token bucket refill after the previous test
+    await vi.advanceTimersByTimeAsync(2000);
+  });
+
+  it('should pace captures to two per second', async () => {
+    const startedAt: number[] = [];
+    const capture = vi.fn(async () => {
+      startedAt.push(Date.now());
+      return 'data:image/png;base64,capture';
+    });
+
+    const results = Promise.all([
+      CaptureScheduler.schedule(capture),
+      CaptureScheduler.schedule(capture),
+      CaptureScheduler.schedule(capture),
+      CaptureScheduler.schedule(capture)
+    ]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await results).toHaveLength(4);
+    expect(startedAt[1] - startedAt[0]).toBeLessThan(50);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(490);
+    expect(startedAt[3] - startedAt[2]).toBeGreaterThanOrEqual(490);
+  });
+
+  it('should run captures one at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const capture = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      running--;
+      return 'data:image/png;base64,capture';
+    };
+
+    const results = Promise.all([CaptureScheduler.schedule(capture), CaptureScheduler.schedule(capture)]);
+    await vi.advanceTimersByTimeAsync(500);
+    await results;
+
+    expect(maxRunning).toBe(1);
+  });
+
+  it('should report queue positions while waiting', async () => {
+    const capture = vi.fn().mockResolvedValue('data:image/png;base64,capture');
+    const onQueued = vi.fn();
+
+    const results = Promise.all([
+      CaptureScheduler.schedule(capture),
+      CaptureScheduler.schedule(capture),
+      CaptureScheduler.schedule(capture, { onQueued })
+    ]);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await results;
+
+    expect(onQueued).toHaveBeenNthCalledWith(1, 2);
+    expect(onQueued).toHaveBeenLastCalledWith(1);
+  });
+
+  it('should back off and retry on quota errors', async () => {
+    const capture = vi.fn()
+      .mockRejectedValueOnce(new Error('This request exceeds the MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND quota.'))
+      .mockResolvedValueOnce('data:image/png;base64,capture');
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = CaptureScheduler.schedule(capture);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(capture).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await result).toBe('data:image/png;base64,capture');
+    expect(capture).toHaveBeenCalledTimes(2);
+
+    warnSpy.mockRestore();
+  });
+
+  it('should not retry other capture errors', async () => {
+    const capture = vi.fn().mockRejectedValue(new Error('Cannot access contents of the page'));
+
+    const result = CaptureScheduler.schedule(capture);
+    const assertion = expect(result).rejects.toThrow('Cannot access contents of the page');
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+
+    expect(capture).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop queued captures when their session is cancelled', async () => {
+    const capture = vi.fn().mockResolvedValue('data:image/png;base64,capture');
+    const controller = new AbortController();
+
+    const first = CaptureScheduler.schedule(capture);
+    const second = CaptureScheduler.schedule(capture);
+    const cancelled = CaptureScheduler.schedule(capture, { signal: controller.signal });
+    const assertion = expect(cancelled).rejects.toThrow('Screenshot session cancelled');
+
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await Promise.all([first, second, assertion]);
+    expect(capture).toHaveBeenCalledTimes(2);
+  });
+});
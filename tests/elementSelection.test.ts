@@ -2,6 +2,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { JSDOM } from 'jsdom';
+import { MessageType } from '../src/types';
 
 // Mock Chrome APIs
 const mockChrome = {
@@ -79,7 +80,16 @@ import {
   getElementInfo, 
   generateElementSelector,
   startElementSelection,
-  exitElementSelection 
+  exitElementSelection,
+  hideFloatingElements,
+  restoreFloatingElements,
+  hideElements,
+  showHiddenElements,
+  copyImageToClipboard,
+  getNavigationTarget,
+  getElementBreadcrumb,
+  measureChildFrame,
+  handleFrameAnnouncement
 } from '../src/content/content';
 
 describe('Element Selection Functionality', () => {
@@ -151,13 +161,14 @@ describe('Element Selection Functionality', () => {
       element.remove();
     });
 
-    it('should add nth-child when needed for uniqueness', () => {
+    it('should add the position among same-tag siblings when needed for uniqueness', () => {
       const paragraphs = document.querySelectorAll('p');
       expect(paragraphs.length).toBeGreaterThan(1);
       
       const secondParagraph = paragraphs[1];
       const selector = generateElementSelector(secondParagraph);
-      expect(selector).toContain(':nth-child(2)');
+      expect(selector).toContain('p:nth-of-type(2)');
+      expect(document.querySelector(selector)).toBe(secondParagraph);
     });
   });
 
@@ -437,4 +448,307 @@ describe('Element Selection Functionality', () => {
       expect(tooltip?.textContent).toContain('test-container');
     });
   });
-});
\ No newline at end of file
+
+  describe('Keyboard Navigation', () => {
+    const pressKey = (key: string) => {
+      const keyEvent = new dom.window.KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+      document.dispatchEvent(keyEvent);
+      return keyEvent;
+    };
+
+    beforeEach(() => {
+      Element.prototype.scrollIntoView = vi.fn();
+      startElementSelection();
+    });
+
+    afterEach(() => {
+      exitElementSelection();
+    });
+
+    it('should move to the parent, first child and siblings', () => {
+      const article = document.querySelector('article')!;
+      const heading = document.querySelector('h1')!;
+      const [first, second] = Array.from(document.querySelectorAll('p'));
+
+      expect(getNavigationTarget(heading, 'parent')).toBe(article);
+      expect(getNavigationTarget(article, 'child')).toBe(heading);
+      expect(getNavigationTarget(first, 'next')).toBe(second);
+      expect(getNavigationTarget(first, 'previous')).toBe(heading);
+      expect(getNavigationTarget(second, 'next')).toBeNull();
+    });
+
+    it('should stop below the root element', () => {
+      expect(getNavigationTarget(document.body, 'parent')).toBeNull();
+    });
+
+    it('should skip the extension\'s own elements', () => {
+      // The selection overlay is appended as the last child of the body
+      const section = document.querySelector('section')!;
+      expect(getNavigationTarget(section, 'next')).toBeNull();
+    });
+
+    it('should move the highlight with arrow and bracket keys', () => {
+      const heading = document.querySelector('h1')!;
+      heading.dispatchEvent(new dom.window.MouseEvent('mouseover', { bubbles: true }));
+
+      const keyEvent = pressKey('ArrowUp');
+      expect(keyEvent.defaultPrevented).toBe(true);
+      expect(document.querySelector('.screenshot-tooltip')?.textContent).toContain('article.article-class');
+
+      pressKey(']');
+      expect(document.querySelector('.screenshot-tooltip')?.textContent).toContain('點擊選擇: h1');
+    });
+
+    it('should show the ancestor chain in the tooltip', () => {
+      const heading = document.querySelector('h1')!;
+
+      expect(getElementBreadcrumb(heading)).toBe('body > section > article.article-class > h1');
+
+      heading.dispatchEvent(new dom.window.MouseEvent('mouseover', { bubbles: true }));
+      expect(document.querySelector('.screenshot-tooltip-breadcrumb')?.textContent)
+        .toBe('body > section > article.article-class > h1');
+    });
+
+    it('should capture the highlighted element on Enter', () => {
+      const heading = document.querySelector('h1')!;
+      heading.dispatchEvent(new dom.window.MouseEvent('mouseover', { bubbles: true }));
+
+      const keyEvent = pressKey('Enter');
+      expect(keyEvent.defaultPrevented).toBe(true);
+      expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: MessageType.ELEMENT_SELECTED }),
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('Shadow DOM', () => {
+    let host: HTMLElement;
+    let inner: HTMLElement;
+
+    beforeEach(() => {
+      host = document.createElement('user-card');
+      host.id = 'card';
+      document.body.appendChild(host);
+      host.attachShadow({ mode: 'open' }).innerHTML = '<h2 class="name">Ada</h2>';
+      inner = host.shadowRoot!.querySelector('h2')!;
+      startElementSelection();
+    });
+
+    afterEach(() => {
+      exitElementSelection();
+    });
+
+    it('should pick elements inside open shadow roots', () => {
+      inner.dispatchEvent(new dom.window.MouseEvent('mouseover', { bubbles: true, composed: true }));
+
+      expect(document.querySelector('.screenshot-tooltip')?.textContent).toContain('點擊選擇: h2.name');
+      expect(document.querySelector('.screenshot-tooltip-breadcrumb')?.textContent).toBe('body > user-card#card > h2.name');
+      expect(getElementInfo(inner).selector).toBe('#card >>> h2.name');
+    });
+
+    it('should navigate across the shadow boundary', () => {
+      expect(getNavigationTarget(inner, 'parent')).toBe(host);
+      expect(getNavigationTarget(host, 'child')).toBe(inner);
+    });
+  });
+
+  describe('Frames', () => {
+    let frame: HTMLIFrameElement;
+
+    const announce = (token: string) => {
+      handleFrameAnnouncement(new dom.window.MessageEvent('message', {
+        data: { type: 'screenshot-frame-announcement', token },
+        source: frame.contentWindow
+      }));
+    };
+
+    beforeEach(() => {
+      frame = document.createElement('iframe');
+      frame.style.padding = '4px';
+      document.body.appendChild(frame);
+      // A 2px border around a 300x200 viewport
+      Object.defineProperty(frame, 'clientLeft', { value: 2 });
+      Object.defineProperty(frame, 'clientTop', { value: 2 });
+      Object.defineProperty(frame, 'clientWidth', { value: 308 });
+      Object.defineProperty(frame, 'clientHeight', { value: 208 });
+    });
+
+    it('should measure the viewport of the child frame that announced a token', async () => {
+      const measured = measureChildFrame('token-1');
+      announce('token-1');
+
+      await expect(measured).resolves.toEqual({ left: 16, top: 26, width: 300, height: 200 });
+    });
+
+    it('should keep announcements that arrive before the measurement', async () => {
+      announce('token-2');
+
+      await expect(measureChildFrame('token-2', 10)).resolves.toMatchObject({ left: 16, top: 26 });
+    });
+
+    it('should give up when no frame announces the token', async () => {
+      await expect(measureChildFrame('token-3', 10)).rejects.toThrow('Child frame did not announce itself');
+    });
+  });
+
+  describe('Multi-element Selection', () => {
+    const shiftClick = (element: Element) => {
+      element.dispatchEvent(new dom.window.MouseEvent('click', { bubbles: true, cancelable: true, shiftKey: true }));
+    };
+
+    beforeEach(() => {
+      mockChrome.runtime.sendMessage.mockImplementation((_request: any, callback: any) => callback({ success: true }));
+      startElementSelection();
+    });
+
+    afterEach(() => {
+      exitElementSelection();
+    });
+
+    it('should add and remove elements with Shift+click without capturing', () => {
+      const [first, second] = Array.from(document.querySelectorAll('p'));
+
+      shiftClick(first);
+      shiftClick(second);
+      expect(Array.from(document.querySelectorAll('.screenshot-multi-highlight-index')).map(mark => mark.textContent))
+        .toEqual(['1', '2']);
+      expect(document.querySelector('.screenshot-tooltip')?.textContent).toContain('已選擇 2 個元素');
+
+      shiftClick(first);
+      expect(document.querySelectorAll('.screenshot-multi-highlight')).toHaveLength(1);
+      expect(mockChrome.runtime.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should capture the set on Enter', async () => {
+      vi.useFakeTimers();
+      const [first, second] = Array.from(document.querySelectorAll('p'));
+      shiftClick(first);
+      shiftClick(second);
+
+      document.dispatchEvent(new dom.window.KeyboardEvent('keydown', { key: 'Enter', bubbles: true, cancelable: true }));
+
+      // The marks are removed before the capture
+      expect(document.querySelector('.screenshot-multi-highlight')).toBeNull();
+      await vi.advanceTimersByTimeAsync(50);
+      vi.useRealTimers();
+
+      const request = mockChrome.runtime.sendMessage.mock.calls[0][0];
+      expect(request.type).toBe(MessageType.ELEMENTS_SELECTED);
+      expect(request.payload.elements.map((info: any) => info.selector)).toEqual([
+        'section > article.article-class > p:nth-of-type(1)',
+        'section > article.article-class > p:nth-of-type(2)'
+      ]);
+    });
+
+    it('should add the clicked element and capture on a plain click', async () => {
+      vi.useFakeTimers();
+      const heading = document.querySelector('h1')!;
+      shiftClick(heading);
+
+      document.querySelector('p')!.dispatchEvent(new dom.window.MouseEvent('click', { bubbles: true, cancelable: true }));
+      await vi.advanceTimersByTimeAsync(50);
+      vi.useRealTimers();
+
+      const request = mockChrome.runtime.sendMessage.mock.calls[0][0];
+      expect(request.type).toBe(MessageType.ELEMENTS_SELECTED);
+      expect(request.payload.elements).toHaveLength(2);
+    });
+
+    it('should never add the body', () => {
+      shiftClick(document.body);
+      expect(document.querySelector('.screenshot-multi-highlight')).toBeNull();
+    });
+  });
+
+  describe('Floating Elements', () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <header id="site-header" style="position: fixed">Header</header>
+        <div id="chat-widget" style="position: sticky">Chat</div>
+        <main id="content">
+          <article id="article">Article</article>
+        </main>
+        <div class="screenshot-tooltip" style="position: fixed">Tooltip</div>
+      `;
+    });
+
+    afterEach(() => {
+      restoreFloatingElements();
+    });
+
+    it('should hide fixed and sticky elements over the capture area', () => {
+      const hiddenCount = hideFloatingElements('#article');
+
+      expect(hiddenCount).toBe(2);
+      expect(document.getElementById('site-header')!.hasAttribute('data-screenshot-hidden')).toBe(true);
+      expect(document.getElementById('chat-widget')!.hasAttribute('data-screenshot-hidden')).toBe(true);
+      expect(document.getElementById('screenshot-floating-style')).toBeTruthy();
+    });
+
+    it('should leave the extension UI and ancestors of the target visible', () => {
+      document.getElementById('content')!.style.position = 'sticky';
+
+      hideFloatingElements('#article');
+
+      expect(document.getElementById('content')!.hasAttribute('data-screenshot-hidden')).toBe(false);
+      expect(document.querySelector('.screenshot-tooltip')!.hasAttribute('data-screenshot-hidden')).toBe(false);
+    });
+
+    it('should restore hidden elements and remove the injected stylesheet', () => {
+      hideFloatingElements('#article');
+
+      const restoredCount = restoreFloatingElements();
+
+      expect(restoredCount).toBe(2);
+      expect(document.querySelectorAll('[data-screenshot-hidden]').length).toBe(0);
+      expect(document.getElementById('screenshot-floating-style')).toBeNull();
+    });
+
+    it('should hide and show the elements a capture profile names', () => {
+      const hiddenCount = hideElements(['#site-header', '.screenshot-tooltip', 'main >>> bad', '#chat-widget, #site-header']);
+
+      expect(hiddenCount).toBe(2);
+      expect(document.getElementById('site-header')!.hasAttribute('data-screenshot-profile-hidden')).toBe(true);
+      expect(document.querySelector('.screenshot-tooltip')!.hasAttribute('data-screenshot-profile-hidden')).toBe(false);
+      expect(document.getElementById('screenshot-profile-style')).toBeTruthy();
+
+      expect(showHiddenElements()).toBe(2);
+      expect(document.querySelectorAll('[data-screenshot-profile-hidden]').length).toBe(0);
+      expect(document.getElementById('screenshot-profile-style')).toBeNull();
+    });
+  });
+
+  describe('Clipboard Output', () => {
+    const originalClipboard = navigator.clipboard;
+    let writeSpy: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      writeSpy = vi.fn().mockResolvedValue(undefined);
+      Object.defineProperty(navigator, 'clipboard', { value: { write: writeSpy }, configurable: true });
+      vi.stubGlobal('ClipboardItem', class {
+        constructor(public items: Record<string, Blob>) {}
+      });
+    });
+
+    afterEach(() => {
+      Object.defineProperty(navigator, 'clipboard', { value: originalClipboard, configurable: true });
+      vi.unstubAllGlobals();
+    });
+
+    it('should write the decoded PNG to the clipboard', async () => {
+      await copyImageToClipboard(`data:image/png;base64,${btoa('png-bytes')}`);
+
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+      const [item] = writeSpy.mock.calls[0][0];
+      const blob: Blob = item.items['image/png'];
+      expect(blob.type).toBe('image/png');
+      expect(blob.size).toBe('png-bytes'.length);
+    });
+
+    it('should reject images that are not PNG', async () => {
+      await expect(copyImageToClipboard('data:image/jpeg;base64,AAAA')).rejects.toThrow('Clipboard only accepts PNG images');
+      expect(writeSpy).not.toHaveBeenCalled();
+    });
+  });
+});
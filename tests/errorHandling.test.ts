@@ -97,6 +97,31 @@ describe('ErrorHandler', () => {
       const classification = ErrorHandler.classifyError(error);
       expect(classification).toBe(ScreenshotError.PROCESSING_ERROR);
     });
+
+    it('should classify cancellation errors by name', () => {
+      const error = ErrorHandler.createCancellationError();
+      const classification = ErrorHandler.classifyError(error);
+      expect(classification).toBe(ScreenshotError.CANCELLED);
+      expect(ErrorHandler.isCancellation(error)).toBe(true);
+    });
+
+    it('should not classify messages mentioning cancel as cancellation', () => {
+      const error = new Error('Element not found: button.cancel-order');
+      const classification = ErrorHandler.classifyError(error);
+      expect(classification).toBe(ScreenshotError.ELEMENT_NOT_FOUND);
+      expect(ErrorHandler.isCancellation(error)).toBe(false);
+    });
+
+    it('should keep the classification of already enhanced errors', async () => {
+      const operation = vi.fn().mockRejectedValue(ErrorHandler.createCancellationError());
+
+      const enhanced = await ErrorHandler.handleError(operation, 'Inner', { maxAttempts: 3, delayMs: 1 })
+        .catch(error => error);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(ErrorHandler.classifyError(enhanced)).toBe(ScreenshotError.CANCELLED);
+      expect(ErrorHandler.isCancellation(enhanced)).toBe(true);
+    });
   });
 
   describe('handleError with retry logic', () => {
@@ -0,0 +1,110 @@
+// Tests for expanding filename templates into safe download paths
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FilenameTemplate, MAX_FILENAME_LENGTH, MAX_FILENAME_SEGMENT_LENGTH } from '../src/utils/filenameTemplate';
+import { FilenameContext } from '../src/types';
+
+const mockChrome = {
+  storage: {
+    local: {
+      get: vi.fn(),
+      set: vi.fn()
+    }
+  }
+};
+
+// @ts-ignore
+global.chrome = mockChrome;
+
+const context: FilenameContext = {
+  date: new Date(2024, 0, 15, 9, 5, 7),
+  url: 'https://docs.example.com/guide/install/',
+  title: 'Install: Step 1/2',
+  selector: '#main > .card',
+  tagName: 'section',
+  elementId: 'main',
+  width: 1280.4,
+  height: 720,
+  mode: 'long',
+  counter: 7
+};
+
+describe('FilenameTemplate', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = {};
+    mockChrome.storage.local.get.mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    mockChrome.storage.local.set.mockImplementation(async (items: Record<string, unknown>) => {
+      stored = { ...stored, ...items };
+    });
+  });
+
+  describe('render', () => {
+    it('should replace every occurrence of every token', () => {
+      expect(FilenameTemplate.render('{hostname}-{path}-{tag}-{id}-{counter}-{width}x{height}-{mode}-{format}', 'png', context))
+        .toBe('docs.example.com-guide-install-section-main-007-1280x720-long-png.png');
+      expect(FilenameTemplate.render('{date}_{date}_{time}', 'jpeg', context)).toBe('2024-01-15_2024-01-15_09-05-07.jpg');
+    });
+
+    it('should format dates with custom patterns', () => {
+      expect(FilenameTemplate.render('{date:YYYYMMDD}-{time:HHmmss}-{date:YY.MM}', 'png', context))
+        .toBe('20240115-090507-24.01.png');
+    });
+
+    it('should create subfolders from the template but not from token values', () => {
+      expect(FilenameTemplate.render('shots/{hostname}/{title}', 'png', context))
+        .toBe('shots/docs.example.com/Install_ Step 1-2.png');
+    });
+
+    it('should remove illegal characters, empty folders and parent folders', () => {
+      expect(FilenameTemplate.render('a//../b/ CON /{selector}?.', 'webp', context))
+        .toBe('a/b/_CON/#main _ .card_.webp');
+      expect(FilenameTemplate.render('{id}', 'png', {})).toBe('screenshot.png');
+    });
+
+    it('should keep unknown tokens and an existing extension', () => {
+      expect(FilenameTemplate.render('shot-{unknown}.PNG', 'png', context)).toBe('shot-{unknown}.PNG');
+    });
+
+    it('should limit folder, file and path lengths', () => {
+      const long = 'x'.repeat(300);
+      const filename = FilenameTemplate.render(`${long}/${long}/${long}`, 'png', context);
+      const segments = filename.split('/');
+
+      expect(filename.length).toBeLessThanOrEqual(MAX_FILENAME_LENGTH);
+      expect(segments.every(segment => segment.length <= MAX_FILENAME_SEGMENT_LENGTH)).toBe(true);
+      expect(segments).toHaveLength(2);
+      expect(filename.endsWith('x.png')).toBe(true);
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept known tokens and relative folders', () => {
+      expect(FilenameTemplate.validate('{hostname}/{date:YYYYMMDD}-{counter}')).toBeNull();
+    });
+
+    it('should describe invalid templates', () => {
+      expect(FilenameTemplate.validate('  ')).toBe('cannot be empty');
+      expect(FilenameTemplate.validate('a\\b')).toBe('cannot contain backslashes');
+      expect(FilenameTemplate.validate('/shots/{date}')).toBe('folders must be relative and cannot be . or ..');
+      expect(FilenameTemplate.validate('shots/../{date}')).toBe('folders must be relative and cannot be . or ..');
+      expect(FilenameTemplate.validate('{host}')).toBe('unknown token {host}');
+      expect(FilenameTemplate.validate('{counter:3}')).toBe('{counter} does not take a format');
+    });
+  });
+
+  describe('nextCounter', () => {
+    it('should count captures per day and start again the next day', async () => {
+      const day = new Date(2024, 0, 15, 12);
+
+      const first = FilenameTemplate.nextCounter(day);
+      const second = FilenameTemplate.nextCounter(day);
+      expect(await Promise.all([first, second])).toEqual([1, 2]);
+
+      expect(await FilenameTemplate.nextCounter(new Date(2024, 0, 16, 8))).toBe(1);
+      expect(FilenameTemplate.usesCounter('shot-{counter}')).toBe(true);
+      expect(FilenameTemplate.usesCounter('shot-{date}')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+// Tests for placing elements picked inside child frames
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FrameOffsets } from '../src/utils/frameOffsets';
+import { ElementInfo, MessageType } from '../src/types';
+
+const mockChrome = {
+  runtime: {
+    lastError: null as { message: string } | null
+  },
+  tabs: {
+    sendMessage: vi.fn()
+  },
+  webNavigation: {
+    getAllFrames: vi.fn()
+  }
+};
+
+// @ts-ignore
+global.chrome = mockChrome;
+
+const frames = [
+  { frameId: 0, parentFrameId: -1 },
+  { frameId: 4, parentFrameId: 0 },
+  { frameId: 9, parentFrameId: 4 }
+];
+
+describe('FrameOffsets', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the frames between a frame and the top frame', () => {
+    expect(FrameOffsets.getAncestorChain(frames, 9)).toEqual([9, 4]);
+    expect(FrameOffsets.getAncestorChain(frames, 0)).toEqual([]);
+    expect(() => FrameOffsets.getAncestorChain(frames, 12)).toThrow('Frame 12 is not attached to the tab');
+  });
+
+  it('should add up nested frame offsets and clip to the outer frames', () => {
+    // The inner frame extends past the right edge of the outer one
+    const placement = FrameOffsets.combine([
+      { left: 250, top: 40, width: 300, height: 200 },
+      { left: 100, top: 60, width: 500, height: 400 }
+    ]);
+
+    expect(placement.origin).toEqual({ x: 350, y: 100 });
+    expect(placement.visible).toEqual({ left: 350, top: 100, width: 250, height: 200 });
+  });
+
+  it('should measure each frame in its parent with a shared token', async () => {
+    mockChrome.webNavigation.getAllFrames.mockResolvedValue(frames);
+    mockChrome.tabs.sendMessage.mockImplementation((_tabId, request, options, callback) => {
+      const boxes: Record<number, object> = {
+        4: { left: 20, top: 30, width: 400, height: 300 },
+        0: { left: 100, top: 50, width: 800, height: 600 }
+      };
+      callback(request.type === MessageType.MEASURE_CHILD_FRAME
+        ? { success: true, data: boxes[options.frameId] }
+        : { success: true });
+    });
+
+    const placement = await FrameOffsets.locate(7, 9);
+
+    expect(placement.origin).toEqual({ x: 120, y: 80 });
+    const [measure, announce] = mockChrome.tabs.sendMessage.mock.calls;
+    expect(measure[1].type).toBe(MessageType.MEASURE_CHILD_FRAME);
+    expect(measure[2]).toEqual({ frameId: 4 });
+    expect(announce[1].type).toBe(MessageType.ANNOUNCE_FRAME);
+    expect(announce[2]).toEqual({ frameId: 9 });
+    expect(announce[1].payload.token).toBe(measure[1].payload.token);
+  });
+
+  it('should fail when a parent cannot find the frame element', async () => {
+    mockChrome.webNavigation.getAllFrames.mockResolvedValue(frames);
+    mockChrome.tabs.sendMessage.mockImplementation((_tabId, request, _options, callback) => {
+      callback(request.type === MessageType.MEASURE_CHILD_FRAME
+        ? { success: false, error: 'Child frame did not announce itself' }
+        : { success: true });
+    });
+
+    await expect(FrameOffsets.locate(7, 4)).rejects.toThrow('Frame 4 not found in frame 0');
+  });
+
+  it('should move the element into the visible part of the frame', () => {
+    const elementInfo = {
+      selector: 'button.pay',
+      isInIframe: true,
+      iframeInfo: {
+        iframeSelector: '',
+        iframeBounds: { left: 0, top: 0, width: 300, height: 200 } as DOMRect,
+        relativePosition: { x: 10, y: 15 }
+      }
+    } as ElementInfo;
+
+    const placed = FrameOffsets.placeElement(elementInfo, {
+      origin: { x: 300, y: 100 },
+      visible: { left: 350, top: 100, width: 250, height: 200 }
+    });
+
+    expect(JSON.parse(JSON.stringify(placed.iframeInfo!.iframeBounds))).toEqual({
+      x: 350, y: 100, width: 250, height: 200, top: 100, right: 600, bottom: 300, left: 350
+    });
+    expect(placed.iframeInfo!.relativePosition).toEqual({ x: -40, y: 15 });
+  });
+});
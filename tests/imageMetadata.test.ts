@@ -0,0 +1,142 @@
+// Tests for capture provenance metadata in output files
+
+import { describe, it, expect, vi } from 'vitest';
+import { crc32 } from 'zlib';
+import { ImageMetadata } from '../src/utils/imageMetadata';
+import { CaptureProvenance } from '../src/types';
+
+const provenance: CaptureProvenance = {
+  url: 'https://example.com/dashboard',
+  title: '儀表板',
+  selector: '#chart > .panel',
+  capturedAt: '2024-01-02T03:04:05.000Z',
+  devicePixelRatio: 2,
+  viewport: { width: 1280, height: 720 },
+  extensionVersion: '1.0.0'
+};
+
+function toBytes(dataUrl: string): Uint8Array {
+  return Uint8Array.from(atob(dataUrl.split(',')[1]), char => char.charCodeAt(0));
+}
+
+function toDataUrl(bytes: number[], mimeType: string): string {
+  return `data:${mimeType};base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+function readChunks(png: Uint8Array): Array<{ type: string; data: Uint8Array; crc: number }> {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length), crc: view.getUint32(offset + 8 + length) });
+    offset += length + 12;
+  }
+  return chunks;
+}
+
+// Signature, a 1x1 IHDR and IEND; only the chunk layout matters here
+const PNG = [
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52, 0, 0, 0, 1, 0, 0, 0, 1, 8, 6, 0, 0, 0, 0x1f, 0x15, 0xc4, 0x89,
+  0, 0, 0, 0, 0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82
+];
+
+// SOI, a JFIF APP0 segment and EOI
+const JPEG = [
+  0xff, 0xd8,
+  0xff, 0xe0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0,
+  0xff, 0xd9
+];
+
+describe('ImageMetadata', () => {
+  describe('PNG', () => {
+    it('should insert text chunks after IHDR', () => {
+      const chunks = readChunks(toBytes(ImageMetadata.embed(toDataUrl(PNG, 'image/png'), provenance)));
+
+      expect(chunks[0].type).toBe('IHDR');
+      expect(chunks[chunks.length - 1].type).toBe('IEND');
+      expect(chunks.slice(1, -1).every(chunk => chunk.type === 'tEXt' || chunk.type === 'iTXt')).toBe(true);
+    });
+
+    it('should write Latin-1 values as tEXt and other text as UTF-8 iTXt', () => {
+      const chunks = readChunks(toBytes(ImageMetadata.embed(toDataUrl(PNG, 'image/png'), provenance)));
+      const text = (chunk: { data: Uint8Array }) => new TextDecoder().decode(chunk.data);
+
+      expect(chunks.map(text)).toContain('URL\0https://example.com/dashboard');
+      expect(chunks.map(text)).toContain('Selector\0#chart > .panel');
+      expect(chunks.map(text)).toContain('Viewport\x001280x720');
+
+      const title = chunks.find(chunk => text(chunk).startsWith('Title\0'))!;
+      expect(title.type).toBe('iTXt');
+      expect(text(title)).toBe('Title\0\0\0\0\0儀表板');
+    });
+
+    it('should include an XMP packet', () => {
+      const chunks = readChunks(toBytes(ImageMetadata.embed(toDataUrl(PNG, 'image/png'), provenance)));
+      const xmp = chunks.find(chunk => new TextDecoder().decode(chunk.data).startsWith('XML:com.adobe.xmp\0'))!;
+      const packet = new TextDecoder().decode(xmp.data);
+
+      expect(packet).toContain('<dc:source>https://example.com/dashboard</dc:source>');
+      expect(packet).toContain('<ces:selector>#chart &gt; .panel</ces:selector>');
+      expect(packet).toContain('<ces:devicePixelRatio>2</ces:devicePixelRatio>');
+    });
+
+    it('should write a valid CRC for every inserted chunk', () => {
+      const chunks = readChunks(toBytes(ImageMetadata.embed(toDataUrl(PNG, 'image/png'), provenance)));
+
+      for (const chunk of chunks.slice(1, -1)) {
+        const typeAndData = new Uint8Array([...Array.from(chunk.type, char => char.charCodeAt(0)), ...chunk.data]);
+        expect(chunk.crc).toBe(crc32(typeAndData));
+      }
+    });
+  });
+
+  describe('JPEG', () => {
+    it('should insert COM and XMP segments after the JFIF segment', () => {
+      const jpeg = toBytes(ImageMetadata.embed(toDataUrl(JPEG, 'image/jpeg'), provenance));
+
+      expect(Array.from(jpeg.subarray(0, 4))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+      expect(Array.from(jpeg.subarray(20, 22))).toEqual([0xff, 0xfe]);
+
+      const commentLength = (jpeg[22] << 8) | jpeg[23];
+      const comment = JSON.parse(new TextDecoder().decode(jpeg.subarray(24, 20 + 2 + commentLength)));
+      expect(comment).toEqual(provenance);
+
+      const xmpStart = 20 + 2 + commentLength;
+      expect(Array.from(jpeg.subarray(xmpStart, xmpStart + 2))).toEqual([0xff, 0xe1]);
+      expect(new TextDecoder().decode(jpeg.subarray(xmpStart + 4, xmpStart + 33))).toBe('http://ns.adobe.com/xap/1.0/\0');
+      expect(Array.from(jpeg.subarray(-2))).toEqual([0xff, 0xd9]);
+    });
+  });
+
+  it('should leave formats without a metadata writer unchanged', () => {
+    const webp = 'data:image/webp;base64,UklGRg==';
+    expect(ImageMetadata.embed(webp, provenance)).toBe(webp);
+  });
+
+  it('should save the image unchanged when it cannot be parsed', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = 'data:image/png;base64,bm90IGEgcG5n';
+
+    expect(ImageMetadata.embed(broken, provenance)).toBe(broken);
+    expect(warnSpy).toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  describe('sidecar', () => {
+    it('should name the sidecar after the image', () => {
+      expect(ImageMetadata.sidecarFilename('screenshot-1.png')).toBe('screenshot-1.json');
+      expect(ImageMetadata.sidecarFilename('screenshot')).toBe('screenshot.json');
+    });
+
+    it('should list the described files in the sidecar', () => {
+      const sidecar = ImageMetadata.createSidecar(provenance, ['shot_01.png', 'shot_02.png']);
+      const json = JSON.parse(new TextDecoder().decode(toBytes(sidecar)));
+
+      expect(sidecar.startsWith('data:application/json;base64,')).toBe(true);
+      expect(json).toEqual({ ...provenance, files: ['shot_01.png', 'shot_02.png'] });
+    });
+  });
+});
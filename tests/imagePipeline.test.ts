@@ -0,0 +1,128 @@
+// Tests for the offscreen image processing pipeline
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ImagePipeline, OFFSCREEN_DOCUMENT_PATH } from '../src/utils/imagePipeline';
+import { ScreenshotProcessor } from '../src/utils/screenshotProcessor';
+import { MessageType, ElementInfo } from '../src/types';
+
+const mockElementInfo = {
+  selector: '#target',
+  boundingRect: { x: 0, y: 0, width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50 } as DOMRect,
+  isScrollable: false,
+  totalHeight: 50,
+  visibleHeight: 50,
+  hasTransform: false,
+  hasShadow: false,
+  isInIframe: false,
+  isFixed: false,
+  zIndex: 0,
+  computedStyles: {} as any
+} as ElementInfo;
+
+describe('ImagePipeline', () => {
+  const originalChrome = global.chrome;
+  let mockChrome: any;
+
+  beforeEach(() => {
+    mockChrome = {
+      offscreen: {
+        hasDocument: vi.fn().mockResolvedValue(false),
+        createDocument: vi.fn().mockResolvedValue(undefined),
+        Reason: { BLOBS: 'BLOBS' }
+      },
+      runtime: {
+        lastError: null,
+        sendMessage: vi.fn((_request, callback) => {
+          callback({ success: true, data: 'data:image/png;base64,processed' });
+        })
+      }
+    };
+    // @ts-ignore
+    global.chrome = mockChrome;
+  });
+
+  afterEach(() => {
+    global.chrome = originalChrome;
+    vi.restoreAllMocks();
+  });
+
+  it('should create the offscreen document before sending a job', async () => {
+    const result = await ImagePipeline.cropToElement('data:image/png;base64,full', mockElementInfo, 2);
+
+    expect(result).toBe('data:image/png;base64,processed');
+    expect(mockChrome.offscreen.createDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ url: OFFSCREEN_DOCUMENT_PATH, reasons: ['BLOBS'] })
+    );
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: MessageType.OFFSCREEN_CROP,
+        payload: { dataUrl: 'data:image/png;base64,full', elementInfo: mockElementInfo, devicePixelRatio: 2 }
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it('should reuse an existing offscreen document', async () => {
+    mockChrome.offscreen.hasDocument.mockResolvedValue(true);
+
+    await ImagePipeline.encode('data:image/png;base64,img', { format: 'jpeg', quality: 0.8, filename: 'a' });
+
+    expect(mockChrome.offscreen.createDocument).not.toHaveBeenCalled();
+    expect(mockChrome.runtime.sendMessage.mock.calls[0][0].type).toBe(MessageType.OFFSCREEN_ENCODE);
+  });
+
+  it('should create only one document for concurrent jobs', async () => {
+    await Promise.all([
+      ImagePipeline.encode('data:image/png;base64,a', { format: 'png', quality: 1, filename: 'a' }),
+      ImagePipeline.cropToElement('data:image/png;base64,b', mockElementInfo, 1)
+    ]);
+
+    expect(mockChrome.offscreen.createDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('should encode several images as one document', async () => {
+    const options = { format: 'pdf' as const, quality: 0.9, filename: 'a', pdf: { pageSize: 'a4' as const } };
+
+    await ImagePipeline.encodeDocument(['data:image/png;base64,a', 'data:image/png;base64,b'], options);
+
+    expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: MessageType.OFFSCREEN_ENCODE_DOCUMENT,
+        payload: { dataUrls: ['data:image/png;base64,a', 'data:image/png;base64,b'], options }
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it('should return stitched images with their segment alignment', async () => {
+    const alignments = [{ segmentIndex: 0, offsetY: 0, overlap: 0, confidence: 1, method: 'computed' }];
+    mockChrome.runtime.sendMessage = vi.fn((_request, callback) => {
+      callback({ success: true, data: { dataUrl: 'data:image/png;base64,stitched', alignments } });
+    });
+
+    const result = await ImagePipeline.stitchSegments([], mockElementInfo, 1);
+
+    expect(result).toEqual({ dataUrl: 'data:image/png;base64,stitched', alignments });
+    expect(mockChrome.runtime.sendMessage.mock.calls[0][0].type).toBe(MessageType.OFFSCREEN_STITCH);
+  });
+
+  it('should surface offscreen failures as errors', async () => {
+    mockChrome.runtime.sendMessage = vi.fn((_request, callback) => {
+      callback({ success: false, error: 'Failed to get canvas context' });
+    });
+
+    await expect(ImagePipeline.stitchSegments([], mockElementInfo, 1))
+      .rejects.toThrow('Image processing failed: Failed to get canvas context');
+  });
+
+  it('should process in place when the offscreen API is unavailable', async () => {
+    delete mockChrome.offscreen;
+    const cropSpy = vi.spyOn(ScreenshotProcessor, 'cropToElement').mockResolvedValue('data:image/png;base64,local');
+
+    const result = await ImagePipeline.cropToElement('data:image/png;base64,full', mockElementInfo, 1);
+
+    expect(result).toBe('data:image/png;base64,local');
+    expect(cropSpy).toHaveBeenCalledWith('data:image/png;base64,full', mockElementInfo, 1);
+    expect(mockChrome.runtime.sendMessage).not.toHaveBeenCalled();
+  });
+});
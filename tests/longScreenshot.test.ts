@@ -2,6 +2,7 @@
 
 import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
 import { ScreenshotProcessor } from '../src/utils/screenshotProcessor';
+import { PerformanceOptimizer } from '../src/utils/performanceOptimizer';
 import { ElementInfo, LongScreenshotSegment, ScrollPosition } from '../src/types';
 
 // Mock Chrome APIs
@@ -176,6 +177,76 @@ describe('Long Screenshot Functionality', () => {
       expect(result.segments.length).toBe(1);
       expect(result.segments[0].scrollPosition.isComplete).toBe(true);
     });
+
+    it('should adapt the scroll step to a monitored session', async () => {
+      const elementInfo: ElementInfo = {
+        selector: '.long-content',
+        boundingRect: {
+          x: 0, y: 0, width: 800, height: 600,
+          top: 0, right: 800, bottom: 600, left: 0,
+          toJSON: () => ({})
+        } as DOMRect,
+        isScrollable: true,
+        totalHeight: 2400,
+        visibleHeight: 600
+      };
+
+      mockChrome.scripting.executeScript.mockResolvedValue([{
+        result: {
+          x: 0, y: 0, width: 800, height: 600,
+          top: 0, right: 800, bottom: 600, left: 0
+        }
+      }]);
+
+      const dynamicSpy = vi.spyOn(PerformanceOptimizer, 'calculateDynamicSegmentSize').mockReturnValue(240);
+      PerformanceOptimizer.startMonitoring('adaptive-session');
+
+      try {
+        const result = await ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 2, { sessionId: 'adaptive-session' });
+
+        expect(dynamicSpy).toHaveBeenCalledWith('adaptive-session', 480, 1, expect.any(Number), 2);
+        expect(result.segments.map(segment => segment.scrollPosition.y)).toEqual([0, 240, 480, 720, 960, 1200, 1440, 1680, 1800]);
+        expect(result.segments[result.segments.length - 1].scrollPosition.isComplete).toBe(true);
+        expect(PerformanceOptimizer.getMetrics('adaptive-session')?.segmentCount).toBe(8);
+      } finally {
+        dynamicSpy.mockRestore();
+        PerformanceOptimizer.clearMetrics('adaptive-session');
+      }
+    });
+
+    it('should keep overlap between rows when the adapted step grows', async () => {
+      const elementInfo: ElementInfo = {
+        selector: '.long-content',
+        boundingRect: {
+          x: 0, y: 0, width: 800, height: 600,
+          top: 0, right: 800, bottom: 600, left: 0,
+          toJSON: () => ({})
+        } as DOMRect,
+        isScrollable: true,
+        totalHeight: 2400,
+        visibleHeight: 600
+      };
+
+      mockChrome.scripting.executeScript.mockResolvedValue([{
+        result: {
+          x: 0, y: 0, width: 800, height: 600,
+          top: 0, right: 800, bottom: 600, left: 0
+        }
+      }]);
+
+      const dynamicSpy = vi.spyOn(PerformanceOptimizer, 'calculateDynamicSegmentSize').mockReturnValue(2000);
+      PerformanceOptimizer.startMonitoring('fast-session');
+
+      try {
+        const result = await ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1, { sessionId: 'fast-session' });
+
+        // Steps are capped at 90% of the visible height
+        expect(result.segments.map(segment => segment.scrollPosition.y)).toEqual([0, 540, 1080, 1620, 1800]);
+      } finally {
+        dynamicSpy.mockRestore();
+        PerformanceOptimizer.clearMetrics('fast-session');
+      }
+    });
   });
 
   describe('Screenshot Stitching', () => {
@@ -343,6 +414,462 @@ describe('Long Screenshot Functionality', () => {
     });
   });
 
+  describe('Horizontal and Grid Capture', () => {
+    const makeRect = (width: number, height: number) => ({
+      x: 0, y: 0, width, height,
+      top: 0, right: width, bottom: height, left: 0,
+      toJSON: () => ({})
+    } as DOMRect);
+
+    it('should detect the scroll direction from width and height', () => {
+      const base = { selector: '.board', boundingRect: makeRect(800, 600), isScrollable: true } as ElementInfo;
+
+      expect(ScreenshotProcessor.getScrollDirection({ ...base, totalHeight: 1800, visibleHeight: 600 })).toBe('vertical');
+      expect(ScreenshotProcessor.getScrollDirection({
+        ...base, totalHeight: 600, visibleHeight: 600, totalWidth: 3000, visibleWidth: 800
+      })).toBe('horizontal');
+      expect(ScreenshotProcessor.getScrollDirection({
+        ...base, totalHeight: 1800, visibleHeight: 600, totalWidth: 3000, visibleWidth: 800
+      })).toBe('both');
+    });
+
+    it('should scroll horizontally for wide content', async () => {
+      const elementInfo = {
+        selector: '.wide-table',
+        boundingRect: makeRect(800, 600),
+        isScrollable: true,
+        totalHeight: 600,
+        visibleHeight: 600,
+        totalWidth: 2000,
+        visibleWidth: 800
+      } as ElementInfo;
+
+      mockChrome.scripting.executeScript.mockResolvedValue([{ result: makeRect(800, 600) }]);
+
+      const result = await ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1);
+      const positions = result.segments.map(segment => segment.scrollPosition);
+
+      expect(positions.every(position => position.y === 0)).toBe(true);
+      expect(positions.map(position => position.x)).toEqual([0, 640, 1200]);
+      expect(positions[positions.length - 1].isComplete).toBe(true);
+      expect(result.totalWidth).toBe(2000);
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          type: 'SCROLL_TO_POSITION',
+          payload: { selector: '.wide-table', scrollTop: 0, scrollLeft: 640 }
+        })
+      );
+    });
+
+    it('should cover both axes in row-major order for grid content', async () => {
+      const elementInfo = {
+        selector: '.gantt',
+        boundingRect: makeRect(800, 600),
+        isScrollable: true,
+        totalHeight: 1000,
+        visibleHeight: 600,
+        totalWidth: 1400,
+        visibleWidth: 800
+      } as ElementInfo;
+
+      mockChrome.scripting.executeScript.mockResolvedValue([{ result: makeRect(800, 600) }]);
+
+      const result = await ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1);
+
+      expect(result.segments.map(segment => [segment.scrollPosition.x, segment.scrollPosition.y])).toEqual([
+        [0, 0], [600, 0],
+        [0, 400], [600, 400]
+      ]);
+    });
+
+    it('should stitch grid tiles into one image at their scroll offsets', async () => {
+      const elementInfo = {
+        selector: '.gantt',
+        boundingRect: makeRect(800, 600),
+        isScrollable: true,
+        totalHeight: 1000,
+        visibleHeight: 600,
+        totalWidth: 1400,
+        visibleWidth: 800
+      } as ElementInfo;
+
+      const tile = (x: number, y: number, index: number): LongScreenshotSegment => ({
+        dataUrl: `data:image/png;base64,tile${index}`,
+        scrollPosition: { x, y, isComplete: index === 3 },
+        segmentIndex: index,
+        elementRect: makeRect(800, 600)
+      });
+
+      await ScreenshotProcessor.stitchScreenshotSegments(
+        [tile(0, 0, 0), tile(600, 0, 1), tile(0, 400, 2), tile(600, 400, 3)],
+        elementInfo,
+        1
+      );
+
+      expect(mockCanvas.width).toBe(1400);
+      expect(mockCanvas.height).toBe(1000);
+
+      const destinations = mockContext.drawImage.mock.calls.map(call => [call[5], call[6]]);
+      expect(destinations).toEqual([[0, 0], [800, 0], [0, 600], [800, 600]]);
+    });
+  });
+
+  describe('Cancellation', () => {
+    const elementInfo = {
+      selector: '.cancel-content',
+      boundingRect: {
+        x: 0, y: 0, width: 800, height: 600,
+        top: 0, right: 800, bottom: 600, left: 0,
+        toJSON: () => ({})
+      } as DOMRect,
+      isScrollable: true,
+      totalHeight: 3000,
+      visibleHeight: 600
+    } as ElementInfo;
+
+    beforeEach(() => {
+      mockChrome.scripting.executeScript.mockResolvedValue([{
+        result: {
+          x: 0, y: 0, width: 800, height: 600,
+          top: 0, right: 800, bottom: 600, left: 0
+        }
+      }]);
+    });
+
+    it('should stop between segments and restore scroll when aborted', async () => {
+      const controller = new AbortController();
+      mockChrome.tabs.captureVisibleTab.mockImplementation(async () => {
+        // Cancel right after the second segment is captured
+        if (mockChrome.tabs.captureVisibleTab.mock.calls.length === 2) {
+          controller.abort();
+        }
+        return 'data:image/png;base64,mock-screenshot';
+      });
+
+      await expect(
+        ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1, { signal: controller.signal })
+      ).rejects.toThrow('cancelled');
+
+      expect(mockChrome.tabs.captureVisibleTab).toHaveBeenCalledTimes(2);
+
+      const sentTypes = mockChrome.tabs.sendMessage.mock.calls.map(call => call[1].type);
+      expect(sentTypes.slice(-2)).toEqual(expect.arrayContaining(['RESET_SCROLL', 'RESTORE_FLOATING_ELEMENTS']));
+    });
+
+    it('should not capture anything when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1, { signal: controller.signal })
+      ).rejects.toThrow('cancelled');
+
+      expect(mockChrome.tabs.captureVisibleTab).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Overlap Detection', () => {
+    // Rows of distinct content, with a flat blank row every fourth row
+    const makeProfile = (rows: number[]) => ({
+      hashes: rows,
+      flat: rows.map(row => row % 4 === 0)
+    });
+    const range = (start: number, length: number) => Array.from({ length }, (_, i) => start + i);
+
+    it('should find the real overlap when the page scrolled less than requested', () => {
+      // Requested a 60 row scroll, but smooth scrolling only moved 50 rows
+      const previous = makeProfile(range(0, 100));
+      const current = makeProfile(range(50, 100));
+
+      const match = ScreenshotProcessor.detectOverlap(previous, current, 40);
+
+      expect(match.overlap).toBe(50);
+      expect(match.confidence).toBe(1);
+    });
+
+    it('should report no confidence for bands of blank rows', () => {
+      const blank = { hashes: new Array(100).fill(7), flat: new Array(100).fill(true) };
+
+      const match = ScreenshotProcessor.detectOverlap(blank, blank, 40);
+
+      expect(match.confidence).toBe(0);
+      expect(match.overlap).toBe(40);
+    });
+
+    it('should hash rows and flag single-color rows', () => {
+      const width = 2;
+      const data = new Uint8ClampedArray([
+        255, 255, 255, 255, 255, 255, 255, 255,
+        0, 0, 0, 255, 255, 0, 0, 255,
+        255, 255, 255, 255, 255, 255, 255, 255
+      ]);
+
+      const profile = ScreenshotProcessor.hashRows({ data, width, height: 3 } as ImageData);
+
+      expect(profile.flat).toEqual([true, false, true]);
+      expect(profile.hashes[0]).toBe(profile.hashes[2]);
+      expect(profile.hashes[0]).not.toBe(profile.hashes[1]);
+    });
+
+    it('should fall back to the computed overlap and report it per segment', async () => {
+      const rect = { x: 0, y: 0, width: 800, height: 600, top: 0, right: 800, bottom: 600, left: 0 } as DOMRect;
+      const elementInfo = {
+        selector: '.feed',
+        boundingRect: rect,
+        isScrollable: true,
+        totalHeight: 1100,
+        visibleHeight: 600
+      } as ElementInfo;
+
+      const result = await ScreenshotProcessor.stitchSegmentsWithAlignment([
+        { dataUrl: 'data:image/png;base64,a', scrollPosition: { x: 0, y: 0, isComplete: false }, segmentIndex: 0, elementRect: rect },
+        { dataUrl: 'data:image/png;base64,b', scrollPosition: { x: 0, y: 500, isComplete: true }, segmentIndex: 1, elementRect: rect }
+      ], elementInfo, 1);
+
+      expect(result.dataUrl).toBe('data:image/png;base64,mock-image-data');
+      expect(result.alignments).toEqual([
+        { segmentIndex: 0, offsetY: 0, overlap: 0, confidence: 1, method: 'computed' },
+        { segmentIndex: 1, offsetY: 500, overlap: 100, confidence: 0, method: 'computed' }
+      ]);
+    });
+  });
+
+  describe('Tiled Output', () => {
+    const makeRect = (width: number, height: number) => ({
+      x: 0, y: 0, width, height,
+      top: 0, right: width, bottom: height, left: 0,
+      toJSON: () => ({})
+    } as DOMRect);
+
+    it('should detect results beyond the canvas limits', () => {
+      expect(ScreenshotProcessor.exceedsCanvasLimits(1600, 30000)).toBe(false);
+      expect(ScreenshotProcessor.exceedsCanvasLimits(800, 40000)).toBe(true);
+      expect(ScreenshotProcessor.exceedsCanvasLimits(20000, 20000)).toBe(true);
+    });
+
+    it('should keep tiles within the canvas limits', () => {
+      const tileHeight = ScreenshotProcessor.calculateTileHeight(1600, 80000, 2);
+
+      expect(tileHeight).toBeGreaterThan(0);
+      expect(ScreenshotProcessor.exceedsCanvasLimits(1600, tileHeight)).toBe(false);
+    });
+
+    it('should keep tiles of results wider than a canvas within the limits', () => {
+      const tileWidth = ScreenshotProcessor.calculateTileWidth(50000);
+      const tileHeight = ScreenshotProcessor.calculateTileHeight(50000, 20000, 1);
+
+      expect(tileWidth).toBe(32767);
+      expect(ScreenshotProcessor.calculateTileWidth(1600)).toBe(1600);
+      expect(ScreenshotProcessor.exceedsCanvasLimits(tileWidth, tileHeight)).toBe(false);
+    });
+
+    it('should number tile filenames in order', () => {
+      expect(ScreenshotProcessor.numberFilename('thread.png', 3, 12)).toBe('thread_03.png');
+      expect(ScreenshotProcessor.numberFilename('thread.png', 7, 120)).toBe('thread_007.png');
+      expect(ScreenshotProcessor.numberFilename('thread', 1, 2)).toBe('thread_01');
+    });
+
+    it('should split the stitched image into tiles from top to bottom', async () => {
+      const elementInfo = {
+        selector: '.log',
+        boundingRect: makeRect(800, 600),
+        isScrollable: true,
+        totalHeight: 1100,
+        visibleHeight: 600
+      } as ElementInfo;
+      mockCanvas.toDataURL
+        .mockReturnValueOnce('data:image/png;base64,tile1')
+        .mockReturnValueOnce('data:image/png;base64,tile2')
+        .mockReturnValueOnce('data:image/png;base64,tile3');
+
+      const result = await ScreenshotProcessor.stitchSegmentsTiled([
+        { dataUrl: 'data:image/png;base64,a', scrollPosition: { x: 0, y: 0, isComplete: false }, segmentIndex: 0, elementRect: makeRect(800, 600) },
+        { dataUrl: 'data:image/png;base64,b', scrollPosition: { x: 0, y: 500, isComplete: true }, segmentIndex: 1, elementRect: makeRect(800, 600) }
+      ], elementInfo, 1, 500);
+
+      expect(result.tiles).toEqual([
+        'data:image/png;base64,tile1',
+        'data:image/png;base64,tile2',
+        'data:image/png;base64,tile3'
+      ]);
+      expect(result.alignments).toHaveLength(2);
+
+      // The second segment starts at row 600 of the result: 100 rows into the second tile
+      const destinations = mockContext.drawImage.mock.calls.map(call => call[6]);
+      expect(destinations).toEqual([0, -500, 100, 100 - 500]);
+    });
+
+    it('should split results wider than a canvas into columns of tiles', async () => {
+      const elementInfo = {
+        selector: '.timeline',
+        boundingRect: makeRect(800, 600),
+        isScrollable: true,
+        totalHeight: 600,
+        visibleHeight: 600,
+        totalWidth: 40000,
+        visibleWidth: 800
+      } as ElementInfo;
+      const segments: LongScreenshotSegment[] = [0, 20000, 39200].map((x, index) => ({
+        dataUrl: `data:image/png;base64,${index}`,
+        scrollPosition: { x, y: 0, isComplete: index === 2 },
+        segmentIndex: index,
+        elementRect: makeRect(800, 600)
+      }));
+      const tileSizes: Array<[number, number]> = [];
+      mockCanvas.toDataURL.mockImplementation(() => {
+        tileSizes.push([mockCanvas.width, mockCanvas.height]);
+        return `data:image/png;base64,tile${tileSizes.length}`;
+      });
+
+      const result = await ScreenshotProcessor.stitchSegmentsTiled(segments, elementInfo, 1, 600);
+
+      expect(result.tiles).toEqual(['data:image/png;base64,tile1', 'data:image/png;base64,tile2']);
+      expect(tileSizes).toEqual([[32767, 600], [40000 - 32767, 600]]);
+
+      // Each segment is drawn only into the tiles it overlaps, relative to the tile's left edge
+      const destinations = mockContext.drawImage.mock.calls.map(call => call[5]);
+      expect(destinations).toEqual([0, 20000, 39200 - 32767]);
+    });
+  });
+
+  describe('Floating Elements', () => {
+    const elementInfo = {
+      selector: '.feed',
+      boundingRect: {
+        x: 0, y: 0, width: 800, height: 600,
+        top: 0, right: 800, bottom: 600, left: 0,
+        toJSON: () => ({})
+      } as DOMRect,
+      isScrollable: true,
+      totalHeight: 1500,
+      visibleHeight: 600
+    } as ElementInfo;
+
+    const messageTypes = () => mockChrome.tabs.sendMessage.mock.calls.map(call => call[1].type);
+
+    beforeEach(() => {
+      mockChrome.scripting.executeScript.mockResolvedValue([{
+        result: { x: 0, y: 0, width: 800, height: 600, top: 0, right: 800, bottom: 600, left: 0 }
+      }]);
+    });
+
+    it('should hide floating elements before the first segment and restore them afterwards', async () => {
+      await ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1);
+
+      const types = messageTypes();
+      expect(types.indexOf('HIDE_FLOATING_ELEMENTS')).toBeLessThan(types.indexOf('SCROLL_TO_POSITION'));
+      expect(types.lastIndexOf('RESTORE_FLOATING_ELEMENTS')).toBeGreaterThan(types.lastIndexOf('SCROLL_TO_POSITION'));
+    });
+
+    it('should keep the header on the first segment when requested', async () => {
+      await ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1, { keepHeaderOnFirstSegment: true });
+
+      const types = messageTypes();
+      const hideIndex = types.indexOf('HIDE_FLOATING_ELEMENTS');
+      expect(types.slice(0, hideIndex).filter(type => type === 'SCROLL_TO_POSITION')).toHaveLength(1);
+    });
+
+    it('should keep the header on every column of the first row', async () => {
+      await ScreenshotProcessor.captureLongScreenshot(1, { ...elementInfo, totalWidth: 1600, visibleWidth: 800 }, 1, {
+        keepHeaderOnFirstSegment: true
+      });
+
+      const calls = mockChrome.tabs.sendMessage.mock.calls.map(call => call[1]);
+      const hideIndex = calls.findIndex(message => message.type === 'HIDE_FLOATING_ELEMENTS');
+      const scrolls = calls.filter(message => message.type === 'SCROLL_TO_POSITION');
+      const scrollsBeforeHide = calls.slice(0, hideIndex).filter(message => message.type === 'SCROLL_TO_POSITION');
+
+      expect(scrollsBeforeHide.length).toBeGreaterThan(1);
+      expect(scrollsBeforeHide.every(message => message.payload.scrollTop === 0)).toBe(true);
+      expect(scrolls[scrollsBeforeHide.length].payload.scrollTop).toBeGreaterThan(0);
+    });
+
+    it('should leave restoring to the long capture when a single frame fails', async () => {
+      mockChrome.tabs.captureVisibleTab.mockRejectedValue(new Error('Permission denied'));
+
+      await expect(ScreenshotProcessor.captureFullPage(1)).rejects.toThrow('Screenshot capture failed: Permission denied');
+      expect(messageTypes()).not.toContain('RESTORE_FLOATING_ELEMENTS');
+
+      await expect(ScreenshotProcessor.captureLongScreenshot(1, elementInfo, 1)).rejects.toThrow('Permission denied');
+      expect(messageTypes().filter(type => type === 'RESTORE_FLOATING_ELEMENTS')).toHaveLength(1);
+    });
+  });
+
+  describe('Full Page Capture', () => {
+    const elementInfo = {
+      selector: 'article.post',
+      boundingRect: {
+        x: 0, y: 500, width: 700, height: 2000,
+        top: 500, right: 700, bottom: 2500, left: 0,
+        toJSON: () => ({})
+      } as DOMRect,
+      isScrollable: true,
+      isScrollContainer: false,
+      totalHeight: 2000,
+      visibleHeight: 2000
+    } as ElementInfo;
+
+    beforeEach(() => {
+      // The article starts 500px down the page and scrolls with a 1000px window
+      mockChrome.tabs.sendMessage.mockImplementation((_tabId: number, message: any) => {
+        if (message.type === 'GET_PAGE_LAYOUT') {
+          return Promise.resolve({
+            success: true,
+            data: {
+              startY: 500,
+              endY: 2500,
+              viewportHeight: 1000,
+              originalScrollTop: 120,
+              originalScrollLeft: 0,
+              usesWindowScroll: true
+            }
+          });
+        }
+
+        const elementTop = 500 - message.payload.scrollTop;
+        const top = Math.max(0, elementTop);
+        const bottom = Math.min(1000, elementTop + 2000);
+        return Promise.resolve({
+          success: true,
+          data: {
+            elementRect: {
+              x: 0, y: top, width: 700, height: bottom - top,
+              top, right: 700, bottom, left: 0
+            },
+            offset: { x: 0, y: top - elementTop }
+          }
+        });
+      });
+    });
+
+    it('should scroll the page across the element and restore the original scroll', async () => {
+      const result = await ScreenshotProcessor.captureFullPageScreenshot(1, elementInfo);
+
+      const scrollCalls = mockChrome.tabs.sendMessage.mock.calls
+        .filter(call => call[1].type === 'SCROLL_PAGE_TO_POSITION')
+        .map(call => call[1].payload.scrollTop);
+
+      expect(scrollCalls).toEqual([500, 1300, 1500, 120]);
+      expect(result.segments.map(segment => segment.scrollPosition.y)).toEqual([0, 800, 1000]);
+      expect(result.totalHeight).toBe(2000);
+      expect(result.stitchInfo.totalHeight).toBe(2000);
+      expect(result.stitchInfo.boundingRect.top).toBe(0);
+    });
+
+    it('should stitch page segments by their offset within the element', async () => {
+      const { segments, stitchInfo } = await ScreenshotProcessor.captureFullPageScreenshot(1, elementInfo);
+
+      await ScreenshotProcessor.stitchScreenshotSegments(segments, stitchInfo, 1);
+
+      expect(mockCanvas.width).toBe(700);
+      expect(mockCanvas.height).toBe(2000);
+
+      const destinations = mockContext.drawImage.mock.calls.map(call => call[6]);
+      expect(destinations).toEqual([0, 1000, 1800]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle scroll control errors gracefully', async () => {
       const elementInfo: ElementInfo = {
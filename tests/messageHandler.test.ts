@@ -147,6 +147,26 @@ describe('MessageRouter', () => {
         requestId: undefined
       });
     });
+
+    it('should leave unregistered messages unanswered when ignoreUnregistered is set', async () => {
+      messageRouter.register(MessageType.OFFSCREEN_CROP, vi.fn().mockResolvedValue('cropped'));
+
+      let messageListener: Function;
+      chrome.runtime.onMessage.addListener = vi.fn((listener) => {
+        messageListener = listener;
+      });
+
+      messageRouter.setupListener({ ignoreUnregistered: true });
+
+      const mockSendResponse = vi.fn();
+      const result = messageListener({ type: MessageType.ELEMENT_SELECTED }, mockSender, mockSendResponse);
+
+      expect(result).toBe(false);
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockSendResponse).not.toHaveBeenCalled();
+    });
   });
 });
 
@@ -247,6 +267,21 @@ describe('sendMessageToTab', () => {
     expect(response.requestId).toBeUndefined(); // Mock doesn't preserve requestId
   });
 
+  it('should send message to one frame of a tab', async () => {
+    chrome.tabs.sendMessage = vi.fn((tabId, request, options, callback) => {
+      callback({ success: true });
+    });
+
+    await sendMessageToTab(123, MessageType.ANNOUNCE_FRAME, { token: 'abc' }, 4);
+
+    expect(chrome.tabs.sendMessage).toHaveBeenCalledWith(
+      123,
+      expect.objectContaining({ type: MessageType.ANNOUNCE_FRAME }),
+      { frameId: 4 },
+      expect.any(Function)
+    );
+  });
+
   it('should handle tab communication errors', async () => {
     chrome.runtime.lastError = { message: 'Could not establish connection' };
     chrome.tabs.sendMessage = vi.fn((tabId, request, callback) => {
@@ -125,8 +125,10 @@ describe('Options Page UI', () => {
       expect(validateFilenameTemplate(filenameTemplate)).toBe(true);
       expect(filenameTemplate.classList.contains('invalid')).toBe(false);
       
-      // Test invalid filename with path separator
-      filenameTemplate.value = 'invalid/filename';
+      // Subfolders are allowed, backslashes are not
+      filenameTemplate.value = 'shots/{hostname}';
+      expect(validateFilenameTemplate(filenameTemplate)).toBe(true);
+      filenameTemplate.value = 'invalid\\filename';
       expect(validateFilenameTemplate(filenameTemplate)).toBe(false);
       expect(filenameTemplate.classList.contains('invalid')).toBe(true);
       
@@ -178,6 +180,57 @@ describe('Options Page UI', () => {
     });
   });
 
+  describe('Capture Profiles', () => {
+    it('should read edited profiles back without empty fields', async () => {
+      const { renderProfiles, readProfiles } = await import('../src/options/options');
+      const container = document.createElement('div');
+
+      renderProfiles([
+        { name: 'Internal', pattern: '*.corp.example.com', format: 'jpeg', quality: 80, hiddenSelectors: ['header'], keepHeader: false },
+        { name: 'Docs', pattern: '/docs\\.example\\.com/', longScreenshot: 'off' }
+      ], container);
+
+      expect(container.querySelectorAll('.profile-card')).toHaveLength(2);
+
+      const padding = container.querySelector('[data-field="padding"]') as HTMLInputElement;
+      padding.value = '16';
+
+      expect(readProfiles(container)).toEqual([
+        { name: 'Internal', pattern: '*.corp.example.com', format: 'jpeg', quality: 80, padding: 16, hiddenSelectors: ['header'], keepHeader: false },
+        { name: 'Docs', pattern: '/docs\\.example\\.com/', longScreenshot: 'off' }
+      ]);
+    });
+
+    it('should move and remove profile cards', async () => {
+      const { renderProfiles, readProfiles } = await import('../src/options/options');
+      const container = document.createElement('div');
+
+      renderProfiles([
+        { name: 'A', pattern: 'a.example.com' },
+        { name: 'B', pattern: 'b.example.com' }
+      ], container);
+
+      (container.querySelectorAll('[data-action="up"]')[1] as HTMLButtonElement).click();
+      expect(readProfiles(container).map(profile => profile.name)).toEqual(['B', 'A']);
+
+      (container.querySelector('[data-action="remove"]') as HTMLButtonElement).click();
+      expect(readProfiles(container).map(profile => profile.name)).toEqual(['A']);
+    });
+
+    it('should describe which profile a URL matches', async () => {
+      const { describeProfileMatch } = await import('../src/options/options');
+      const profiles = [
+        { name: 'Internal', pattern: '*.corp.example.com' },
+        { name: 'Everything', pattern: '*' }
+      ];
+
+      expect(describeProfileMatch(profiles, 'https://wiki.corp.example.com/page')).toBe('符合設定檔「Internal」（第 1 個）');
+      expect(describeProfileMatch(profiles, 'https://example.org')).toBe('符合設定檔「Everything」（第 2 個）');
+      expect(describeProfileMatch([], 'https://example.org')).toBe('沒有符合的設定檔，將使用上方的預設設定');
+      expect(describeProfileMatch(profiles, 'example.org')).toContain('請輸入完整網址');
+    });
+  });
+
   describe('Notification System', () => {
     it('should show success notification', async () => {
       const { showNotification } = await import('../src/options/options');
@@ -312,8 +365,8 @@ describe('Options Page Integration', () => {
       callback(testSettings);
     });
 
-    const { loadSettings } = await import('../src/utils/settingsManager');
-    const settings = await loadSettings();
+    const { SettingsService } = await import('../src/utils/settingsService');
+    const settings = await SettingsService.load();
     
     expect(settings).toEqual(testSettings);
     expect(mockChrome.storage.sync.get).toHaveBeenCalled();
@@ -333,19 +386,23 @@ describe('Options Page Integration', () => {
       callback();
     });
 
-    const { saveSettings } = await import('../src/utils/settingsManager');
-    await saveSettings(testSettings);
+    const { SettingsService } = await import('../src/utils/settingsService');
+    await SettingsService.save(testSettings);
     
     expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(testSettings, expect.any(Function));
   });
 
   it('should reset settings to defaults', async () => {
+    mockChrome.storage.sync.get.mockImplementation((_keys, callback) => {
+      callback({ defaultFormat: 'webp' });
+    });
     mockChrome.storage.sync.set.mockImplementation((_data, callback) => {
       callback();
     });
 
-    const { resetSettings, DEFAULT_SETTINGS } = await import('../src/utils/settingsManager');
-    const result = await resetSettings();
+    const { DEFAULT_SETTINGS } = await import('../src/utils/settingsManager');
+    const { SettingsService } = await import('../src/utils/settingsService');
+    const result = await SettingsService.reset();
     
     expect(result).toEqual(DEFAULT_SETTINGS);
     expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(DEFAULT_SETTINGS, expect.any(Function));
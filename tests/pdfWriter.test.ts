@@ -0,0 +1,103 @@
+// Tests for the PDF writer used by PDF export
+
+import { describe, it, expect } from 'vitest';
+import { PdfWriter, decodeJpegDataUrl, formatPdfDate } from '../src/utils/pdfWriter';
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0xff, 0xd9]);
+
+function page(imageHeight: number) {
+  return { jpeg: JPEG, imageWidth: 400, imageHeight, pageWidth: 612, pageHeight: 792, margin: 36 };
+}
+
+function toLatin1(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+}
+
+function hexText(value: string): string {
+  return `<FEFF${Array.from(value, char => char.charCodeAt(0).toString(16).padStart(4, '0').toUpperCase()).join('')}>`;
+}
+
+describe('PdfWriter', () => {
+  it('should write one page object and image per page', () => {
+    const writer = new PdfWriter();
+    writer.addImagePage(page(300));
+    writer.addImagePage(page(200));
+
+    const pdf = toLatin1(writer.toBytes());
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Kids [4 0 R 7 0 R] /Count 2');
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(2);
+    expect(pdf).toContain('/Width 400 /Height 300');
+    expect(pdf).toContain('/Filter /DCTDecode /Length 8');
+  });
+
+  it('should point every cross-reference entry at its object', () => {
+    const writer = new PdfWriter();
+    writer.addImagePage(page(300));
+
+    const pdf = toLatin1(writer.toBytes());
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const entries = pdf.slice(xrefOffset).split('\n').slice(3, 9);
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should draw the image at the top of the page, scaled to the width inside the margin', () => {
+    const writer = new PdfWriter();
+    writer.addImagePage(page(300));
+
+    // 540pt wide, so 400x300 pixels become 540x405 points
+    expect(toLatin1(writer.toBytes())).toContain('q 540 0 0 405 36 351 cm /Im0 Do Q');
+  });
+
+  it('should record the source URL and capture time in the document information', () => {
+    const writer = new PdfWriter({
+      title: '報表',
+      sourceUrl: 'https://example.com/report',
+      capturedAt: new Date('2024-01-02T03:04:05Z')
+    });
+    writer.addImagePage(page(300));
+
+    const pdf = toLatin1(writer.toBytes());
+
+    expect(pdf).toContain(`/Title ${hexText('報表')}`);
+    expect(pdf).toContain(`/Subject ${hexText('https://example.com/report')}`);
+    expect(pdf).toContain(`/SourceURL ${hexText('https://example.com/report')}`);
+    expect(pdf).toContain(`/CreationDate ${hexText('D:20240102030405Z')}`);
+    expect(pdf).toContain('/Info 3 0 R');
+  });
+
+  it('should refuse to write a document without pages', () => {
+    expect(() => new PdfWriter().toBytes()).toThrow('PDF has no pages');
+  });
+
+  it('should encode the document as a PDF data URL', () => {
+    const writer = new PdfWriter();
+    writer.addImagePage(page(300));
+
+    const dataUrl = writer.toDataUrl();
+
+    expect(dataUrl.startsWith('data:application/pdf;base64,')).toBe(true);
+    expect(atob(dataUrl.split(',')[1])).toBe(toLatin1(writer.toBytes()));
+  });
+});
+
+describe('PDF helpers', () => {
+  it('should decode JPEG data URLs', () => {
+    expect(decodeJpegDataUrl('data:image/jpeg;base64,/9j/2Q==')).toEqual(new Uint8Array([0xff, 0xd8, 0xff, 0xd9]));
+  });
+
+  it('should reject images that are not JPEG', () => {
+    expect(() => decodeJpegDataUrl('data:image/png;base64,iVBORw0KGgo=')).toThrow('Expected a JPEG data URL');
+  });
+
+  it('should format dates in UTC', () => {
+    expect(formatPdfDate(new Date('2024-11-05T23:59:01Z'))).toBe('D:20241105235901Z');
+  });
+});
@@ -0,0 +1,169 @@
+// Tests for following a running capture in the popup, driven by the background script's messages
+
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { MessageType, MessageResponse } from '../src/types';
+
+type Listener = (message: any, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) => boolean | void;
+
+const TAB = { id: 7, windowId: 1, url: 'https://example.com/', title: 'Example' };
+
+// Every runtime listener, popup and background alike, as in one extension
+const listeners: Listener[] = [];
+const popupMessages: any[] = [];
+
+function dispatch(message: any, sender: chrome.runtime.MessageSender): Promise<MessageResponse | undefined> {
+  return new Promise(resolveResponse => {
+    let pending = 0;
+    for (const listener of [...listeners]) {
+      if (listener(message, sender, resolveResponse) === true) {
+        pending++;
+      }
+    }
+    if (pending === 0) {
+      resolveResponse(undefined);
+    }
+  });
+}
+
+// The capture stays in flight until the test lets it finish
+let finishCapture: (dataUrl: string) => void = () => {};
+const captureVisibleTab = vi.fn(() => new Promise<string>(resolveCapture => {
+  finishCapture = resolveCapture;
+}));
+
+function flush(): Promise<void> {
+  return new Promise(resolveFlush => setTimeout(resolveFlush, 0));
+}
+
+beforeAll(async () => {
+  const html = readFileSync(resolve(__dirname, '../public/popup.html'), 'utf-8');
+  document.body.innerHTML = new DOMParser().parseFromString(html, 'text/html').body.innerHTML;
+
+  Object.assign(chrome, {
+    runtime: {
+      lastError: null,
+      onInstalled: { addListener: vi.fn() },
+      onMessage: { addListener: (listener: Listener) => listeners.push(listener) },
+      getManifest: () => ({ version: '1.0.0' }),
+      getURL: (path: string) => `chrome-extension://test/${path}`,
+      sendMessage: vi.fn((message: any, callback?: (response: any) => void) => {
+        const response = dispatch(message, {});
+        if (callback) {
+          response.then(callback);
+        }
+        return response;
+      })
+    },
+    tabs: {
+      query: vi.fn(async () => [TAB]),
+      get: vi.fn(async () => TAB),
+      sendMessage: vi.fn((_tabId: number, _message: any, callback?: (response: any) => void) => {
+        callback?.({ success: true });
+      }),
+      captureVisibleTab
+    },
+    storage: {
+      sync: {
+        get: vi.fn((_keys: unknown, callback: (items: Record<string, unknown>) => void) => callback({})),
+        set: vi.fn((_items: unknown, callback: () => void) => callback())
+      },
+      local: {
+        get: vi.fn(async () => ({})),
+        set: vi.fn(async () => undefined)
+      },
+      onChanged: { addListener: vi.fn(), removeListener: vi.fn() }
+    }
+  });
+
+  await import('../src/background/background');
+});
+
+const elementInfo = {
+  selector: '#target',
+  boundingRect: { x: 0, y: 0, width: 100, height: 50, top: 0, left: 0, right: 100, bottom: 50 },
+  scrollHeight: 50,
+  scrollWidth: 100,
+  isScrollable: false,
+  totalHeight: 50,
+  visibleHeight: 50
+};
+
+// The content script reports the picked element; the capture then waits on captureVisibleTab.
+// The capture is wrapped, so awaiting this doesn't wait for it to finish.
+async function startCapture(): Promise<{ capture: Promise<MessageResponse | undefined> }> {
+  const calls = captureVisibleTab.mock.calls.length;
+  const capture = dispatch(
+    { type: MessageType.ELEMENT_SELECTED, payload: { elementInfo } },
+    { tab: TAB as chrome.tabs.Tab, frameId: 0 }
+  );
+  await vi.waitFor(() => expect(captureVisibleTab).toHaveBeenCalledTimes(calls + 1));
+  return { capture };
+}
+
+async function openPopup(): Promise<void> {
+  await import('../src/popup/popup');
+  document.dispatchEvent(new Event('DOMContentLoaded'));
+
+  // Record what reaches the popup's listener
+  const popupListener = listeners[listeners.length - 1]!;
+  listeners[listeners.length - 1] = (message, sender, sendResponse) => {
+    popupMessages.push(message);
+    return popupListener(message, sender, sendResponse);
+  };
+  await flush();
+}
+
+describe('Popup session tracking', () => {
+  it('should show and cancel a capture that was running when the popup opened', async () => {
+    const { capture } = await startCapture();
+    await openPopup();
+
+    const progressSection = document.getElementById('progress-section')!;
+    expect(progressSection.classList.contains('hidden')).toBe(false);
+    expect(document.getElementById('progress-text')!.textContent).toBe('開始截圖捕獲...');
+    expect(document.getElementById('status-text')!.textContent).toBe('開始截圖捕獲...');
+
+    (document.getElementById('cancel-session') as HTMLButtonElement).click();
+    await vi.waitFor(() => {
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        { type: MessageType.CANCEL_SESSION, payload: { tabId: TAB.id } },
+        expect.any(Function)
+      );
+    });
+    await flush();
+    finishCapture('data:image/png;base64,AAAA');
+
+    const response = await capture;
+    expect(response?.data.status).toBe('screenshot_cancelled');
+    expect(popupMessages.some(message => message.type === MessageType.SESSION_CANCELLED)).toBe(true);
+    expect(progressSection.classList.contains('hidden')).toBe(true);
+    expect(document.getElementById('status-text')!.textContent).toBe('截圖已取消');
+
+    const idle = await dispatch({ type: MessageType.GET_ACTIVE_SESSION, payload: { tabId: TAB.id } }, {});
+    expect(idle).toMatchObject({ success: true, data: null });
+  });
+
+  it('should follow progress and cancellation sent while the popup is open', async () => {
+    const progressSection = document.getElementById('progress-section')!;
+    popupMessages.length = 0;
+
+    const { capture } = await startCapture();
+    expect(popupMessages).toContainEqual({
+      type: MessageType.SCREENSHOT_PROGRESS,
+      data: expect.objectContaining({ progress: 10, status: '開始截圖捕獲...' })
+    });
+    expect(progressSection.classList.contains('hidden')).toBe(false);
+
+    // Cancelled from elsewhere, such as the page's Escape key
+    const cancelled = await dispatch({ type: MessageType.CANCEL_SESSION, payload: { tabId: TAB.id } }, {});
+    expect(cancelled?.success).toBe(true);
+    finishCapture('data:image/png;base64,AAAA');
+    await capture;
+
+    expect(popupMessages.some(message => message.type === MessageType.SESSION_CANCELLED)).toBe(true);
+    expect(progressSection.classList.contains('hidden')).toBe(true);
+    expect(document.getElementById('status-text')!.textContent).toBe('截圖已取消');
+  });
+});
@@ -0,0 +1,138 @@
+// Tests for drag-to-select region capture
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  normalizeRegion,
+  resizeRegion,
+  snapRegion,
+  getHandleSides,
+  createRegionElementInfo,
+  startRegionSelection,
+  stopRegionSelection,
+  confirmRegionSelection
+} from '../src/content/regionSelection';
+
+describe('Region Selection', () => {
+  describe('geometry', () => {
+    it('should normalize a drag in any direction', () => {
+      expect(normalizeRegion(200, 150, 50, 30)).toEqual({ left: 50, top: 30, width: 150, height: 120 });
+    });
+
+    it('should resize only the sides of the dragged handle', () => {
+      const rect = { left: 100, top: 100, width: 200, height: 100 };
+
+      expect(resizeRegion(rect, 'se', 20, 10)).toEqual({ left: 100, top: 100, width: 220, height: 110 });
+      expect(resizeRegion(rect, 'w', -30, 50)).toEqual({ left: 70, top: 100, width: 230, height: 100 });
+      expect(getHandleSides('nw')).toEqual(['top', 'left']);
+    });
+
+    it('should flip when a side is dragged past the opposite one', () => {
+      const rect = { left: 100, top: 100, width: 50, height: 50 };
+      expect(resizeRegion(rect, 'e', -80, 0)).toEqual({ left: 70, top: 100, width: 30, height: 50 });
+    });
+
+    it('should snap sides to the nearest element edge within the threshold', () => {
+      const edges = { x: [95, 310, 400], y: [98, 250] };
+      const rect = { left: 100, top: 100, width: 205, height: 100 };
+
+      // The bottom side at 200 is 50px from the nearest edge and stays put
+      expect(snapRegion(rect, edges, 8)).toEqual({ left: 95, top: 98, width: 215, height: 102 });
+    });
+
+    it('should only snap the requested sides', () => {
+      const edges = { x: [95, 310], y: [] };
+      const rect = { left: 100, top: 100, width: 205, height: 100 };
+
+      expect(snapRegion(rect, edges, 8, ['right'])).toEqual({ left: 100, top: 100, width: 210, height: 100 });
+    });
+
+    it('should not snap a region down to nothing', () => {
+      const edges = { x: [100], y: [] };
+      const rect = { left: 98, top: 0, width: 4, height: 50 };
+
+      expect(snapRegion(rect, edges, 8)).toEqual(rect);
+    });
+  });
+
+  it('should describe a region as a plain element at its page position', () => {
+    const info = createRegionElementInfo({ left: 40, top: 1200, width: 300, height: 150 });
+
+    expect(info.boundingRect.left).toBe(40);
+    expect(info.boundingRect.bottom).toBe(1350);
+    expect(JSON.parse(JSON.stringify(info.boundingRect))).toEqual({
+      x: 40, y: 1200, width: 300, height: 150, top: 1200, right: 340, bottom: 1350, left: 40
+    });
+    expect(info.isScrollable).toBe(false);
+    expect(info.hasTransform || info.hasShadow || info.isFixed).toBe(false);
+  });
+
+  describe('dragging', () => {
+    let overlay: HTMLElement;
+    const onConfirm = vi.fn();
+    const onCancel = vi.fn();
+
+    const mouse = (target: EventTarget, type: string, clientX: number, clientY: number) => {
+      target.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, clientX, clientY, button: 0 }));
+    };
+
+    beforeEach(() => {
+      overlay = document.createElement('div');
+      overlay.className = 'screenshot-selection-overlay';
+      document.body.appendChild(overlay);
+      onConfirm.mockClear();
+      onCancel.mockClear();
+      startRegionSelection(overlay, { onConfirm, onCancel });
+    });
+
+    afterEach(() => {
+      stopRegionSelection();
+      document.body.innerHTML = '';
+    });
+
+    it('should draw a region with handles and a toolbar', () => {
+      mouse(overlay, 'mousedown', 10, 20);
+      mouse(document, 'mousemove', 110, 70);
+      mouse(document, 'mouseup', 110, 70);
+
+      const box = document.querySelector('.screenshot-region-selection') as HTMLElement;
+      expect(box.style.width).toBe('100px');
+      expect(box.style.height).toBe('50px');
+      expect(box.querySelectorAll('.screenshot-region-handle')).toHaveLength(8);
+      expect(document.querySelector('.screenshot-region-size')?.textContent).toBe('100 × 50');
+    });
+
+    it('should resize with a handle before confirming', () => {
+      mouse(overlay, 'mousedown', 10, 20);
+      mouse(document, 'mousemove', 110, 70);
+      mouse(document, 'mouseup', 110, 70);
+
+      const handle = document.querySelector('.screenshot-region-handle-se')!;
+      mouse(handle, 'mousedown', 110, 70);
+      mouse(document, 'mousemove', 160, 90);
+      mouse(document, 'mouseup', 160, 90);
+
+      expect(confirmRegionSelection()).toBe(true);
+      expect(onConfirm).toHaveBeenCalledWith({ left: 10, top: 20, width: 150, height: 70 });
+      expect(document.querySelector('.screenshot-region-selection')).toBeNull();
+    });
+
+    it('should ignore clicks without a drag', () => {
+      mouse(overlay, 'mousedown', 10, 20);
+      mouse(document, 'mouseup', 12, 21);
+
+      expect(document.querySelector('.screenshot-region-selection')).toBeNull();
+      expect(confirmRegionSelection()).toBe(false);
+      expect(onConfirm).not.toHaveBeenCalled();
+    });
+
+    it('should cancel from the toolbar', () => {
+      mouse(overlay, 'mousedown', 10, 20);
+      mouse(document, 'mousemove', 110, 70);
+      mouse(document, 'mouseup', 110, 70);
+
+      (document.querySelector('.screenshot-region-cancel') as HTMLButtonElement).click();
+      expect(onCancel).toHaveBeenCalled();
+      expect(document.querySelector('.screenshot-region-toolbar')).toBeNull();
+    });
+  });
+});
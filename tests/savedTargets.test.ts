@@ -0,0 +1,82 @@
+// Tests for saved capture targets
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SavedTargets, MAX_SAVED_TARGETS } from '../src/utils/savedTargets';
+import { SavedTarget } from '../src/types';
+
+function target(id: string, lastUsedAt: number): SavedTarget {
+  return { id, urlPattern: 'https://example.com/', selector: `#${id}`, createdAt: 0, lastUsedAt };
+}
+
+describe('SavedTargets', () => {
+  let stored: Record<string, any>;
+
+  beforeEach(() => {
+    stored = {};
+    (global as any).chrome.storage.local = {
+      get: vi.fn(async (key: string) => (key in stored ? { [key]: stored[key] } : {})),
+      set: vi.fn(async (items: Record<string, any>) => { Object.assign(stored, items); })
+    };
+  });
+
+  describe('URL patterns', () => {
+    it('should keep the origin and path but drop the query and fragment', () => {
+      expect(SavedTargets.createUrlPattern('https://dash.example.com/board/sales?range=7d#top'))
+        .toBe('https://dash.example.com/board/sales');
+    });
+
+    it('should not create patterns for non-web pages', () => {
+      expect(SavedTargets.createUrlPattern('chrome://extensions/')).toBeNull();
+      expect(SavedTargets.createUrlPattern('not a url')).toBeNull();
+    });
+
+    it('should match the same page regardless of query string', () => {
+      const pattern = 'https://dash.example.com/board/sales';
+
+      expect(SavedTargets.matchesUrl(pattern, 'https://dash.example.com/board/sales?date=today')).toBe(true);
+      expect(SavedTargets.matchesUrl(pattern, 'https://dash.example.com/board/costs')).toBe(false);
+      expect(SavedTargets.matchesUrl(pattern, 'https://dash.example.com/board/sales/detail')).toBe(false);
+    });
+
+    it('should treat * as a wildcard and everything else literally', () => {
+      expect(SavedTargets.matchesUrl('https://dash.example.com/board/*', 'https://dash.example.com/board/costs')).toBe(true);
+      expect(SavedTargets.matchesUrl('https://dash.example.com/board/*', 'https://dash.example.org/board/costs')).toBe(false);
+      expect(SavedTargets.matchesUrl('https://a.example.com/', 'https://aXexample.com/')).toBe(false);
+    });
+  });
+
+  it('should refresh an existing target instead of duplicating it', async () => {
+    const first = await SavedTargets.record('https://example.com/page?x=1', '#chart', 'Dashboard');
+    const second = await SavedTargets.record('https://example.com/page?x=2', '#chart', 'Dashboard');
+
+    const targets = await SavedTargets.list();
+    expect(targets).toHaveLength(1);
+    expect(second!.id).toBe(first!.id);
+  });
+
+  it('should list only targets for the current page, most recent first', async () => {
+    await SavedTargets.record('https://example.com/a', '#one');
+    await SavedTargets.record('https://example.com/b', '#two');
+    await SavedTargets.record('https://example.com/a', '#three');
+
+    const targets = await SavedTargets.listForUrl('https://example.com/a#section');
+    expect(targets.map(item => item.selector).sort()).toEqual(['#one', '#three']);
+  });
+
+  it('should delete a target', async () => {
+    const saved = await SavedTargets.record('https://example.com/', '#chart');
+    await SavedTargets.delete(saved!.id);
+
+    expect(await SavedTargets.list()).toEqual([]);
+  });
+
+  it('should prune the least recently used targets', () => {
+    const targets = Array.from({ length: MAX_SAVED_TARGETS + 2 }, (_, i) => target(`t${i}`, i));
+    const kept = SavedTargets.prune(targets, MAX_SAVED_TARGETS);
+
+    expect(kept).toHaveLength(MAX_SAVED_TARGETS);
+    expect(kept.map(item => item.id)).not.toContain('t0');
+    expect(kept.map(item => item.id)).not.toContain('t1');
+    expect(kept[0].id).toBe(`t${MAX_SAVED_TARGETS + 1}`);
+  });
+});
@@ -32,7 +32,10 @@ const mockCanvas = {
 const mockContext = {
   drawImage: vi.fn(),
   fillStyle: '',
-  fillRect: vi.fn()
+  fillRect: vi.fn(),
+  save: vi.fn(),
+  restore: vi.fn(),
+  setTransform: vi.fn()
 };
 
 const mockImage = {
@@ -173,6 +176,55 @@ describe('ScreenshotProcessor', () => {
       expect(mockCanvas.height).toBe(300); // 150 * 2
     });
 
+    it('should crop transformed elements whose matrix arrived through messaging', async () => {
+      // A DOMMatrix loses its methods on the way from the content script to the offscreen document
+      const matrix = { a: 1.5, b: 0, c: 0, d: 1.5, e: -50, f: -25, transformPoint: () => ({ x: 0, y: 0 }) };
+      const bounds = { left: 100, top: 50, width: 200, height: 150, x: 100, y: 50, right: 300, bottom: 200 };
+      const elementInfo: ElementInfo = JSON.parse(JSON.stringify({
+        ...mockElementInfo,
+        boundingRect: { ...bounds, toJSON: () => bounds },
+        hasTransform: true,
+        transformMatrix: matrix
+      }));
+
+      setTimeout(() => {
+        if (mockImage.onload) {
+          mockImage.onload();
+        }
+      }, 0);
+
+      await ScreenshotProcessor.cropToElement('data:image/png;base64,test-data', elementInfo, 1);
+
+      // Corners (100, 50) and (300, 200) scale by 1.5 and move by (-50, -25)
+      expect(mockCanvas.width).toBe(300);
+      expect(mockCanvas.height).toBe(225);
+      expect(mockContext.setTransform).toHaveBeenCalledWith(1.5, 0, 0, 1.5, -50, -25);
+      expect(mockContext.drawImage).toHaveBeenCalledWith(mockImage, 100, 50, 300, 225, 0, 0, 300, 225);
+    });
+
+    it('should crop framed elements to the visible part of the frame', async () => {
+      const framedElementInfo: ElementInfo = {
+        ...mockElementInfo,
+        isInIframe: true,
+        iframeInfo: {
+          iframeSelector: '',
+          iframeBounds: { x: 400, y: 100, left: 400, top: 100, width: 300, height: 200, right: 700, bottom: 300 } as DOMRect,
+          relativePosition: { x: 150, y: 20 }
+        }
+      };
+
+      setTimeout(() => {
+        if (mockImage.onload) {
+          mockImage.onload();
+        }
+      }, 0);
+
+      await ScreenshotProcessor.cropToElement('data:image/png;base64,test-data', framedElementInfo, 1);
+
+      // The element is 200px wide but only 150px of it is inside the frame
+      expect(mockContext.drawImage).toHaveBeenCalledWith(mockImage, 550, 120, 150, 150, 0, 0, 150, 150);
+    });
+
     it('should throw error when canvas context is not available', async () => {
       mockCanvas.getContext.mockReturnValue(null);
 
@@ -221,6 +273,65 @@ describe('ScreenshotProcessor', () => {
       expect(mockCanvas.toDataURL).toHaveBeenCalledWith('image/png', 0.8);
     });
 
+    it('should convert to WebP and keep transparency', async () => {
+      const mockDataUrl = 'data:image/png;base64,test-data';
+      const webpOptions = { ...mockOptions, format: 'webp' as const };
+      
+      setTimeout(() => {
+        if (mockImage.onload) {
+          mockImage.onload();
+        }
+      }, 0);
+
+      await ScreenshotProcessor.convertFormat(mockDataUrl, webpOptions);
+
+      expect(mockContext.fillRect).not.toHaveBeenCalled();
+      expect(mockCanvas.toDataURL).toHaveBeenCalledWith('image/webp', 0.8);
+    });
+
+    it('should wrap the image in a PDF with JPEG pages', async () => {
+      const mockDataUrl = 'data:image/png;base64,test-data';
+      const pdfOptions: ScreenshotOptions = {
+        ...mockOptions,
+        format: 'pdf',
+        pdf: { pageSize: 'a4', sourceUrl: 'https://example.com/', capturedAt: '2024-01-02T03:04:05.000Z' }
+      };
+      mockCanvas.toDataURL.mockReturnValue('data:image/jpeg;base64,/9j/4AAQ');
+      
+      setTimeout(() => {
+        if (mockImage.onload) {
+          mockImage.onload();
+        }
+      }, 0);
+
+      const result = await ScreenshotProcessor.convertFormat(mockDataUrl, pdfOptions);
+      const pdf = atob(result.split(',')[1]);
+
+      expect(result.startsWith('data:application/pdf;base64,')).toBe(true);
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 1');
+      expect(pdf).toContain('/Width 800 /Height 600');
+      expect(mockContext.fillStyle).toBe('#FFFFFF');
+      expect(mockCanvas.toDataURL).toHaveBeenCalledWith('image/jpeg', 0.8);
+    });
+
+    it('should put several images into one PDF in order', async () => {
+      const loadSpy = vi.spyOn(ScreenshotProcessor as any, 'loadImage').mockResolvedValue(mockImage);
+      mockCanvas.toDataURL.mockReturnValue('data:image/jpeg;base64,/9j/4AAQ');
+
+      const result = await ScreenshotProcessor.createPdf(
+        ['data:image/png;base64,tile1', 'data:image/png;base64,tile2'],
+        { ...mockOptions, format: 'pdf', pdf: { pageSize: 'a4' } }
+      );
+      const pdf = atob(result.split(',')[1]);
+      const loaded = loadSpy.mock.calls.map(call => call[0]);
+      loadSpy.mockRestore();
+
+      expect(loaded).toEqual(['data:image/png;base64,tile1', 'data:image/png;base64,tile2']);
+      expect(pdf).toContain('/Count 2');
+      expect(pdf.match(/\/Width 800 \/Height 600/g)).toHaveLength(2);
+    });
+
     it('should handle image loading errors', async () => {
       const mockDataUrl = 'data:image/png;base64,test-data';
       
@@ -263,6 +374,72 @@ describe('ScreenshotProcessor', () => {
 
       expect(result).toMatch(/\.jpg$/);
     });
+
+    it('should use the pdf extension for pdf format', () => {
+      expect(ScreenshotProcessor.generateFilename('report', 'pdf')).toBe('report.pdf');
+    });
+
+    it('should use the registered extension for webp format', () => {
+      const result = ScreenshotProcessor.generateFilename('screenshot', 'webp');
+
+      expect(result).toBe('screenshot.webp');
+    });
+  });
+
+  describe('composeImages', () => {
+    it('should find the area covering every rect', () => {
+      const bounds = ScreenshotProcessor.getUnionBounds([
+        { left: 100, top: 300, width: 200, height: 50 },
+        { left: 40, top: 1200, width: 100, height: 80 }
+      ]);
+
+      expect(bounds).toEqual({ left: 40, top: 300, width: 260, height: 980 });
+    });
+
+    it('should draw each part at its offset on a white canvas', async () => {
+      vi.spyOn(ScreenshotProcessor as any, 'loadImage').mockResolvedValue(mockImage);
+
+      const result = await ScreenshotProcessor.composeImages([
+        { dataUrl: 'data:image/png;base64,first', x: 60, y: 0 },
+        { dataUrl: 'data:image/png;base64,second', x: 0, y: 900 }
+      ], 260, 980, 2);
+
+      expect(result).toBe('data:image/png;base64,mock-data');
+      expect(mockCanvas.width).toBe(520);
+      expect(mockCanvas.height).toBe(1960);
+      expect(mockContext.fillRect).toHaveBeenCalledWith(0, 0, 520, 1960);
+      expect(mockContext.drawImage).toHaveBeenNthCalledWith(1, mockImage, 120, 0);
+      expect(mockContext.drawImage).toHaveBeenNthCalledWith(2, mockImage, 0, 1800);
+    });
+  });
+
+  describe('calculatePageBreaks', () => {
+    it('should fill pages when pixels cannot be read', () => {
+      expect(ScreenshotProcessor.calculatePageBreaks(2500, 1000, () => null)).toEqual([1000, 2000, 2500]);
+    });
+
+    it('should move page breaks up to the nearest blank row', () => {
+      // Blank rows at 940 and 1900 separate lines of text
+      const blank = new Set([940, 1900]);
+      const readFlatRows = (top: number, bottom: number) =>
+        Array.from({ length: bottom - top }, (_, index) => blank.has(top + index));
+
+      expect(ScreenshotProcessor.calculatePageBreaks(2500, 1000, readFlatRows)).toEqual([940, 1900, 2500]);
+    });
+
+    it('should not search further than the break search window', () => {
+      const readFlatRows = (top: number, bottom: number) =>
+        Array.from({ length: bottom - top }, (_, index) => top + index === 500);
+
+      expect(ScreenshotProcessor.calculatePageBreaks(1500, 1000, readFlatRows)).toEqual([1000, 1500]);
+    });
+
+    it('should keep images shorter than a page on one page', () => {
+      const readFlatRows = vi.fn(() => null);
+
+      expect(ScreenshotProcessor.calculatePageBreaks(800, 1000, readFlatRows)).toEqual([800]);
+      expect(readFlatRows).not.toHaveBeenCalled();
+    });
   });
 
   describe('downloadScreenshot', () => {
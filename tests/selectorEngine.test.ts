@@ -0,0 +1,138 @@
+// Tests for stable selector generation
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SelectorEngine } from '../src/utils/selectorEngine';
+
+describe('SelectorEngine', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should prefer test attributes over generated ids and classes', () => {
+    document.body.innerHTML = `
+      <div id=":r3:" class="Card_root__x9f2k" data-testid="revenue-card">Revenue</div>
+    `;
+    const element = document.querySelector('div')!;
+
+    expect(SelectorEngine.generate(element).selector).toBe('[data-testid="revenue-card"]');
+  });
+
+  it('should escape ids that are not valid identifiers', () => {
+    document.body.innerHTML = '<div id="chart.main"></div>';
+    const element = document.querySelector('div')!;
+    const { selector } = SelectorEngine.generate(element);
+
+    expect(selector).toBe('#chart\\.main');
+    expect(document.querySelector(selector)).toBe(element);
+  });
+
+  it('should use an ARIA label before a structural path', () => {
+    document.body.innerHTML = `
+      <nav><button aria-label="Open menu">☰</button><button aria-label="Search">🔍</button></nav>
+    `;
+    const element = document.querySelectorAll('button')[1];
+
+    expect(SelectorEngine.generate(element).selector).toBe('button[aria-label="Search"]');
+  });
+
+  it('should skip hashed, utility and state classes', () => {
+    expect(SelectorEngine.isVolatileClass('Button_root__a1b2c')).toBe(true);
+    expect(SelectorEngine.isVolatileClass('css-1x2y3z')).toBe(true);
+    expect(SelectorEngine.isVolatileClass('md:flex')).toBe(true);
+    expect(SelectorEngine.isVolatileClass('px-4')).toBe(true);
+    expect(SelectorEngine.isVolatileClass('is-active')).toBe(true);
+    expect(SelectorEngine.isVolatileClass('widget')).toBe(false);
+    expect(SelectorEngine.isVolatileClass('item3')).toBe(false);
+
+    document.body.innerHTML = '<section><div class="widget px-4 Widget_box__k3j9d">A</div></section>';
+    expect(SelectorEngine.generate(document.querySelector('.widget')!).selector).toBe('section > div.widget');
+  });
+
+  it('should anchor paths at the nearest identifiable ancestor', () => {
+    document.body.innerHTML = `
+      <main><div data-testid="sales"><ul><li>One</li><li>Two</li></ul></div></main>
+    `;
+    const element = document.querySelectorAll('li')[1];
+    const { selector } = SelectorEngine.generate(element);
+
+    expect(selector).toBe('[data-testid="sales"] > ul > li:nth-of-type(2)');
+    expect(document.querySelector(selector)).toBe(element);
+  });
+
+  it('should count positions among siblings of the same tag', () => {
+    document.body.innerHTML = '<article><h2>Title</h2><p>First</p><p>Second</p></article>';
+    const element = document.querySelectorAll('p')[1];
+    const { selector } = SelectorEngine.generate(element);
+
+    expect(selector).toBe('article > p:nth-of-type(2)');
+    expect(document.querySelector(selector)).toBe(element);
+  });
+
+  it('should rank text-anchored and absolute XPath fallbacks after CSS', () => {
+    document.body.innerHTML = `
+      <div id="panel"><span>Total</span></div>
+      <div><span>Total</span></div>
+    `;
+    const element = document.querySelector('#panel span')!;
+    const { fallbacks } = SelectorEngine.generate(element);
+
+    expect(fallbacks.map(candidate => candidate.strategy)).toEqual(['text', 'xpath']);
+    expect(fallbacks[0].value).toBe(`//*[@id='panel']//span[normalize-space(.)='Total']`);
+    expect(fallbacks[1].value).toBe('/html/body/div[1]/span');
+    for (const candidate of fallbacks) {
+      expect(SelectorEngine.resolve(candidate)).toBe(element);
+    }
+  });
+
+  it('should find an element through its fallbacks when the selector breaks', () => {
+    document.body.innerHTML = '<div><button>Export</button></div>';
+    const element = document.querySelector('button')!;
+    const { fallbacks } = SelectorEngine.generate(element);
+
+    expect(SelectorEngine.find('#removed-id', fallbacks)).toBe(element);
+    expect(SelectorEngine.find('#removed-id', [])).toBeNull();
+    expect(SelectorEngine.find('div[', [])).toBeNull();
+  });
+
+  describe('shadow DOM', () => {
+    const attach = (host: Element, html: string) => {
+      const root = host.attachShadow({ mode: 'open' });
+      root.innerHTML = html;
+      return root;
+    };
+
+    it('should join host and inner selectors with >>>', () => {
+      document.body.innerHTML = '<main><app-card></app-card><app-card data-testid="sales"></app-card></main>';
+      const root = attach(document.querySelectorAll('app-card')[1], '<header class="title">Sales</header><slot></slot>');
+      const element = root.querySelector('header')!;
+      const { selector, fallbacks } = SelectorEngine.generate(element);
+
+      expect(selector).toBe('[data-testid="sales"] >>> header.title');
+      expect(SelectorEngine.querySelectorDeep(selector)).toBe(element);
+      // XPath cannot reach into shadow roots
+      expect(fallbacks.every(candidate => candidate.type === 'css')).toBe(true);
+      for (const candidate of fallbacks) {
+        expect(SelectorEngine.resolve(candidate)).toBe(element);
+      }
+    });
+
+    it('should follow nested shadow roots', () => {
+      document.body.innerHTML = '<app-shell id="shell"></app-shell>';
+      const outer = attach(document.querySelector('app-shell')!, '<nav-bar></nav-bar><nav-bar></nav-bar>');
+      const inner = attach(outer.querySelectorAll('nav-bar')[1], '<button aria-label="Menu">☰</button>');
+      const button = inner.querySelector('button')!;
+      const { selector } = SelectorEngine.generate(button);
+
+      expect(selector).toBe('#shell >>> nav-bar:nth-of-type(2) >>> button[aria-label="Menu"]');
+      expect(SelectorEngine.find(selector)).toBe(button);
+      expect(SelectorEngine.getShadowHost(button)).toBe(outer.querySelectorAll('nav-bar')[1]);
+    });
+
+    it('should find nothing when a hop has no shadow root', () => {
+      document.body.innerHTML = '<div id="plain"><span>Text</span></div>';
+
+      expect(SelectorEngine.querySelectorDeep('#plain >>> span')).toBeNull();
+      expect(SelectorEngine.find('#plain >>> span')).toBeNull();
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { UserSettings } from '../src/types';
+import { SettingsService } from '../src/utils/settingsService';
+import { SettingsTransfer, SETTINGS_DOCUMENT_TYPE } from '../src/utils/settingsTransfer';
 
 // Mock Chrome APIs
 const mockChrome = {
@@ -8,8 +10,13 @@ const mockChrome = {
       get: vi.fn(),
       set: vi.fn()
     },
+    local: {
+      get: vi.fn(),
+      set: vi.fn()
+    },
     onChanged: {
-      addListener: vi.fn()
+      addListener: vi.fn(),
+      removeListener: vi.fn()
     }
   },
   runtime: {
@@ -33,21 +40,17 @@ describe('Settings Management Integration', () => {
   describe('Complete Settings Workflow', () => {
     it('should handle complete settings lifecycle', async () => {
       const { 
-        loadSettings, 
-        saveSettings, 
-        updateSettings, 
-        resetSettings, 
-        validateSettings,
-        generateFilename,
+        validateSettings, 
         DEFAULT_SETTINGS 
       } = await import('../src/utils/settingsManager');
+      const { FilenameTemplate } = await import('../src/utils/filenameTemplate');
 
       // 1. Initial load should return defaults
       mockChrome.storage.sync.get.mockImplementationOnce((_keys, callback) => {
         callback({});
       });
 
-      const initialSettings = await loadSettings();
+      const initialSettings = await SettingsService.load();
       expect(initialSettings).toEqual(DEFAULT_SETTINGS);
 
       // 2. Save custom settings
@@ -64,7 +67,7 @@ describe('Settings Management Integration', () => {
         callback();
       });
 
-      await saveSettings(customSettings);
+      await SettingsService.save(customSettings);
       expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(customSettings, expect.any(Function));
 
       // 3. Load saved settings
@@ -72,7 +75,7 @@ describe('Settings Management Integration', () => {
         callback(customSettings);
       });
 
-      const loadedSettings = await loadSettings();
+      const loadedSettings = await SettingsService.load();
       expect(loadedSettings).toEqual(customSettings);
 
       // 4. Update partial settings
@@ -85,7 +88,7 @@ describe('Settings Management Integration', () => {
         callback();
       });
 
-      const updatedSettings = await updateSettings(updates);
+      const updatedSettings = await SettingsService.update(updates);
       expect(updatedSettings).toEqual({ ...customSettings, ...updates });
 
       // 5. Validate settings
@@ -94,15 +97,18 @@ describe('Settings Management Integration', () => {
       expect(validation.errors).toHaveLength(0);
 
       // 6. Generate filename
-      const filename = generateFilename(updatedSettings.filenameTemplate, updatedSettings.defaultFormat);
-      expect(filename).toMatch(/^custom-\d+\.jpg$/);
+      const filename = FilenameTemplate.render(updatedSettings.filenameTemplate, updatedSettings.defaultFormat);
+      expect(filename).toMatch(/^custom-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.jpg$/);
 
       // 7. Reset to defaults
+      mockChrome.storage.sync.get.mockImplementationOnce((_keys, callback) => {
+        callback(updatedSettings);
+      });
       mockChrome.storage.sync.set.mockImplementationOnce((_data, callback) => {
         callback();
       });
 
-      const resetResult = await resetSettings();
+      const resetResult = await SettingsService.reset();
       expect(resetResult).toEqual(DEFAULT_SETTINGS);
       expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(DEFAULT_SETTINGS, expect.any(Function));
     });
@@ -121,31 +127,24 @@ describe('Settings Management Integration', () => {
 
       const validation = validateSettings(invalidSettings);
       expect(validation.isValid).toBe(false);
-      expect(validation.errors).toContain('Invalid format: must be png or jpeg');
+      expect(validation.errors).toContain('Invalid format: must be one of png, jpeg, webp, pdf');
       expect(validation.errors).toContain('Invalid quality: must be a number between 10 and 100');
-      expect(validation.errors).toContain('Invalid filename template: cannot be empty or contain path separators');
+      expect(validation.errors).toContain('Invalid filename template: cannot contain backslashes');
       expect(validation.errors).toContain('Invalid autoDownload: must be boolean');
       expect(validation.errors).toContain('Invalid highlight color: must be a valid hex color');
     });
 
     it('should handle filename generation with all template variables', async () => {
-      const { generateFilename } = await import('../src/utils/settingsManager');
+      const { FilenameTemplate } = await import('../src/utils/filenameTemplate');
 
       // Test all template variables
       const template = 'screenshot-{timestamp}-{date}-{time}';
-      const filename = generateFilename(template, 'png');
+      const filename = FilenameTemplate.render(template, 'png');
 
-      expect(filename).toMatch(/^screenshot-\d+-\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2}\.png$/);
+      expect(filename).toMatch(/^screenshot-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2}\.png$/);
     });
 
     it('should handle import/export functionality', async () => {
-      const { 
-        exportSettings, 
-        importSettings, 
-        saveSettings,
-        loadSettings 
-      } = await import('../src/utils/settingsManager');
-
       const testSettings: UserSettings = {
         defaultFormat: 'jpeg',
         defaultQuality: 80,
@@ -154,32 +153,49 @@ describe('Settings Management Integration', () => {
         showProgress: false,
         highlightColor: '#00ff00'
       };
+      const savedTarget = {
+        id: 'target_1',
+        urlPattern: 'https://example.com/report',
+        selector: '#chart',
+        createdAt: 1,
+        lastUsedAt: 2
+      };
 
       // Mock load for export
-      mockChrome.storage.sync.get.mockImplementationOnce((_keys, callback) => {
+      mockChrome.storage.sync.get.mockImplementation((_keys, callback) => {
         callback(testSettings);
       });
+      mockChrome.storage.local.get.mockResolvedValue({ savedTargets: [savedTarget] });
 
       // Export settings
-      const exportedJson = await exportSettings();
+      const exportedJson = await SettingsTransfer.export();
       const exportedData = JSON.parse(exportedJson);
-      expect(exportedData).toEqual(testSettings);
+      expect(exportedData).toMatchObject({
+        type: SETTINGS_DOCUMENT_TYPE,
+        version: 1,
+        settings: testSettings,
+        savedTargets: [savedTarget]
+      });
 
-      // Import settings
-      mockChrome.storage.sync.set.mockImplementationOnce((_data, callback) => {
+      // Import settings on a browser without any
+      mockChrome.storage.sync.get.mockImplementation((_keys, callback) => {
+        callback({});
+      });
+      mockChrome.storage.sync.set.mockImplementation((_data, callback) => {
         callback();
       });
+      mockChrome.storage.local.get.mockResolvedValue({});
+      mockChrome.storage.local.set.mockResolvedValue(undefined);
 
-      const importedSettings = await importSettings(exportedJson);
-      expect(importedSettings).toEqual(testSettings);
+      const result = await SettingsTransfer.apply(SettingsTransfer.parse(exportedJson), 'replace');
+      expect(result.settings).toEqual(testSettings);
       expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(testSettings, expect.any(Function));
+      expect(mockChrome.storage.local.set).toHaveBeenCalledWith({ savedTargets: [savedTarget] });
     });
 
     it('should handle import validation errors', async () => {
-      const { importSettings } = await import('../src/utils/settingsManager');
-
       // Test invalid JSON
-      await expect(importSettings('invalid json')).rejects.toThrow('Failed to import settings');
+      expect(() => SettingsTransfer.parse('invalid json')).toThrow('Failed to import settings');
 
       // Test invalid settings data
       const invalidSettingsJson = JSON.stringify({
@@ -187,19 +203,17 @@ describe('Settings Management Integration', () => {
         defaultQuality: 200
       });
 
-      await expect(importSettings(invalidSettingsJson)).rejects.toThrow('Invalid settings');
+      expect(() => SettingsTransfer.parse(invalidSettingsJson)).toThrow('Invalid settings');
     });
 
     it('should handle storage errors gracefully', async () => {
-      const { loadSettings, saveSettings } = await import('../src/utils/settingsManager');
-
       // Test load error
       mockChrome.runtime.lastError = { message: 'Storage unavailable' };
       mockChrome.storage.sync.get.mockImplementationOnce((_keys, callback) => {
         callback({});
       });
 
-      await expect(loadSettings()).rejects.toThrow('Storage unavailable');
+      await expect(SettingsService.load()).rejects.toThrow('Storage unavailable');
 
       // Test save error
       mockChrome.runtime.lastError = { message: 'Storage full' };
@@ -207,7 +221,7 @@ describe('Settings Management Integration', () => {
         callback();
       });
 
-      await expect(saveSettings({
+      await expect(SettingsService.save({
         defaultFormat: 'png',
         defaultQuality: 90,
         filenameTemplate: 'test',
@@ -218,10 +232,8 @@ describe('Settings Management Integration', () => {
     });
 
     it('should handle settings change listeners', async () => {
-      const { onSettingsChanged } = await import('../src/utils/settingsManager');
-
       const mockCallback = vi.fn();
-      onSettingsChanged(mockCallback);
+      const unsubscribe = SettingsService.onChanged(mockCallback);
 
       expect(mockChrome.storage.onChanged.addListener).toHaveBeenCalledWith(expect.any(Function));
 
@@ -232,16 +244,29 @@ describe('Settings Management Integration', () => {
         defaultQuality: { oldValue: 90, newValue: 85 }
       };
 
+      mockChrome.storage.sync.get.mockImplementation((_keys, callback) => {
+        callback({ defaultFormat: 'jpeg', defaultQuality: 85 });
+      });
+
       addedListener(changes, 'sync');
-      expect(mockCallback).toHaveBeenCalledWith(changes);
+      await vi.waitFor(() => expect(mockCallback).toHaveBeenCalledTimes(1));
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ defaultFormat: 'jpeg', defaultQuality: 85 }),
+        ['defaultFormat', 'defaultQuality']
+      );
 
-      // Should not call callback for non-sync changes
+      // Should not call callback for non-sync changes or version bumps alone
       addedListener(changes, 'local');
+      addedListener({ settingsVersion: { newValue: 1 } }, 'sync');
+      await Promise.resolve();
       expect(mockCallback).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      expect(mockChrome.storage.onChanged.removeListener).toHaveBeenCalledWith(addedListener);
     });
 
     it('should handle getSetting with various scenarios', async () => {
-      const { getSetting, DEFAULT_SETTINGS } = await import('../src/utils/settingsManager');
+      const { DEFAULT_SETTINGS } = await import('../src/utils/settingsManager');
 
       // Test successful get
       const testSettings = { ...DEFAULT_SETTINGS, defaultFormat: 'jpeg' as const };
@@ -249,7 +274,7 @@ describe('Settings Management Integration', () => {
         callback(testSettings);
       });
 
-      const format = await getSetting('defaultFormat');
+      const format = await SettingsService.get('defaultFormat');
       expect(format).toBe('jpeg');
 
       // Test with fallback
@@ -258,7 +283,7 @@ describe('Settings Management Integration', () => {
         callback({});
       });
 
-      const formatWithFallback = await getSetting('defaultFormat', 'png');
+      const formatWithFallback = await SettingsService.get('defaultFormat', 'png');
       expect(formatWithFallback).toBe('png');
 
       // Test with default fallback
@@ -267,19 +292,13 @@ describe('Settings Management Integration', () => {
         callback({});
       });
 
-      const qualityDefault = await getSetting('defaultQuality');
+      const qualityDefault = await SettingsService.get('defaultQuality');
       expect(qualityDefault).toBe(DEFAULT_SETTINGS.defaultQuality);
     });
   });
 
   describe('Settings Persistence', () => {
     it('should maintain settings consistency across operations', async () => {
-      const { 
-        saveSettings, 
-        loadSettings, 
-        updateSettings 
-      } = await import('../src/utils/settingsManager');
-
       let storedData: any = {};
 
       // Mock storage to actually store data
@@ -302,17 +321,17 @@ describe('Settings Management Integration', () => {
         highlightColor: '#007bff'
       };
 
-      await saveSettings(settings1);
-      const loaded1 = await loadSettings();
+      await SettingsService.save(settings1);
+      const loaded1 = await SettingsService.load();
       expect(loaded1).toEqual(settings1);
 
       // Update settings
       const updates = { defaultFormat: 'jpeg' as const, defaultQuality: 85 };
-      const updated = await updateSettings(updates);
+      const updated = await SettingsService.update(updates);
       expect(updated).toEqual({ ...settings1, ...updates });
 
       // Verify persistence
-      const loaded2 = await loadSettings();
+      const loaded2 = await SettingsService.load();
       expect(loaded2).toEqual({ ...settings1, ...updates });
     });
   });
@@ -6,7 +6,8 @@ const mockChrome = {
   storage: {
     sync: {
       get: vi.fn(),
-      set: vi.fn()
+      set: vi.fn(),
+      remove: vi.fn()
     }
   },
   runtime: {
@@ -19,15 +20,12 @@ global.chrome = mockChrome;
 
 // Import the functions we want to test
 import { 
-  loadSettings, 
-  saveSettings, 
   validateSettings, 
-  generateFilename, 
   DEFAULT_SETTINGS,
-  resetSettings,
-  updateSettings,
-  getSetting
+  matchesSiteList
 } from '../src/utils/settingsManager';
+import { SettingsService, SCHEMA_VERSION_KEY, SETTINGS_SCHEMA_VERSION } from '../src/utils/settingsService';
+import { FilenameTemplate } from '../src/utils/filenameTemplate';
 
 describe('Settings Management', () => {
   beforeEach(() => {
@@ -39,7 +37,7 @@ describe('Settings Management', () => {
     vi.restoreAllMocks();
   });
 
-  describe('loadSettings', () => {
+  describe('SettingsService.load', () => {
     it('should load settings from chrome storage', async () => {
       const mockSettings = {
         defaultFormat: 'jpeg' as const,
@@ -54,7 +52,7 @@ describe('Settings Management', () => {
         callback(mockSettings);
       });
 
-      const settings = await loadSettings();
+      const settings = await SettingsService.load();
       expect(settings).toEqual(mockSettings);
       expect(mockChrome.storage.sync.get).toHaveBeenCalledWith(null, expect.any(Function));
     });
@@ -64,7 +62,7 @@ describe('Settings Management', () => {
         callback({});
       });
 
-      const settings = await loadSettings();
+      const settings = await SettingsService.load();
       expect(settings).toEqual(DEFAULT_SETTINGS);
     });
 
@@ -78,7 +76,7 @@ describe('Settings Management', () => {
         callback(partialSettings);
       });
 
-      const settings = await loadSettings();
+      const settings = await SettingsService.load();
       expect(settings).toEqual({
         ...DEFAULT_SETTINGS,
         ...partialSettings
@@ -91,11 +89,11 @@ describe('Settings Management', () => {
         callback({});
       });
 
-      await expect(loadSettings()).rejects.toThrow('Storage error');
+      await expect(SettingsService.load()).rejects.toThrow('Storage error');
     });
   });
 
-  describe('saveSettingsToStorage', () => {
+  describe('SettingsService.save', () => {
     it('should save settings to chrome storage', async () => {
       const settings: UserSettings = {
         defaultFormat: 'png',
@@ -110,7 +108,7 @@ describe('Settings Management', () => {
         callback();
       });
 
-      await saveSettings(settings);
+      await SettingsService.save(settings);
       expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(settings, expect.any(Function));
     });
 
@@ -122,7 +120,7 @@ describe('Settings Management', () => {
         callback();
       });
 
-      await expect(saveSettings(settings)).rejects.toThrow('Save error');
+      await expect(SettingsService.save(settings)).rejects.toThrow('Save error');
     });
   });
 
@@ -149,7 +147,31 @@ describe('Settings Management', () => {
 
       const result = validateSettings(invalidSettings);
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid format: must be png or jpeg');
+      expect(result.errors).toContain('Invalid format: must be one of png, jpeg, webp, pdf');
+    });
+
+    it('should accept webp as a format', () => {
+      expect(validateSettings({ defaultFormat: 'webp', defaultQuality: 80 }).isValid).toBe(true);
+    });
+
+    it('should validate the history quota', () => {
+      expect(validateSettings({ historyQuotaMb: 0 }).isValid).toBe(true);
+      expect(validateSettings({ historyQuotaMb: 250 }).isValid).toBe(true);
+      expect(validateSettings({ historyQuotaMb: 1001 }).errors)
+        .toContain('Invalid historyQuotaMb: must be a whole number between 0 and 1000');
+      expect(validateSettings({ historyQuotaMb: 2.5 }).isValid).toBe(false);
+    });
+
+    it('should validate the PDF page size', () => {
+      expect(validateSettings({ defaultFormat: 'pdf', pdfPageSize: 'letter' }).isValid).toBe(true);
+      expect(validateSettings({ pdfPageSize: 'a3' as any }).errors)
+        .toContain('Invalid pdfPageSize: must be a4, letter or fit');
+    });
+
+    it('should validate the multi-element capture output', () => {
+      expect(validateSettings({ multiCaptureOutput: 'zip' }).isValid).toBe(true);
+      expect(validateSettings({ multiCaptureOutput: 'tar' as any }).errors)
+        .toContain('Invalid multiCaptureOutput: must be separate, zip or union');
     });
 
     it('should reject invalid quality', () => {
@@ -164,12 +186,13 @@ describe('Settings Management', () => {
 
     it('should reject invalid filename template', () => {
       const invalidSettings = {
-        filenameTemplate: 'file/name'
+        filenameTemplate: '../name'
       };
 
       const result = validateSettings(invalidSettings);
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('Invalid filename template: cannot be empty or contain path separators');
+      expect(result.errors).toContain('Invalid filename template: folders must be relative and cannot be . or ..');
+      expect(validateSettings({ filenameTemplate: 'shots/{hostname}/{date}' }).isValid).toBe(true);
     });
 
     it('should reject invalid color', () => {
@@ -181,6 +204,39 @@ describe('Settings Management', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('Invalid highlight color: must be a valid hex color');
     });
+
+    it('should reject invalid per-site header lists', () => {
+      expect(validateSettings({ keepHeaderSites: ['example.com'] }).isValid).toBe(true);
+
+      const result = validateSettings({ keepHeaderSites: ['example.com', ''] });
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Invalid keepHeaderSites: must be a list of hostnames');
+    });
+
+    it('should require at least one known output destination', () => {
+      expect(validateSettings({ outputDestinations: ['download', 'clipboard'] }).isValid).toBe(true);
+      expect(validateSettings({ outputDestinations: ['clipboard'] }).isValid).toBe(true);
+
+      const empty = validateSettings({ outputDestinations: [] });
+      expect(empty.isValid).toBe(false);
+      expect(empty.errors).toContain('Invalid outputDestinations: must be download, clipboard or both');
+
+      expect(validateSettings({ outputDestinations: ['printer' as any] }).isValid).toBe(false);
+    });
+  });
+
+  describe('matchesSiteList', () => {
+    it('should match listed hosts and their subdomains', () => {
+      const sites = ['example.com'];
+
+      expect(matchesSiteList('https://example.com/article', sites)).toBe(true);
+      expect(matchesSiteList('https://news.example.com/', sites)).toBe(true);
+      expect(matchesSiteList('https://notexample.com/', sites)).toBe(false);
+    });
+
+    it('should not match invalid URLs', () => {
+      expect(matchesSiteList('not a url', ['example.com'])).toBe(false);
+    });
   });
 
   describe('Default Settings', () => {
@@ -211,19 +267,19 @@ describe('Settings Management', () => {
     });
   });
 
-  describe('generateFilename', () => {
+  describe('FilenameTemplate.render', () => {
     it('should generate filename with timestamp', () => {
       const template = 'screenshot-{timestamp}';
       const format = 'png';
-      const filename = generateFilename(template, format);
+      const filename = FilenameTemplate.render(template, format);
       
-      expect(filename).toMatch(/^screenshot-\d+\.png$/);
+      expect(filename).toMatch(/^screenshot-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.png$/);
     });
 
     it('should generate filename with date and time', () => {
       const template = 'capture-{date}-{time}';
       const format = 'jpeg';
-      const filename = generateFilename(template, format);
+      const filename = FilenameTemplate.render(template, format);
       
       expect(filename).toMatch(/^capture-\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2}\.jpg$/);
     });
@@ -231,7 +287,7 @@ describe('Settings Management', () => {
     it('should add extension if missing', () => {
       const template = 'screenshot';
       const format = 'png';
-      const filename = generateFilename(template, format);
+      const filename = FilenameTemplate.render(template, format);
       
       expect(filename).toBe('screenshot.png');
     });
@@ -239,25 +295,52 @@ describe('Settings Management', () => {
     it('should use jpg extension for jpeg format', () => {
       const template = 'image-{timestamp}';
       const format = 'jpeg';
-      const filename = generateFilename(template, format);
+      const filename = FilenameTemplate.render(template, format);
       
       expect(filename).toMatch(/\.jpg$/);
     });
   });
 
-  describe('resetSettings', () => {
+  describe('SettingsService.reset', () => {
     it('should reset settings to defaults', async () => {
+      mockChrome.storage.sync.get.mockImplementation((keys, callback) => {
+        callback({ ...DEFAULT_SETTINGS, defaultFormat: 'jpeg' });
+      });
       mockChrome.storage.sync.set.mockImplementation((data, callback) => {
         callback();
       });
 
-      const result = await resetSettings();
+      const result = await SettingsService.reset();
       expect(result).toEqual(DEFAULT_SETTINGS);
       expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(DEFAULT_SETTINGS, expect.any(Function));
     });
+
+    it('should remove optional settings that have no default', async () => {
+      mockChrome.storage.sync.get.mockImplementation((keys, callback) => {
+        callback({
+          ...DEFAULT_SETTINGS,
+          captureProfiles: [{ name: 'Docs', pattern: 'docs.example.com' }],
+          keepHeaderSites: ['example.com'],
+          outputDestinations: ['clipboard']
+        });
+      });
+      mockChrome.storage.sync.set.mockImplementation((data, callback) => {
+        callback();
+      });
+      mockChrome.storage.sync.remove.mockImplementation((keys, callback) => {
+        callback();
+      });
+
+      await SettingsService.reset();
+
+      expect(mockChrome.storage.sync.remove).toHaveBeenCalledWith(
+        ['captureProfiles', 'keepHeaderSites', 'outputDestinations'],
+        expect.any(Function)
+      );
+    });
   });
 
-  describe('updateSettings', () => {
+  describe('SettingsService.update', () => {
     it('should update partial settings', async () => {
       const currentSettings = { ...DEFAULT_SETTINGS };
       const updates = { defaultFormat: 'jpeg' as const, defaultQuality: 75 };
@@ -272,13 +355,13 @@ describe('Settings Management', () => {
         callback();
       });
 
-      const result = await updateSettings(updates);
+      const result = await SettingsService.update(updates);
       expect(result).toEqual({ ...DEFAULT_SETTINGS, ...updates });
       expect(mockChrome.storage.sync.set).toHaveBeenCalledWith({ ...currentSettings, ...updates }, expect.any(Function));
     });
   });
 
-  describe('getSetting', () => {
+  describe('SettingsService.get', () => {
     it('should get specific setting value', async () => {
       const settings = { ...DEFAULT_SETTINGS, defaultFormat: 'jpeg' as const };
       
@@ -286,7 +369,7 @@ describe('Settings Management', () => {
         callback(settings);
       });
 
-      const format = await getSetting('defaultFormat');
+      const format = await SettingsService.get('defaultFormat');
       expect(format).toBe('jpeg');
     });
 
@@ -296,10 +379,84 @@ describe('Settings Management', () => {
         callback({});
       });
 
-      const format = await getSetting('defaultFormat', 'png');
+      const format = await SettingsService.get('defaultFormat', 'png');
       expect(format).toBe('png');
     });
   });
+
+  describe('SettingsService.migrate', () => {
+    it('should merge both legacy layouts, preferring the popup keys', () => {
+      const migrated = SettingsService.migrate({
+        userSettings: { defaultFormat: 'png', defaultQuality: 0.9, autoDownload: false },
+        filenameTemplate: 'page-{date}',
+        screenshotFormat: 'webp',
+        screenshotQuality: 70,
+        screenshotCaptureMode: 'visible'
+      });
+
+      expect(migrated).toEqual({
+        defaultFormat: 'webp',
+        defaultQuality: 70,
+        autoDownload: false,
+        filenameTemplate: 'page-{date}',
+        captureMode: 'visible',
+        [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION
+      });
+    });
+
+    it('should turn 0-1 qualities into percentages', () => {
+      expect(SettingsService.migrate({ userSettings: { defaultQuality: 0.85 } }).defaultQuality).toBe(85);
+      expect(SettingsService.normalizeQuality(0.05)).toBe(10);
+      expect(SettingsService.normalizeQuality(250)).toBe(100);
+      expect(SettingsService.normalizeQuality('high')).toBe(DEFAULT_SETTINGS.defaultQuality);
+    });
+
+    it('should leave current settings alone', () => {
+      const items = { defaultQuality: 1, [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION };
+      expect(SettingsService.migrate(items)).toEqual(items);
+    });
+
+    it('should load legacy settings without writing them', async () => {
+      mockChrome.storage.sync.get.mockImplementation((keys, callback) => {
+        callback({ userSettings: { defaultQuality: 0.6 }, screenshotFormat: 'jpeg' });
+      });
+
+      const settings = await SettingsService.load();
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, defaultFormat: 'jpeg', defaultQuality: 60 });
+      expect(mockChrome.storage.sync.set).not.toHaveBeenCalled();
+    });
+
+    it('should rewrite stored legacy settings and remove their keys', async () => {
+      mockChrome.storage.sync.get.mockImplementation((keys, callback) => {
+        callback({ userSettings: { defaultQuality: 0.8 }, screenshotCaptureMode: 'fullPage' });
+      });
+      mockChrome.storage.sync.remove.mockImplementation((keys, callback) => callback());
+      mockChrome.storage.sync.set.mockImplementation((data, callback) => callback());
+
+      await SettingsService.migrateStorage();
+
+      expect(mockChrome.storage.sync.remove).toHaveBeenCalledWith(
+        ['userSettings', 'screenshotCaptureMode'],
+        expect.any(Function)
+      );
+      expect(mockChrome.storage.sync.set).toHaveBeenCalledWith({
+        defaultQuality: 80,
+        captureMode: 'fullPage',
+        [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION
+      }, expect.any(Function));
+    });
+
+    it('should skip storage that is already current', async () => {
+      mockChrome.storage.sync.get.mockImplementation((keys, callback) => {
+        callback({ defaultQuality: 80, [SCHEMA_VERSION_KEY]: SETTINGS_SCHEMA_VERSION });
+      });
+
+      await SettingsService.migrateStorage();
+
+      expect(mockChrome.storage.sync.remove).not.toHaveBeenCalled();
+      expect(mockChrome.storage.sync.set).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('Settings Integration', () => {
@@ -329,11 +486,11 @@ describe('Settings Integration', () => {
     });
 
     // Save settings
-    await saveSettings(testSettings);
+    await SettingsService.save(testSettings);
     expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(testSettings, expect.any(Function));
 
     // Load settings
-    const loadedSettings = await loadSettings();
+    const loadedSettings = await SettingsService.load();
     expect(loadedSettings).toEqual(testSettings);
   });
 
@@ -349,7 +506,7 @@ describe('Settings Integration', () => {
       callback(initialSettings);
     });
 
-    const initialLoaded = await loadSettings();
+    const initialLoaded = await SettingsService.load();
     expect(initialLoaded).toEqual(DEFAULT_SETTINGS);
 
     // Save partial update
@@ -357,14 +514,14 @@ describe('Settings Integration', () => {
       callback();
     });
 
-    await saveSettings({ ...initialSettings, ...partialUpdate });
+    await SettingsService.save({ ...initialSettings, ...partialUpdate });
 
     // Load should return merged settings
     mockChrome.storage.sync.get.mockImplementationOnce((keys, callback) => {
       callback({ ...initialSettings, ...partialUpdate });
     });
 
-    const updatedSettings = await loadSettings();
+    const updatedSettings = await SettingsService.load();
     expect(updatedSettings).toEqual({ ...DEFAULT_SETTINGS, ...partialUpdate });
   });
 });
\ No newline at end of file
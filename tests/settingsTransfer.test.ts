@@ -0,0 +1,217 @@
+// Tests for settings documents, import previews and policy-locked settings
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SettingsTransfer, SETTINGS_DOCUMENT_TYPE } from '../src/utils/settingsTransfer';
+import { SettingsService } from '../src/utils/settingsService';
+import { DEFAULT_SETTINGS } from '../src/utils/settingsManager';
+import { SavedTarget, UserSettings } from '../src/types';
+
+const mockChrome = {
+  storage: {
+    sync: {
+      get: vi.fn(),
+      set: vi.fn(),
+      remove: vi.fn()
+    },
+    local: {
+      get: vi.fn(),
+      set: vi.fn()
+    },
+    managed: {
+      get: vi.fn()
+    }
+  },
+  runtime: {
+    lastError: null as { message: string } | null
+  }
+};
+
+// @ts-ignore
+global.chrome = mockChrome;
+
+function target(id: string, selector: string, lastUsedAt = 1): SavedTarget {
+  return { id, urlPattern: 'https://example.com/report', selector, createdAt: 1, lastUsedAt };
+}
+
+function documentJson(settings: object, extra: object = {}): string {
+  return JSON.stringify({
+    type: SETTINGS_DOCUMENT_TYPE,
+    version: 1,
+    schemaVersion: 1,
+    exportedAt: '2024-01-15T10:30:45.000Z',
+    settings,
+    ...extra
+  });
+}
+
+let stored: Record<string, unknown>;
+let managed: Record<string, unknown>;
+let savedTargets: SavedTarget[];
+
+describe('SettingsTransfer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockChrome.runtime.lastError = null;
+    stored = {};
+    managed = {};
+    savedTargets = [];
+
+    mockChrome.storage.sync.get.mockImplementation((_keys, callback) => callback({ ...stored }));
+    mockChrome.storage.sync.set.mockImplementation((items, callback) => {
+      stored = { ...stored, ...items };
+      callback();
+    });
+    mockChrome.storage.sync.remove.mockImplementation((keys: string[], callback) => {
+      keys.forEach(key => delete stored[key]);
+      callback();
+    });
+    mockChrome.storage.managed.get.mockImplementation((_keys, callback) => callback({ ...managed }));
+    mockChrome.storage.local.get.mockImplementation(async () => ({ savedTargets: [...savedTargets] }));
+    mockChrome.storage.local.set.mockImplementation(async (items) => {
+      savedTargets = items.savedTargets;
+    });
+  });
+
+  describe('parse', () => {
+    it('should read plain settings objects as documents without saved targets', () => {
+      const document = SettingsTransfer.parse(JSON.stringify({ defaultFormat: 'jpeg', defaultQuality: 0.8 }));
+
+      expect(document.settings).toEqual({ defaultFormat: 'jpeg', defaultQuality: 80 });
+      expect(document.savedTargets).toBeUndefined();
+    });
+
+    it('should reject documents from newer versions and invalid saved targets', () => {
+      expect(() => SettingsTransfer.parse(documentJson({}, { version: 2 })))
+        .toThrow('exported by a newer version');
+      expect(() => SettingsTransfer.parse(documentJson({}, { savedTargets: [target('a', '#a'), { id: 'b' }] })))
+        .toThrow('Invalid saved target at position 2');
+      expect(() => SettingsTransfer.parse(documentJson({ captureProfiles: [{ name: 'Docs', pattern: '/([/' }] })))
+        .toThrow('Invalid settings: Invalid capture profile Docs: invalid regular expression');
+    });
+  });
+
+  describe('unknown keys', () => {
+    it('should leave keys that are not settings out of the import and list them', async () => {
+      const document = SettingsTransfer.parse(JSON.stringify({
+        defaultFormat: 'jpeg',
+        foo: 'bar',
+        savedTargets: [target('a', '#a')]
+      }));
+
+      expect(document.settings).toEqual({ defaultFormat: 'jpeg' });
+      expect(document.ignoredKeys).toEqual(['foo', 'savedTargets']);
+      expect(document.savedTargets).toBeUndefined();
+
+      const result = await SettingsTransfer.apply(document, 'merge');
+
+      expect(result.ignoredKeys).toEqual(['foo', 'savedTargets']);
+      expect(result.changes.map(change => change.key)).toEqual(['defaultFormat']);
+      expect(stored).not.toHaveProperty('foo');
+      expect(stored).not.toHaveProperty('savedTargets');
+      expect(stored.defaultFormat).toBe('jpeg');
+    });
+
+    it('should leave stray stored keys out of loaded settings and exports', async () => {
+      stored = { settingsVersion: 1, defaultFormat: 'webp', foo: 'bar', screenshotTheme: 'dark' };
+
+      const settings = await SettingsService.load();
+      const exported = JSON.parse(await SettingsTransfer.export());
+
+      expect(settings).toEqual({ ...DEFAULT_SETTINGS, defaultFormat: 'webp' });
+      expect(exported.settings).toEqual({ ...DEFAULT_SETTINGS, defaultFormat: 'webp' });
+    });
+
+    it('should not save unknown keys through replace', async () => {
+      await SettingsService.replace({ defaultFormat: 'webp', foo: 'bar' } as Partial<UserSettings>);
+
+      expect(stored.defaultFormat).toBe('webp');
+      expect(stored).not.toHaveProperty('foo');
+    });
+  });
+
+  describe('preview', () => {
+    it('should keep settings the document leaves out when merging', async () => {
+      stored = { filenameTemplate: 'team-{date}', autoDownload: false };
+      const document = SettingsTransfer.parse(documentJson({ defaultFormat: 'webp' }));
+
+      const preview = await SettingsTransfer.preview(document, 'merge');
+
+      expect(preview.settings).toEqual({ ...DEFAULT_SETTINGS, filenameTemplate: 'team-{date}', autoDownload: false, defaultFormat: 'webp' });
+      expect(preview.changes).toEqual([{ key: 'defaultFormat', before: 'png', after: 'webp', locked: false }]);
+      expect(preview.savedTargets).toBeNull();
+      expect(mockChrome.storage.sync.set).not.toHaveBeenCalled();
+    });
+
+    it('should reset settings the document leaves out when replacing', async () => {
+      stored = { filenameTemplate: 'team-{date}' };
+      const document = SettingsTransfer.parse(documentJson({ defaultFormat: 'webp' }));
+
+      const preview = await SettingsTransfer.preview(document, 'replace');
+
+      expect(preview.changes.map(change => change.key)).toEqual(['defaultFormat', 'filenameTemplate']);
+      expect(preview.settings.filenameTemplate).toBe(DEFAULT_SETTINGS.filenameTemplate);
+    });
+
+    it('should merge capture profiles by name', () => {
+      const merged = SettingsTransfer.mergeProfiles(
+        [{ name: 'Docs', pattern: 'docs.example.com' }, { name: 'Mine', pattern: 'me.example.com' }],
+        [{ name: 'Internal', pattern: '*.corp.example.com' }, { name: 'Docs', pattern: '*.docs.example.com', format: 'png' }]
+      );
+
+      expect(merged).toEqual([
+        { name: 'Docs', pattern: '*.docs.example.com', format: 'png' },
+        { name: 'Mine', pattern: 'me.example.com' },
+        { name: 'Internal', pattern: '*.corp.example.com' }
+      ]);
+    });
+
+    it('should count saved target changes', async () => {
+      savedTargets = [target('a', '#a'), target('b', '#b')];
+      const document = SettingsTransfer.parse(documentJson({}, { savedTargets: [target('x', '#b', 5), target('c', '#c')] }));
+
+      expect((await SettingsTransfer.preview(document, 'merge')).savedTargets).toEqual({ added: 1, updated: 1, removed: 0 });
+      expect((await SettingsTransfer.preview(document, 'replace')).savedTargets).toEqual({ added: 1, updated: 1, removed: 1 });
+    });
+  });
+
+  describe('policy', () => {
+    it('should load policy values over stored ones and report them as locked', async () => {
+      stored = { filenameTemplate: 'mine-{date}', defaultFormat: 'webp' };
+      managed = { filenameTemplate: 'corp-{date}', defaultQuality: 500 };
+
+      const settings = await SettingsService.load();
+
+      expect(settings.filenameTemplate).toBe('corp-{date}');
+      expect(settings.defaultFormat).toBe('webp');
+      // Invalid policy values are ignored
+      expect(settings.defaultQuality).toBe(DEFAULT_SETTINGS.defaultQuality);
+      expect(await SettingsService.getLockedKeys()).toEqual(['filenameTemplate']);
+    });
+
+    it('should not save locked settings', async () => {
+      managed = { filenameTemplate: 'corp-{date}' };
+
+      const settings = await SettingsService.update({ filenameTemplate: 'mine-{date}', autoDownload: false });
+
+      expect(settings.filenameTemplate).toBe('corp-{date}');
+      expect(stored.filenameTemplate).toBeUndefined();
+      expect(stored.autoDownload).toBe(false);
+    });
+
+    it('should leave locked settings out of imports and say so', async () => {
+      managed = { filenameTemplate: 'corp-{date}' };
+      stored = { keepHeaderSites: ['old.example.com'] };
+      const document = SettingsTransfer.parse(documentJson({ filenameTemplate: 'team-{date}', defaultFormat: 'jpeg' }, {
+        savedTargets: [target('a', '#a')]
+      }));
+
+      const result = await SettingsTransfer.apply(document, 'replace');
+
+      expect(result.changes).toContainEqual({ key: 'filenameTemplate', before: 'corp-{date}', after: 'team-{date}', locked: true });
+      expect(stored.filenameTemplate).toBeUndefined();
+      expect(stored.defaultFormat).toBe('jpeg');
+      expect(stored.keepHeaderSites).toBeUndefined();
+      expect(savedTargets).toEqual([target('a', '#a')]);
+    });
+  });
+});
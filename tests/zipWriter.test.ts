@@ -0,0 +1,92 @@
+// Tests for the ZIP writer used by multi-element captures
+
+import { describe, it, expect } from 'vitest';
+import { crc32 } from 'zlib';
+import { ZipWriter } from '../src/utils/zipWriter';
+import { dataUrlToBytes } from '../src/utils/dataUrl';
+
+const FIRST = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+const SECOND = new Uint8Array([0xff, 0xd8, 0xff, 0xd9]);
+
+function readEntries(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(offset + 46, offset + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const size = view.getUint32(localOffset + 22, true);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+
+    entries.push({
+      name,
+      crc: view.getUint32(offset + 16, true),
+      method: view.getUint16(offset + 10, true),
+      data: zip.subarray(dataStart, dataStart + size)
+    });
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe('ZipWriter', () => {
+  it('should store every file with its name and checksum', () => {
+    const writer = new ZipWriter();
+    writer.addFile('shot_01.png', FIRST);
+    writer.addFile('shot_02.jpg', SECOND);
+
+    const entries = readEntries(writer.toBytes());
+
+    expect(entries.map(entry => entry.name)).toEqual(['shot_01.png', 'shot_02.jpg']);
+    expect(entries[0].data).toEqual(FIRST);
+    expect(entries[1].data).toEqual(SECOND);
+    expect(entries[0].crc).toBe(crc32(FIRST));
+    expect(entries.every(entry => entry.method === 0)).toBe(true);
+  });
+
+  it('should keep non-ASCII names as UTF-8', () => {
+    const writer = new ZipWriter();
+    writer.addFile('截圖_01.png', FIRST);
+
+    const zip = writer.toBytes();
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint16(6, true) & 0x0800).toBe(0x0800);
+    expect(readEntries(zip)[0].name).toBe('截圖_01.png');
+  });
+
+  it('should record the modification time in MS-DOS format', () => {
+    const writer = new ZipWriter();
+    writer.addFile('a.png', FIRST, new Date(2024, 0, 15, 10, 30, 45));
+
+    const view = new DataView(writer.toBytes().buffer);
+
+    expect(view.getUint16(10, true)).toBe((10 << 11) | (30 << 5) | 22);
+    expect(view.getUint16(12, true)).toBe((44 << 9) | (1 << 5) | 15);
+  });
+
+  it('should round-trip through a data URL', () => {
+    const writer = new ZipWriter();
+    writer.addFile('a.png', FIRST);
+
+    const dataUrl = writer.toDataUrl();
+
+    expect(dataUrl.startsWith('data:application/zip;base64,')).toBe(true);
+    expect(dataUrlToBytes(dataUrl)).toEqual(writer.toBytes());
+  });
+
+  it('should refuse an empty archive', () => {
+    expect(() => new ZipWriter().toBytes()).toThrow('ZIP archive has no files');
+    expect(() => dataUrlToBytes('data:text/plain,hello')).toThrow('Expected a base64 data URL');
+  });
+});
@@ -6,7 +6,9 @@ module.exports = {
     background: './src/background/background.ts',
     content: './src/content/content.ts',
     popup: './src/popup/popup.ts',
-    options: './src/options/options.ts'
+    options: './src/options/options.ts',
+    offscreen: './src/offscreen/offscreen.ts',
+    history: './src/history/history.ts'
   },
   module: {
     rules: [